@@ -3,9 +3,17 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import "@xterm/xterm/css/xterm.css";
 
+import { AutomationProvider } from "@/components/automation/automation-provider";
+import { ConfigBackupProvider } from "@/components/backup/config-backup-provider";
+import { ColorSchemeProvider } from "@/components/color-schemes/color-scheme-provider";
+import { CommandHistoryProvider } from "@/components/command-history/command-history-provider";
+import { HighlightProvider } from "@/components/highlight/highlight-provider";
 import { LocaleProvider } from "@/components/locale/locale-provider";
+import { ShortcutProvider } from "@/components/shortcuts/shortcut-provider";
+import { SnippetProvider } from "@/components/snippets/snippet-provider";
 import { TauriBridgeProvider } from "@/components/desktop/tauri-bridge-provider";
 import { TerminalSettingsProvider } from "@/components/terminal/terminal-settings-provider";
+import { TriggerProvider } from "@/components/triggers/trigger-provider";
 import { ThemeProvider } from "@/components/theme-provider";
 import { defaultLocale } from "@/lib/i18n/config";
 
@@ -37,7 +45,23 @@ export default function RootLayout({
         <ThemeProvider attribute="class" defaultTheme="light" enableSystem>
           <TauriBridgeProvider>
             <LocaleProvider>
-              <TerminalSettingsProvider>{children}</TerminalSettingsProvider>
+              <TerminalSettingsProvider>
+                <ShortcutProvider>
+                  <ColorSchemeProvider>
+                    <HighlightProvider>
+                      <TriggerProvider>
+                        <SnippetProvider>
+                          <CommandHistoryProvider>
+                            <AutomationProvider>
+                              <ConfigBackupProvider>{children}</ConfigBackupProvider>
+                            </AutomationProvider>
+                          </CommandHistoryProvider>
+                        </SnippetProvider>
+                      </TriggerProvider>
+                    </HighlightProvider>
+                  </ColorSchemeProvider>
+                </ShortcutProvider>
+              </TerminalSettingsProvider>
             </LocaleProvider>
           </TauriBridgeProvider>
         </ThemeProvider>
@@ -0,0 +1,345 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, type FormEvent } from "react";
+import { FlaskConical, Play, Plus, Save, SkipForward, Square, Trash2, X } from "lucide-react";
+
+import { useAutomationScripts } from "@/components/automation/automation-provider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AutomationRunner,
+  extractAutomationVariables,
+  generateAutomationScriptId,
+  parseAutomationScript,
+  type AutomationLogEntry,
+  type AutomationLogLevel,
+  type AutomationRunMode,
+  type AutomationScript,
+  type AutomationSessionIo,
+} from "@/lib/automation";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import { cn } from "@/lib/utils";
+
+type AutomationPanelProps = {
+  dictionary: HomeDictionary["automation"];
+  /** 目标会话的显示名称，null 表示没有可用会话 */
+  targetLabel: string | null;
+  io: AutomationSessionIo | null;
+  onClose: () => void;
+};
+
+const SELECT_CLASS =
+  "w-full appearance-none rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary";
+
+const MAX_LOG_ENTRIES = 500;
+const SECRET_VARIABLE = /pass|secret|key|token/i;
+
+const logTone: Record<AutomationLogLevel, string> = {
+  info: "text-muted-foreground",
+  send: "text-sky-600 dark:text-sky-400",
+  expect: "text-amber-600 dark:text-amber-400",
+  match: "text-emerald-600 dark:text-emerald-400",
+  error: "text-destructive",
+  done: "text-emerald-600 dark:text-emerald-400",
+};
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], { hour12: false });
+}
+
+export function AutomationPanel({ dictionary, targetLabel, io, onClose }: AutomationPanelProps) {
+  const { scripts, saveScript, deleteScript } = useAutomationScripts();
+  const runnerRef = useRef<AutomationRunner | null>(null);
+  const logEndRef = useRef<HTMLDivElement | null>(null);
+  const [draft, setDraft] = useState<AutomationScript>(() => scripts[0] ?? { id: generateAutomationScriptId(), name: "", source: "" });
+  const [stepping, setStepping] = useState(false);
+  const [running, setRunning] = useState<AutomationRunMode | null>(null);
+  const [pausedLine, setPausedLine] = useState<number | null>(null);
+  const [log, setLog] = useState<AutomationLogEntry[]>([]);
+  /** 运行前待填写的变量；null 表示未在等待输入 */
+  const [pendingValues, setPendingValues] = useState<Record<string, string> | null>(null);
+
+  const program = useMemo(() => parseAutomationScript(draft.source), [draft.source]);
+  const inputs = useMemo(() => extractAutomationVariables(program.statements), [program]);
+  const saved = scripts.find((script) => script.id === draft.id);
+  const isDirty = !saved || saved.name !== draft.name || saved.source !== draft.source;
+
+  useEffect(() => {
+    logEndRef.current?.scrollIntoView({ block: "end" });
+  }, [log]);
+
+  // 面板卸载时终止正在运行的脚本
+  useEffect(() => () => runnerRef.current?.cancel(), []);
+
+  const start = useCallback(
+    (mode: AutomationRunMode, variables: Record<string, string> = {}) => {
+      if (runnerRef.current || program.diagnostics.length > 0) {
+        return;
+      }
+      if (mode === "run" && !io) {
+        return;
+      }
+      setPendingValues(null);
+      const runner = new AutomationRunner({
+        io: io ?? { write: () => undefined, subscribe: () => () => undefined },
+        mode,
+        stepping,
+        variables,
+        onLog: (entry) => setLog((previous) => [...previous, entry].slice(-MAX_LOG_ENTRIES)),
+        onPause: setPausedLine,
+      });
+      runnerRef.current = runner;
+      setRunning(mode);
+      setLog([]);
+      void runner.run(program.statements).finally(() => {
+        if (runnerRef.current === runner) {
+          runnerRef.current = null;
+        }
+        setRunning(null);
+        setPausedLine(null);
+      });
+    },
+    [io, program, stepping]
+  );
+
+  // 口令等变量只在运行前填写，不保存在脚本里
+  const requestRun = () => {
+    if (inputs.length === 0) {
+      start("run");
+      return;
+    }
+    setPendingValues(Object.fromEntries(inputs.map((name) => [name, ""])));
+  };
+
+  const handlePendingSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (pendingValues) {
+      start("run", pendingValues);
+    }
+  };
+
+  const handleToggleStepping = (value: boolean) => {
+    setStepping(value);
+    runnerRef.current?.setStepping(value);
+  };
+
+  const handleSelect = (id: string) => {
+    const script = scripts.find((entry) => entry.id === id);
+    if (script) {
+      setDraft(script);
+      setPendingValues(null);
+    }
+  };
+
+  const handleNew = () => {
+    setDraft({ id: generateAutomationScriptId(), name: "", source: "" });
+  };
+
+  const handleSave = () => {
+    saveScript({ ...draft, name: draft.name.trim() || dictionary.untitled });
+    setDraft((previous) => ({ ...previous, name: previous.name.trim() || dictionary.untitled }));
+  };
+
+  const handleDelete = () => {
+    deleteScript(draft.id);
+    const next = scripts.find((script) => script.id !== draft.id);
+    setDraft(next ?? { id: generateAutomationScriptId(), name: "", source: "" });
+  };
+
+  return (
+    <div className="fixed right-0 top-16 bottom-0 z-40 flex w-[360px] flex-col border-l bg-card/95 shadow-xl backdrop-blur supports-[backdrop-filter]:bg-card/80">
+      <div className="space-y-1 border-b px-5 py-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold">{dictionary.title}</p>
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onClose} title={dictionary.closeButton}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">{dictionary.description}</p>
+        <p className={cn("text-xs", targetLabel ? "font-medium text-foreground/80" : "text-muted-foreground")}>
+          {targetLabel ? dictionary.targetLabel.replace("{name}", targetLabel) : dictionary.noTarget}
+        </p>
+      </div>
+
+      <div className="flex-1 space-y-3 overflow-y-auto px-5 py-4">
+        <div className="flex items-center gap-2">
+          <select
+            aria-label={dictionary.scriptLabel}
+            className={cn(SELECT_CLASS, "h-8 py-1 text-xs")}
+            value={saved ? draft.id : ""}
+            onChange={(event) => handleSelect(event.target.value)}
+            disabled={Boolean(running)}
+          >
+            {!saved && <option value="">{draft.name.trim() || dictionary.untitled}</option>}
+            {scripts.map((script) => (
+              <option key={script.id} value={script.id}>
+                {script.name}
+              </option>
+            ))}
+          </select>
+          <Button size="sm" variant="secondary" className="h-8 shrink-0" onClick={handleNew} disabled={Boolean(running)}>
+            <Plus className="h-4 w-4" />
+            {dictionary.newButton}
+          </Button>
+        </div>
+
+        <div className="grid gap-1.5">
+          <Label htmlFor="automation-name" className="text-xs">{dictionary.nameLabel}</Label>
+          <Input
+            id="automation-name"
+            value={draft.name}
+            onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+            placeholder={dictionary.untitled}
+            className="h-8 text-xs"
+          />
+        </div>
+
+        <div className="grid gap-1.5">
+          <Label htmlFor="automation-source" className="text-xs">{dictionary.sourceLabel}</Label>
+          <textarea
+            id="automation-source"
+            value={draft.source}
+            onChange={(event) => setDraft({ ...draft, source: event.target.value })}
+            rows={12}
+            spellCheck={false}
+            className="w-full rounded-md border border-border bg-background px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          {program.diagnostics.length > 0 ? (
+            <ul className="space-y-0.5 text-[11px] text-destructive">
+              {program.diagnostics.map((diagnostic) => (
+                <li key={`${diagnostic.line}-${diagnostic.message}`}>
+                  {dictionary.diagnosticLine
+                    .replace("{line}", String(diagnostic.line))
+                    .replace("{message}", diagnostic.message)}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-[11px] text-muted-foreground">{dictionary.sourceHint}</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {saved && (
+            <Button size="sm" variant="ghost" className="h-8" onClick={handleDelete} disabled={Boolean(running)}>
+              <Trash2 className="h-3.5 w-3.5" />
+              {dictionary.deleteButton}
+            </Button>
+          )}
+          <Button size="sm" variant="secondary" className="h-8" onClick={handleSave} disabled={!isDirty}>
+            <Save className="h-3.5 w-3.5" />
+            {dictionary.saveButton}
+          </Button>
+        </div>
+
+        <div className="space-y-2 rounded-lg border border-border/60 bg-muted/30 p-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              size="sm"
+              className="h-8"
+              onClick={requestRun}
+              disabled={Boolean(running) || !io || program.diagnostics.length > 0}
+            >
+              <Play className="h-3.5 w-3.5" />
+              {dictionary.runButton}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8"
+              onClick={() => start("dry-run")}
+              disabled={Boolean(running) || program.diagnostics.length > 0}
+            >
+              <FlaskConical className="h-3.5 w-3.5" />
+              {dictionary.dryRunButton}
+            </Button>
+            {running && (
+              <Button size="sm" variant="ghost" className="h-8" onClick={() => runnerRef.current?.cancel()}>
+                <Square className="h-3.5 w-3.5" />
+                {dictionary.cancelButton}
+              </Button>
+            )}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                className="h-3.5 w-3.5 accent-primary"
+                checked={stepping}
+                onChange={(event) => handleToggleStepping(event.target.checked)}
+              />
+              {dictionary.stepLabel}
+            </label>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs"
+              onClick={() => runnerRef.current?.step()}
+              disabled={pausedLine === null}
+            >
+              <SkipForward className="h-3.5 w-3.5" />
+              {dictionary.nextStepButton}
+            </Button>
+          </div>
+          {pendingValues && !running && (
+            <form className="space-y-2 rounded-md border border-primary/40 bg-background/80 p-2" onSubmit={handlePendingSubmit}>
+              <p className="text-xs font-semibold">{dictionary.variablesTitle}</p>
+              {Object.keys(pendingValues).map((name, index) => (
+                <div key={name} className="grid gap-1">
+                  <Label htmlFor={`automation-var-${name}`} className="font-mono text-xs">{name}</Label>
+                  <Input
+                    id={`automation-var-${name}`}
+                    type={SECRET_VARIABLE.test(name) ? "password" : "text"}
+                    autoComplete="off"
+                    value={pendingValues[name]}
+                    onChange={(event) => setPendingValues({ ...pendingValues, [name]: event.target.value })}
+                    className="h-8 text-xs"
+                    autoFocus={index === 0}
+                  />
+                </div>
+              ))}
+              <div className="flex justify-end gap-2">
+                <Button type="button" size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setPendingValues(null)}>
+                  {dictionary.variablesCancelButton}
+                </Button>
+                <Button type="submit" size="sm" className="h-7 text-xs" disabled={!io}>
+                  <Play className="h-3.5 w-3.5" />
+                  {dictionary.runButton}
+                </Button>
+              </div>
+            </form>
+          )}
+          {running && (
+            <p className="text-[11px] text-muted-foreground">
+              {pausedLine !== null ? dictionary.pausedAt.replace("{line}", String(pausedLine)) : dictionary.running}
+            </p>
+          )}
+        </div>
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-[11px] font-medium uppercase tracking-[0.18em] text-muted-foreground">{dictionary.logTitle}</p>
+            <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setLog([])} disabled={log.length === 0}>
+              {dictionary.clearLogButton}
+            </Button>
+          </div>
+          {log.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{dictionary.logEmpty}</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto rounded-md border border-border/60 bg-background/80 p-2 font-mono text-[11px]">
+              {log.map((entry, index) => (
+                <div key={index} className={cn("whitespace-pre-wrap break-all", logTone[entry.level])}>
+                  <span className="text-muted-foreground">{formatTime(entry.timestamp)} </span>
+                  {entry.line !== undefined && <span className="text-muted-foreground">L{entry.line} </span>}
+                  {entry.message}
+                </div>
+              ))}
+              <div ref={logEndRef} />
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
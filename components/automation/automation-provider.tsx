@@ -0,0 +1,150 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+
+import { DEFAULT_AUTOMATION_SCRIPTS, sanitizeAutomationScript, type AutomationScript } from "@/lib/automation";
+
+const LOCAL_STORAGE_KEY = "pnet-tool.automation-scripts";
+
+export type AutomationContextValue = {
+  scripts: AutomationScript[];
+  isReady: boolean;
+  saveScript: (script: AutomationScript) => void;
+  deleteScript: (id: string) => void;
+};
+
+const AutomationContext = createContext<AutomationContextValue | null>(null);
+
+function sanitizeScripts(input: unknown): AutomationScript[] | null {
+  if (!Array.isArray(input)) {
+    return null;
+  }
+  return input
+    .map((entry) => sanitizeAutomationScript(entry as Partial<AutomationScript>))
+    .filter((entry): entry is AutomationScript => Boolean(entry));
+}
+
+async function readDesktopScripts(): Promise<AutomationScript[] | null> {
+  if (typeof window === "undefined" || !window.desktopBridge?.settings) {
+    return null;
+  }
+  try {
+    const settings = await window.desktopBridge.settings.get();
+    return sanitizeScripts(settings?.automationScripts);
+  } catch (error) {
+    console.warn("Failed to read desktop automation scripts", error);
+    return null;
+  }
+}
+
+function readLocalStorageScripts(): AutomationScript[] | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  try {
+    const stored = window.localStorage?.getItem(LOCAL_STORAGE_KEY);
+    return stored ? sanitizeScripts(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.warn("Failed to read automation scripts from localStorage", error);
+    return null;
+  }
+}
+
+async function persistScripts(scripts: AutomationScript[]) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    window.localStorage?.setItem(LOCAL_STORAGE_KEY, JSON.stringify(scripts));
+  } catch (error) {
+    console.warn("Failed to persist automation scripts to localStorage", error);
+  }
+
+  try {
+    await window.desktopBridge?.settings?.setAutomationScripts(scripts);
+  } catch (error) {
+    console.warn("Failed to persist automation scripts to desktop settings", error);
+  }
+}
+
+export function AutomationProvider({ children }: { children: ReactNode }) {
+  const [scripts, setScripts] = useState<AutomationScript[]>(DEFAULT_AUTOMATION_SCRIPTS);
+  const [isReady, setReady] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    const bootstrap = async () => {
+      const desktopScripts = await readDesktopScripts();
+      if (!active) {
+        return;
+      }
+      const stored = desktopScripts ?? readLocalStorageScripts();
+      if (stored) {
+        setScripts(stored);
+      }
+      setReady(true);
+    };
+
+    bootstrap().catch((error) => {
+      console.error("Failed to bootstrap automation scripts", error);
+      if (active) {
+        setReady(true);
+      }
+    });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const update = useCallback((transform: (previous: AutomationScript[]) => AutomationScript[]) => {
+    setScripts((previous) => {
+      const next = transform(previous);
+      void persistScripts(next);
+      return next;
+    });
+  }, []);
+
+  const saveScript = useCallback(
+    (script: AutomationScript) => {
+      const sanitized = sanitizeAutomationScript(script);
+      if (!sanitized) {
+        return;
+      }
+      update((previous) => {
+        const index = previous.findIndex((entry) => entry.id === sanitized.id);
+        if (index === -1) {
+          return [...previous, sanitized];
+        }
+        const next = [...previous];
+        next[index] = sanitized;
+        return next;
+      });
+    },
+    [update]
+  );
+
+  const deleteScript = useCallback(
+    (id: string) => {
+      update((previous) => previous.filter((entry) => entry.id !== id));
+    },
+    [update]
+  );
+
+  const value = useMemo<AutomationContextValue>(
+    () => ({ scripts, isReady, saveScript, deleteScript }),
+    [deleteScript, isReady, saveScript, scripts]
+  );
+
+  return <AutomationContext.Provider value={value}>{children}</AutomationContext.Provider>;
+}
+
+export function useAutomationScripts() {
+  const context = useContext(AutomationContext);
+  if (!context) {
+    throw new Error("useAutomationScripts must be used within an AutomationProvider");
+  }
+  return context;
+}
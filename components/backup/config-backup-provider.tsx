@@ -0,0 +1,116 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import type { ReactNode } from "react";
+
+import {
+  ConfigSnapshotQuotaError,
+  appendConfigSnapshot,
+  isQuotaExceededError,
+  sanitizeConfigSnapshot,
+  type ConfigSnapshot,
+} from "@/lib/backup";
+
+// 配置快照体积较大，只保存在本地存储中，不写入桌面端设置文件
+const LOCAL_STORAGE_KEY = "pnet-tool.config-snapshots";
+
+export type ConfigBackupContextValue = {
+  snapshots: ConfigSnapshot[];
+  isReady: boolean;
+  /** 本地存储已满时抛出 ConfigSnapshotQuotaError，快照列表保持不变 */
+  addSnapshot: (snapshot: ConfigSnapshot) => void;
+  deleteSnapshot: (id: string) => void;
+};
+
+const ConfigBackupContext = createContext<ConfigBackupContextValue | null>(null);
+
+function readLocalStorageSnapshots(): ConfigSnapshot[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+  try {
+    const stored = window.localStorage?.getItem(LOCAL_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .map((entry) => sanitizeConfigSnapshot(entry as Partial<ConfigSnapshot>))
+      .filter((entry): entry is ConfigSnapshot => Boolean(entry));
+  } catch (error) {
+    console.warn("Failed to read config snapshots from localStorage", error);
+    return [];
+  }
+}
+
+function persistSnapshots(snapshots: ConfigSnapshot[]) {
+  if (typeof window === "undefined") {
+    return;
+  }
+  try {
+    window.localStorage?.setItem(LOCAL_STORAGE_KEY, JSON.stringify(snapshots));
+  } catch (error) {
+    if (isQuotaExceededError(error)) {
+      throw new ConfigSnapshotQuotaError({ cause: error });
+    }
+    console.warn("Failed to persist config snapshots to localStorage", error);
+  }
+}
+
+export function ConfigBackupProvider({ children }: { children: ReactNode }) {
+  const [snapshots, setSnapshots] = useState<ConfigSnapshot[]>([]);
+  const [isReady, setReady] = useState(false);
+  // 先写入存储再更新状态，写入失败的异常才能同步抛给调用方
+  const snapshotsRef = useRef<ConfigSnapshot[]>([]);
+
+  useEffect(() => {
+    const stored = readLocalStorageSnapshots();
+    snapshotsRef.current = stored;
+    setSnapshots(stored);
+    setReady(true);
+  }, []);
+
+  const update = useCallback((transform: (previous: ConfigSnapshot[]) => ConfigSnapshot[]) => {
+    const next = transform(snapshotsRef.current);
+    persistSnapshots(next);
+    snapshotsRef.current = next;
+    setSnapshots(next);
+  }, []);
+
+  const addSnapshot = useCallback(
+    (snapshot: ConfigSnapshot) => {
+      const sanitized = sanitizeConfigSnapshot(snapshot);
+      if (!sanitized) {
+        return;
+      }
+      update((previous) => appendConfigSnapshot(previous, sanitized));
+    },
+    [update]
+  );
+
+  const deleteSnapshot = useCallback(
+    (id: string) => {
+      try {
+        update((previous) => previous.filter((entry) => entry.id !== id));
+      } catch (error) {
+        console.warn("Failed to delete config snapshot", error);
+      }
+    },
+    [update]
+  );
+
+  const value = useMemo<ConfigBackupContextValue>(
+    () => ({ snapshots, isReady, addSnapshot, deleteSnapshot }),
+    [addSnapshot, deleteSnapshot, isReady, snapshots]
+  );
+
+  return <ConfigBackupContext.Provider value={value}>{children}</ConfigBackupContext.Provider>;
+}
+
+export function useConfigBackups() {
+  const context = useContext(ConfigBackupContext);
+  if (!context) {
+    throw new Error("useConfigBackups must be used within a ConfigBackupProvider");
+  }
+  return context;
+}
@@ -0,0 +1,262 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { LoaderCircle, Trash2, X } from "lucide-react";
+
+import { useConfigBackups } from "@/components/backup/config-backup-provider";
+import { Button } from "@/components/ui/button";
+import { diffConfigs, type ConfigDiffRow, type ConfigDiffSide } from "@/lib/backup";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import { cn } from "@/lib/utils";
+
+export type ConfigBackupJob = {
+  hostname: string;
+  state: "running" | "done" | "error";
+  message?: string;
+};
+
+type ConfigHistoryPanelProps = {
+  dictionary: HomeDictionary["backup"];
+  job: ConfigBackupJob | null;
+  /** 打开面板时默认选中的设备 */
+  hostname: string | null;
+  onClose: () => void;
+};
+
+const SELECT_CLASS =
+  "w-full appearance-none rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary";
+
+/** 仅显示差异时，差异行上下保留的上下文行数 */
+const DIFF_CONTEXT_LINES = 3;
+
+const rowTone: Record<ConfigDiffRow["type"], { left: string; right: string }> = {
+  same: { left: "", right: "" },
+  removed: { left: "bg-destructive/10 text-destructive", right: "bg-muted/40" },
+  added: { left: "bg-muted/40", right: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-300" },
+  changed: {
+    left: "bg-destructive/10 text-destructive",
+    right: "bg-emerald-500/10 text-emerald-700 dark:text-emerald-300",
+  },
+};
+
+function formatTimestamp(timestamp: number) {
+  return new Date(timestamp).toLocaleString([], { hour12: false });
+}
+
+function DiffCell({ side, tone }: { side?: ConfigDiffSide; tone: string }) {
+  return (
+    <div className={cn("flex min-w-0 gap-2 px-2", tone)}>
+      <span className="w-8 shrink-0 select-none text-right text-muted-foreground">{side?.line ?? ""}</span>
+      <span className="min-w-0 whitespace-pre-wrap break-all">{side?.text ?? ""}</span>
+    </div>
+  );
+}
+
+export function ConfigHistoryPanel({ dictionary, job, hostname, onClose }: ConfigHistoryPanelProps) {
+  const { snapshots, deleteSnapshot } = useConfigBackups();
+  const [device, setDevice] = useState<string | null>(hostname);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  useEffect(() => {
+    if (hostname) {
+      setDevice(hostname);
+    }
+  }, [hostname]);
+
+  const devices = useMemo(() => {
+    const names = Array.from(new Set(snapshots.map((snapshot) => snapshot.hostname)));
+    return names.sort((a, b) => a.localeCompare(b));
+  }, [snapshots]);
+
+  const selectedDevice = device && devices.includes(device) ? device : (devices[0] ?? null);
+
+  // 快照按时间倒序排列
+  const history = useMemo(
+    () => snapshots.filter((snapshot) => snapshot.hostname === selectedDevice),
+    [selectedDevice, snapshots]
+  );
+
+  // 设备或快照列表变化时，默认比较最近两次快照
+  useEffect(() => {
+    setCompareId(history[0]?.id ?? null);
+    setBaseId(history[1]?.id ?? history[0]?.id ?? null);
+  }, [history]);
+
+  const base = history.find((snapshot) => snapshot.id === baseId) ?? null;
+  const compare = history.find((snapshot) => snapshot.id === compareId) ?? null;
+
+  const diff = useMemo(() => (base && compare ? diffConfigs(base.content, compare.content) : null), [base, compare]);
+
+  const visibleRows = useMemo(() => {
+    if (!diff) {
+      return [];
+    }
+    if (!changesOnly) {
+      return diff.rows.map((row, index) => ({ row, index, gap: false }));
+    }
+    const keep = new Set<number>();
+    diff.rows.forEach((row, index) => {
+      if (row.type === "same") {
+        return;
+      }
+      for (let offset = -DIFF_CONTEXT_LINES; offset <= DIFF_CONTEXT_LINES; offset += 1) {
+        keep.add(index + offset);
+      }
+    });
+    let previous = -1;
+    return diff.rows.flatMap((row, index) => {
+      if (!keep.has(index)) {
+        return [];
+      }
+      const gap = previous !== -1 && index - previous > 1;
+      previous = index;
+      return [{ row, index, gap }];
+    });
+  }, [changesOnly, diff]);
+
+  const jobMessage = job
+    ? (job.state === "running"
+        ? dictionary.capturing
+        : job.state === "done"
+          ? dictionary.captured
+          : dictionary.failed
+      )
+        .replace("{name}", job.hostname)
+        .replace("{message}", job.message ?? "")
+    : null;
+
+  return (
+    <div className="fixed right-0 top-16 bottom-0 z-40 flex w-[720px] max-w-full flex-col border-l bg-card/95 shadow-xl backdrop-blur supports-[backdrop-filter]:bg-card/80">
+      <div className="space-y-1 border-b px-5 py-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold">{dictionary.title}</p>
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onClose} title={dictionary.closeButton}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">{dictionary.description}</p>
+        {job && jobMessage && (
+          <p
+            className={cn(
+              "flex items-center gap-1.5 text-xs",
+              job.state === "error" ? "text-destructive" : job.state === "done" ? "text-emerald-600 dark:text-emerald-400" : "text-muted-foreground"
+            )}
+          >
+            {job.state === "running" && <LoaderCircle className="h-3.5 w-3.5 animate-spin" />}
+            {jobMessage}
+          </p>
+        )}
+      </div>
+
+      {devices.length === 0 ? (
+        <p className="px-5 py-4 text-xs text-muted-foreground">{dictionary.empty}</p>
+      ) : (
+        <div className="flex min-h-0 flex-1 flex-col">
+          <div className="space-y-2 border-b px-5 py-3">
+            <select
+              aria-label={dictionary.deviceLabel}
+              className={cn(SELECT_CLASS, "h-8 py-1 text-xs")}
+              value={selectedDevice ?? ""}
+              onChange={(event) => setDevice(event.target.value)}
+            >
+              {devices.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <div className="max-h-40 space-y-1 overflow-y-auto">
+              <div className="grid grid-cols-[2rem_2rem_1fr_auto] items-center gap-2 px-2 text-[11px] font-medium text-muted-foreground">
+                <span>{dictionary.baseLabel}</span>
+                <span>{dictionary.compareLabel}</span>
+                <span>{dictionary.capturedAtLabel}</span>
+                <span className="sr-only">{dictionary.deleteButton}</span>
+              </div>
+              {history.map((snapshot) => (
+                <div
+                  key={snapshot.id}
+                  className="grid grid-cols-[2rem_2rem_1fr_auto] items-center gap-2 rounded-md border border-border/60 bg-muted/30 px-2 py-1 text-xs"
+                >
+                  <input
+                    type="radio"
+                    name="config-base"
+                    className="h-3.5 w-3.5 accent-primary"
+                    checked={snapshot.id === baseId}
+                    onChange={() => setBaseId(snapshot.id)}
+                    aria-label={dictionary.baseLabel}
+                  />
+                  <input
+                    type="radio"
+                    name="config-compare"
+                    className="h-3.5 w-3.5 accent-primary"
+                    checked={snapshot.id === compareId}
+                    onChange={() => setCompareId(snapshot.id)}
+                    aria-label={dictionary.compareLabel}
+                  />
+                  <span className="truncate">
+                    {formatTimestamp(snapshot.capturedAt)}
+                    <span className="ml-2 text-muted-foreground">
+                      {snapshot.host}:{snapshot.port} ·{" "}
+                      {dictionary.lineCount.replace("{count}", String(snapshot.content.split("\n").length))}
+                    </span>
+                  </span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => deleteSnapshot(snapshot.id)}
+                    title={dictionary.deleteButton}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {diff && base && compare && (
+            <div className="flex items-center justify-between border-b px-5 py-2 text-xs">
+              {base.id === compare.id ? (
+                <span className="text-muted-foreground">{dictionary.sameSnapshot}</span>
+              ) : diff.added === 0 && diff.removed === 0 ? (
+                <span className="text-muted-foreground">{dictionary.identical}</span>
+              ) : (
+                <span className="font-mono">
+                  <span className="text-emerald-600 dark:text-emerald-400">+{diff.added}</span>{" "}
+                  <span className="text-destructive">−{diff.removed}</span>
+                </span>
+              )}
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="h-3.5 w-3.5 accent-primary"
+                  checked={changesOnly}
+                  onChange={(event) => setChangesOnly(event.target.checked)}
+                />
+                {dictionary.changesOnly}
+              </label>
+            </div>
+          )}
+
+          <div className="min-h-0 flex-1 overflow-auto py-2 font-mono text-[11px] leading-5">
+            {base && compare && base.id !== compare.id ? (
+              visibleRows.map(({ row, index, gap }) => (
+                <div key={index}>
+                  {gap && <div className="px-2 text-center text-muted-foreground">⋯</div>}
+                  <div className="grid grid-cols-2 divide-x divide-border/60">
+                    <DiffCell side={row.left} tone={rowTone[row.type].left} />
+                    <DiffCell side={row.right} tone={rowTone[row.type].right} />
+                  </div>
+                </div>
+              ))
+            ) : compare ? (
+              <pre className="whitespace-pre-wrap break-all px-4">{compare.content}</pre>
+            ) : null}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+
+import {
+  BUILTIN_COLOR_SCHEMES,
+  DEFAULT_DARK_SCHEME_ID,
+  DEFAULT_LIGHT_SCHEME_ID,
+  sanitizeColorScheme,
+  type ColorScheme,
+  type ColorSchemeMode,
+} from "@/lib/color-schemes";
+import type { ColorSchemeSettings } from "@/types/desktop-bridge";
+
+const LOCAL_STORAGE_KEY = "pnet-tool.color-schemes";
+
+const DEFAULT_STATE: ColorSchemeSettings = {
+  schemes: [],
+  lightSchemeId: DEFAULT_LIGHT_SCHEME_ID,
+  darkSchemeId: DEFAULT_DARK_SCHEME_ID,
+};
+
+const FALLBACK_SCHEMES: Record<ColorSchemeMode, ColorScheme> = {
+  light: BUILTIN_COLOR_SCHEMES.find((scheme) => scheme.id === DEFAULT_LIGHT_SCHEME_ID)!,
+  dark: BUILTIN_COLOR_SCHEMES.find((scheme) => scheme.id === DEFAULT_DARK_SCHEME_ID)!,
+};
+
+export type ColorSchemeContextValue = {
+  /** 内置方案在前，自定义方案在后 */
+  schemes: ColorScheme[];
+  lightScheme: ColorScheme;
+  darkScheme: ColorScheme;
+  isReady: boolean;
+  saveScheme: (scheme: ColorScheme) => void;
+  deleteScheme: (id: string) => void;
+  setModeScheme: (mode: ColorSchemeMode, id: string) => void;
+};
+
+const ColorSchemeContext = createContext<ColorSchemeContextValue | null>(null);
+
+function sanitizeState(input: unknown): ColorSchemeSettings | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+  const record = input as Partial<ColorSchemeSettings>;
+  const schemes = Array.isArray(record.schemes)
+    ? record.schemes
+        .map((entry) => sanitizeColorScheme(entry as Partial<ColorScheme>, FALLBACK_SCHEMES.dark))
+        .filter((entry): entry is ColorScheme => Boolean(entry))
+    : [];
+  return {
+    schemes,
+    lightSchemeId: typeof record.lightSchemeId === "string" ? record.lightSchemeId : DEFAULT_LIGHT_SCHEME_ID,
+    darkSchemeId: typeof record.darkSchemeId === "string" ? record.darkSchemeId : DEFAULT_DARK_SCHEME_ID,
+  };
+}
+
+async function readDesktopState(): Promise<ColorSchemeSettings | null> {
+  if (typeof window === "undefined" || !window.desktopBridge?.settings) {
+    return null;
+  }
+  try {
+    const settings = await window.desktopBridge.settings.get();
+    return sanitizeState(settings?.colorSchemes);
+  } catch (error) {
+    console.warn("Failed to read desktop color schemes", error);
+    return null;
+  }
+}
+
+function readLocalStorageState(): ColorSchemeSettings | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  try {
+    const stored = window.localStorage?.getItem(LOCAL_STORAGE_KEY);
+    return stored ? sanitizeState(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.warn("Failed to read color schemes from localStorage", error);
+    return null;
+  }
+}
+
+async function persistState(state: ColorSchemeSettings) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    window.localStorage?.setItem(LOCAL_STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.warn("Failed to persist color schemes to localStorage", error);
+  }
+
+  try {
+    await window.desktopBridge?.settings?.setColorSchemes(state);
+  } catch (error) {
+    console.warn("Failed to persist color schemes to desktop settings", error);
+  }
+}
+
+export function ColorSchemeProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<ColorSchemeSettings>(DEFAULT_STATE);
+  const [isReady, setReady] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    const bootstrap = async () => {
+      const desktopState = await readDesktopState();
+      if (!active) {
+        return;
+      }
+      const stored = desktopState ?? readLocalStorageState();
+      if (stored) {
+        setState(stored);
+      }
+      setReady(true);
+    };
+
+    bootstrap().catch((error) => {
+      console.error("Failed to bootstrap color schemes", error);
+      if (active) {
+        setReady(true);
+      }
+    });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const update = useCallback((transform: (previous: ColorSchemeSettings) => ColorSchemeSettings) => {
+    setState((previous) => {
+      const next = transform(previous);
+      void persistState(next);
+      return next;
+    });
+  }, []);
+
+  const schemes = useMemo(
+    () => [...BUILTIN_COLOR_SCHEMES, ...state.schemes],
+    [state.schemes]
+  );
+
+  const lightScheme = useMemo(
+    () => schemes.find((scheme) => scheme.id === state.lightSchemeId) ?? FALLBACK_SCHEMES.light,
+    [schemes, state.lightSchemeId]
+  );
+
+  const darkScheme = useMemo(
+    () => schemes.find((scheme) => scheme.id === state.darkSchemeId) ?? FALLBACK_SCHEMES.dark,
+    [schemes, state.darkSchemeId]
+  );
+
+  const saveScheme = useCallback(
+    (scheme: ColorScheme) => {
+      // 内置方案只读
+      if (BUILTIN_COLOR_SCHEMES.some((entry) => entry.id === scheme.id)) {
+        return;
+      }
+      const sanitized = sanitizeColorScheme(scheme, FALLBACK_SCHEMES.dark);
+      if (!sanitized) {
+        return;
+      }
+      update((previous) => {
+        const index = previous.schemes.findIndex((entry) => entry.id === sanitized.id);
+        const next = [...previous.schemes];
+        if (index === -1) {
+          next.push(sanitized);
+        } else {
+          next[index] = sanitized;
+        }
+        return { ...previous, schemes: next };
+      });
+    },
+    [update]
+  );
+
+  const deleteScheme = useCallback(
+    (id: string) => {
+      update((previous) => ({
+        schemes: previous.schemes.filter((entry) => entry.id !== id),
+        lightSchemeId: previous.lightSchemeId === id ? DEFAULT_LIGHT_SCHEME_ID : previous.lightSchemeId,
+        darkSchemeId: previous.darkSchemeId === id ? DEFAULT_DARK_SCHEME_ID : previous.darkSchemeId,
+      }));
+    },
+    [update]
+  );
+
+  const setModeScheme = useCallback(
+    (mode: ColorSchemeMode, id: string) => {
+      update((previous) => (mode === "light" ? { ...previous, lightSchemeId: id } : { ...previous, darkSchemeId: id }));
+    },
+    [update]
+  );
+
+  const value = useMemo<ColorSchemeContextValue>(
+    () => ({ schemes, lightScheme, darkScheme, isReady, saveScheme, deleteScheme, setModeScheme }),
+    [darkScheme, deleteScheme, isReady, lightScheme, saveScheme, schemes, setModeScheme]
+  );
+
+  return <ColorSchemeContext.Provider value={value}>{children}</ColorSchemeContext.Provider>;
+}
+
+export function useColorSchemes() {
+  const context = useContext(ColorSchemeContext);
+  if (!context) {
+    throw new Error("useColorSchemes must be used within a ColorSchemeProvider");
+  }
+  return context;
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { type KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
+import { BookmarkPlus, CornerDownLeft, Send, Trash2, X } from "lucide-react";
+
+import { useCommandHistory } from "@/components/command-history/command-history-provider";
+import { useSnippets } from "@/components/snippets/snippet-provider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { createSnippetFromCommand, searchCommandHistory, type CommandHistoryEntry } from "@/lib/command-history";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import { cn } from "@/lib/utils";
+
+type CommandHistoryPanelProps = {
+  dictionary: HomeDictionary["commandHistory"];
+  /** 当前会话对应的历史键（主机名与 host:port），没有活动会话时为空 */
+  devices: string[];
+  deviceLabel: string | null;
+  canSend: boolean;
+  /** run 为 false 时只插入到当前输入行，不回车 */
+  onSend: (command: string, run: boolean) => void;
+  onClose: () => void;
+};
+
+/** 全部设备的历史可能有数千条，只渲染排名靠前的部分 */
+const MAX_VISIBLE_MATCHES = 200;
+
+const SELECT_CLASS =
+  "h-8 w-full appearance-none rounded-md border border-border bg-background px-3 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-primary";
+
+/** 按模糊匹配的下标加粗命中的字符 */
+export function HighlightedCommand({ command, positions }: { command: string; positions: number[] }) {
+  if (positions.length === 0) {
+    return <>{command}</>;
+  }
+  const hits = new Set(positions);
+  return (
+    <>
+      {Array.from(command, (char, index) =>
+        hits.has(index) ? (
+          <mark key={index} className="bg-transparent font-semibold text-primary">
+            {char}
+          </mark>
+        ) : (
+          char
+        )
+      )}
+    </>
+  );
+}
+
+export function CommandHistoryPanel({ dictionary, devices, deviceLabel, canSend, onSend, onClose }: CommandHistoryPanelProps) {
+  const { entries, deleteEntry, clearDevice } = useCommandHistory();
+  const { saveSnippet } = useSnippets();
+  const searchRef = useRef<HTMLInputElement | null>(null);
+  const [query, setQuery] = useState("");
+  const [scope, setScope] = useState<"device" | "all">(devices.length > 0 ? "device" : "all");
+  const [highlighted, setHighlighted] = useState(0);
+  const [savedId, setSavedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    searchRef.current?.focus();
+  }, []);
+
+  const effectiveScope = devices.length > 0 ? scope : "all";
+  const matches = useMemo(() => {
+    const scoped = effectiveScope === "device" ? entries.filter((entry) => devices.includes(entry.device)) : entries;
+    return searchCommandHistory(scoped, query).slice(0, MAX_VISIBLE_MATCHES);
+  }, [devices, effectiveScope, entries, query]);
+
+  const activeIndex = Math.min(highlighted, Math.max(matches.length - 1, 0));
+
+  const handleSaveSnippet = (entry: CommandHistoryEntry) => {
+    saveSnippet(createSnippetFromCommand(entry));
+    setSavedId(entry.id);
+  };
+
+  const handleSearchKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setHighlighted(Math.min(activeIndex + 1, matches.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setHighlighted(Math.max(activeIndex - 1, 0));
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      const target = matches[activeIndex];
+      if (target && canSend) {
+        onSend(target.entry.command, true);
+      }
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed right-0 top-16 bottom-0 z-40 flex w-[360px] flex-col border-l bg-card/95 shadow-xl backdrop-blur supports-[backdrop-filter]:bg-card/80">
+      <div className="space-y-1 border-b px-5 py-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold">{dictionary.title}</p>
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onClose} title={dictionary.closeButton}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">{dictionary.description}</p>
+      </div>
+
+      <div className="flex flex-col gap-2 border-b px-5 py-3">
+        <Input
+          ref={searchRef}
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleSearchKeyDown}
+          placeholder={dictionary.searchPlaceholder}
+          className="h-8 text-xs"
+        />
+        <select
+          className={SELECT_CLASS}
+          value={effectiveScope}
+          onChange={(event) => {
+            setScope(event.target.value === "device" ? "device" : "all");
+            setHighlighted(0);
+          }}
+        >
+          {deviceLabel && <option value="device">{dictionary.scopeDevice.replace("{device}", deviceLabel)}</option>}
+          <option value="all">{dictionary.scopeAll}</option>
+        </select>
+        {!canSend && <p className="text-[11px] text-muted-foreground">{dictionary.noActiveSession}</p>}
+      </div>
+
+      <div className="flex-1 space-y-2 overflow-y-auto px-5 py-4">
+        {matches.length === 0 ? (
+          <p className="text-xs text-muted-foreground">{dictionary.empty}</p>
+        ) : (
+          matches.map(({ entry, positions }, index) => (
+            <div
+              key={entry.id}
+              className={cn(
+                "rounded-lg border px-3 py-2 text-xs",
+                index === activeIndex ? "border-primary/50 bg-primary/5" : "border-border/60 bg-muted/30"
+              )}
+            >
+              <p className="break-all font-mono text-[11px] text-foreground/90">
+                <HighlightedCommand command={entry.command} positions={positions} />
+              </p>
+              <div className="mt-1 flex items-center justify-between gap-2">
+                <span className="truncate text-[10px] text-muted-foreground">
+                  {entry.device} · {new Date(entry.lastUsedAt).toLocaleString()} · {dictionary.useCount.replace("{count}", String(entry.useCount))}
+                </span>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => onSend(entry.command, true)}
+                    disabled={!canSend}
+                    title={dictionary.sendButton}
+                  >
+                    <Send className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => onSend(entry.command, false)}
+                    disabled={!canSend}
+                    title={dictionary.insertButton}
+                  >
+                    <CornerDownLeft className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => handleSaveSnippet(entry)}
+                    title={savedId === entry.id ? dictionary.snippetSaved : dictionary.saveSnippetButton}
+                  >
+                    <BookmarkPlus className={cn("h-3.5 w-3.5", savedId === entry.id && "text-emerald-500")} />
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => deleteEntry(entry.id)} title={dictionary.deleteButton}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex items-center justify-between border-t px-5 py-3">
+        <p className="text-[11px] text-muted-foreground">{dictionary.shortcutHint}</p>
+        {effectiveScope === "device" && (
+          <Button size="sm" variant="ghost" className="h-8 text-xs" onClick={() => devices.forEach(clearDevice)}>
+            {dictionary.clearDeviceButton}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
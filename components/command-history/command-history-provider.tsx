@@ -0,0 +1,154 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+
+import {
+  appendCommandHistory,
+  normalizeHistoryDevice,
+  sanitizeCommandHistoryEntry,
+  type CommandHistoryEntry,
+} from "@/lib/command-history";
+
+const LOCAL_STORAGE_KEY = "pnet-tool.command-history";
+
+export type CommandHistoryContextValue = {
+  /** 按最近使用时间升序 */
+  entries: CommandHistoryEntry[];
+  isReady: boolean;
+  recordCommand: (input: { device: string; command: string; vendor?: string }) => void;
+  deleteEntry: (id: string) => void;
+  clearDevice: (device: string) => void;
+};
+
+const CommandHistoryContext = createContext<CommandHistoryContextValue | null>(null);
+
+function sanitizeEntries(input: unknown): CommandHistoryEntry[] | null {
+  if (!Array.isArray(input)) {
+    return null;
+  }
+  return input
+    .map((entry) => sanitizeCommandHistoryEntry(entry as Partial<CommandHistoryEntry>))
+    .filter((entry): entry is CommandHistoryEntry => Boolean(entry))
+    .sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+}
+
+async function readDesktopEntries(): Promise<CommandHistoryEntry[] | null> {
+  if (typeof window === "undefined" || !window.desktopBridge?.settings) {
+    return null;
+  }
+  try {
+    const settings = await window.desktopBridge.settings.get();
+    return sanitizeEntries(settings?.commandHistory);
+  } catch (error) {
+    console.warn("Failed to read desktop command history", error);
+    return null;
+  }
+}
+
+function readLocalStorageEntries(): CommandHistoryEntry[] | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  try {
+    const stored = window.localStorage?.getItem(LOCAL_STORAGE_KEY);
+    return stored ? sanitizeEntries(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.warn("Failed to read command history from localStorage", error);
+    return null;
+  }
+}
+
+async function persistEntries(entries: CommandHistoryEntry[]) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    window.localStorage?.setItem(LOCAL_STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn("Failed to persist command history to localStorage", error);
+  }
+
+  try {
+    await window.desktopBridge?.settings?.setCommandHistory(entries);
+  } catch (error) {
+    console.warn("Failed to persist command history to desktop settings", error);
+  }
+}
+
+export function CommandHistoryProvider({ children }: { children: ReactNode }) {
+  const [entries, setEntries] = useState<CommandHistoryEntry[]>([]);
+  const [isReady, setReady] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    const bootstrap = async () => {
+      const desktopEntries = await readDesktopEntries();
+      if (!active) {
+        return;
+      }
+      const stored = desktopEntries ?? readLocalStorageEntries();
+      if (stored) {
+        setEntries(stored);
+      }
+      setReady(true);
+    };
+
+    bootstrap().catch((error) => {
+      console.error("Failed to bootstrap command history", error);
+      if (active) {
+        setReady(true);
+      }
+    });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const update = useCallback((transform: (previous: CommandHistoryEntry[]) => CommandHistoryEntry[]) => {
+    setEntries((previous) => {
+      const next = transform(previous);
+      void persistEntries(next);
+      return next;
+    });
+  }, []);
+
+  const recordCommand = useCallback(
+    (input: { device: string; command: string; vendor?: string }) => {
+      update((previous) => appendCommandHistory(previous, input));
+    },
+    [update]
+  );
+
+  const deleteEntry = useCallback(
+    (id: string) => {
+      update((previous) => previous.filter((entry) => entry.id !== id));
+    },
+    [update]
+  );
+
+  const clearDevice = useCallback(
+    (device: string) => {
+      const normalized = normalizeHistoryDevice(device);
+      update((previous) => previous.filter((entry) => entry.device !== normalized));
+    },
+    [update]
+  );
+
+  const value = useMemo<CommandHistoryContextValue>(
+    () => ({ entries, isReady, recordCommand, deleteEntry, clearDevice }),
+    [clearDevice, deleteEntry, entries, isReady, recordCommand]
+  );
+
+  return <CommandHistoryContext.Provider value={value}>{children}</CommandHistoryContext.Provider>;
+}
+
+export function useCommandHistory() {
+  const context = useContext(CommandHistoryContext);
+  if (!context) {
+    throw new Error("useCommandHistory must be used within a CommandHistoryProvider");
+  }
+  return context;
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { type KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
+import { History } from "lucide-react";
+
+import { HighlightedCommand } from "@/components/command-history/command-history-panel";
+import { useCommandHistory } from "@/components/command-history/command-history-provider";
+import { searchCommandHistory } from "@/lib/command-history";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import { cn } from "@/lib/utils";
+
+type CommandRecallOverlayProps = {
+  dictionary: HomeDictionary["commandHistory"];
+  devices: string[];
+  deviceLabel: string;
+  /** run 为 false 时只插入到当前输入行，不回车 */
+  onSelect: (command: string, run: boolean) => void;
+  onClose: () => void;
+};
+
+const MAX_RECALL_RESULTS = 8;
+
+/** 类似 shell 的 Ctrl+R：只搜索当前设备的历史，回车执行、Tab 插入 */
+export function CommandRecallOverlay({ dictionary, devices, deviceLabel, onSelect, onClose }: CommandRecallOverlayProps) {
+  const { entries } = useCommandHistory();
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [query, setQuery] = useState("");
+  const [highlighted, setHighlighted] = useState(0);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const matches = useMemo(
+    () =>
+      searchCommandHistory(
+        entries.filter((entry) => devices.includes(entry.device)),
+        query
+      ).slice(0, MAX_RECALL_RESULTS),
+    [devices, entries, query]
+  );
+
+  const activeIndex = Math.min(highlighted, Math.max(matches.length - 1, 0));
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setHighlighted(Math.min(activeIndex + 1, matches.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setHighlighted(Math.max(activeIndex - 1, 0));
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      const target = matches[activeIndex];
+      if (target) {
+        onSelect(target.entry.command, event.key === "Enter");
+      }
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-background/40 pt-[18vh]" onMouseDown={onClose}>
+      <div
+        role="dialog"
+        aria-label={dictionary.title}
+        className="w-full max-w-lg overflow-hidden rounded-lg border border-border bg-card shadow-2xl"
+        onMouseDown={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 border-b px-3">
+          <History className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value);
+              setHighlighted(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={dictionary.recallPlaceholder.replace("{device}", deviceLabel)}
+            className="h-10 flex-1 bg-transparent font-mono text-sm focus:outline-none"
+            spellCheck={false}
+          />
+        </div>
+        <div className="max-h-72 overflow-y-auto py-1">
+          {matches.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-muted-foreground">{dictionary.recallEmpty}</p>
+          ) : (
+            matches.map(({ entry, positions }, index) => (
+              <button
+                key={entry.id}
+                type="button"
+                className={cn(
+                  "flex w-full items-center justify-between gap-3 px-3 py-1.5 text-left font-mono text-xs",
+                  index === activeIndex ? "bg-primary/10" : "hover:bg-muted"
+                )}
+                onMouseEnter={() => setHighlighted(index)}
+                onClick={() => onSelect(entry.command, true)}
+              >
+                <span className="truncate">
+                  <HighlightedCommand command={entry.command} positions={positions} />
+                </span>
+                <span className="shrink-0 text-[10px] text-muted-foreground">
+                  {dictionary.useCount.replace("{count}", String(entry.useCount))}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+        <p className="border-t px-3 py-1.5 text-[11px] text-muted-foreground">{dictionary.recallHint}</p>
+      </div>
+    </div>
+  );
+}
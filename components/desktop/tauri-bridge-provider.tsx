@@ -1,19 +1,76 @@
 "use client";
 
-import { useEffect } from "react";
+import { useLayoutEffect } from "react";
 import type {
   AppSettings,
+  AutomationScriptRecord,
+  ColorSchemeSettings,
+  CommandHistoryRecord,
   DesktopBridge,
+  HighlightRuleRecord,
+  RecordingFileEntry,
+  ShortcutBindingsRecord,
+  SnippetRecord,
+  TerminalAppearanceOverridesRecord,
+  TerminalCreateOptions,
   TerminalDataPayload,
+  TerminalDescribeResult,
+  TerminalDimensions,
+  TerminalEncoding,
+  TerminalErrorPayload,
   TerminalExitPayload,
+  TerminalLabelPayload,
+  TerminalPreferences,
+  TerminalPromptPayload,
+  TerminalRawDataPayload,
+  TerminalSignal,
+  TriggerRuleRecord,
+  WindowStatePayload,
 } from "@/types/desktop-bridge";
 import type { TelnetAction } from "@/types/desktop-bridge";
 // These imports resolve only in Tauri runtime builds; in plain web they are unused.
 import { invoke } from "@tauri-apps/api/core";
 import { listen, type UnlistenFn } from "@tauri-apps/api/event";
+import { getCurrentWindow } from "@tauri-apps/api/window";
 import { relaunch } from "@tauri-apps/plugin-process";
 import { Command, type TerminatedPayload } from "@tauri-apps/plugin-shell";
 import type { Child } from "@tauri-apps/plugin-shell";
+import {
+  TELNET_CLIENT_ESCAPE,
+  TELNET_CLIENT_SEND_ARGUMENTS,
+  TELNET_SIGNAL_COMMANDS,
+  TelnetSession,
+  isTelnetSignal,
+} from "@/lib/telnet";
+import { PromptTracker, type PromptInfo } from "@/lib/prompt";
+import type { TelnetTransport } from "@/lib/telnet";
+import { attachTauriTelnetTransport, openTauriTelnetTransport } from "@/lib/telnet/tauri-transport";
+import { decodeChannelBuffer, type ChannelKind } from "@/lib/terminal/channel-buffer";
+import {
+  DEFAULT_TERMINAL_ENCODING,
+  createTerminalCodec,
+  isTerminalEncoding,
+  type TerminalTextCodec,
+} from "@/lib/terminal/encoding";
+import { DEFAULT_LINE_TIMESTAMP_FORMAT } from "@/lib/terminal/line-timestamps";
+import { OutputBatcher } from "@/lib/terminal/output-batcher";
+import { DEFAULT_TERMINAL_RENDERER } from "@/lib/terminal/renderer";
+import { DEFAULT_PASTE_LINE_DELAY_MS, DEFAULT_PASTE_PACING } from "@/lib/terminal/paste";
+import { DEFAULT_RECONNECT_MAX_ATTEMPTS } from "@/lib/terminal/reconnect";
+import { DEFAULT_SCROLLBACK_BUFFER_KB } from "@/lib/terminal/scrollback-buffer";
+import { TerminalSessionRegistry } from "@/lib/terminal/session-registry";
+
+// Rust 侧 SessionRegistry 的会话描述（list_sessions / describe）
+type ChannelSessionInfo = {
+  id: string;
+  kind: ChannelKind;
+  host: string;
+  port: number;
+  label?: string;
+  encoding?: string;
+  prompt?: PromptInfo;
+  exited: boolean;
+};
 
 // Minimal settings storage using localStorage as a placeholder
 const SETTINGS_KEY = "pnet-tool:settings";
@@ -34,7 +91,8 @@ function setSettings(obj: unknown) {
 }
 
 export function TauriBridgeProvider({ children }: { children: React.ReactNode }) {
-  useEffect(() => {
+  // 在子组件的 effect 之前安装桥接层，页面恢复会话时即可调用 describe/list
+  useLayoutEffect(() => {
     if (typeof window === "undefined") return;
     // Detect Tauri runtime (v2): presence of __TAURI_INTERNALS__ or legacy markers
     const isTauriEnv = Boolean(
@@ -46,6 +104,151 @@ export function TauriBridgeProvider({ children }: { children: React.ReactNode })
       // In plain web runtime, do not install desktopBridge to avoid mis-detection as desktop
       return;
     }
+    // 内置 Telnet 引擎会话，id 与 Rust 侧 TCP 通道一致
+    const telnetSessions = new Map<string, TelnetSession>();
+    // 所有会话（引擎/PTY/shell）的元数据；输出缓冲只用于 plugin-shell 回退会话
+    const bufferSizeKb = Number(getSettings()?.terminal?.bufferSizeKb) || DEFAULT_SCROLLBACK_BUFFER_KB;
+    const registry = new TerminalSessionRegistry(bufferSizeKb);
+    // 缓冲与元数据由 Rust 侧 SessionRegistry 持有的会话（内置引擎 TCP 通道与 PTY），webview 重新加载后仍可恢复
+    const channels = new Map<string, ChannelKind>();
+    void invoke("set_buffer_limit", { limitKb: bufferSizeKb }).catch(() => undefined);
+    // 元数据变化同步到 Rust 侧，失败时只影响重新加载后的恢复
+    const syncChannel = (id: string, patch: { label?: string; encoding?: TerminalEncoding; prompt?: PromptInfo }) => {
+      if (!channels.has(id)) return;
+      void invoke("session_update", { id, ...patch }).catch((e) => console.warn("session_update failed", e));
+    };
+    const describeChannel = async (id: string) => {
+      try {
+        return await invoke<ChannelSessionInfo | null>("describe", { id });
+      } catch {
+        return null;
+      }
+    };
+    const toDescribeResult = (info: ChannelSessionInfo): TerminalDescribeResult => ({
+      id: info.id,
+      host: info.host,
+      port: info.port,
+      label: info.label ?? info.host,
+      exited: info.exited,
+      prompt: info.prompt,
+      encoding: isTerminalEncoding(info.encoding) ? info.encoding : undefined,
+    });
+    // 每个会话的提示符识别状态
+    const promptTrackers = new Map<string, PromptTracker>();
+    // PTY / plugin-shell 会话的编解码器，内置引擎会话由 TelnetSession 自行持有
+    const fallbackCodecs = new Map<string, TerminalTextCodec>();
+
+    const defaultEncoding = (): TerminalEncoding => {
+      const stored = getSettings()?.terminal?.defaultEncoding;
+      return isTerminalEncoding(stored) ? stored : DEFAULT_TERMINAL_ENCODING;
+    };
+    // 同一帧内到达的输出合并为一次 terminal:data 事件
+    const outputBatcher = new OutputBatcher((id, data) => {
+      window.dispatchEvent(new CustomEvent<TerminalDataPayload>("terminal:data", { detail: { id, data } }));
+    });
+    const dispatchData = (id: string, data: string) => outputBatcher.push(id, data);
+    // 解码前的字节不合并，供 raw 格式会话日志原样落盘
+    const dispatchRawData = (id: string, data: Uint8Array) => {
+      window.dispatchEvent(new CustomEvent<TerminalRawDataPayload>("terminal:raw", { detail: { id, data } }));
+    };
+    // 首包可能早于 start_pty 返回，未登记的会话先按默认编码解码
+    const fallbackCodecFor = (id: string) => {
+      let codec = fallbackCodecs.get(id);
+      if (!codec) {
+        codec = createTerminalCodec(defaultEncoding());
+        fallbackCodecs.set(id, codec);
+      }
+      return codec;
+    };
+    const setFallbackEncoding = (id: string, encoding: TerminalEncoding) => {
+      const current = fallbackCodecs.get(id);
+      if (current?.encoding === encoding) {
+        return;
+      }
+      const tail = current?.flush();
+      if (tail) {
+        dispatchData(id, tail);
+      }
+      fallbackCodecs.set(id, createTerminalCodec(encoding));
+    };
+    const releaseFallbackCodec = (id: string) => {
+      const tail = fallbackCodecs.get(id)?.flush();
+      fallbackCodecs.delete(id);
+      if (tail) {
+        dispatchData(id, tail);
+      }
+    };
+
+    const bindNativeTelnet = (
+      id: string,
+      transport: TelnetTransport,
+      { dimensions, encoding, negotiateOnConnect }: { dimensions?: TerminalDimensions; encoding?: TerminalEncoding; negotiateOnConnect?: boolean }
+    ) => {
+      const session = new TelnetSession(transport, { dimensions, negotiateOnConnect, codec: createTerminalCodec(encoding ?? defaultEncoding()) });
+      telnetSessions.set(id, session);
+      channels.set(id, "tcp");
+      session.onData((data) => dispatchData(id, data));
+      session.onBytes((data) => dispatchRawData(id, data));
+      session.onClose(({ message }) => {
+        telnetSessions.delete(id);
+        outputBatcher.flush(id);
+        if (message) {
+          window.dispatchEvent(new CustomEvent<TerminalErrorPayload>("terminal:error", { detail: { id, message } }));
+        }
+        window.dispatchEvent(new CustomEvent<TerminalExitPayload>("terminal:exit", { detail: { id, exitCode: null, signal: null } }));
+      });
+      session.start();
+    };
+
+    const startNativeTelnet = async ({ host, port, dimensions, encoding }: TerminalCreateOptions & { host: string }) => {
+      const { id, transport } = await openTauriTelnetTransport({ host, port: port ?? 23 });
+      bindNativeTelnet(id, transport, { dimensions, encoding });
+      return { id };
+    };
+
+    // webview 重新加载后接回 Rust 侧仍在运行的通道；已结束的通道无人认领，直接关闭
+    const reattachChannels = async () => {
+      let sessions: ChannelSessionInfo[] = [];
+      try {
+        sessions = await invoke<ChannelSessionInfo[]>("list_sessions");
+      } catch {
+        return;
+      }
+      await Promise.all(
+        sessions.map(async (info) => {
+          if (channels.has(info.id)) return;
+          if (info.exited) {
+            await invoke(info.kind === "tcp" ? "tcp_close" : "kill_pty", { id: info.id }).catch(() => undefined);
+            return;
+          }
+          const encoding = isTerminalEncoding(info.encoding) ? info.encoding : defaultEncoding();
+          if (info.kind === "tcp") {
+            // 选项协商已在重新加载前完成，不再重复发起，由对端后续的协商更新状态
+            bindNativeTelnet(info.id, await attachTauriTelnetTransport(info.id), { encoding, negotiateOnConnect: false });
+          } else {
+            channels.set(info.id, "pty");
+            setFallbackEncoding(info.id, encoding);
+          }
+          registry.register({ id: info.id, host: info.host, port: info.port, label: info.label });
+          registry.setEncoding(info.id, encoding);
+          if (info.prompt) {
+            registry.setPrompt(info.id, info.prompt);
+          }
+        })
+      );
+    };
+    const reattached = reattachChannels().catch((e) => console.warn("Failed to reattach sessions", e));
+
+    const appWindow = getCurrentWindow();
+    const readWindowState = async (): Promise<WindowStatePayload> => {
+      const [isMaximized, isFullScreen, isFocused] = await Promise.all([
+        appWindow.isMaximized(),
+        appWindow.isFullscreen(),
+        appWindow.isFocused(),
+      ]);
+      return { isMaximized, isFullScreen, isFocused };
+    };
+
     const bridge = {
       getVersion: async () => (await invoke<string>("plugin:app|version")).toString(),
       ping: async () => "pong",
@@ -58,60 +261,184 @@ export function TauriBridgeProvider({ children }: { children: React.ReactNode })
         }
       },
     terminal: {
-      async createTelnetSession({ host, port }: { host: string; port?: number }) {
-        // 优先使用 PTY（内置终端），失败时回退到 plugin-shell
-        try {
-          const id = await invoke<string>("start_pty", { host, port: port ?? 23, cols: 80, rows: 24 });
+      async createTelnetSession({ host, port, label, dimensions, resumeFrom, encoding: requestedEncoding }: TerminalCreateOptions & { host: string }) {
+        const encoding = isTerminalEncoding(requestedEncoding) ? requestedEncoding : defaultEncoding();
+        const register = (id: string) => {
+          registry.register({ id, host, port: port ?? 23, label });
+          registry.setEncoding(id, encoding);
+          syncChannel(id, { label: label ?? host, encoding });
+          if (resumeFrom) {
+            registry.adopt(resumeFrom, id);
+            if (channels.has(id)) {
+              void invoke("session_adopt", { previousId: resumeFrom, id }).catch(() => undefined);
+            }
+          }
           return { id };
+        };
+        // 优先使用内置 Telnet 引擎，其次 PTY 中的系统 telnet，最后回退到 plugin-shell
+        try {
+          const { id } = await startNativeTelnet({ host, port, dimensions, encoding });
+          return register(id);
+        } catch (e) {
+          console.warn("native telnet failed, fallback to pty:", e);
+        }
+        try {
+          const id = await invoke<string>("start_pty", { host, port: port ?? 23, cols: dimensions?.cols ?? 80, rows: dimensions?.rows ?? 24 });
+          channels.set(id, "pty");
+          setFallbackEncoding(id, encoding);
+          return register(id);
         } catch (e) {
           console.warn("start_pty failed, fallback to plugin-shell:", e);
           const bin = "telnet";
           const args = [host, String(port ?? 23)];
-          const cmd = await Command.create(bin, args);
-          const toText = (data: string | Uint8Array) => (typeof data === "string" ? data : new TextDecoder().decode(data));
+          // 以原始字节接收输出，交给会话编码解码，与 PTY 路径一致
+          const cmd = await Command.create(bin, args, { encoding: "raw" });
           const id = Math.random().toString(36).slice(2);
+          setFallbackEncoding(id, encoding);
+          // 经 IPC 传输的原始字节可能是数字数组，统一转为 Uint8Array
+          const dispatchBytes = (data: ArrayLike<number>) => {
+            const bytes = Uint8Array.from(data);
+            dispatchRawData(id, bytes);
+            const text = fallbackCodecFor(id).decode(bytes);
+            if (text) {
+              dispatchData(id, text);
+            }
+          };
           (window as { __pnetProcs?: Map<string, Child> }).__pnetProcs = (window as { __pnetProcs?: Map<string, Child> }).__pnetProcs || new Map<string, Child>();
-          cmd.stdout.on("data", (data: string | Uint8Array) => {
-            window.dispatchEvent(new CustomEvent<TerminalDataPayload>("terminal:data", { detail: { id, data: toText(data) } }));
-          });
-          cmd.stderr.on("data", (data: string | Uint8Array) => {
-            window.dispatchEvent(new CustomEvent<TerminalDataPayload>("terminal:data", { detail: { id, data: toText(data) } }));
-          });
+          cmd.stdout.on("data", dispatchBytes);
+          cmd.stderr.on("data", dispatchBytes);
           cmd.on("close", (payload: TerminatedPayload) => {
             const { code, signal } = payload ?? { code: null, signal: null };
+            releaseFallbackCodec(id);
+            outputBatcher.flush(id);
             window.dispatchEvent(new CustomEvent<TerminalExitPayload>("terminal:exit", { detail: { id, exitCode: code, signal } }));
             (window as { __pnetProcs?: Map<string, Child> }).__pnetProcs?.delete(id);
           });
           const child = await cmd.spawn();
           (window as { __pnetProcs?: Map<string, Child> }).__pnetProcs!.set(id, child);
-          return { id };
+          return register(id);
         }
       },
       async write(id: string, data: string) {
+        const telnet = telnetSessions.get(id);
+        if (telnet) {
+          telnet.write(data);
+          return;
+        }
         try {
-          await invoke("write_pty", { id, data });
+          await invoke("write_pty", { id, data: Array.from(fallbackCodecFor(id).encode(data)) });
         } catch {
           // fallback: plugin-shell
           try {
             const proc = (window as { __pnetProcs?: Map<string, Child> }).__pnetProcs?.get(id);
-            await proc?.write(data);
+            await proc?.write(fallbackCodecFor(id).encode(data));
           } catch {}
         }
       },
-      async resize(id: string, cols: number, rows: number) {
+      async resize(id: string, { cols, rows }: TerminalDimensions) {
+        const telnet = telnetSessions.get(id);
+        if (telnet) {
+          telnet.resize(cols, rows);
+          return;
+        }
+        if (!cols || !rows) return;
         try { await invoke("resize_pty", { id, cols, rows }); } catch {}
       },
       async dispose(id: string) {
+        await reattached;
+        outputBatcher.discard(id);
+        registry.remove(id);
+        channels.delete(id);
+        promptTrackers.delete(id);
+        fallbackCodecs.delete(id);
+        const telnet = telnetSessions.get(id);
+        if (telnet) {
+          telnetSessions.delete(id);
+          try { await telnet.close(); } catch {}
+          return true;
+        }
         try { await invoke("kill_pty", { id }); } catch {}
         const proc = (window as { __pnetProcs?: Map<string, Child> }).__pnetProcs?.get(id);
         try { await proc?.kill(); } catch {}
         (window as { __pnetProcs?: Map<string, Child> }).__pnetProcs?.delete(id);
         return true;
       },
-      sendSignal() {},
-      async attach() { return true; },
-      async describe(id: string) { return { id }; },
-      async readBuffer() { return ""; },
+      async sendSignal(id: string, signal: TerminalSignal) {
+        if (!isTelnetSignal(signal)) {
+          return false;
+        }
+        const telnet = telnetSessions.get(id);
+        if (telnet) {
+          telnet.sendCommand(TELNET_SIGNAL_COMMANDS[signal]);
+          return true;
+        }
+        // 回退路径运行的是系统 telnet 客户端：用 Ctrl+] 进入命令模式执行 send，执行后自动回到会话
+        await this.write(id, `${TELNET_CLIENT_ESCAPE}send ${TELNET_CLIENT_SEND_ARGUMENTS[signal]}\r`);
+        return true;
+      },
+      async setEncoding(id: string, encoding: TerminalEncoding) {
+        if (!isTerminalEncoding(encoding)) {
+          return false;
+        }
+        registry.setEncoding(id, encoding);
+        syncChannel(id, { encoding });
+        const telnet = telnetSessions.get(id);
+        if (telnet) {
+          telnet.setCodec(createTerminalCodec(encoding));
+          return true;
+        }
+        setFallbackEncoding(id, encoding);
+        return true;
+      },
+      async attach({ id, dimensions }: { id: string; dimensions?: TerminalDimensions }) {
+        const entry = await this.describe(id);
+        if (!entry || entry.exited) {
+          return false;
+        }
+        if (dimensions) {
+          await this.resize(id, dimensions);
+        }
+        return true;
+      },
+      // 通道会话以 Rust 侧登记为准，plugin-shell 回退会话只存在于 registry
+      async describe(id: string) {
+        await reattached;
+        const info = await describeChannel(id);
+        if (info) {
+          return toDescribeResult(info);
+        }
+        const entry = registry.get(id);
+        if (!entry) {
+          return null;
+        }
+        return { id, host: entry.host, port: entry.port, label: entry.label, exited: entry.exited, prompt: entry.prompt, encoding: entry.encoding };
+      },
+      async list() {
+        await reattached;
+        const live = await invoke<ChannelSessionInfo[]>("list_sessions").catch(() => [] as ChannelSessionInfo[]);
+        const shell = registry
+          .list()
+          .filter((entry) => !entry.exited && !channels.has(entry.id))
+          .map((entry) => ({ id: entry.id, host: entry.host, port: entry.port, label: entry.label, exited: false, prompt: entry.prompt, encoding: entry.encoding }));
+        return [...live.filter((info) => !info.exited).map(toDescribeResult), ...shell];
+      },
+      async readBuffer(id: string) {
+        await reattached;
+        const kind = channels.get(id);
+        if (!kind) {
+          return registry.get(id)?.buffer.read() ?? "";
+        }
+        try {
+          const buffer = await invoke<ArrayBuffer>("read_buffer", { id });
+          return decodeChannelBuffer(new Uint8Array(buffer), kind, registry.get(id)?.encoding);
+        } catch {
+          return "";
+        }
+      },
+      // 内置引擎与 PTY 会话的 id 即 Rust 侧通道 id；plugin-shell 回退会话不支持暂停
+      async setReadPaused(id: string, paused: boolean) {
+        try { await invoke("set_read_paused", { id, paused }); } catch {}
+      },
       onData(callback: (payload: TerminalDataPayload) => void) {
         const handler = (ev: Event) => callback((ev as CustomEvent<TerminalDataPayload>).detail);
         window.addEventListener("terminal:data", handler as EventListener);
@@ -126,6 +453,11 @@ export function TauriBridgeProvider({ children }: { children: React.ReactNode })
           window.removeEventListener("pty://data", ptyHandler as EventListener);
         };
       },
+      onRawData(callback: (payload: TerminalRawDataPayload) => void) {
+        const handler = (ev: Event) => callback((ev as CustomEvent<TerminalRawDataPayload>).detail);
+        window.addEventListener("terminal:raw", handler as EventListener);
+        return () => window.removeEventListener("terminal:raw", handler as EventListener);
+      },
       onExit(callback: (payload: TerminalExitPayload) => void) {
         const handler = (ev: Event) => callback((ev as CustomEvent<TerminalExitPayload>).detail);
         window.addEventListener("terminal:exit", handler as EventListener);
@@ -139,7 +471,11 @@ export function TauriBridgeProvider({ children }: { children: React.ReactNode })
           window.removeEventListener("pty://exit", ptyExitHandler as EventListener);
         };
       },
-      onError() { return () => {}; },
+      onError(callback: (payload: TerminalErrorPayload) => void) {
+        const handler = (ev: Event) => callback((ev as CustomEvent<TerminalErrorPayload>).detail);
+        window.addEventListener("terminal:error", handler as EventListener);
+        return () => window.removeEventListener("terminal:error", handler as EventListener);
+      },
       onLabel(callback?: (payload: { id: string; label?: string; host?: string; port?: number }) => void) {
         if (typeof window === "undefined") return () => {};
         const handler = (ev: Event) => {
@@ -149,7 +485,72 @@ export function TauriBridgeProvider({ children }: { children: React.ReactNode })
         window.addEventListener("terminal:label", handler as EventListener);
         return () => window.removeEventListener("terminal:label", handler as EventListener);
       },
+      onPrompt(callback: (payload: TerminalPromptPayload) => void) {
+        const handler = (ev: Event) => callback((ev as CustomEvent<TerminalPromptPayload>).detail);
+        window.addEventListener("terminal:prompt", handler as EventListener);
+        return () => window.removeEventListener("terminal:prompt", handler as EventListener);
+      },
     },
+      transcripts: {
+        async open(fileName: string) {
+          return await invoke<{ id: string; path: string }>("transcript_open", { fileName });
+        },
+        async write(id: string, data: string) {
+          await invoke("transcript_write", { id, data });
+        },
+        async writeBytes(id: string, data: Uint8Array) {
+          await invoke("transcript_write_bytes", { id, data: Array.from(data) });
+        },
+        async close(id: string) {
+          await invoke("transcript_close", { id });
+        },
+      },
+      // 录像文件与转录共用 Rust 侧的文件句柄登记表
+      recordings: {
+        async open(fileName: string) {
+          return await invoke<{ id: string; path: string }>("recording_open", { fileName });
+        },
+        async write(id: string, data: string) {
+          await invoke("transcript_write", { id, data });
+        },
+        async close(id: string) {
+          await invoke("transcript_close", { id });
+        },
+        async list() {
+          return await invoke<RecordingFileEntry[]>("recording_list");
+        },
+        async read(fileName: string) {
+          return await invoke<string>("recording_read", { fileName });
+        },
+        async remove(fileName: string) {
+          await invoke("recording_delete", { fileName });
+        },
+      },
+      window: {
+        minimize() {
+          void appWindow.minimize().catch((e) => console.warn("minimize failed", e));
+        },
+        async toggleMaximize() {
+          await appWindow.toggleMaximize();
+          return await readWindowState();
+        },
+        close() {
+          void appWindow.close().catch((e) => console.warn("close failed", e));
+        },
+        getState: readWindowState,
+        onStateChange(callback: (payload: WindowStatePayload) => void) {
+          // 尺寸变化覆盖最大化与全屏切换，焦点变化单独监听
+          const notify = () => {
+            void readWindowState().then(callback).catch(() => undefined);
+          };
+          const pending = [appWindow.onResized(notify), appWindow.onFocusChanged(notify)];
+          return () => {
+            for (const unlisten of pending) {
+              void unlisten.then((fn) => fn()).catch(() => undefined);
+            }
+          };
+        },
+      },
       pnetlab: {
         async checkHealth({ ip, port }: { ip: string; port?: number }) {
           try {
@@ -165,7 +566,7 @@ export function TauriBridgeProvider({ children }: { children: React.ReactNode })
           return (
             (getSettings() as AppSettings | null) ?? {
               preferredLocale: "zh-CN",
-              terminal: { fontFamily: "", fontSize: 14, lineHeight: 1.25, letterSpacing: 0 },
+              terminal: { fontFamily: "", fontSize: 14, lineHeight: 1.25, letterSpacing: 0, scrollback: 5000, bufferSizeKb: DEFAULT_SCROLLBACK_BUFFER_KB, transcriptFormat: "plain", transcriptAutoStart: false, autoReconnect: false, reconnectMaxAttempts: DEFAULT_RECONNECT_MAX_ATTEMPTS, pastePacing: DEFAULT_PASTE_PACING, pasteLineDelayMs: DEFAULT_PASTE_LINE_DELAY_MS, defaultEncoding: DEFAULT_TERMINAL_ENCODING, lineTimestamps: false, lineTimestampFormat: DEFAULT_LINE_TIMESTAMP_FORMAT, renderer: DEFAULT_TERMINAL_RENDERER },
               recentConnections: [],
             }
           );
@@ -177,12 +578,22 @@ export function TauriBridgeProvider({ children }: { children: React.ReactNode })
           setSettings(s);
           return { ok: true, updated: true, locale };
         },
-        async setTerminalPreferences(settings: Partial<{ fontFamily: string; fontSize: number; lineHeight: number; letterSpacing: number }>) {
+        async setTerminalPreferences(settings: Partial<TerminalPreferences>) {
           const s = (await (window.desktopBridge?.settings?.get?.())) ?? (await this.get());
           s.terminal = { ...s.terminal, ...settings };
+          if (typeof settings.bufferSizeKb === "number") {
+            registry.setBufferLimit(settings.bufferSizeKb);
+            void invoke("set_buffer_limit", { limitKb: settings.bufferSizeKb }).catch(() => undefined);
+          }
           setSettings(s);
           return { ok: true, updated: true, settings: s.terminal };
         },
+        async setTerminalProfiles(profiles: Record<string, TerminalAppearanceOverridesRecord>) {
+          const s = (await (window.desktopBridge?.settings?.get?.())) ?? (await this.get());
+          s.terminalProfiles = profiles;
+          setSettings(s);
+          return { ok: true, updated: true, profiles };
+        },
         async addRecentConnection(connection: { host: string; port?: number; label?: string }) {
           const s = (await (window.desktopBridge?.settings?.get?.())) ?? (await this.get());
           const now = Date.now();
@@ -196,6 +607,48 @@ export function TauriBridgeProvider({ children }: { children: React.ReactNode })
           s.recentConnections = [];
           setSettings(s);
           return { ok: true, updated: true, connections: [] };
+        },
+        async setSnippets(snippets: SnippetRecord[]) {
+          const s = (await (window.desktopBridge?.settings?.get?.())) ?? (await this.get());
+          s.snippets = snippets;
+          setSettings(s);
+          return { ok: true, updated: true, snippets };
+        },
+        async setAutomationScripts(scripts: AutomationScriptRecord[]) {
+          const s = (await (window.desktopBridge?.settings?.get?.())) ?? (await this.get());
+          s.automationScripts = scripts;
+          setSettings(s);
+          return { ok: true, updated: true, scripts };
+        },
+        async setHighlightRules(rules: HighlightRuleRecord[]) {
+          const s = (await (window.desktopBridge?.settings?.get?.())) ?? (await this.get());
+          s.highlightRules = rules;
+          setSettings(s);
+          return { ok: true, updated: true, rules };
+        },
+        async setTriggerRules(rules: TriggerRuleRecord[]) {
+          const s = (await (window.desktopBridge?.settings?.get?.())) ?? (await this.get());
+          s.triggerRules = rules;
+          setSettings(s);
+          return { ok: true, updated: true, rules };
+        },
+        async setCommandHistory(entries: CommandHistoryRecord[]) {
+          const s = (await (window.desktopBridge?.settings?.get?.())) ?? (await this.get());
+          s.commandHistory = entries;
+          setSettings(s);
+          return { ok: true, updated: true, entries };
+        },
+        async setColorSchemes(colorSchemes: ColorSchemeSettings) {
+          const s = (await (window.desktopBridge?.settings?.get?.())) ?? (await this.get());
+          s.colorSchemes = colorSchemes;
+          setSettings(s);
+          return { ok: true, updated: true, colorSchemes };
+        },
+        async setShortcuts(shortcuts: ShortcutBindingsRecord) {
+          const s = (await (window.desktopBridge?.settings?.get?.())) ?? (await this.get());
+          s.shortcuts = shortcuts;
+          setSettings(s);
+          return { ok: true, updated: true, shortcuts };
         }
       }
       ,
@@ -223,16 +676,65 @@ export function TauriBridgeProvider({ children }: { children: React.ReactNode })
 
     (window as unknown as { desktopBridge?: DesktopBridge }).desktopBridge = bridge;
 
+    // 统一在桥接层记录输出与生命周期，组件卸载后数据依然保留
+    const recordData = (ev: Event) => {
+      const { id, data } = (ev as CustomEvent<TerminalDataPayload>).detail ?? {};
+      if (!id || !data) return;
+      // 通道会话的输出已由 Rust 侧读取线程写入缓冲
+      if (channels.has(id) ? registry.isRemoved(id) : !registry.append(id, data)) return;
+      // 识别设备提示符：广播主机名与 CLI 模式，主机名变化时同步更新会话标签
+      const tracker = promptTrackers.get(id) ?? new PromptTracker();
+      promptTrackers.set(id, tracker);
+      const previousHostname = tracker.current?.hostname;
+      const prompt = tracker.push(data);
+      if (!prompt) return;
+      registry.setPrompt(id, prompt);
+      syncChannel(id, { prompt });
+      window.dispatchEvent(new CustomEvent<TerminalPromptPayload>("terminal:prompt", { detail: { id, ...prompt } }));
+      if (prompt.hostname !== previousHostname) {
+        const entry = registry.get(id);
+        window.dispatchEvent(
+          new CustomEvent<TerminalLabelPayload>("terminal:label", {
+            detail: { id, label: prompt.hostname, host: entry?.host, port: entry?.port },
+          })
+        );
+      }
+    };
+    const recordExit = (ev: Event) => {
+      const { id } = (ev as CustomEvent<TerminalExitPayload>).detail ?? {};
+      if (!id) return;
+      registry.markExited(id);
+      promptTrackers.delete(id);
+    };
+    const recordLabel = (ev: Event) => {
+      const detail = (ev as CustomEvent<TerminalLabelPayload>).detail;
+      if (!detail?.id) return;
+      registry.update(detail.id, detail);
+      if (detail.label) syncChannel(detail.id, { label: detail.label });
+    };
+    window.addEventListener("terminal:data", recordData);
+    window.addEventListener("terminal:exit", recordExit);
+    window.addEventListener("terminal:label", recordLabel);
+
     // Bridge Tauri events from Rust PTY to our unified terminal events
     let unlistenData: UnlistenFn | null = null;
     let unlistenExit: UnlistenFn | null = null;
     let unlistenTelnet: UnlistenFn | null = null;
-    void listen<{ id: string; data: string }>("pty://data", ({ payload }) => {
-      window.dispatchEvent(
-        new CustomEvent<TerminalDataPayload>("terminal:data", { detail: { id: payload.id, data: payload.data } })
-      );
+    void listen<{ id: string; data: number[] }>("pty://data", ({ payload }) => {
+      // 释放后迟到的输出不再解码，避免为已关闭的会话重新建立解码器
+      if (registry.isRemoved(payload.id)) return;
+      // 首包可能早于 start_pty 返回，收到数据即可确认是 PTY 通道
+      channels.set(payload.id, "pty");
+      const bytes = Uint8Array.from(payload.data);
+      dispatchRawData(payload.id, bytes);
+      const text = fallbackCodecFor(payload.id).decode(bytes);
+      if (text) {
+        dispatchData(payload.id, text);
+      }
     }).then((fn) => (unlistenData = fn));
     void listen<{ id: string }>("pty://exit", ({ payload }) => {
+      releaseFallbackCodec(payload.id);
+      outputBatcher.flush(payload.id);
       window.dispatchEvent(
         new CustomEvent<TerminalExitPayload>("terminal:exit", { detail: { id: payload.id, exitCode: null, signal: null } })
       );
@@ -244,6 +746,16 @@ export function TauriBridgeProvider({ children }: { children: React.ReactNode })
     }).then((fn) => (unlistenTelnet = fn));
 
     return () => {
+      for (const session of telnetSessions.values()) {
+        void session.close();
+      }
+      telnetSessions.clear();
+      channels.clear();
+      promptTrackers.clear();
+      outputBatcher.dispose();
+      window.removeEventListener("terminal:data", recordData);
+      window.removeEventListener("terminal:exit", recordExit);
+      window.removeEventListener("terminal:label", recordLabel);
       try { unlistenData?.(); } catch {}
       try { unlistenExit?.(); } catch {}
       try { unlistenTelnet?.(); } catch {}
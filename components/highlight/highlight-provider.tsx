@@ -0,0 +1,174 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+
+import { DEFAULT_HIGHLIGHT_RULES, sanitizeHighlightRule, type HighlightRule } from "@/lib/highlight";
+
+const LOCAL_STORAGE_KEY = "pnet-tool.highlight-rules";
+
+export type HighlightContextValue = {
+  rules: HighlightRule[];
+  isReady: boolean;
+  saveRule: (rule: HighlightRule) => void;
+  deleteRule: (id: string) => void;
+  moveRule: (id: string, offset: number) => void;
+  resetRules: () => void;
+};
+
+const HighlightContext = createContext<HighlightContextValue | null>(null);
+
+function sanitizeRules(input: unknown): HighlightRule[] | null {
+  if (!Array.isArray(input)) {
+    return null;
+  }
+  return input
+    .map((entry) => sanitizeHighlightRule(entry as Partial<HighlightRule>))
+    .filter((entry): entry is HighlightRule => Boolean(entry));
+}
+
+async function readDesktopRules(): Promise<HighlightRule[] | null> {
+  if (typeof window === "undefined" || !window.desktopBridge?.settings) {
+    return null;
+  }
+  try {
+    const settings = await window.desktopBridge.settings.get();
+    return sanitizeRules(settings?.highlightRules);
+  } catch (error) {
+    console.warn("Failed to read desktop highlight rules", error);
+    return null;
+  }
+}
+
+function readLocalStorageRules(): HighlightRule[] | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  try {
+    const stored = window.localStorage?.getItem(LOCAL_STORAGE_KEY);
+    return stored ? sanitizeRules(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.warn("Failed to read highlight rules from localStorage", error);
+    return null;
+  }
+}
+
+async function persistRules(rules: HighlightRule[]) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    window.localStorage?.setItem(LOCAL_STORAGE_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.warn("Failed to persist highlight rules to localStorage", error);
+  }
+
+  try {
+    await window.desktopBridge?.settings?.setHighlightRules(rules);
+  } catch (error) {
+    console.warn("Failed to persist highlight rules to desktop settings", error);
+  }
+}
+
+export function HighlightProvider({ children }: { children: ReactNode }) {
+  const [rules, setRules] = useState<HighlightRule[]>(DEFAULT_HIGHLIGHT_RULES);
+  const [isReady, setReady] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    const bootstrap = async () => {
+      const desktopRules = await readDesktopRules();
+      if (!active) {
+        return;
+      }
+      const stored = desktopRules ?? readLocalStorageRules();
+      if (stored) {
+        setRules(stored);
+      }
+      setReady(true);
+    };
+
+    bootstrap().catch((error) => {
+      console.error("Failed to bootstrap highlight rules", error);
+      if (active) {
+        setReady(true);
+      }
+    });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const update = useCallback((transform: (previous: HighlightRule[]) => HighlightRule[]) => {
+    setRules((previous) => {
+      const next = transform(previous);
+      void persistRules(next);
+      return next;
+    });
+  }, []);
+
+  const saveRule = useCallback(
+    (rule: HighlightRule) => {
+      const sanitized = sanitizeHighlightRule(rule);
+      if (!sanitized) {
+        return;
+      }
+      update((previous) => {
+        const index = previous.findIndex((entry) => entry.id === sanitized.id);
+        if (index === -1) {
+          return [...previous, sanitized];
+        }
+        const next = [...previous];
+        next[index] = sanitized;
+        return next;
+      });
+    },
+    [update]
+  );
+
+  const deleteRule = useCallback(
+    (id: string) => {
+      update((previous) => previous.filter((entry) => entry.id !== id));
+    },
+    [update]
+  );
+
+  // 规则按顺序生效，调整顺序即调整优先级
+  const moveRule = useCallback(
+    (id: string, offset: number) => {
+      update((previous) => {
+        const index = previous.findIndex((entry) => entry.id === id);
+        const target = index + offset;
+        if (index === -1 || target < 0 || target >= previous.length) {
+          return previous;
+        }
+        const next = [...previous];
+        const [rule] = next.splice(index, 1);
+        next.splice(target, 0, rule);
+        return next;
+      });
+    },
+    [update]
+  );
+
+  const resetRules = useCallback(() => {
+    update(() => DEFAULT_HIGHLIGHT_RULES);
+  }, [update]);
+
+  const value = useMemo<HighlightContextValue>(
+    () => ({ rules, isReady, saveRule, deleteRule, moveRule, resetRules }),
+    [deleteRule, isReady, moveRule, resetRules, rules, saveRule]
+  );
+
+  return <HighlightContext.Provider value={value}>{children}</HighlightContext.Provider>;
+}
+
+export function useHighlightRules() {
+  const context = useContext(HighlightContext);
+  if (!context) {
+    throw new Error("useHighlightRules must be used within a HighlightProvider");
+  }
+  return context;
+}
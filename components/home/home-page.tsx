@@ -1,20 +1,76 @@
 "use client";
 
 import Link from "next/link";
-import { type FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { Info, RadioTower, Settings2, TerminalSquare } from "lucide-react";
+import { type DragEvent, type FormEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Bot,
+  Clapperboard,
+  Columns2,
+  Grid2x2,
+  History,
+  Info,
+  ListRestart,
+  Radio,
+  RadioTower,
+  Rows2,
+  ScrollText,
+  Settings2,
+  Square,
+  TerminalSquare,
+} from "lucide-react";
 
 import {
   TelnetTerminal,
   type TerminalStatus,
   type TerminalStatusChange,
 } from "@/components/terminal/telnet-terminal";
-import { SessionTabs } from "@/components/home/session-tabs";
+import { TerminalAppearanceDialog, type AppearanceScope } from "@/components/terminal/terminal-appearance-dialog";
+import { sanitizeAppearanceOverrides, useTerminalSettings } from "@/components/terminal/terminal-settings-provider";
+import {
+  DEFAULT_PANE_LAYOUT,
+  PANE_LAYOUT_MODES,
+  assignSessionToPane,
+  changePaneLayoutMode,
+  getPaneGridStyle,
+  getPanePlacement,
+  removeSessionFromLayout,
+  revealSessionInLayout,
+  sanitizePaneLayout,
+  type PaneLayout,
+  type PaneLayoutMode,
+} from "@/components/home/pane-layout";
+import { AutomationPanel } from "@/components/automation/automation-panel";
+import { useConfigBackups } from "@/components/backup/config-backup-provider";
+import { CommandHistoryPanel } from "@/components/command-history/command-history-panel";
+import { useCommandHistory } from "@/components/command-history/command-history-provider";
+import { CommandRecallOverlay } from "@/components/command-history/command-recall-overlay";
+import { ConfigHistoryPanel, type ConfigBackupJob } from "@/components/backup/config-history-panel";
+import { RecordingsPanel } from "@/components/recordings/recordings-panel";
+import { SessionTabs, TAB_DRAG_TYPE, parseTabPayload } from "@/components/home/session-tabs";
 import { useLocaleDictionary } from "@/components/locale/locale-provider";
+import { useShortcuts } from "@/components/shortcuts/shortcut-provider";
+import { SnippetPanel } from "@/components/snippets/snippet-panel";
+import { TriggerToasts, type TriggerToast } from "@/components/triggers/trigger-toasts";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import type { AutomationSessionIo } from "@/lib/automation";
+import {
+  ConfigSnapshotQuotaError,
+  canCaptureConfig,
+  captureConfiguration,
+  generateConfigSnapshotId,
+  getConfigCommandPlan,
+} from "@/lib/backup";
+import { buildHistoryDevices } from "@/lib/command-history";
+import { isPromptVendor } from "@/lib/prompt";
+import { matchShortcut } from "@/lib/shortcuts";
+import { buildDeviceProfileKey, type TerminalAppearanceOverrides } from "@/lib/terminal/appearance";
+import type { TerminalLinkTarget } from "@/lib/terminal/links";
+import type { ReconnectProgress } from "@/lib/terminal/reconnect";
+import type { TerminalDescribeResult, TerminalPromptInfo } from "@/types/desktop-bridge";
+import { showSystemNotification, type TriggerMatch } from "@/lib/triggers";
 import { cn } from "@/lib/utils";
 
 const DEFAULT_TELNET_PORT = 23;
@@ -40,6 +96,8 @@ type TelnetActivateAction = {
 
 type TelnetAction = TelnetOpenAction | TelnetActivateAction;
 
+type SidePanel = "snippets" | "history" | "automation" | "backups" | "recordings";
+
 type ManagedSession = {
   key: string;
   sessionId?: string;
@@ -49,12 +107,27 @@ type ManagedSession = {
   autoConnectToken: number;
   status: TerminalStatus;
   error: string | null;
+  reconnect?: ReconnectProgress | null;
+  prompt?: TerminalPromptInfo | null;
+  /** 会话级外观覆盖，未设置的字段沿用设备级覆盖与全局终端设置 */
+  appearance?: TerminalAppearanceOverrides;
 };
 
 const RECENT_CONNECTION_LIMIT = 12;
 const LOCAL_RECENTS_STORAGE_KEY = "pnet:recent-connections:v1";
 const SESSION_STORAGE_KEY = "pnet:active-terminal-sessions:v2";
 const SESSION_ACTIVE_STORAGE_KEY = "pnet:active-terminal-session-key:v2";
+const SESSION_LAYOUT_STORAGE_KEY = "pnet:terminal-pane-layout:v1";
+/** 触发器提示在屏幕上停留的时间 */
+const TRIGGER_TOAST_DURATION_MS = 6000;
+const MAX_TRIGGER_TOASTS = 4;
+
+const PANE_LAYOUT_ICONS: Record<PaneLayoutMode, typeof Square> = {
+  single: Square,
+  columns: Columns2,
+  rows: Rows2,
+  grid: Grid2x2,
+};
 
 type RecentConnectionRecord = {
   host: string;
@@ -69,6 +142,7 @@ type PersistedSessionSnapshot = {
   host: string;
   port: number;
   label: string;
+  appearance?: TerminalAppearanceOverrides;
 };
 
 function sanitizePortValue(value: unknown, fallback = DEFAULT_TELNET_PORT) {
@@ -138,6 +212,7 @@ function sanitizePersistedSessionSnapshot(
   const port = sanitizePortValue(entry.port);
   const rawLabel = typeof entry.label === "string" ? entry.label : host;
   const label = rawLabel.trim() || host;
+  const appearance = sanitizeAppearanceOverrides(entry.appearance) ?? undefined;
 
   return {
     key,
@@ -145,17 +220,33 @@ function sanitizePersistedSessionSnapshot(
     host,
     port,
     label,
+    appearance,
   } satisfies PersistedSessionSnapshot;
 }
 
 export function HomePage() {
   const { dictionary } = useLocaleDictionary("home");
+  const { addSnapshot } = useConfigBackups();
+  const { bindings: shortcutBindings } = useShortcuts();
+  const { profileOverrides, setProfileOverrides } = useTerminalSettings();
+  const { recordCommand } = useCommandHistory();
   const [ip, setIp] = useState("");
   const [port, setPort] = useState(DEFAULT_TELNET_PORT);
   const [sessions, setSessions] = useState<ManagedSession[]>([]);
   const [activeSessionKey, setActiveSessionKey] = useState<string | null>(null);
   const [isDesktop, setIsDesktop] = useState(false);
   const [showWorkbench, setShowWorkbench] = useState(false);
+  const [openPanel, setOpenPanel] = useState<SidePanel | null>(null);
+  const [isRecallOpen, setRecallOpen] = useState(false);
+  const [automationTargetKey, setAutomationTargetKey] = useState<string | null>(null);
+  const [backupJob, setBackupJob] = useState<ConfigBackupJob | null>(null);
+  const [backupHostname, setBackupHostname] = useState<string | null>(null);
+  const [appearanceTargetKey, setAppearanceTargetKey] = useState<string | null>(null);
+  const [triggerToasts, setTriggerToasts] = useState<TriggerToast[]>([]);
+  const [flashingKeys, setFlashingKeys] = useState<string[]>([]);
+  const [isBroadcasting, setBroadcasting] = useState(false);
+  const [broadcastKeys, setBroadcastKeys] = useState<string[]>([]);
+  const [paneLayout, setPaneLayout] = useState<PaneLayout>(DEFAULT_PANE_LAYOUT);
   const [formError, setFormError] = useState<string | null>(null);
   const [recentConnections, setRecentConnections] = useState<RecentConnectionRecord[]>(() => {
     if (typeof window === "undefined") {
@@ -180,8 +271,11 @@ export function HomePage() {
     }
   });
   const sessionsRef = useRef<ManagedSession[]>([]);
+  const backupKeysRef = useRef<Set<string>>(new Set());
   const activeKeyRef = useRef<string | null>(null);
+  const broadcastRef = useRef<{ enabled: boolean; keys: string[] }>({ enabled: false, keys: [] });
   const autoConnectTokenRef = useRef(1);
+  const windowFocusedRef = useRef(true);
 
   const generateSessionKey = useCallback(() => {
     if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
@@ -291,46 +385,101 @@ export function HomePage() {
     sessionsRef.current = sessions;
   }, [sessions]);
 
-  // 从 localStorage 恢复上次的会话标签与参数（不恢复运行中的 PTY id）
+  // 从 localStorage 恢复上次的会话标签与参数；桥接层仍持有的会话直接重新附着，
+  // 没有标签认领的会话（例如标签记录已丢失）在恢复后关闭，避免连接在后台泄漏
   useEffect(() => {
     if (typeof window === "undefined") return;
-    let restored = false;
-    try {
+    let active = true;
+
+    // 在恢复标签之前取快照，避免把恢复后新建的会话误判为孤儿
+    const closeOrphans = async (live: TerminalDescribeResult[], claimed: Set<string>) => {
+      const owned = new Set(sessionsRef.current.map((session) => session.sessionId));
+      await Promise.all(
+        live
+          .filter((session) => !claimed.has(session.id) && !owned.has(session.id))
+          .map((session) => window.desktopBridge?.terminal?.dispose(session.id).catch(() => false))
+      );
+    };
+
+    const restore = async () => {
+      const live = (await window.desktopBridge?.terminal?.list().catch(() => [])) ?? [];
+      const rawLayout = window.localStorage.getItem(SESSION_LAYOUT_STORAGE_KEY);
+      const storedLayout = rawLayout ? sanitizePaneLayout(JSON.parse(rawLayout) as Partial<PaneLayout>) : null;
+      if (storedLayout) {
+        setPaneLayout(storedLayout);
+      }
+
       const raw = window.localStorage.getItem(SESSION_STORAGE_KEY);
-      if (raw) {
-        const parsed = JSON.parse(raw) as Array<Partial<PersistedSessionSnapshot>>;
-        const snapshots = Array.isArray(parsed)
-          ? parsed
-              .map(sanitizePersistedSessionSnapshot)
-              .filter((v): v is PersistedSessionSnapshot => Boolean(v))
-          : [];
-        if (snapshots.length > 0) {
-          setSessions((prev) => {
-            // 避免重复恢复：如果已有会话则不覆盖
-            if (prev.length > 0) return prev;
-            restored = true;
-            return snapshots.map((s) => ({
-              key: s.key,
-              sessionId: undefined,
-              host: s.host,
-              port: s.port,
-              label: s.label,
-              autoConnectToken: generateAutoToken(),
-              status: "idle",
-              error: null,
-            }));
-          });
-        }
-        if (restored) {
-          const storedActive = window.localStorage.getItem(SESSION_ACTIVE_STORAGE_KEY);
-          if (storedActive && snapshots.some((snapshot) => snapshot.key === storedActive)) {
-            setActiveSessionKey((prev) => prev ?? storedActive);
+      if (!raw) {
+        await closeOrphans(live, new Set());
+        return;
+      }
+      const parsed = JSON.parse(raw) as Array<Partial<PersistedSessionSnapshot>>;
+      const snapshots = Array.isArray(parsed)
+        ? parsed
+            .map(sanitizePersistedSessionSnapshot)
+            .filter((v): v is PersistedSessionSnapshot => Boolean(v))
+        : [];
+      if (snapshots.length === 0) {
+        await closeOrphans(live, new Set());
+        return;
+      }
+
+      const describe = window.desktopBridge?.terminal?.describe;
+      const liveSessions = await Promise.all(
+        snapshots.map(async (snapshot) => {
+          if (!describe) {
+            return null;
+          }
+          try {
+            const description = await describe(snapshot.sessionId);
+            return description && !description.exited ? description : null;
+          } catch {
+            return null;
           }
+        })
+      );
+      if (!active) {
+        return;
+      }
+
+      let restored = false;
+      setSessions((prev) => {
+        // 避免重复恢复：如果已有会话则不覆盖
+        if (prev.length > 0) return prev;
+        restored = true;
+        return snapshots.map((s, index) => {
+          const live = liveSessions[index];
+          return {
+            key: s.key,
+            sessionId: live ? s.sessionId : undefined,
+            host: live?.host ?? s.host,
+            port: live?.port ?? s.port,
+            label: live?.label ?? s.label,
+            prompt: live?.prompt ?? null,
+            appearance: s.appearance,
+            autoConnectToken: generateAutoToken(),
+            status: "idle",
+            error: null,
+          };
+        });
+      });
+      if (restored) {
+        await closeOrphans(live, new Set(snapshots.filter((_, index) => liveSessions[index]).map((snapshot) => snapshot.sessionId)));
+        const storedActive = window.localStorage.getItem(SESSION_ACTIVE_STORAGE_KEY);
+        if (storedActive && snapshots.some((snapshot) => snapshot.key === storedActive)) {
+          setActiveSessionKey((prev) => prev ?? storedActive);
         }
       }
-    } catch (e) {
+    };
+
+    restore().catch((e) => {
       console.warn("Failed to restore sessions", e);
-    }
+    });
+
+    return () => {
+      active = false;
+    };
   }, [generateAutoToken]);
 
   useEffect(() => {
@@ -370,8 +519,25 @@ export function HomePage() {
     };
   }, []);
 
+  useEffect(() => {
+    const onPrompt = window.desktopBridge?.terminal?.onPrompt;
+    if (!onPrompt) {
+      return;
+    }
+    const unsubscribe = onPrompt(({ id, ...prompt }) => {
+      setSessions((prev) =>
+        prev.map((session) => (session.sessionId === id ? { ...session, prompt } : session))
+      );
+    });
+    return () => {
+      unsubscribe?.();
+    };
+  }, []);
+
   useEffect(() => {
     activeKeyRef.current = activeSessionKey;
+    // 切换到会话即视为已查看，停止标签闪烁
+    setFlashingKeys((prev) => (activeSessionKey && prev.includes(activeSessionKey) ? prev.filter((key) => key !== activeSessionKey) : prev));
   }, [activeSessionKey]);
 
   useEffect(() => {
@@ -385,8 +551,10 @@ export function HomePage() {
         host: session.host,
         port: session.port,
         label: session.label,
+        appearance: session.appearance,
       }));
       window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(snapshots));
+      window.localStorage.setItem(SESSION_LAYOUT_STORAGE_KEY, JSON.stringify(paneLayout));
       if (activeSessionKey) {
         window.localStorage.setItem(SESSION_ACTIVE_STORAGE_KEY, activeSessionKey);
       } else {
@@ -395,7 +563,15 @@ export function HomePage() {
     } catch (error) {
       console.warn("Failed to persist terminal sessions", error);
     }
-  }, [sessions, activeSessionKey]);
+  }, [sessions, activeSessionKey, paneLayout]);
+
+  // 分屏模式下保证活动会话处于某个窗格中，并聚焦该窗格
+  useEffect(() => {
+    if (!activeSessionKey) {
+      return;
+    }
+    setPaneLayout((prev) => revealSessionInLayout(prev, activeSessionKey));
+  }, [activeSessionKey, paneLayout.mode]);
 
   useEffect(() => {
     if (sessions.length === 0) {
@@ -420,6 +596,289 @@ export function HomePage() {
 
   const terminalErrorMessage = activeSession?.error ?? null;
 
+  const activeSessionId = activeSession?.sessionId ?? null;
+
+  const activeHistoryDevices = useMemo(
+    () => (activeSession ? buildHistoryDevices(activeSession.host, activeSession.port, activeSession.prompt?.hostname) : []),
+    [activeSession]
+  );
+
+  useEffect(() => {
+    broadcastRef.current = { enabled: isBroadcasting, keys: broadcastKeys };
+  }, [broadcastKeys, isBroadcasting]);
+
+  // 广播模式下把源会话的输入镜像到其他已勾选的会话
+  const mirrorInput = useCallback((sourceKey: string | null, data: string) => {
+    const { enabled, keys } = broadcastRef.current;
+    if (!enabled || keys.length === 0) {
+      return;
+    }
+    sessionsRef.current.forEach((session) => {
+      if (session.key === sourceKey || !session.sessionId || !keys.includes(session.key)) {
+        return;
+      }
+      window.desktopBridge?.terminal?.write(session.sessionId, data);
+    });
+  }, []);
+
+  const handleSessionInput = useCallback(
+    (key: string) => (data: string) => {
+      mirrorInput(key, data);
+    },
+    [mirrorInput]
+  );
+
+  // 主机名识别出之前记录在 host:port 下，之后记录在主机名下
+  const handleSessionCommand = useCallback(
+    (key: string) => (command: string) => {
+      const session = sessionsRef.current.find((entry) => entry.key === key);
+      if (!session) {
+        return;
+      }
+      const [device] = buildHistoryDevices(session.host, session.port, session.prompt?.hostname);
+      recordCommand({ device, command, vendor: session.prompt?.vendor });
+    },
+    [recordCommand]
+  );
+
+  // 窗口焦点决定触发器用系统通知还是仅应用内提示；桌面端以桥接层的窗口状态为准
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
+    }
+    windowFocusedRef.current = document.hasFocus();
+    const windowApi = window.desktopBridge?.window;
+    if (windowApi) {
+      const update = ({ isFocused }: { isFocused: boolean }) => {
+        windowFocusedRef.current = isFocused;
+      };
+      void windowApi.getState().then(update).catch(() => undefined);
+      return windowApi.onStateChange(update);
+    }
+    const handleFocus = () => {
+      windowFocusedRef.current = true;
+    };
+    const handleBlur = () => {
+      windowFocusedRef.current = false;
+    };
+    window.addEventListener("focus", handleFocus);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("focus", handleFocus);
+      window.removeEventListener("blur", handleBlur);
+    };
+  }, []);
+
+  const dismissTriggerToast = useCallback((id: string) => {
+    setTriggerToasts((prev) => prev.filter((toast) => toast.id !== id));
+  }, []);
+
+  const handleSessionTrigger = useCallback(
+    (key: string) => (match: TriggerMatch) => {
+      const session = sessionsRef.current.find((entry) => entry.key === key);
+      if (!session) {
+        return;
+      }
+      if (match.rule.flashTab && key !== activeKeyRef.current) {
+        setFlashingKeys((prev) => (prev.includes(key) ? prev : [...prev, key]));
+      }
+      if (!match.rule.notify) {
+        return;
+      }
+      const title = dictionary.triggers.toastTitle.replace("{name}", match.rule.name).replace("{session}", session.label);
+      const id = `${key}-${match.rule.id}-${Date.now()}`;
+      setTriggerToasts((prev) => [...prev, { id, sessionKey: key, title, line: match.line }].slice(-MAX_TRIGGER_TOASTS));
+      window.setTimeout(() => dismissTriggerToast(id), TRIGGER_TOAST_DURATION_MS);
+      if (!windowFocusedRef.current) {
+        void showSystemNotification(title, match.line);
+      }
+    },
+    [dictionary.triggers.toastTitle, dismissTriggerToast]
+  );
+
+  const handleToggleBroadcastTarget = useCallback((key: string) => {
+    setBroadcastKeys((prev) => (prev.includes(key) ? prev.filter((entry) => entry !== key) : [...prev, key]));
+  }, []);
+
+  const handleToggleBroadcast = useCallback(() => {
+    setBroadcasting((value) => !value);
+  }, []);
+
+  const broadcastTargetCount = useMemo(
+    () => sessions.filter((session) => session.key !== activeSessionKey && broadcastKeys.includes(session.key)).length,
+    [activeSessionKey, broadcastKeys, sessions]
+  );
+
+  const handleSendSnippet = useCallback(
+    (data: string) => {
+      if (!activeSessionId) {
+        return;
+      }
+      window.desktopBridge?.terminal?.write(activeSessionId, data);
+      mirrorInput(activeKeyRef.current, data);
+    },
+    [activeSessionId, mirrorInput]
+  );
+
+  const handleSendHistoryCommand = useCallback(
+    (command: string, run: boolean) => {
+      handleSendSnippet(run ? `${command}\r` : command);
+    },
+    [handleSendSnippet]
+  );
+
+  // 调出窗口关闭后把焦点还给打开前的终端，便于继续编辑插入的命令
+  const recallReturnFocusRef = useRef<HTMLElement | null>(null);
+
+  const handleOpenRecall = useCallback(() => {
+    if (!activeKeyRef.current) {
+      return;
+    }
+    recallReturnFocusRef.current = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    setRecallOpen(true);
+  }, []);
+
+  const handleCloseRecall = useCallback(() => {
+    setRecallOpen(false);
+    recallReturnFocusRef.current?.focus();
+    recallReturnFocusRef.current = null;
+  }, []);
+
+  const handleRecallSelect = useCallback(
+    (command: string, run: boolean) => {
+      handleSendHistoryCommand(command, run);
+      handleCloseRecall();
+    },
+    [handleCloseRecall, handleSendHistoryCommand]
+  );
+
+  // 右侧抽屉同一时间只显示一个
+  const togglePanel = useCallback((panel: SidePanel) => {
+    setOpenPanel((current) => (current === panel ? null : panel));
+  }, []);
+
+  const handleToggleSnippets = useCallback(() => togglePanel("snippets"), [togglePanel]);
+
+  const handleToggleAutomation = useCallback(() => {
+    setAutomationTargetKey(null);
+    togglePanel("automation");
+  }, [togglePanel]);
+
+  const handleAutomateSession = useCallback((key: string) => {
+    setAutomationTargetKey(key);
+    setOpenPanel("automation");
+  }, []);
+
+  // 会话重连后 sessionId 会变化，因此读写时按 key 实时查找
+  const createSessionIo = useCallback((key: string): AutomationSessionIo => {
+    const resolveId = () => sessionsRef.current.find((session) => session.key === key)?.sessionId;
+    return {
+      write: (data) => {
+        const id = resolveId();
+        if (id) {
+          window.desktopBridge?.terminal?.write(id, data);
+        }
+      },
+      subscribe: (listener) =>
+        window.desktopBridge?.terminal?.onData((payload) => {
+          if (payload.id === resolveId()) {
+            listener(payload.data);
+          }
+        }) ?? (() => undefined),
+    };
+  }, []);
+
+  // 未从标签指定目标时，自动化脚本作用于当前活动会话
+  const automationTarget = useMemo(
+    () => sessions.find((session) => session.key === (automationTargetKey ?? activeSessionKey)) ?? null,
+    [activeSessionKey, automationTargetKey, sessions]
+  );
+  const automationTargetReady = Boolean(automationTarget?.sessionId);
+  const automationTargetKeyResolved = automationTarget?.key ?? null;
+
+  const automationIo = useMemo(
+    () => (automationTargetKeyResolved && automationTargetReady ? createSessionIo(automationTargetKeyResolved) : null),
+    [automationTargetKeyResolved, automationTargetReady, createSessionIo]
+  );
+
+  const appearanceTarget = useMemo(
+    () => sessions.find((session) => session.key === appearanceTargetKey) ?? null,
+    [appearanceTargetKey, sessions]
+  );
+
+  const handleSaveAppearance = useCallback(
+    (scope: AppearanceScope, overrides: TerminalAppearanceOverrides | null) => {
+      const target = sessionsRef.current.find((session) => session.key === appearanceTargetKey);
+      setAppearanceTargetKey(null);
+      if (!target) {
+        return;
+      }
+      if (scope === "device") {
+        setProfileOverrides(buildDeviceProfileKey(target.host, target.port), overrides);
+        return;
+      }
+      setSessions((prev) =>
+        prev.map((session) => (session.key === target.key ? { ...session, appearance: overrides ?? undefined } : session))
+      );
+    },
+    [appearanceTargetKey, setProfileOverrides]
+  );
+
+  const handleBackupSession = useCallback(
+    async (key: string) => {
+      const session = sessionsRef.current.find((entry) => entry.key === key);
+      if (!session || backupKeysRef.current.has(key)) {
+        return;
+      }
+      const prompt = session.prompt;
+      const hostname = prompt?.hostname ?? session.label;
+      setOpenPanel("backups");
+      setBackupHostname(prompt?.hostname ?? null);
+
+      const fail = (message: string) => setBackupJob({ hostname, state: "error", message });
+      if (!session.sessionId || !prompt) {
+        fail(dictionary.backup.noPrompt);
+        return;
+      }
+      if (!isPromptVendor(prompt.vendor) || !getConfigCommandPlan(prompt.vendor)) {
+        fail(dictionary.backup.unsupported);
+        return;
+      }
+      if (!canCaptureConfig(prompt.vendor, prompt.mode)) {
+        fail(dictionary.backup.wrongMode);
+        return;
+      }
+
+      backupKeysRef.current.add(key);
+      setBackupJob({ hostname, state: "running" });
+      try {
+        const content = await captureConfiguration({
+          io: createSessionIo(key),
+          prompt: { ...prompt, vendor: prompt.vendor },
+        });
+        addSnapshot({
+          id: generateConfigSnapshotId(),
+          hostname,
+          vendor: prompt.vendor,
+          host: session.host,
+          port: session.port,
+          capturedAt: Date.now(),
+          content,
+        });
+        setBackupJob({ hostname, state: "done" });
+      } catch (error) {
+        if (error instanceof ConfigSnapshotQuotaError) {
+          fail(dictionary.backup.storageFull);
+          return;
+        }
+        fail(error instanceof Error ? error.message : String(error));
+      } finally {
+        backupKeysRef.current.delete(key);
+      }
+    },
+    [addSnapshot, createSessionIo, dictionary.backup]
+  );
+
   const handleQuickConnect = useCallback(
     (event?: FormEvent<HTMLFormElement>) => {
       event?.preventDefault();
@@ -498,6 +957,7 @@ export function HomePage() {
             ...session,
             status: payload.status,
             error: payload.error ?? null,
+            reconnect: payload.reconnect ?? null,
           };
           if (payload.status === "connected" && !wasConnected && nextSession.sessionId) {
             connectionToPersist = {
@@ -560,6 +1020,12 @@ export function HomePage() {
     [createSessionEntry]
   );
 
+  // 终端输出中的地址：未给出端口时按 Telnet 默认端口打开
+  const handleOpenLink = useCallback(
+    (target: TerminalLinkTarget) => handleTelnetOpen({ host: target.host, port: target.port }),
+    [handleTelnetOpen]
+  );
+
   const focusSessionById = useCallback(
     (sessionId: string) => {
       const target = sessionsRef.current.find((session) => session.sessionId === sessionId);
@@ -632,10 +1098,105 @@ export function HomePage() {
         }
         return next;
       });
+      setBroadcastKeys((prev) => prev.filter((entry) => entry !== key));
+      setAutomationTargetKey((prev) => (prev === key ? null : prev));
+      setPaneLayout((prev) => removeSessionFromLayout(prev, key));
+    },
+    []
+  );
+
+  // 页面级快捷键；终端级动作（搜索、清屏、重连）由获得焦点的 TelnetTerminal 自行处理
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const shortcut = matchShortcut(event, shortcutBindings);
+      if (!shortcut || shortcut.scope !== "app") {
+        return;
+      }
+      event.preventDefault();
+      const list = sessionsRef.current;
+      const currentIndex = list.findIndex((session) => session.key === activeKeyRef.current);
+      switch (shortcut.id) {
+        case "nextSession":
+        case "previousSession": {
+          if (list.length === 0) {
+            return;
+          }
+          const offset = shortcut.id === "nextSession" ? 1 : -1;
+          const nextIndex = (Math.max(currentIndex, 0) + offset + list.length) % list.length;
+          setActiveSessionKey(list[nextIndex].key);
+          return;
+        }
+        case "closeSession":
+          if (activeKeyRef.current) {
+            void handleCloseSession(activeKeyRef.current);
+          }
+          return;
+        case "quickConnect":
+          setShowWorkbench(true);
+          window.requestAnimationFrame(() => document.getElementById("pnet-ip")?.focus());
+          return;
+        case "toggleBroadcast":
+          setBroadcasting((value) => !value);
+          return;
+        case "toggleSnippets":
+          handleToggleSnippets();
+          return;
+        case "recallCommand":
+          handleOpenRecall();
+          return;
+        default: {
+          const target = shortcut.sessionIndex ? list[shortcut.sessionIndex - 1] : undefined;
+          if (target) {
+            setActiveSessionKey(target.key);
+          }
+        }
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [handleCloseSession, handleOpenRecall, handleToggleSnippets, shortcutBindings]);
+
+  const handleChangeLayout = useCallback((mode: PaneLayoutMode) => {
+    setPaneLayout((prev) => (prev.mode === mode ? prev : changePaneLayoutMode(prev, mode)));
+  }, []);
+
+  const handleFocusPane = useCallback((index: number, key: string | null) => {
+    setPaneLayout((prev) => (prev.mode === "single" || prev.focusedPane === index ? prev : { ...prev, focusedPane: index }));
+    if (key) {
+      setActiveSessionKey(key);
+    }
+  }, []);
+
+  const handlePaneDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
+    if (!Array.from(event.dataTransfer?.types ?? []).includes(TAB_DRAG_TYPE)) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+  }, []);
+
+  const handlePaneDrop = useCallback(
+    (index: number) => (event: DragEvent<HTMLDivElement>) => {
+      const key = parseTabPayload(event.dataTransfer?.getData(TAB_DRAG_TYPE));
+      if (!key || !sessionsRef.current.some((session) => session.key === key)) {
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      setPaneLayout((prev) => (prev.mode === "single" ? prev : assignSessionToPane(prev, index, key)));
+      setActiveSessionKey(key);
     },
     []
   );
 
+  const isSplitLayout = paneLayout.mode !== "single";
+  const visiblePanes = useMemo(
+    () => (isSplitLayout ? paneLayout.panes : [activeSessionKey]),
+    [activeSessionKey, isSplitLayout, paneLayout.panes]
+  );
+
   const handleTabReorder = useCallback((sourceKey: string, targetKey: string | null) => {
     setSessions((prev) => {
       if (sourceKey === targetKey) {
@@ -813,6 +1374,26 @@ export function HomePage() {
             <Button variant="secondary" size="sm" onClick={() => setShowWorkbench((v) => !v)} className="hidden lg:inline-flex">
               {showWorkbench ? dictionary.sidebar.title : dictionary.sidebar.title}
             </Button>
+            <Button variant={openPanel === "snippets" ? "secondary" : "ghost"} size="sm" onClick={handleToggleSnippets}>
+              <ScrollText className="h-4 w-4" />
+              {dictionary.snippets.toggleButton}
+            </Button>
+            <Button variant={openPanel === "history" ? "secondary" : "ghost"} size="sm" onClick={() => togglePanel("history")}>
+              <ListRestart className="h-4 w-4" />
+              {dictionary.commandHistory.toggleButton}
+            </Button>
+            <Button variant={openPanel === "automation" ? "secondary" : "ghost"} size="sm" onClick={handleToggleAutomation}>
+              <Bot className="h-4 w-4" />
+              {dictionary.automation.toggleButton}
+            </Button>
+            <Button variant={openPanel === "backups" ? "secondary" : "ghost"} size="sm" onClick={() => togglePanel("backups")}>
+              <History className="h-4 w-4" />
+              {dictionary.backup.toggleButton}
+            </Button>
+            <Button variant={openPanel === "recordings" ? "secondary" : "ghost"} size="sm" onClick={() => togglePanel("recordings")}>
+              <Clapperboard className="h-4 w-4" />
+              {dictionary.recordings.toggleButton}
+            </Button>
             <Button variant="ghost" size="sm" asChild>
               <Link href="/settings">
                 <Settings2 className="h-4 w-4" />
@@ -834,38 +1415,116 @@ export function HomePage() {
                     label: session.label,
                     status: session.status,
                     isActive: session.key === activeSessionKey,
+                    isBroadcastTarget: broadcastKeys.includes(session.key),
+                    isFlashing: flashingKeys.includes(session.key),
+                    reconnect: session.reconnect,
+                    prompt: session.prompt,
                   }))}
                   dictionary={dictionary.terminal}
                   onSelect={handleSelectSession}
                   onClose={handleCloseSession}
                   onReorder={handleTabReorder}
+                  onAutomate={handleAutomateSession}
+                  onBackup={handleBackupSession}
+                  onAppearance={setAppearanceTargetKey}
+                  broadcast={{
+                    enabled: isBroadcasting,
+                    onToggle: handleToggleBroadcast,
+                    onToggleTarget: handleToggleBroadcastTarget,
+                  }}
                 />
               </div>
-              <div className="flex min-h-0 flex-1 overflow-hidden">
+              <div className="flex min-h-0 flex-1 flex-col gap-2 overflow-hidden">
                 {sessions.length > 0 ? (
-                  <div className="relative flex min-h-0 flex-1 flex-col overflow-hidden rounded-lg border border-border/70 bg-card/90 shadow-inner">
+                  <div className="flex shrink-0 items-center justify-end gap-1" role="group" aria-label={dictionary.terminal.layout.label}>
+                    {PANE_LAYOUT_MODES.map((mode) => {
+                      const Icon = PANE_LAYOUT_ICONS[mode];
+                      return (
+                        <Button
+                          key={mode}
+                          type="button"
+                          size="icon"
+                          variant={paneLayout.mode === mode ? "secondary" : "ghost"}
+                          className="h-7 w-7"
+                          onClick={() => handleChangeLayout(mode)}
+                          title={dictionary.terminal.layout.modes[mode]}
+                          aria-pressed={paneLayout.mode === mode}
+                        >
+                          <Icon className="h-4 w-4" />
+                        </Button>
+                      );
+                    })}
+                  </div>
+                ) : null}
+                {isBroadcasting && sessions.length > 0 ? (
+                  <div className="flex shrink-0 items-center justify-between rounded-md border border-amber-500/50 bg-amber-500/10 px-3 py-1.5 text-xs text-amber-700 dark:text-amber-300">
+                    <span className="flex items-center gap-2">
+                      <Radio className="h-3.5 w-3.5" />
+                      {dictionary.terminal.sessionTabs.broadcastBanner.replace("{count}", String(broadcastTargetCount))}
+                    </span>
+                    <Button size="sm" variant="ghost" className="h-6 px-2 text-[11px]" onClick={handleToggleBroadcast}>
+                      {dictionary.terminal.sessionTabs.broadcastExit}
+                    </Button>
+                  </div>
+                ) : null}
+                {sessions.length > 0 ? (
+                  <div
+                    className="relative grid min-h-0 flex-1 gap-2 overflow-hidden"
+                    style={getPaneGridStyle(paneLayout.mode)}
+                  >
+                    {visiblePanes.map((key, index) =>
+                      key && sessions.some((session) => session.key === key) ? null : (
+                        <div
+                          key={`pane-${index}`}
+                          className={cn(
+                            "flex min-h-0 items-center justify-center rounded-lg border border-dashed p-4 text-center text-xs text-muted-foreground",
+                            isSplitLayout && paneLayout.focusedPane === index
+                              ? "border-primary/60 bg-primary/5"
+                              : "border-border/60 bg-muted/10"
+                          )}
+                          style={getPanePlacement(paneLayout.mode, index)}
+                          onClick={() => handleFocusPane(index, null)}
+                          onDragOver={handlePaneDragOver}
+                          onDrop={handlePaneDrop(index)}
+                        >
+                          {dictionary.terminal.layout.emptyPane}
+                        </div>
+                      )
+                    )}
                     {sessions.map((session) => {
-                      const isActive = session.key === activeSessionKey;
+                      const paneIndex = visiblePanes.indexOf(session.key);
+                      const isVisible = paneIndex !== -1;
                       return (
                         <div
                           key={session.key}
                           className={cn(
-                            "absolute inset-0 flex min-h-0 flex-col transition-opacity duration-200 overflow-hidden",
-                            isActive ? "z-10 opacity-100" : "pointer-events-none opacity-0"
+                            "flex min-h-0 flex-col overflow-hidden rounded-lg border border-border/70 bg-card/90 shadow-inner transition-opacity duration-200",
+                            isVisible ? "relative z-10 opacity-100" : "pointer-events-none absolute inset-0 opacity-0",
+                            isSplitLayout && isVisible && paneIndex === paneLayout.focusedPane && "border-primary/60 ring-1 ring-primary/40"
                           )}
-                          aria-hidden={!isActive}
+                          style={isVisible ? getPanePlacement(paneLayout.mode, paneIndex) : undefined}
+                          aria-hidden={!isVisible}
+                          onMouseDownCapture={isVisible ? () => handleFocusPane(paneIndex, session.key) : undefined}
+                          onDragOver={isVisible ? handlePaneDragOver : undefined}
+                          onDrop={isVisible ? handlePaneDrop(paneIndex) : undefined}
                         >
                           <TelnetTerminal
                             host={session.host}
                             port={session.port}
                             label={session.label}
+                            appearance={session.appearance}
                             dictionary={dictionary.terminal}
                             autoConnectSignal={session.autoConnectToken}
                             onStatusChange={handleSessionStatusChange(session.key)}
                             onSessionCreated={handleSessionCreated(session.key)}
+                            onInput={handleSessionInput(session.key)}
+                            onCommand={handleSessionCommand(session.key)}
+                            prompt={session.prompt}
+                            onOpenLink={handleOpenLink}
+                            onTrigger={handleSessionTrigger(session.key)}
                             sessionId={session.sessionId}
                             mode={session.sessionId ? "attach" : "create"}
-                            isVisible={isActive}
+                            isVisible={isVisible}
                             disposeOnUnmount={false}
                             className="flex-1 min-h-0"
                           />
@@ -894,6 +1553,77 @@ export function HomePage() {
         </section>
       </main>
 
+      {openPanel === "snippets" && (
+        <SnippetPanel
+          dictionary={dictionary.snippets}
+          canSend={Boolean(activeSessionId)}
+          onSend={handleSendSnippet}
+          onClose={() => setOpenPanel(null)}
+        />
+      )}
+      {openPanel === "history" && (
+        <CommandHistoryPanel
+          key={activeSessionKey ?? "none"}
+          dictionary={dictionary.commandHistory}
+          devices={activeHistoryDevices}
+          deviceLabel={activeHistoryDevices[0] ?? null}
+          canSend={Boolean(activeSessionId)}
+          onSend={handleSendHistoryCommand}
+          onClose={() => setOpenPanel(null)}
+        />
+      )}
+      {openPanel === "automation" && (
+        <AutomationPanel
+          dictionary={dictionary.automation}
+          targetLabel={automationTargetReady ? automationTarget?.label ?? null : null}
+          io={automationIo}
+          onClose={() => setOpenPanel(null)}
+        />
+      )}
+      {openPanel === "backups" && (
+        <ConfigHistoryPanel
+          dictionary={dictionary.backup}
+          job={backupJob}
+          hostname={backupHostname}
+          onClose={() => setOpenPanel(null)}
+        />
+      )}
+      {openPanel === "recordings" && (
+        <RecordingsPanel
+          dictionary={dictionary.recordings}
+          deviceKey={activeSession ? `${activeSession.host}:${activeSession.port}` : null}
+          onClose={() => setOpenPanel(null)}
+        />
+      )}
+      {isRecallOpen && activeHistoryDevices.length > 0 && (
+        <CommandRecallOverlay
+          dictionary={dictionary.commandHistory}
+          devices={activeHistoryDevices}
+          deviceLabel={activeHistoryDevices[0]}
+          onSelect={handleRecallSelect}
+          onClose={handleCloseRecall}
+        />
+      )}
+      <TriggerToasts
+        dictionary={dictionary.triggers}
+        toasts={triggerToasts}
+        onSelect={(toast) => {
+          setActiveSessionKey(toast.sessionKey);
+          dismissTriggerToast(toast.id);
+        }}
+        onDismiss={dismissTriggerToast}
+      />
+      {appearanceTarget && (
+        <TerminalAppearanceDialog
+          key={appearanceTarget.key}
+          dictionary={dictionary.terminal.appearance}
+          targetLabel={appearanceTarget.label}
+          sessionOverrides={appearanceTarget.appearance}
+          deviceOverrides={profileOverrides[buildDeviceProfileKey(appearanceTarget.host, appearanceTarget.port)]}
+          onSave={handleSaveAppearance}
+          onClose={() => setAppearanceTargetKey(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,125 @@
+import type { CSSProperties } from "react";
+
+export const PANE_LAYOUT_MODES = ["single", "columns", "rows", "grid"] as const;
+
+export type PaneLayoutMode = (typeof PANE_LAYOUT_MODES)[number];
+
+export type PaneLayout = {
+  mode: PaneLayoutMode;
+  /** 每个窗格中展示的会话 key，null 表示空窗格 */
+  panes: Array<string | null>;
+  focusedPane: number;
+};
+
+const PANE_COUNT: Record<PaneLayoutMode, number> = {
+  single: 1,
+  columns: 2,
+  rows: 2,
+  grid: 4,
+};
+
+const GRID_TEMPLATE: Record<PaneLayoutMode, CSSProperties> = {
+  single: { gridTemplateColumns: "minmax(0, 1fr)", gridTemplateRows: "minmax(0, 1fr)" },
+  columns: { gridTemplateColumns: "repeat(2, minmax(0, 1fr))", gridTemplateRows: "minmax(0, 1fr)" },
+  rows: { gridTemplateColumns: "minmax(0, 1fr)", gridTemplateRows: "repeat(2, minmax(0, 1fr))" },
+  grid: { gridTemplateColumns: "repeat(2, minmax(0, 1fr))", gridTemplateRows: "repeat(2, minmax(0, 1fr))" },
+};
+
+export const DEFAULT_PANE_LAYOUT: PaneLayout = { mode: "single", panes: [null], focusedPane: 0 };
+
+export function isPaneLayoutMode(value: unknown): value is PaneLayoutMode {
+  return typeof value === "string" && (PANE_LAYOUT_MODES as readonly string[]).includes(value);
+}
+
+export function getPaneCount(mode: PaneLayoutMode) {
+  return PANE_COUNT[mode];
+}
+
+export function getPaneGridStyle(mode: PaneLayoutMode): CSSProperties {
+  return GRID_TEMPLATE[mode];
+}
+
+export function getPanePlacement(mode: PaneLayoutMode, index: number): CSSProperties {
+  if (mode === "columns") {
+    return { gridColumn: index + 1, gridRow: 1 };
+  }
+  if (mode === "rows") {
+    return { gridColumn: 1, gridRow: index + 1 };
+  }
+  if (mode === "grid") {
+    return { gridColumn: (index % 2) + 1, gridRow: Math.floor(index / 2) + 1 };
+  }
+  return { gridColumn: 1, gridRow: 1 };
+}
+
+function fitPanes(panes: Array<string | null>, count: number) {
+  const next = panes.slice(0, count);
+  while (next.length < count) {
+    next.push(null);
+  }
+  return next;
+}
+
+export function sanitizePaneLayout(input: Partial<PaneLayout> | null | undefined): PaneLayout | null {
+  if (!input || !isPaneLayoutMode(input.mode)) {
+    return null;
+  }
+  const count = getPaneCount(input.mode);
+  const seen = new Set<string>();
+  const panes = fitPanes(
+    (Array.isArray(input.panes) ? input.panes : []).map((entry) => {
+      if (typeof entry !== "string" || !entry.trim() || seen.has(entry)) {
+        return null;
+      }
+      seen.add(entry);
+      return entry;
+    }),
+    count
+  );
+  const focused = typeof input.focusedPane === "number" && Number.isInteger(input.focusedPane) ? input.focusedPane : 0;
+  return { mode: input.mode, panes, focusedPane: Math.min(Math.max(focused, 0), count - 1) };
+}
+
+export function changePaneLayoutMode(layout: PaneLayout, mode: PaneLayoutMode): PaneLayout {
+  const count = getPaneCount(mode);
+  return {
+    mode,
+    panes: fitPanes(layout.panes, count),
+    focusedPane: Math.min(layout.focusedPane, count - 1),
+  };
+}
+
+/** 将会话放入指定窗格；若它已在其他窗格中则与目标窗格交换 */
+export function assignSessionToPane(layout: PaneLayout, index: number, key: string): PaneLayout {
+  if (index < 0 || index >= layout.panes.length) {
+    return layout;
+  }
+  const panes = [...layout.panes];
+  const previousIndex = panes.indexOf(key);
+  if (previousIndex !== -1) {
+    panes[previousIndex] = panes[index];
+  }
+  panes[index] = key;
+  return { ...layout, panes, focusedPane: index };
+}
+
+/** 让活动会话可见：已在窗格中则聚焦，否则优先占用当前空窗格或第一个空窗格 */
+export function revealSessionInLayout(layout: PaneLayout, key: string): PaneLayout {
+  if (layout.mode === "single") {
+    return layout;
+  }
+  const index = layout.panes.indexOf(key);
+  if (index !== -1) {
+    return index === layout.focusedPane ? layout : { ...layout, focusedPane: index };
+  }
+  const emptyIndex = layout.panes.indexOf(null);
+  const target = layout.panes[layout.focusedPane] === null || emptyIndex === -1 ? layout.focusedPane : emptyIndex;
+  return assignSessionToPane(layout, target, key);
+}
+
+export function removeSessionFromLayout(layout: PaneLayout, key: string): PaneLayout {
+  if (!layout.panes.includes(key)) {
+    return layout;
+  }
+  return { ...layout, panes: layout.panes.map((entry) => (entry === key ? null : entry)) };
+}
@@ -2,7 +2,7 @@
 
 import type { DragEvent } from "react";
 import { Fragment, useCallback, useRef } from "react";
-import { Circle, X } from "lucide-react";
+import { Bot, Circle, DatabaseBackup, Palette, Radio, X } from "lucide-react";
 
 import type { HomeDictionary } from "@/lib/i18n/dictionaries";
 import { cn } from "@/lib/utils";
@@ -10,8 +10,10 @@ import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 
 import type { TerminalStatus } from "@/components/terminal/telnet-terminal";
+import type { ReconnectProgress } from "@/lib/terminal/reconnect";
+import type { TerminalPromptInfo } from "@/types/desktop-bridge";
 
-const TAB_DRAG_TYPE = "application/x-pnet-session-order";
+export const TAB_DRAG_TYPE = "application/x-pnet-session-order";
 
 type SessionTabDescriptor = {
   key: string;
@@ -20,6 +22,17 @@ type SessionTabDescriptor = {
   label?: string;
   status: TerminalStatus;
   isActive: boolean;
+  isBroadcastTarget?: boolean;
+  /** 输出命中触发器且尚未查看 */
+  isFlashing?: boolean;
+  reconnect?: ReconnectProgress | null;
+  prompt?: TerminalPromptInfo | null;
+};
+
+type SessionTabsBroadcast = {
+  enabled: boolean;
+  onToggle: () => void;
+  onToggleTarget: (key: string) => void;
 };
 
 type SessionTabsProps = {
@@ -28,17 +41,29 @@ type SessionTabsProps = {
   onSelect: (key: string) => void;
   onClose: (key: string) => void;
   onReorder?: (sourceKey: string, targetKey: string | null) => void;
+  broadcast?: SessionTabsBroadcast;
+  onAutomate?: (key: string) => void;
+  onBackup?: (key: string) => void;
+  onAppearance?: (key: string) => void;
+};
+
+const promptModeTone: Record<TerminalPromptInfo["mode"], string> = {
+  "user-exec": "bg-muted text-muted-foreground",
+  privileged: "bg-sky-500/15 text-sky-700 dark:text-sky-300",
+  "global-config": "bg-violet-500/15 text-violet-700 dark:text-violet-300",
+  "sub-config": "bg-violet-500/15 text-violet-700 dark:text-violet-300",
 };
 
 const statusTone: Record<TerminalStatus, string> = {
   idle: "text-muted-foreground",
   connecting: "text-amber-500",
   connected: "text-emerald-500",
+  reconnecting: "text-amber-500",
   closed: "text-muted-foreground",
   error: "text-destructive",
 };
 
-function parseTabPayload(raw: string | null | undefined): string | null {
+export function parseTabPayload(raw: string | null | undefined): string | null {
   if (!raw) {
     return null;
   }
@@ -60,6 +85,10 @@ export function SessionTabs({
   onSelect,
   onClose,
   onReorder,
+  broadcast,
+  onAutomate,
+  onBackup,
+  onAppearance,
 }: SessionTabsProps) {
   const draggingKeyRef = useRef<string | null>(null);
 
@@ -169,9 +198,27 @@ export function SessionTabs({
         <p className="text-xs font-medium uppercase tracking-[0.24em] text-muted-foreground">
           {dictionary.sessionTabs.headerLabel}
         </p>
-        <p className="text-xs text-muted-foreground/80">{sessions.length}</p>
+        <div className="flex items-center gap-2">
+          {broadcast ? (
+            <Button
+              type="button"
+              size="sm"
+              variant={broadcast.enabled ? "secondary" : "ghost"}
+              className={cn("h-7 px-2 text-[11px]", broadcast.enabled && "text-amber-600 dark:text-amber-400")}
+              onClick={broadcast.onToggle}
+              title={dictionary.sessionTabs.broadcastShortcut}
+              aria-pressed={broadcast.enabled}
+            >
+              <Radio className="h-3.5 w-3.5" />
+              {dictionary.sessionTabs.broadcastToggle}
+            </Button>
+          ) : null}
+          <p className="text-xs text-muted-foreground/80">{sessions.length}</p>
+        </div>
       </div>
-      {onReorder ? (
+      {broadcast?.enabled ? (
+        <p className="shrink-0 text-[11px] text-amber-600 dark:text-amber-400">{dictionary.sessionTabs.broadcastHint}</p>
+      ) : onReorder ? (
         <p className="shrink-0 text-[11px] text-muted-foreground/70">{dictionary.sessionTabs.reorderHint}</p>
       ) : null}
       <div
@@ -182,7 +229,13 @@ export function SessionTabs({
       >
         {sessions.map((session) => {
           const isActive = session.isActive;
-          const statusLabel = dictionary.status[session.status];
+          const isBroadcastTarget = Boolean(broadcast?.enabled && session.isBroadcastTarget);
+          const statusLabel =
+            session.status === "reconnecting"
+              ? dictionary.status.reconnecting
+                  .replace("{attempt}", String(session.reconnect?.attempt ?? 1))
+                  .replace("{max}", String(session.reconnect?.maxAttempts ?? 1))
+              : dictionary.status[session.status];
           const primaryLabel = session.label?.trim().length
             ? session.label
             : session.host || dictionary.sessionTabs.emptyTitle;
@@ -199,6 +252,8 @@ export function SessionTabs({
                 isActive
                   ? "border-primary/40 bg-primary/5"
                   : "border-border/60 bg-muted/40 hover:bg-muted/60",
+                isBroadcastTarget && "border-amber-500/60 ring-1 ring-amber-500/40",
+                session.isFlashing && "animate-pulse border-amber-500/70 bg-amber-500/10",
                 !onReorder && "cursor-default"
               )}
               draggable={Boolean(onReorder)}
@@ -207,6 +262,17 @@ export function SessionTabs({
               onDrop={handleDropOnItem(session.key)}
               role="listitem"
             >
+              {broadcast?.enabled ? (
+                <input
+                  type="checkbox"
+                  className="mr-3 h-4 w-4 shrink-0 accent-amber-500"
+                  checked={Boolean(session.isBroadcastTarget)}
+                  onChange={() => broadcast.onToggleTarget(session.key)}
+                  aria-label={dictionary.sessionTabs.broadcastTargetLabel}
+                  title={dictionary.sessionTabs.broadcastTargetLabel}
+                  draggable={false}
+                />
+              ) : null}
               <button
                 type="button"
                 className="flex flex-1 flex-col gap-1 text-left"
@@ -224,9 +290,70 @@ export function SessionTabs({
                 <span className={cn("flex items-center gap-1 text-[11px]", statusTone[session.status])}>
                   <Circle className="h-[7px] w-[7px] fill-current" />
                   {statusLabel}
+                  {session.prompt && session.status === "connected" ? (
+                    <span
+                      className={cn(
+                        "ml-1 max-w-[9rem] truncate rounded-full px-1.5 py-px font-mono text-[10px] font-medium",
+                        promptModeTone[session.prompt.mode]
+                      )}
+                      title={`${dictionary.prompt.vendors[session.prompt.vendor] ?? session.prompt.vendor} · ${session.prompt.hostname}`}
+                    >
+                      {session.prompt.mode === "sub-config" && session.prompt.context
+                        ? `${dictionary.prompt.modes["sub-config"]}: ${session.prompt.context}`
+                        : dictionary.prompt.modes[session.prompt.mode]}
+                    </span>
+                  ) : null}
+                  {isBroadcastTarget ? (
+                    <span className="ml-1 flex items-center gap-1 rounded-full bg-amber-500/15 px-1.5 py-px text-[10px] font-medium text-amber-600 dark:text-amber-400">
+                      <Radio className="h-2.5 w-2.5" />
+                      {dictionary.sessionTabs.broadcastBadge}
+                    </span>
+                  ) : null}
                 </span>
               </button>
               <div className="ml-2 flex items-center gap-1">
+                {onAutomate ? (
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => onAutomate(session.key)}
+                    title={dictionary.sessionTabs.automateAction}
+                    draggable={false}
+                  >
+                    <Bot className="h-4 w-4" />
+                    <span className="sr-only">{dictionary.sessionTabs.automateAction}</span>
+                  </Button>
+                ) : null}
+                {onBackup ? (
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => onBackup(session.key)}
+                    title={dictionary.sessionTabs.backupAction}
+                    draggable={false}
+                  >
+                    <DatabaseBackup className="h-4 w-4" />
+                    <span className="sr-only">{dictionary.sessionTabs.backupAction}</span>
+                  </Button>
+                ) : null}
+                {onAppearance ? (
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => onAppearance(session.key)}
+                    title={dictionary.sessionTabs.appearanceAction}
+                    draggable={false}
+                  >
+                    <Palette className="h-4 w-4" />
+                    <span className="sr-only">{dictionary.sessionTabs.appearanceAction}</span>
+                  </Button>
+                ) : null}
                 <Button
                   type="button"
                   size="icon"
@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { Terminal as XtermTerminal } from "@xterm/xterm";
+import { Pause, Play } from "lucide-react";
+import { useTheme } from "next-themes";
+
+import { useColorSchemes } from "@/components/color-schemes/color-scheme-provider";
+import { useTerminalSettings } from "@/components/terminal/terminal-settings-provider";
+import { Button } from "@/components/ui/button";
+import { toXtermTheme } from "@/lib/color-schemes";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import { AsciicastPlayer, PLAYBACK_SPEEDS, type AsciicastRecording } from "@/lib/recording";
+
+type RecordingPlayerProps = {
+  recording: AsciicastRecording;
+  dictionary: HomeDictionary["recordings"];
+};
+
+/** 播放时刷新进度条的间隔 */
+const PROGRESS_INTERVAL_MS = 200;
+
+function formatTime(seconds: number) {
+  const total = Math.floor(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${String(minutes).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+/** 只读回放：终端不接受输入，尺寸跟随录像中的 "r" 事件 */
+export function RecordingPlayer({ recording, dictionary }: RecordingPlayerProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const terminalRef = useRef<XtermTerminal | null>(null);
+  const playerRef = useRef<AsciicastPlayer | null>(null);
+  const [isPlaying, setPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const { resolvedTheme } = useTheme();
+  const { lightScheme, darkScheme } = useColorSchemes();
+  const { settings: terminalSettings, resolvedFontFamily } = useTerminalSettings();
+
+  const theme = useMemo(
+    () => toXtermTheme(resolvedTheme === "dark" ? darkScheme : lightScheme),
+    [darkScheme, lightScheme, resolvedTheme]
+  );
+  const themeRef = useRef(theme);
+
+  useEffect(() => {
+    let active = true;
+    let terminal: XtermTerminal | null = null;
+    let player: AsciicastPlayer | null = null;
+
+    void import("@xterm/xterm").then(({ Terminal }) => {
+      if (!active || !containerRef.current) {
+        return;
+      }
+      terminal = new Terminal({
+        cols: recording.header.width,
+        rows: recording.header.height,
+        convertEol: true,
+        disableStdin: true,
+        cursorBlink: false,
+        fontFamily: resolvedFontFamily,
+        fontSize: terminalSettings.fontSize,
+        lineHeight: terminalSettings.lineHeight,
+        scrollback: terminalSettings.scrollback,
+        theme: themeRef.current,
+      });
+      terminal.open(containerRef.current);
+      terminalRef.current = terminal;
+      const target = terminal;
+      player = new AsciicastPlayer(recording, {
+        reset: () => target.reset(),
+        write: (data) => target.write(data),
+        resize: (cols, rows) => target.resize(cols, rows),
+        onEnd: () => {
+          setPlaying(false);
+          setCurrentTime(recording.duration);
+        },
+      });
+      playerRef.current = player;
+      setCurrentTime(0);
+      setPlaying(false);
+      setSpeed(1);
+    });
+
+    return () => {
+      active = false;
+      player?.dispose();
+      terminal?.dispose();
+      playerRef.current = null;
+      terminalRef.current = null;
+    };
+  }, [recording, resolvedFontFamily, terminalSettings.fontSize, terminalSettings.lineHeight, terminalSettings.scrollback]);
+
+  useEffect(() => {
+    themeRef.current = theme;
+    if (terminalRef.current) {
+      terminalRef.current.options.theme = theme;
+    }
+  }, [theme]);
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+    const timer = window.setInterval(() => {
+      setCurrentTime(playerRef.current?.currentTime ?? 0);
+    }, PROGRESS_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isPlaying]);
+
+  const togglePlayback = () => {
+    const player = playerRef.current;
+    if (!player) {
+      return;
+    }
+    if (player.isPlaying) {
+      player.pause();
+      setPlaying(false);
+    } else {
+      player.play();
+      setPlaying(player.isPlaying);
+    }
+    setCurrentTime(player.currentTime);
+  };
+
+  const handleSeek = (value: number) => {
+    playerRef.current?.seek(value);
+    setCurrentTime(value);
+  };
+
+  const handleSpeedChange = (value: number) => {
+    playerRef.current?.setSpeed(value);
+    setSpeed(value);
+  };
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-2">
+      <div className="min-h-0 flex-1 overflow-auto rounded-md border border-border p-2" style={{ backgroundColor: theme.background }}>
+        <div ref={containerRef} className="inline-block" />
+      </div>
+      <div className="flex items-center gap-2 text-xs">
+        <Button
+          size="icon"
+          variant="secondary"
+          className="h-8 w-8 shrink-0"
+          onClick={togglePlayback}
+          title={isPlaying ? dictionary.pauseButton : dictionary.playButton}
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <span className="w-24 shrink-0 font-mono tabular-nums text-muted-foreground">
+          {formatTime(currentTime)} / {formatTime(recording.duration)}
+        </span>
+        <input
+          type="range"
+          aria-label={dictionary.seekLabel}
+          className="min-w-0 flex-1 accent-primary"
+          min={0}
+          max={Math.max(recording.duration, 0.001)}
+          step={0.1}
+          value={currentTime}
+          onChange={(event) => handleSeek(Number(event.target.value))}
+        />
+        <select
+          aria-label={dictionary.speedLabel}
+          className="h-8 shrink-0 appearance-none rounded-md border border-border bg-background px-2 text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+          value={speed}
+          onChange={(event) => handleSpeedChange(Number(event.target.value))}
+        >
+          {PLAYBACK_SPEEDS.map((value) => (
+            <option key={value} value={value}>
+              {value}×
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
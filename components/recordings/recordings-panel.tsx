@@ -0,0 +1,257 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Download, Play, RefreshCw, Trash2, X } from "lucide-react";
+
+import { RecordingPlayer } from "@/components/recordings/recording-player";
+import { Button } from "@/components/ui/button";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import { parseAsciicast, parseAsciicastHeader, type AsciicastRecording } from "@/lib/recording";
+import { cn } from "@/lib/utils";
+import type { RecordingFileEntry } from "@/types/desktop-bridge";
+
+type RecordingsPanelProps = {
+  dictionary: HomeDictionary["recordings"];
+  /** 打开面板时默认选中的设备（host:port） */
+  deviceKey: string | null;
+  onClose: () => void;
+};
+
+type RecordingListItem = RecordingFileEntry & {
+  deviceKey: string;
+  deviceLabel: string;
+  startedAt: number;
+};
+
+const SELECT_CLASS =
+  "w-full appearance-none rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary";
+
+function formatTimestamp(timestamp: number) {
+  return new Date(timestamp).toLocaleString([], { hour12: false });
+}
+
+function formatSize(bytes: number) {
+  return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function downloadText(fileName: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "application/x-asciicast;charset=utf-8" }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+function toListItem(entry: RecordingFileEntry, unknownDevice: string): RecordingListItem {
+  const header = parseAsciicastHeader(entry.header);
+  const device = header?.device;
+  return {
+    ...entry,
+    deviceKey: device ? `${device.host}:${device.port}` : "",
+    deviceLabel: device
+      ? device.label && device.label !== device.host
+        ? `${device.label} (${device.host}:${device.port})`
+        : `${device.host}:${device.port}`
+      : unknownDevice,
+    startedAt: header?.timestamp ? header.timestamp * 1000 : entry.modifiedAt,
+  };
+}
+
+export function RecordingsPanel({ dictionary, deviceKey, onClose }: RecordingsPanelProps) {
+  const [entries, setEntries] = useState<RecordingListItem[]>([]);
+  const [device, setDevice] = useState<string | null>(deviceKey);
+  const [isLoading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState<{ fileName: string; recording: AsciicastRecording } | null>(null);
+  const recordings = typeof window !== "undefined" ? window.desktopBridge?.recordings : undefined;
+
+  const describeError = useCallback(
+    (reason: unknown) => dictionary.loadFailed.replace("{reason}", reason instanceof Error ? reason.message : String(reason)),
+    [dictionary.loadFailed]
+  );
+
+  const refresh = useCallback(async () => {
+    if (!recordings) {
+      return;
+    }
+    setLoading(true);
+    try {
+      const list = await recordings.list();
+      setEntries(
+        list.map((entry) => toListItem(entry, dictionary.unknownDevice)).sort((a, b) => b.startedAt - a.startedAt)
+      );
+      setError(null);
+    } catch (listError) {
+      console.warn("Failed to list recordings", listError);
+      setError(describeError(listError));
+    } finally {
+      setLoading(false);
+    }
+  }, [describeError, dictionary.unknownDevice, recordings]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (deviceKey) {
+      setDevice(deviceKey);
+    }
+  }, [deviceKey]);
+
+  const devices = useMemo(() => {
+    const labels = new Map<string, string>();
+    for (const entry of entries) {
+      if (!labels.has(entry.deviceKey)) {
+        labels.set(entry.deviceKey, entry.deviceLabel);
+      }
+    }
+    return Array.from(labels, ([key, label]) => ({ key, label })).sort((a, b) => a.label.localeCompare(b.label));
+  }, [entries]);
+
+  const selectedDevice = device !== null && devices.some((entry) => entry.key === device) ? device : (devices[0]?.key ?? null);
+  const history = useMemo(() => entries.filter((entry) => entry.deviceKey === selectedDevice), [entries, selectedDevice]);
+
+  const handlePlay = async (entry: RecordingListItem) => {
+    if (!recordings) {
+      return;
+    }
+    try {
+      setPlaying({ fileName: entry.fileName, recording: parseAsciicast(await recordings.read(entry.fileName)) });
+      setError(null);
+    } catch (readError) {
+      console.warn("Failed to load recording", readError);
+      setError(describeError(readError));
+    }
+  };
+
+  const handleExport = async (entry: RecordingListItem) => {
+    if (!recordings) {
+      return;
+    }
+    try {
+      downloadText(entry.fileName, await recordings.read(entry.fileName));
+    } catch (readError) {
+      console.warn("Failed to export recording", readError);
+      setError(describeError(readError));
+    }
+  };
+
+  const handleDelete = async (entry: RecordingListItem) => {
+    if (!recordings) {
+      return;
+    }
+    try {
+      await recordings.remove(entry.fileName);
+      if (playing?.fileName === entry.fileName) {
+        setPlaying(null);
+      }
+      await refresh();
+    } catch (deleteError) {
+      console.warn("Failed to delete recording", deleteError);
+      setError(describeError(deleteError));
+    }
+  };
+
+  return (
+    <div className="fixed right-0 top-16 bottom-0 z-40 flex w-[720px] max-w-full flex-col border-l bg-card/95 shadow-xl backdrop-blur supports-[backdrop-filter]:bg-card/80">
+      <div className="space-y-1 border-b px-5 py-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold">{dictionary.title}</p>
+          <div className="flex items-center gap-1">
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              onClick={() => void refresh()}
+              disabled={!recordings || isLoading}
+              title={dictionary.refreshButton}
+            >
+              <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onClose} title={dictionary.closeButton}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">{dictionary.description}</p>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+
+      {!recordings ? (
+        <p className="px-5 py-4 text-xs text-muted-foreground">{dictionary.desktopOnly}</p>
+      ) : devices.length === 0 ? (
+        <p className="px-5 py-4 text-xs text-muted-foreground">{dictionary.empty}</p>
+      ) : (
+        <div className="flex min-h-0 flex-1 flex-col">
+          <div className="space-y-2 border-b px-5 py-3">
+            <select
+              aria-label={dictionary.deviceLabel}
+              className={cn(SELECT_CLASS, "h-8 py-1 text-xs")}
+              value={selectedDevice ?? ""}
+              onChange={(event) => setDevice(event.target.value)}
+            >
+              {devices.map((entry) => (
+                <option key={entry.key} value={entry.key}>
+                  {entry.label}
+                </option>
+              ))}
+            </select>
+            <div className="max-h-48 space-y-1 overflow-y-auto">
+              {history.map((entry) => (
+                <div
+                  key={entry.fileName}
+                  className={cn(
+                    "flex items-center gap-2 rounded-md border border-border/60 bg-muted/30 px-2 py-1 text-xs",
+                    playing?.fileName === entry.fileName && "border-primary/60 bg-primary/10"
+                  )}
+                >
+                  <span className="min-w-0 flex-1 truncate" title={entry.path}>
+                    {formatTimestamp(entry.startedAt)}
+                    <span className="ml-2 text-muted-foreground">{formatSize(entry.size)}</span>
+                  </span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => void handlePlay(entry)}
+                    title={dictionary.openButton}
+                  >
+                    <Play className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => void handleExport(entry)}
+                    title={dictionary.exportButton}
+                  >
+                    <Download className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    onClick={() => void handleDelete(entry)}
+                    title={dictionary.deleteButton}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex min-h-0 flex-1 flex-col px-5 py-3">
+            {playing ? (
+              <RecordingPlayer recording={playing.recording} dictionary={dictionary} />
+            ) : (
+              <p className="text-xs text-muted-foreground">{dictionary.selectHint}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
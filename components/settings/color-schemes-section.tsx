@@ -0,0 +1,285 @@
+"use client";
+
+import { type ChangeEvent, useRef, useState } from "react";
+import { Copy, Download, Plus, Trash2, Upload } from "lucide-react";
+
+import { useColorSchemes } from "@/components/color-schemes/color-scheme-provider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ANSI_COLOR_KEYS,
+  COLOR_SCHEME_FILE_EXTENSIONS,
+  COLOR_SCHEME_FORMATS,
+  COLOR_SCHEME_KEYS,
+  generateColorSchemeId,
+  parseColorSchemes,
+  serializeColorScheme,
+  type ColorScheme,
+  type ColorSchemeFormat,
+  type ColorSchemeMode,
+} from "@/lib/color-schemes";
+import type { SettingsDictionary } from "@/lib/i18n/dictionaries";
+
+type ColorSchemesSectionProps = {
+  dictionary: SettingsDictionary["colorSchemeSection"];
+};
+
+type ImportFeedback = { tone: "success" | "error"; message: string };
+
+function downloadText(fileName: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/plain;charset=utf-8" }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+function SchemePreview({ scheme, label }: { scheme: ColorScheme; label: string }) {
+  return (
+    <div
+      className="space-y-2 rounded-md border border-border p-4 font-mono text-xs shadow-inner"
+      style={{ backgroundColor: scheme.background, color: scheme.foreground }}
+      aria-label={label}
+    >
+      <p>
+        R1#show ip interface brief
+        <span className="ml-0.5 inline-block w-2" style={{ backgroundColor: scheme.cursor }}>
+          &nbsp;
+        </span>
+      </p>
+      <p>
+        <span style={{ backgroundColor: scheme.selection }}>GigabitEthernet0/0</span> 10.0.12.1{" "}
+        <span style={{ color: scheme.green }}>up</span> <span style={{ color: scheme.red }}>down</span>
+      </p>
+      <div className="flex flex-wrap gap-1">
+        {ANSI_COLOR_KEYS.map((key) => (
+          <span key={key} className="h-4 w-6 rounded-sm" style={{ backgroundColor: scheme[key] }} title={key} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ColorSchemesSection({ dictionary }: ColorSchemesSectionProps) {
+  const { schemes, lightScheme, darkScheme, saveScheme, deleteScheme, setModeScheme } = useColorSchemes();
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [selectedId, setSelectedId] = useState(darkScheme.id);
+  const [draft, setDraft] = useState<ColorScheme | null>(null);
+  const [exportFormat, setExportFormat] = useState<ColorSchemeFormat>("itermcolors");
+  const [feedback, setFeedback] = useState<ImportFeedback | null>(null);
+
+  const selected = schemes.find((scheme) => scheme.id === selectedId) ?? darkScheme;
+  // 草稿只对应当前选中的方案，切换方案时自动放弃
+  const editing = draft && draft.id === selected.id ? draft : selected;
+  const isDirty = editing !== selected;
+  const isReadOnly = Boolean(selected.builtin);
+
+  const selectScheme = (id: string) => {
+    setSelectedId(id);
+    setDraft(null);
+  };
+
+  const createFrom = (base: ColorScheme, name: string) => {
+    const scheme: ColorScheme = { ...base, id: generateColorSchemeId(), name, builtin: undefined };
+    saveScheme(scheme);
+    selectScheme(scheme.id);
+  };
+
+  const updateDraft = (patch: Partial<ColorScheme>) => {
+    setDraft({ ...editing, ...patch });
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) {
+      return;
+    }
+    saveScheme(draft);
+    setDraft(null);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    try {
+      const imported = parseColorSchemes(await file.text(), darkScheme, file.name);
+      let lastId = selectedId;
+      for (const entry of imported) {
+        lastId = generateColorSchemeId();
+        saveScheme({ ...entry, id: lastId });
+      }
+      selectScheme(lastId);
+      setFeedback({ tone: "success", message: dictionary.importSuccess.replace("{count}", String(imported.length)) });
+    } catch (error) {
+      console.warn("Failed to import color scheme", error);
+      setFeedback({
+        tone: "error",
+        message: dictionary.importError.replace("{reason}", error instanceof Error ? error.message : String(error)),
+      });
+    }
+  };
+
+  const handleExport = () => {
+    const fileName = `${editing.name.replace(/[\\/:*?"<>|]+/g, "_")}${COLOR_SCHEME_FILE_EXTENSIONS[exportFormat]}`;
+    downloadText(fileName, serializeColorScheme(editing, exportFormat));
+  };
+
+  const modeSelect = (mode: ColorSchemeMode, current: ColorScheme, label: string) => (
+    <div className="grid gap-2">
+      <Label htmlFor={`color-scheme-${mode}`} className="text-xs font-medium uppercase text-muted-foreground">
+        {label}
+      </Label>
+      <select
+        id={`color-scheme-${mode}`}
+        className="h-9 w-full appearance-none rounded-md border border-border bg-background px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        value={current.id}
+        onChange={(event) => setModeScheme(mode, event.target.value)}
+      >
+        {schemes.map((scheme) => (
+          <option key={scheme.id} value={scheme.id}>
+            {scheme.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <section className="space-y-4 rounded-xl border border-border/70 bg-background/80 p-6 shadow-sm">
+      <div className="space-y-1">
+        <p className="text-sm font-semibold text-foreground/90">{dictionary.title}</p>
+        <p className="text-sm text-muted-foreground">{dictionary.description}</p>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {modeSelect("light", lightScheme, dictionary.lightLabel)}
+        {modeSelect("dark", darkScheme, dictionary.darkLabel)}
+      </div>
+
+      <div className="space-y-3 rounded-lg border border-border/60 p-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="grid min-w-[12rem] flex-1 gap-2">
+            <Label htmlFor="color-scheme-edit" className="text-xs font-medium uppercase text-muted-foreground">
+              {dictionary.editLabel}
+            </Label>
+            <select
+              id="color-scheme-edit"
+              className="h-9 w-full appearance-none rounded-md border border-border bg-background px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              value={selected.id}
+              onChange={(event) => selectScheme(event.target.value)}
+            >
+              {schemes.map((scheme) => (
+                <option key={scheme.id} value={scheme.id}>
+                  {scheme.builtin ? `${scheme.name} (${dictionary.builtinTag})` : scheme.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button size="sm" variant="secondary" onClick={() => createFrom(darkScheme, dictionary.newSchemeName)}>
+            <Plus className="h-4 w-4" />
+            {dictionary.newButton}
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => createFrom(editing, dictionary.copyName.replace("{name}", editing.name))}
+          >
+            <Copy className="h-4 w-4" />
+            {dictionary.duplicateButton}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => deleteScheme(selected.id)} disabled={isReadOnly}>
+            <Trash2 className="h-4 w-4" />
+            {dictionary.deleteButton}
+          </Button>
+        </div>
+
+        {isReadOnly && <p className="text-xs text-muted-foreground">{dictionary.builtinHint}</p>}
+
+        <div className="grid gap-2">
+          <Label htmlFor="color-scheme-name" className="text-xs font-medium uppercase text-muted-foreground">
+            {dictionary.nameLabel}
+          </Label>
+          <Input
+            id="color-scheme-name"
+            value={editing.name}
+            onChange={(event) => updateDraft({ name: event.target.value })}
+            disabled={isReadOnly}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          {COLOR_SCHEME_KEYS.map((key) => (
+            <label key={key} className="flex items-center gap-2 text-xs">
+              <input
+                type="color"
+                value={editing[key]}
+                onChange={(event) => updateDraft({ [key]: event.target.value })}
+                disabled={isReadOnly}
+                className="h-7 w-10 shrink-0 cursor-pointer rounded border border-border bg-transparent disabled:cursor-default"
+              />
+              <span className="truncate">{dictionary.colorLabels[key]}</span>
+            </label>
+          ))}
+        </div>
+
+        <SchemePreview scheme={editing} label={dictionary.previewLabel} />
+
+        {!isReadOnly && (
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setDraft(null)} disabled={!isDirty}>
+              {dictionary.revertButton}
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!isDirty || !editing.name.trim()}>
+              {dictionary.saveButton}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".itermcolors,.json,.Xresources,.xresources,.txt"
+          className="hidden"
+          onChange={(event) => void handleImport(event)}
+        />
+        <Button size="sm" variant="secondary" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4" />
+          {dictionary.importButton}
+        </Button>
+        <select
+          aria-label={dictionary.exportFormatLabel}
+          className="h-8 appearance-none rounded-md border border-border bg-background px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          value={exportFormat}
+          onChange={(event) => {
+            const value = event.target.value as ColorSchemeFormat;
+            if ((COLOR_SCHEME_FORMATS as readonly string[]).includes(value)) {
+              setExportFormat(value);
+            }
+          }}
+        >
+          {COLOR_SCHEME_FORMATS.map((format) => (
+            <option key={format} value={format}>
+              {dictionary.formatOptions[format]}
+            </option>
+          ))}
+        </select>
+        <Button size="sm" variant="secondary" onClick={handleExport}>
+          <Download className="h-4 w-4" />
+          {dictionary.exportButton}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">{dictionary.formatHint}</p>
+      {feedback && (
+        <p className={feedback.tone === "error" ? "text-xs text-destructive" : "text-xs text-emerald-600 dark:text-emerald-400"}>
+          {feedback.message}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { type FormEvent, type ReactNode, useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2 } from "lucide-react";
+
+import { useHighlightRules } from "@/components/highlight/highlight-provider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  compileHighlightRules,
+  findHighlightSpans,
+  generateHighlightRuleId,
+  validateHighlightPattern,
+  type HighlightRule,
+} from "@/lib/highlight";
+import type { SettingsDictionary } from "@/lib/i18n/dictionaries";
+
+type HighlightRulesSectionProps = {
+  dictionary: SettingsDictionary["highlightSection"];
+};
+
+const DEFAULT_FOREGROUND = "#22c55e";
+const DEFAULT_BACKGROUND = "#1e293b";
+
+function ruleStyle(rule: Pick<HighlightRule, "foreground" | "background" | "bold">) {
+  return {
+    color: rule.foreground,
+    backgroundColor: rule.background,
+    fontWeight: rule.bold ? 700 : undefined,
+  };
+}
+
+function PreviewLine({ line, rules }: { line: string; rules: HighlightRule[] }) {
+  const compiled = useMemo(() => compileHighlightRules(rules), [rules]);
+  const byId = useMemo(() => new Map(rules.map((rule) => [rule.id, rule])), [rules]);
+  const spans = findHighlightSpans(line, compiled);
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((span, index) => {
+    if (span.start > cursor) {
+      parts.push(line.slice(cursor, span.start));
+    }
+    const rule = byId.get(span.rule.id);
+    parts.push(
+      <span key={index} style={rule ? ruleStyle(rule) : undefined}>
+        {line.slice(span.start, span.end)}
+      </span>
+    );
+    cursor = span.end;
+  });
+  parts.push(line.slice(cursor));
+  return <div className="min-h-[1.25rem] whitespace-pre">{parts}</div>;
+}
+
+export function HighlightRulesSection({ dictionary }: HighlightRulesSectionProps) {
+  const { rules, saveRule, deleteRule, moveRule, resetRules } = useHighlightRules();
+  const [editor, setEditor] = useState<HighlightRule | null>(null);
+  const [sample, setSample] = useState(dictionary.previewSample);
+
+  const isPatternValid = editor ? validateHighlightPattern(editor.pattern, editor.flags) : true;
+
+  // 预览时用正在编辑的草稿替换（或追加）对应规则
+  const previewRules = useMemo(() => {
+    if (!editor || !isPatternValid) {
+      return rules;
+    }
+    const draft: HighlightRule = { ...editor, enabled: true };
+    const exists = rules.some((rule) => rule.id === editor.id);
+    return exists ? rules.map((rule) => (rule.id === editor.id ? draft : rule)) : [...rules, draft];
+  }, [editor, isPatternValid, rules]);
+
+  const openEditor = (rule?: HighlightRule) => {
+    setEditor(
+      rule
+        ? { ...rule }
+        : {
+            id: generateHighlightRuleId(),
+            name: "",
+            pattern: "",
+            flags: "",
+            foreground: DEFAULT_FOREGROUND,
+            background: undefined,
+            bold: false,
+            enabled: true,
+          }
+    );
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!editor || !isPatternValid) {
+      return;
+    }
+    saveRule(editor);
+    setEditor(null);
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-border/70 bg-background/80 p-6 shadow-sm">
+      <div className="space-y-1">
+        <p className="text-sm font-semibold text-foreground/90">{dictionary.title}</p>
+        <p className="text-sm text-muted-foreground">{dictionary.description}</p>
+      </div>
+
+      <div className="space-y-2">
+        {rules.length === 0 && <p className="text-xs text-muted-foreground">{dictionary.empty}</p>}
+        {rules.map((rule, index) => (
+          <div
+            key={rule.id}
+            className="flex items-center gap-3 rounded-md border border-border/60 bg-muted/30 px-3 py-2 text-sm"
+          >
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(event) => saveRule({ ...rule, enabled: event.target.checked })}
+              aria-label={dictionary.enabledLabel}
+              title={dictionary.enabledLabel}
+            />
+            <div className="min-w-0 flex-1">
+              <p className="truncate font-medium">
+                <span className="rounded px-1" style={ruleStyle(rule)}>
+                  {rule.name}
+                </span>
+              </p>
+              <p className="truncate font-mono text-[11px] text-muted-foreground" title={rule.pattern}>
+                /{rule.pattern}/{rule.flags}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-1">
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => moveRule(rule.id, -1)}
+                disabled={index === 0}
+                title={dictionary.moveUpButton}
+              >
+                <ArrowUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => moveRule(rule.id, 1)}
+                disabled={index === rules.length - 1}
+                title={dictionary.moveDownButton}
+              >
+                <ArrowDown className="h-3.5 w-3.5" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => openEditor(rule)} title={dictionary.editButton}>
+                <Pencil className="h-3.5 w-3.5" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => deleteRule(rule.id)} title={dictionary.deleteButton}>
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editor ? (
+        <form className="space-y-3 rounded-lg border border-primary/40 bg-background/80 p-4" onSubmit={handleSubmit}>
+          <div className="grid gap-3 sm:grid-cols-[1fr_2fr_5rem]">
+            <div className="grid gap-1.5">
+              <Label htmlFor="highlight-name" className="text-xs uppercase text-muted-foreground">
+                {dictionary.nameLabel}
+              </Label>
+              <Input
+                id="highlight-name"
+                value={editor.name}
+                onChange={(event) => setEditor({ ...editor, name: event.target.value })}
+                autoFocus
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="highlight-pattern" className="text-xs uppercase text-muted-foreground">
+                {dictionary.patternLabel}
+              </Label>
+              <Input
+                id="highlight-pattern"
+                value={editor.pattern}
+                onChange={(event) => setEditor({ ...editor, pattern: event.target.value })}
+                aria-invalid={Boolean(editor.pattern) && !isPatternValid}
+                className="font-mono"
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="highlight-flags" className="text-xs uppercase text-muted-foreground">
+                {dictionary.flagsLabel}
+              </Label>
+              <Input
+                id="highlight-flags"
+                value={editor.flags}
+                onChange={(event) => setEditor({ ...editor, flags: event.target.value.trim() })}
+                className="font-mono"
+              />
+            </div>
+          </div>
+          {editor.pattern && !isPatternValid && <p className="text-xs text-destructive">{dictionary.invalidPattern}</p>}
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={Boolean(editor.foreground)}
+                onChange={(event) => setEditor({ ...editor, foreground: event.target.checked ? DEFAULT_FOREGROUND : undefined })}
+              />
+              {dictionary.foregroundLabel}
+              <input
+                type="color"
+                value={editor.foreground ?? DEFAULT_FOREGROUND}
+                onChange={(event) => setEditor({ ...editor, foreground: event.target.value })}
+                disabled={!editor.foreground}
+                className="h-7 w-10 cursor-pointer rounded border border-border bg-transparent disabled:opacity-40"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={Boolean(editor.background)}
+                onChange={(event) => setEditor({ ...editor, background: event.target.checked ? DEFAULT_BACKGROUND : undefined })}
+              />
+              {dictionary.backgroundLabel}
+              <input
+                type="color"
+                value={editor.background ?? DEFAULT_BACKGROUND}
+                onChange={(event) => setEditor({ ...editor, background: event.target.value })}
+                disabled={!editor.background}
+                className="h-7 w-10 cursor-pointer rounded border border-border bg-transparent disabled:opacity-40"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={editor.bold}
+                onChange={(event) => setEditor({ ...editor, bold: event.target.checked })}
+              />
+              {dictionary.boldLabel}
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" size="sm" variant="ghost" onClick={() => setEditor(null)}>
+              {dictionary.cancelButton}
+            </Button>
+            <Button type="submit" size="sm" disabled={!isPatternValid}>
+              {dictionary.saveButton}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" variant="secondary" onClick={() => openEditor()}>
+            <Plus className="h-4 w-4" />
+            {dictionary.addButton}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={resetRules}>
+            {dictionary.resetButton}
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="highlight-sample" className="text-xs font-medium uppercase text-muted-foreground">
+          {dictionary.previewLabel}
+        </Label>
+        <textarea
+          id="highlight-sample"
+          value={sample}
+          onChange={(event) => setSample(event.target.value)}
+          rows={4}
+          spellCheck={false}
+          className="w-full rounded-md border border-border bg-background px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <div className="overflow-x-auto rounded-md border border-border bg-zinc-950 p-4 font-mono text-xs text-zinc-200 shadow-inner">
+          {sample.split("\n").map((line, index) => (
+            <PreviewLine key={index} line={line} rules={previewRules} />
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -6,11 +6,26 @@ import { ArrowLeft, Check, Loader2, Moon, Sun } from "lucide-react";
 import { useTheme } from "next-themes";
 
 import { useLocaleContext, useLocaleDictionary } from "@/components/locale/locale-provider";
-import { useTerminalSettings } from "@/components/terminal/terminal-settings-provider";
+import {
+  MAX_SCROLLBACK_LINES,
+  MIN_SCROLLBACK_LINES,
+  useTerminalSettings,
+} from "@/components/terminal/terminal-settings-provider";
+import { ColorSchemesSection } from "@/components/settings/color-schemes-section";
+import { HighlightRulesSection } from "@/components/settings/highlight-rules-section";
+import { ShortcutsSection } from "@/components/settings/shortcuts-section";
+import { TriggerRulesSection } from "@/components/settings/trigger-rules-section";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import type { Locale } from "@/lib/i18n/config";
+import { TERMINAL_ENCODINGS, TERMINAL_ENCODING_LABELS, isTerminalEncoding } from "@/lib/terminal/encoding";
+import { LINE_TIMESTAMP_FORMATS, isLineTimestampFormat } from "@/lib/terminal/line-timestamps";
+import { TERMINAL_RENDERERS, isTerminalRenderer } from "@/lib/terminal/renderer";
+import { MAX_PASTE_LINE_DELAY_MS, MIN_PASTE_LINE_DELAY_MS, isPastePacingMode } from "@/lib/terminal/paste";
+import { MAX_RECONNECT_ATTEMPTS, MIN_RECONNECT_ATTEMPTS } from "@/lib/terminal/reconnect";
+import { MAX_SCROLLBACK_BUFFER_KB, MIN_SCROLLBACK_BUFFER_KB } from "@/lib/terminal/scrollback-buffer";
+import { isTranscriptFormat } from "@/lib/transcript";
 
 export function SettingsPage() {
   const { dictionary } = useLocaleDictionary("settings");
@@ -86,6 +101,100 @@ export function SettingsPage() {
     [updateTerminalSettings]
   );
 
+  const handleScrollbackChange = useCallback(
+    (value: number) => {
+      void updateTerminalSettings({ scrollback: value });
+    },
+    [updateTerminalSettings]
+  );
+
+  const handleBufferSizeChange = useCallback(
+    (value: number) => {
+      void updateTerminalSettings({ bufferSizeKb: value });
+    },
+    [updateTerminalSettings]
+  );
+
+  const handleAutoReconnectChange = useCallback(
+    (value: boolean) => {
+      void updateTerminalSettings({ autoReconnect: value });
+    },
+    [updateTerminalSettings]
+  );
+
+  const handleReconnectMaxAttemptsChange = useCallback(
+    (value: number) => {
+      void updateTerminalSettings({ reconnectMaxAttempts: value });
+    },
+    [updateTerminalSettings]
+  );
+
+  const handlePastePacingChange = useCallback(
+    (value: string) => {
+      if (isPastePacingMode(value)) {
+        void updateTerminalSettings({ pastePacing: value });
+      }
+    },
+    [updateTerminalSettings]
+  );
+
+  const handlePasteLineDelayChange = useCallback(
+    (value: number) => {
+      void updateTerminalSettings({ pasteLineDelayMs: value });
+    },
+    [updateTerminalSettings]
+  );
+
+  const handleDefaultEncodingChange = useCallback(
+    (value: string) => {
+      if (isTerminalEncoding(value)) {
+        void updateTerminalSettings({ defaultEncoding: value });
+      }
+    },
+    [updateTerminalSettings]
+  );
+
+  const handleLineTimestampsChange = useCallback(
+    (value: boolean) => {
+      void updateTerminalSettings({ lineTimestamps: value });
+    },
+    [updateTerminalSettings]
+  );
+
+  const handleLineTimestampFormatChange = useCallback(
+    (value: string) => {
+      if (isLineTimestampFormat(value)) {
+        void updateTerminalSettings({ lineTimestampFormat: value });
+      }
+    },
+    [updateTerminalSettings]
+  );
+
+  const handleRendererChange = useCallback(
+    (value: string) => {
+      if (isTerminalRenderer(value)) {
+        void updateTerminalSettings({ renderer: value });
+      }
+    },
+    [updateTerminalSettings]
+  );
+
+  const handleTranscriptFormatChange = useCallback(
+    (value: string) => {
+      if (isTranscriptFormat(value)) {
+        void updateTerminalSettings({ transcriptFormat: value });
+      }
+    },
+    [updateTerminalSettings]
+  );
+
+  const handleTranscriptAutoStartChange = useCallback(
+    (value: boolean) => {
+      void updateTerminalSettings({ transcriptAutoStart: value });
+    },
+    [updateTerminalSettings]
+  );
+
   const previewStyle = useMemo(
     () => ({
       fontFamily: resolvedFontFamily,
@@ -321,6 +430,45 @@ export function SettingsPage() {
                 <p className="text-xs text-muted-foreground">{dictionary.terminalSection.letterSpacingHelp}</p>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="terminal-scrollback" className="text-xs uppercase text-muted-foreground">
+                  {dictionary.terminalSection.scrollbackLabel}
+                </Label>
+                <Input
+                  id="terminal-scrollback"
+                  type="number"
+                  min={MIN_SCROLLBACK_LINES}
+                  max={MAX_SCROLLBACK_LINES}
+                  step={500}
+                  value={terminalSettings.scrollback}
+                  onChange={(event) => handleScrollbackChange(Number(event.target.value))}
+                  className="w-28"
+                  disabled={isUpdatingTerminal}
+                />
+                <p className="text-xs text-muted-foreground">{dictionary.terminalSection.scrollbackHelp}</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="terminal-buffer-size" className="text-xs uppercase text-muted-foreground">
+                  {dictionary.terminalSection.bufferSizeLabel}
+                </Label>
+                <div className="flex items-center gap-3">
+                  <Input
+                    id="terminal-buffer-size"
+                    type="number"
+                    min={MIN_SCROLLBACK_BUFFER_KB}
+                    max={MAX_SCROLLBACK_BUFFER_KB}
+                    step={64}
+                    value={terminalSettings.bufferSizeKb}
+                    onChange={(event) => handleBufferSizeChange(Number(event.target.value))}
+                    className="w-28"
+                    disabled={isUpdatingTerminal}
+                  />
+                  <span className="text-xs text-muted-foreground">KB</span>
+                </div>
+                <p className="text-xs text-muted-foreground">{dictionary.terminalSection.bufferSizeHelp}</p>
+              </div>
+
               <Button
                 type="button"
                 variant="outline"
@@ -343,6 +491,245 @@ export function SettingsPage() {
             </div>
           </div>
         </section>
+
+        <section className="space-y-4 rounded-xl border border-border/70 bg-background/80 p-6 shadow-sm">
+          <div className="space-y-1">
+            <p className="text-sm font-semibold text-foreground/90">
+              {dictionary.connectionSection.title}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {dictionary.connectionSection.description}
+            </p>
+          </div>
+          <div className="flex flex-col gap-3">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={terminalSettings.autoReconnect}
+                onChange={(event) => handleAutoReconnectChange(event.target.checked)}
+                disabled={isUpdatingTerminal}
+              />
+              {dictionary.connectionSection.autoReconnectLabel}
+            </label>
+            <p className="text-xs text-muted-foreground">{dictionary.connectionSection.autoReconnectHelp}</p>
+            <div className="space-y-2">
+              <Label htmlFor="reconnect-max-attempts" className="text-xs uppercase text-muted-foreground">
+                {dictionary.connectionSection.maxAttemptsLabel}
+              </Label>
+              <Input
+                id="reconnect-max-attempts"
+                type="number"
+                min={MIN_RECONNECT_ATTEMPTS}
+                max={MAX_RECONNECT_ATTEMPTS}
+                step={1}
+                value={terminalSettings.reconnectMaxAttempts}
+                onChange={(event) => handleReconnectMaxAttemptsChange(Number(event.target.value))}
+                className="w-28"
+                disabled={isUpdatingTerminal}
+              />
+              <p className="text-xs text-muted-foreground">{dictionary.connectionSection.maxAttemptsHelp}</p>
+            </div>
+          </div>
+        </section>
+
+        <section className="space-y-4 rounded-xl border border-border/70 bg-background/80 p-6 shadow-sm">
+          <div className="space-y-1">
+            <p className="text-sm font-semibold text-foreground/90">
+              {dictionary.pasteSection.title}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {dictionary.pasteSection.description}
+            </p>
+          </div>
+          <div className="flex flex-col gap-3">
+            <div className="flex w-full flex-col gap-2 sm:max-w-sm">
+              <Label htmlFor="paste-pacing" className="text-xs uppercase text-muted-foreground">
+                {dictionary.pasteSection.pacingLabel}
+              </Label>
+              <select
+                id="paste-pacing"
+                className="w-full appearance-none rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                value={terminalSettings.pastePacing}
+                onChange={(event) => handlePastePacingChange(event.target.value)}
+                disabled={isUpdatingTerminal}
+              >
+                {dictionary.pasteSection.pacingOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paste-line-delay" className="text-xs uppercase text-muted-foreground">
+                {dictionary.pasteSection.delayLabel}
+              </Label>
+              <Input
+                id="paste-line-delay"
+                type="number"
+                min={MIN_PASTE_LINE_DELAY_MS}
+                max={MAX_PASTE_LINE_DELAY_MS}
+                step={10}
+                value={terminalSettings.pasteLineDelayMs}
+                onChange={(event) => handlePasteLineDelayChange(Number(event.target.value))}
+                className="w-28"
+                disabled={isUpdatingTerminal || terminalSettings.pastePacing !== "delay"}
+              />
+              <p className="text-xs text-muted-foreground">{dictionary.pasteSection.delayHelp}</p>
+            </div>
+          </div>
+        </section>
+
+        <section className="space-y-4 rounded-xl border border-border/70 bg-background/80 p-6 shadow-sm">
+          <div className="space-y-1">
+            <p className="text-sm font-semibold text-foreground/90">
+              {dictionary.encodingSection.title}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {dictionary.encodingSection.description}
+            </p>
+          </div>
+          <div className="flex w-full flex-col gap-2 sm:max-w-sm">
+            <Label htmlFor="default-encoding" className="text-xs uppercase text-muted-foreground">
+              {dictionary.encodingSection.defaultLabel}
+            </Label>
+            <select
+              id="default-encoding"
+              className="w-full appearance-none rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              value={terminalSettings.defaultEncoding}
+              onChange={(event) => handleDefaultEncodingChange(event.target.value)}
+              disabled={isUpdatingTerminal}
+            >
+              {TERMINAL_ENCODINGS.map((encoding) => (
+                <option key={encoding} value={encoding}>
+                  {TERMINAL_ENCODING_LABELS[encoding]}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">{dictionary.encodingSection.help}</p>
+          </div>
+        </section>
+
+        <section className="space-y-4 rounded-xl border border-border/70 bg-background/80 p-6 shadow-sm">
+          <div className="space-y-1">
+            <p className="text-sm font-semibold text-foreground/90">
+              {dictionary.timestampSection.title}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {dictionary.timestampSection.description}
+            </p>
+          </div>
+          <div className="flex flex-col gap-3">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={terminalSettings.lineTimestamps}
+                onChange={(event) => handleLineTimestampsChange(event.target.checked)}
+                disabled={isUpdatingTerminal}
+              />
+              {dictionary.timestampSection.enabledLabel}
+            </label>
+            <div className="flex w-full flex-col gap-2 sm:max-w-sm">
+              <Label htmlFor="line-timestamp-format" className="text-xs uppercase text-muted-foreground">
+                {dictionary.timestampSection.formatLabel}
+              </Label>
+              <select
+                id="line-timestamp-format"
+                className="w-full appearance-none rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                value={terminalSettings.lineTimestampFormat}
+                onChange={(event) => handleLineTimestampFormatChange(event.target.value)}
+                disabled={isUpdatingTerminal}
+              >
+                {LINE_TIMESTAMP_FORMATS.map((format) => (
+                  <option key={format} value={format}>
+                    {dictionary.timestampSection.formats[format]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-muted-foreground">{dictionary.timestampSection.help}</p>
+          </div>
+        </section>
+
+        <section className="space-y-4 rounded-xl border border-border/70 bg-background/80 p-6 shadow-sm">
+          <div className="space-y-1">
+            <p className="text-sm font-semibold text-foreground/90">
+              {dictionary.rendererSection.title}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {dictionary.rendererSection.description}
+            </p>
+          </div>
+          <div className="flex w-full flex-col gap-2 sm:max-w-sm">
+            <Label htmlFor="terminal-renderer" className="text-xs uppercase text-muted-foreground">
+              {dictionary.rendererSection.label}
+            </Label>
+            <select
+              id="terminal-renderer"
+              className="w-full appearance-none rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              value={terminalSettings.renderer}
+              onChange={(event) => handleRendererChange(event.target.value)}
+              disabled={isUpdatingTerminal}
+            >
+              {TERMINAL_RENDERERS.map((renderer) => (
+                <option key={renderer} value={renderer}>
+                  {dictionary.rendererSection.renderers[renderer]}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">{dictionary.rendererSection.help}</p>
+          </div>
+        </section>
+
+        <ColorSchemesSection dictionary={dictionary.colorSchemeSection} />
+
+        <HighlightRulesSection dictionary={dictionary.highlightSection} />
+
+        <TriggerRulesSection dictionary={dictionary.triggerSection} />
+
+        <ShortcutsSection dictionary={dictionary.shortcutSection} />
+
+        <section className="space-y-4 rounded-xl border border-border/70 bg-background/80 p-6 shadow-sm">
+          <div className="space-y-1">
+            <p className="text-sm font-semibold text-foreground/90">
+              {dictionary.loggingSection.title}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {dictionary.loggingSection.description}
+            </p>
+          </div>
+          <div className="flex flex-col gap-3">
+            <div className="flex w-full flex-col gap-2 sm:max-w-sm">
+              <Label htmlFor="transcript-format" className="text-xs uppercase text-muted-foreground">
+                {dictionary.loggingSection.formatLabel}
+              </Label>
+              <select
+                id="transcript-format"
+                className="w-full appearance-none rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                value={terminalSettings.transcriptFormat}
+                onChange={(event) => handleTranscriptFormatChange(event.target.value)}
+                disabled={isUpdatingTerminal}
+              >
+                {dictionary.loggingSection.formatOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={terminalSettings.transcriptAutoStart}
+                onChange={(event) => handleTranscriptAutoStartChange(event.target.checked)}
+                disabled={isUpdatingTerminal}
+              />
+              {dictionary.loggingSection.autoStartLabel}
+            </label>
+            <p className="text-xs text-muted-foreground">{dictionary.loggingSection.autoStartHelp}</p>
+            <p className="text-xs text-muted-foreground">{dictionary.loggingSection.locationHint}</p>
+          </div>
+        </section>
       </main>
     </div>
   );
@@ -0,0 +1,156 @@
+"use client";
+
+import { type KeyboardEvent, useMemo, useState } from "react";
+import { RotateCcw, X } from "lucide-react";
+
+import { useShortcuts } from "@/components/shortcuts/shortcut-provider";
+import { Button } from "@/components/ui/button";
+import type { SettingsDictionary } from "@/lib/i18n/dictionaries";
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  FORWARDED_CHORDS,
+  SHORTCUT_DEFINITIONS,
+  chordFromEvent,
+  findShortcutConflicts,
+  isForwardedChord,
+  type SessionIndexShortcutId,
+  type ShortcutActionId,
+  type ShortcutDefinition,
+} from "@/lib/shortcuts";
+import { cn } from "@/lib/utils";
+
+type ShortcutsSectionProps = {
+  dictionary: SettingsDictionary["shortcutSection"];
+};
+
+type Notice = { tone: "info" | "error"; message: string };
+
+export function ShortcutsSection({ dictionary }: ShortcutsSectionProps) {
+  const { bindings, setBinding, resetBinding, resetBindings } = useShortcuts();
+  const [recordingId, setRecordingId] = useState<ShortcutActionId | null>(null);
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  const conflicts = useMemo(() => findShortcutConflicts(bindings), [bindings]);
+
+  const actionLabel = (definition: ShortcutDefinition) =>
+    definition.sessionIndex
+      ? dictionary.actions.jumpToSession.replace("{index}", String(definition.sessionIndex))
+      : dictionary.actions[definition.id as Exclude<ShortcutActionId, SessionIndexShortcutId>];
+
+  const labelOf = (id: ShortcutActionId) => actionLabel(SHORTCUT_DEFINITIONS.find((definition) => definition.id === id)!);
+
+  const handleRecordKeyDown = (id: ShortcutActionId) => (event: KeyboardEvent<HTMLButtonElement>) => {
+    // Tab 保留给焦点切换
+    if (event.key === "Tab") {
+      setRecordingId(null);
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.key === "Escape") {
+      setRecordingId(null);
+      return;
+    }
+    const chord = chordFromEvent(event.nativeEvent);
+    if (!chord) {
+      return;
+    }
+    if (isForwardedChord(chord)) {
+      setNotice({ tone: "error", message: dictionary.forwardedError.replace("{chord}", chord) });
+      return;
+    }
+    const previousOwner = SHORTCUT_DEFINITIONS.find((definition) => definition.id !== id && bindings[definition.id] === chord);
+    setBinding(id, chord);
+    setRecordingId(null);
+    setNotice(
+      previousOwner
+        ? {
+            tone: "info",
+            message: dictionary.reassigned.replace("{chord}", chord).replace("{action}", actionLabel(previousOwner)),
+          }
+        : null
+    );
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-border/70 bg-background/80 p-6 shadow-sm">
+      <div className="space-y-1">
+        <p className="text-sm font-semibold text-foreground/90">{dictionary.title}</p>
+        <p className="text-sm text-muted-foreground">{dictionary.description}</p>
+        <p className="text-xs text-muted-foreground">
+          {dictionary.forwardedHint.replace("{chords}", FORWARDED_CHORDS.join(", "))}
+        </p>
+      </div>
+
+      <div className="divide-y divide-border/60 rounded-md border border-border/60">
+        {SHORTCUT_DEFINITIONS.map((definition) => {
+          const chord = bindings[definition.id];
+          const conflict = chord ? conflicts.get(chord)?.filter((id) => id !== definition.id) : undefined;
+          const isRecording = recordingId === definition.id;
+          return (
+            <div key={definition.id} className="flex flex-wrap items-center gap-3 px-3 py-2 text-sm">
+              <div className="min-w-0 flex-1">
+                <p className="truncate">{actionLabel(definition)}</p>
+                <p className="text-[11px] text-muted-foreground">{dictionary.scopes[definition.scope]}</p>
+                {conflict && conflict.length > 0 && (
+                  <p className="text-[11px] text-destructive">
+                    {dictionary.conflictLabel.replace("{actions}", conflict.map(labelOf).join(", "))}
+                  </p>
+                )}
+              </div>
+              <button
+                type="button"
+                className={cn(
+                  "h-8 min-w-[9rem] rounded-md border border-border bg-muted/40 px-3 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-primary",
+                  isRecording && "border-primary text-primary",
+                  !chord && !isRecording && "text-muted-foreground"
+                )}
+                onClick={() => {
+                  setNotice(null);
+                  setRecordingId(isRecording ? null : definition.id);
+                }}
+                onKeyDown={isRecording ? handleRecordKeyDown(definition.id) : undefined}
+                onBlur={() => setRecordingId((current) => (current === definition.id ? null : current))}
+              >
+                {isRecording ? dictionary.recordPrompt : (chord ?? dictionary.unbound)}
+              </button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => setBinding(definition.id, null)}
+                disabled={!chord}
+                title={dictionary.clearButton}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                onClick={() => resetBinding(definition.id)}
+                disabled={chord === DEFAULT_SHORTCUT_BINDINGS[definition.id]}
+                title={dictionary.resetButton}
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        {notice ? (
+          <p className={cn("text-xs", notice.tone === "error" ? "text-destructive" : "text-muted-foreground")}>
+            {notice.message}
+          </p>
+        ) : (
+          <span />
+        )}
+        <Button size="sm" variant="ghost" onClick={resetBindings}>
+          {dictionary.resetAllButton}
+        </Button>
+      </div>
+    </section>
+  );
+}
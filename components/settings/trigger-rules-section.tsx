@@ -0,0 +1,281 @@
+"use client";
+
+import { type FormEvent, useEffect, useMemo, useState } from "react";
+import { BellRing, Pencil, Plus, Reply, Trash2 } from "lucide-react";
+
+import { useTriggerRules } from "@/components/triggers/trigger-provider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { SettingsDictionary } from "@/lib/i18n/dictionaries";
+import {
+  compileTriggers,
+  generateTriggerRuleId,
+  testTriggers,
+  validateTriggerPattern,
+  type TriggerRule,
+} from "@/lib/triggers";
+import type { TerminalDescribeResult } from "@/types/desktop-bridge";
+
+type TriggerRulesSectionProps = {
+  dictionary: SettingsDictionary["triggerSection"];
+};
+
+export function TriggerRulesSection({ dictionary }: TriggerRulesSectionProps) {
+  const { rules, saveRule, deleteRule, resetRules } = useTriggerRules();
+  const [editor, setEditor] = useState<TriggerRule | null>(null);
+  const [sample, setSample] = useState(dictionary.testSample);
+  const [sessions, setSessions] = useState<TerminalDescribeResult[]>([]);
+
+  // 会话级触发器只能绑定到仍在运行的会话
+  useEffect(() => {
+    let active = true;
+    void window.desktopBridge?.terminal
+      .list()
+      .then((list) => {
+        if (active) {
+          setSessions(list);
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const describeSession = (id: string) => {
+    const session = sessions.find((entry) => entry.id === id);
+    if (!session) {
+      return dictionary.endedSessionBadge;
+    }
+    const address = session.host ? `${session.host}:${session.port ?? 23}` : session.id;
+    return session.label && session.label !== address ? `${session.label} (${address})` : address;
+  };
+
+  const isPatternValid = editor ? validateTriggerPattern(editor.pattern, editor.flags) : true;
+
+  // 测试时用正在编辑的草稿替换（或追加）对应触发器，并忽略会话范围
+  const matches = useMemo(() => {
+    const draft = editor && isPatternValid ? { ...editor, enabled: true } : null;
+    const candidates = draft
+      ? rules.some((rule) => rule.id === draft.id)
+        ? rules.map((rule) => (rule.id === draft.id ? draft : rule))
+        : [...rules, draft]
+      : rules;
+    return testTriggers(sample, compileTriggers(candidates.map((rule) => ({ ...rule, sessionId: undefined })), ""));
+  }, [editor, isPatternValid, rules, sample]);
+
+  const openEditor = (rule?: TriggerRule) => {
+    setEditor(
+      rule
+        ? { ...rule }
+        : {
+            id: generateTriggerRuleId(),
+            name: "",
+            pattern: "",
+            flags: "",
+            notify: true,
+            flashTab: true,
+            enabled: true,
+          }
+    );
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!editor || !isPatternValid) {
+      return;
+    }
+    saveRule(editor);
+    setEditor(null);
+  };
+
+  return (
+    <section className="space-y-4 rounded-xl border border-border/70 bg-background/80 p-6 shadow-sm">
+      <div className="space-y-1">
+        <p className="text-sm font-semibold text-foreground/90">{dictionary.title}</p>
+        <p className="text-sm text-muted-foreground">{dictionary.description}</p>
+      </div>
+
+      <div className="space-y-2">
+        {rules.length === 0 && <p className="text-xs text-muted-foreground">{dictionary.empty}</p>}
+        {rules.map((rule) => (
+          <div
+            key={rule.id}
+            className="flex items-center gap-3 rounded-md border border-border/60 bg-muted/30 px-3 py-2 text-sm"
+          >
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(event) => saveRule({ ...rule, enabled: event.target.checked })}
+              aria-label={dictionary.enabledLabel}
+              title={dictionary.enabledLabel}
+            />
+            <div className="min-w-0 flex-1">
+              <p className="flex items-center gap-2 truncate font-medium">
+                {rule.name}
+                <span className="rounded-full bg-muted px-1.5 py-px text-[10px] font-normal text-muted-foreground">
+                  {rule.sessionId ? describeSession(rule.sessionId) : dictionary.globalBadge}
+                </span>
+                {rule.notify && <BellRing className="h-3 w-3 text-amber-500" aria-label={dictionary.notifyLabel} />}
+                {rule.response && <Reply className="h-3 w-3 text-sky-500" aria-label={dictionary.responseLabel} />}
+              </p>
+              <p className="truncate font-mono text-[11px] text-muted-foreground" title={rule.pattern}>
+                /{rule.pattern}/{rule.flags}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-1">
+              <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => openEditor(rule)} title={dictionary.editButton}>
+                <Pencil className="h-3.5 w-3.5" />
+              </Button>
+              <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => deleteRule(rule.id)} title={dictionary.deleteButton}>
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editor ? (
+        <form className="space-y-3 rounded-lg border border-primary/40 bg-background/80 p-4" onSubmit={handleSubmit}>
+          <div className="grid gap-3 sm:grid-cols-[1fr_2fr_5rem]">
+            <div className="grid gap-1.5">
+              <Label htmlFor="trigger-name" className="text-xs uppercase text-muted-foreground">
+                {dictionary.nameLabel}
+              </Label>
+              <Input
+                id="trigger-name"
+                value={editor.name}
+                onChange={(event) => setEditor({ ...editor, name: event.target.value })}
+                autoFocus
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="trigger-pattern" className="text-xs uppercase text-muted-foreground">
+                {dictionary.patternLabel}
+              </Label>
+              <Input
+                id="trigger-pattern"
+                value={editor.pattern}
+                onChange={(event) => setEditor({ ...editor, pattern: event.target.value })}
+                aria-invalid={Boolean(editor.pattern) && !isPatternValid}
+                className="font-mono"
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="trigger-flags" className="text-xs uppercase text-muted-foreground">
+                {dictionary.flagsLabel}
+              </Label>
+              <Input
+                id="trigger-flags"
+                value={editor.flags}
+                onChange={(event) => setEditor({ ...editor, flags: event.target.value.trim() })}
+                className="font-mono"
+              />
+            </div>
+          </div>
+          {editor.pattern && !isPatternValid && <p className="text-xs text-destructive">{dictionary.invalidPattern}</p>}
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="grid gap-1.5">
+              <Label htmlFor="trigger-scope" className="text-xs uppercase text-muted-foreground">
+                {dictionary.scopeLabel}
+              </Label>
+              <select
+                id="trigger-scope"
+                className="h-9 w-full appearance-none rounded-md border border-border bg-background px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                value={editor.sessionId ?? ""}
+                onChange={(event) => setEditor({ ...editor, sessionId: event.target.value || undefined })}
+              >
+                <option value="">{dictionary.globalBadge}</option>
+                {editor.sessionId && !sessions.some((session) => session.id === editor.sessionId) && (
+                  <option value={editor.sessionId}>{dictionary.endedSessionBadge}</option>
+                )}
+                {sessions.map((session) => (
+                  <option key={session.id} value={session.id}>
+                    {describeSession(session.id)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="trigger-response" className="text-xs uppercase text-muted-foreground">
+                {dictionary.responseLabel}
+              </Label>
+              <Input
+                id="trigger-response"
+                value={editor.response ?? ""}
+                placeholder={dictionary.responsePlaceholder}
+                onChange={(event) => setEditor({ ...editor, response: event.target.value || undefined })}
+                className="font-mono"
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={editor.notify}
+                onChange={(event) => setEditor({ ...editor, notify: event.target.checked })}
+              />
+              {dictionary.notifyLabel}
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={editor.flashTab}
+                onChange={(event) => setEditor({ ...editor, flashTab: event.target.checked })}
+              />
+              {dictionary.flashTabLabel}
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" size="sm" variant="ghost" onClick={() => setEditor(null)}>
+              {dictionary.cancelButton}
+            </Button>
+            <Button type="submit" size="sm" disabled={!isPatternValid}>
+              {dictionary.saveButton}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" variant="secondary" onClick={() => openEditor()}>
+            <Plus className="h-4 w-4" />
+            {dictionary.addButton}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={resetRules}>
+            {dictionary.resetButton}
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="trigger-sample" className="text-xs font-medium uppercase text-muted-foreground">
+          {dictionary.testLabel}
+        </Label>
+        <textarea
+          id="trigger-sample"
+          value={sample}
+          onChange={(event) => setSample(event.target.value)}
+          rows={4}
+          spellCheck={false}
+          className="w-full rounded-md border border-border bg-background px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        <div className="space-y-1 rounded-md border border-border bg-muted/30 p-3 text-xs">
+          {matches.length === 0 ? (
+            <p className="text-muted-foreground">{dictionary.testNoMatches}</p>
+          ) : (
+            matches.map((match, index) => (
+              <p key={index} className="flex gap-2">
+                <span className="shrink-0 font-medium text-amber-600 dark:text-amber-400">{match.rule.name}</span>
+                <span className="truncate font-mono text-muted-foreground" title={match.line}>
+                  {match.line}
+                </span>
+              </p>
+            ))
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  sanitizeShortcutBindings,
+  type ShortcutActionId,
+  type ShortcutBindings,
+} from "@/lib/shortcuts";
+
+const LOCAL_STORAGE_KEY = "pnet-tool.shortcuts";
+
+export type ShortcutContextValue = {
+  bindings: ShortcutBindings;
+  isReady: boolean;
+  /** 绑定组合键；若已被其他动作占用，则从原动作上移除 */
+  setBinding: (id: ShortcutActionId, chord: string | null) => void;
+  resetBinding: (id: ShortcutActionId) => void;
+  resetBindings: () => void;
+};
+
+const ShortcutContext = createContext<ShortcutContextValue | null>(null);
+
+async function readDesktopBindings(): Promise<ShortcutBindings | null> {
+  if (typeof window === "undefined" || !window.desktopBridge?.settings) {
+    return null;
+  }
+  try {
+    const settings = await window.desktopBridge.settings.get();
+    return settings?.shortcuts ? sanitizeShortcutBindings(settings.shortcuts) : null;
+  } catch (error) {
+    console.warn("Failed to read desktop shortcuts", error);
+    return null;
+  }
+}
+
+function readLocalStorageBindings(): ShortcutBindings | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  try {
+    const stored = window.localStorage?.getItem(LOCAL_STORAGE_KEY);
+    return stored ? sanitizeShortcutBindings(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.warn("Failed to read shortcuts from localStorage", error);
+    return null;
+  }
+}
+
+async function persistBindings(bindings: ShortcutBindings) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    window.localStorage?.setItem(LOCAL_STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.warn("Failed to persist shortcuts to localStorage", error);
+  }
+
+  try {
+    await window.desktopBridge?.settings?.setShortcuts(bindings);
+  } catch (error) {
+    console.warn("Failed to persist shortcuts to desktop settings", error);
+  }
+}
+
+export function ShortcutProvider({ children }: { children: ReactNode }) {
+  const [bindings, setBindings] = useState<ShortcutBindings>(DEFAULT_SHORTCUT_BINDINGS);
+  const [isReady, setReady] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    const bootstrap = async () => {
+      const desktopBindings = await readDesktopBindings();
+      if (!active) {
+        return;
+      }
+      const stored = desktopBindings ?? readLocalStorageBindings();
+      if (stored) {
+        setBindings(stored);
+      }
+      setReady(true);
+    };
+
+    bootstrap().catch((error) => {
+      console.error("Failed to bootstrap shortcuts", error);
+      if (active) {
+        setReady(true);
+      }
+    });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const update = useCallback((transform: (previous: ShortcutBindings) => ShortcutBindings) => {
+    setBindings((previous) => {
+      const next = transform(previous);
+      void persistBindings(next);
+      return next;
+    });
+  }, []);
+
+  const setBinding = useCallback(
+    (id: ShortcutActionId, chord: string | null) => {
+      update((previous) => {
+        const next = { ...previous, [id]: chord };
+        if (chord) {
+          for (const key of Object.keys(next) as ShortcutActionId[]) {
+            if (key !== id && next[key] === chord) {
+              next[key] = null;
+            }
+          }
+        }
+        return next;
+      });
+    },
+    [update]
+  );
+
+  const resetBinding = useCallback(
+    (id: ShortcutActionId) => {
+      setBinding(id, DEFAULT_SHORTCUT_BINDINGS[id]);
+    },
+    [setBinding]
+  );
+
+  const resetBindings = useCallback(() => {
+    update(() => DEFAULT_SHORTCUT_BINDINGS);
+  }, [update]);
+
+  const value = useMemo<ShortcutContextValue>(
+    () => ({ bindings, isReady, setBinding, resetBinding, resetBindings }),
+    [bindings, isReady, resetBinding, resetBindings, setBinding]
+  );
+
+  return <ShortcutContext.Provider value={value}>{children}</ShortcutContext.Provider>;
+}
+
+export function useShortcuts() {
+  const context = useContext(ShortcutContext);
+  if (!context) {
+    throw new Error("useShortcuts must be used within a ShortcutProvider");
+  }
+  return context;
+}
@@ -0,0 +1,370 @@
+"use client";
+
+import { type FormEvent, type KeyboardEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Pencil, Plus, Send, Trash2, X } from "lucide-react";
+
+import { useSnippets } from "@/components/snippets/snippet-provider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import {
+  SNIPPET_VENDORS,
+  extractSnippetVariables,
+  generateSnippetId,
+  isSnippetVendor,
+  renderSnippetForTerminal,
+  type Snippet,
+  type SnippetVendor,
+} from "@/lib/snippets";
+import { cn } from "@/lib/utils";
+
+type SnippetPanelProps = {
+  dictionary: HomeDictionary["snippets"];
+  canSend: boolean;
+  onSend: (data: string) => void;
+  onClose: () => void;
+};
+
+type EditorState = {
+  id: string;
+  name: string;
+  vendor: SnippetVendor;
+  body: string;
+  description: string;
+  isNew: boolean;
+};
+
+const SELECT_CLASS =
+  "w-full appearance-none rounded-md border border-border bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary";
+
+export function SnippetPanel({ dictionary, canSend, onSend, onClose }: SnippetPanelProps) {
+  const { snippets, saveSnippet, deleteSnippet, resetSnippets } = useSnippets();
+  const searchRef = useRef<HTMLInputElement | null>(null);
+  const [query, setQuery] = useState("");
+  const [vendorFilter, setVendorFilter] = useState<SnippetVendor | "all">("all");
+  const [highlighted, setHighlighted] = useState(0);
+  const [pending, setPending] = useState<{ snippet: Snippet; values: Record<string, string> } | null>(null);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+
+  useEffect(() => {
+    searchRef.current?.focus();
+  }, []);
+
+  const filtered = useMemo(() => {
+    const normalized = query.trim().toLowerCase();
+    return snippets.filter((snippet) => {
+      if (vendorFilter !== "all" && snippet.vendor !== vendorFilter) {
+        return false;
+      }
+      if (!normalized) {
+        return true;
+      }
+      return snippet.name.toLowerCase().includes(normalized) || snippet.body.toLowerCase().includes(normalized);
+    });
+  }, [query, snippets, vendorFilter]);
+
+  const groups = useMemo(
+    () =>
+      SNIPPET_VENDORS.map((vendor) => ({
+        vendor,
+        items: filtered.filter((snippet) => snippet.vendor === vendor),
+      })).filter((group) => group.items.length > 0),
+    [filtered]
+  );
+
+  // 键盘导航按分组后的展示顺序进行
+  const ordered = useMemo(() => groups.flatMap((group) => group.items), [groups]);
+
+  useEffect(() => {
+    setHighlighted((index) => Math.min(index, Math.max(ordered.length - 1, 0)));
+  }, [ordered.length]);
+
+  const send = useCallback(
+    (snippet: Snippet, values: Record<string, string> = {}) => {
+      if (!canSend) {
+        return;
+      }
+      onSend(renderSnippetForTerminal(snippet.body, values));
+      setPending(null);
+    },
+    [canSend, onSend]
+  );
+
+  const requestSend = useCallback(
+    (snippet: Snippet) => {
+      const variables = extractSnippetVariables(snippet.body);
+      if (variables.length === 0) {
+        send(snippet);
+        return;
+      }
+      setPending({ snippet, values: Object.fromEntries(variables.map((name) => [name, ""])) });
+    },
+    [send]
+  );
+
+  const handleSearchKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setHighlighted((index) => Math.min(index + 1, ordered.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setHighlighted((index) => Math.max(index - 1, 0));
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      const target = ordered[highlighted];
+      if (target) {
+        requestSend(target);
+      }
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  const handlePendingSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (pending) {
+      send(pending.snippet, pending.values);
+    }
+  };
+
+  const handleEditorSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!editor || !editor.name.trim() || !editor.body.trim()) {
+      return;
+    }
+    saveSnippet({
+      id: editor.id,
+      name: editor.name,
+      vendor: editor.vendor,
+      body: editor.body,
+      description: editor.description,
+    });
+    setEditor(null);
+  };
+
+  const openEditor = (snippet?: Snippet) => {
+    setPending(null);
+    setEditor(
+      snippet
+        ? { ...snippet, description: snippet.description ?? "", isNew: false }
+        : {
+            id: generateSnippetId(),
+            name: "",
+            vendor: vendorFilter === "all" ? "cisco-ios" : vendorFilter,
+            body: "",
+            description: "",
+            isNew: true,
+          }
+    );
+  };
+
+  return (
+    <div className="fixed right-0 top-16 bottom-0 z-40 flex w-[360px] flex-col border-l bg-card/95 shadow-xl backdrop-blur supports-[backdrop-filter]:bg-card/80">
+      <div className="space-y-1 border-b px-5 py-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold">{dictionary.title}</p>
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onClose} title={dictionary.closeButton}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">{dictionary.description}</p>
+      </div>
+
+      <div className="flex flex-col gap-2 border-b px-5 py-3">
+        <Input
+          ref={searchRef}
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleSearchKeyDown}
+          placeholder={dictionary.searchPlaceholder}
+          className="h-8 text-xs"
+        />
+        <div className="flex items-center gap-2">
+          <select
+            className={cn(SELECT_CLASS, "h-8 py-1 text-xs")}
+            value={vendorFilter}
+            onChange={(event) => {
+              const value = event.target.value;
+              setVendorFilter(isSnippetVendor(value) ? value : "all");
+              setHighlighted(0);
+            }}
+          >
+            <option value="all">{dictionary.vendorFilterAll}</option>
+            {SNIPPET_VENDORS.map((vendor) => (
+              <option key={vendor} value={vendor}>
+                {dictionary.vendors[vendor]}
+              </option>
+            ))}
+          </select>
+          <Button size="sm" variant="secondary" className="h-8 shrink-0" onClick={() => openEditor()}>
+            <Plus className="h-4 w-4" />
+            {dictionary.newButton}
+          </Button>
+        </div>
+        {!canSend && <p className="text-[11px] text-muted-foreground">{dictionary.noActiveSession}</p>}
+      </div>
+
+      <div className="flex-1 space-y-4 overflow-y-auto px-5 py-4">
+        {editor && (
+          <form className="space-y-3 rounded-lg border border-primary/40 bg-background/80 p-3" onSubmit={handleEditorSubmit}>
+            <div className="grid gap-1.5">
+              <Label htmlFor="snippet-name" className="text-xs">{dictionary.nameLabel}</Label>
+              <Input
+                id="snippet-name"
+                value={editor.name}
+                onChange={(event) => setEditor({ ...editor, name: event.target.value })}
+                className="h-8 text-xs"
+                autoFocus
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="snippet-vendor" className="text-xs">{dictionary.vendorLabel}</Label>
+              <select
+                id="snippet-vendor"
+                className={cn(SELECT_CLASS, "h-8 py-1 text-xs")}
+                value={editor.vendor}
+                onChange={(event) =>
+                  setEditor({ ...editor, vendor: isSnippetVendor(event.target.value) ? event.target.value : "generic" })
+                }
+              >
+                {SNIPPET_VENDORS.map((vendor) => (
+                  <option key={vendor} value={vendor}>
+                    {dictionary.vendors[vendor]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="snippet-body" className="text-xs">{dictionary.bodyLabel}</Label>
+              <textarea
+                id="snippet-body"
+                value={editor.body}
+                onChange={(event) => setEditor({ ...editor, body: event.target.value })}
+                rows={5}
+                className="w-full rounded-md border border-border bg-background px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+              <p className="text-[11px] text-muted-foreground">{dictionary.bodyHint}</p>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="snippet-description" className="text-xs">{dictionary.descriptionLabel}</Label>
+              <Input
+                id="snippet-description"
+                value={editor.description}
+                onChange={(event) => setEditor({ ...editor, description: event.target.value })}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" size="sm" variant="ghost" onClick={() => setEditor(null)}>
+                {dictionary.cancelButton}
+              </Button>
+              <Button type="submit" size="sm" disabled={!editor.name.trim() || !editor.body.trim()}>
+                {dictionary.saveButton}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {pending && (
+          <form className="space-y-3 rounded-lg border border-primary/40 bg-background/80 p-3" onSubmit={handlePendingSubmit}>
+            <p className="text-xs font-semibold">
+              {dictionary.variablesTitle} · {pending.snippet.name}
+            </p>
+            {Object.keys(pending.values).map((name, index) => (
+              <div key={name} className="grid gap-1.5">
+                <Label htmlFor={`snippet-var-${name}`} className="font-mono text-xs">{name}</Label>
+                <Input
+                  id={`snippet-var-${name}`}
+                  value={pending.values[name]}
+                  onChange={(event) =>
+                    setPending({ ...pending, values: { ...pending.values, [name]: event.target.value } })
+                  }
+                  className="h-8 text-xs"
+                  autoFocus={index === 0}
+                />
+              </div>
+            ))}
+            <div className="flex justify-end gap-2">
+              <Button type="button" size="sm" variant="ghost" onClick={() => setPending(null)}>
+                {dictionary.cancelButton}
+              </Button>
+              <Button type="submit" size="sm" disabled={!canSend}>
+                <Send className="h-3.5 w-3.5" />
+                {dictionary.sendButton}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {groups.length === 0 ? (
+          <p className="text-xs text-muted-foreground">{dictionary.empty}</p>
+        ) : (
+          groups.map((group) => (
+            <section key={group.vendor} className="space-y-2">
+              <p className="text-[11px] font-medium uppercase tracking-[0.18em] text-muted-foreground">
+                {dictionary.vendors[group.vendor]}
+              </p>
+              {group.items.map((snippet) => {
+                const isHighlighted = ordered[highlighted]?.id === snippet.id;
+                return (
+                  <div
+                    key={snippet.id}
+                    className={cn(
+                      "group rounded-lg border px-3 py-2 text-xs",
+                      isHighlighted ? "border-primary/50 bg-primary/5" : "border-border/60 bg-muted/30"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate font-semibold text-foreground/90" title={snippet.description ?? snippet.name}>
+                        {snippet.name}
+                      </span>
+                      <div className="flex shrink-0 items-center gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          onClick={() => requestSend(snippet)}
+                          disabled={!canSend}
+                          title={dictionary.sendButton}
+                        >
+                          <Send className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => openEditor(snippet)} title={dictionary.editButton}>
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          onClick={() => deleteSnippet(snippet.id)}
+                          title={dictionary.deleteButton}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </div>
+                    <pre className="mt-1 max-h-16 overflow-hidden whitespace-pre-wrap font-mono text-[11px] text-muted-foreground">
+                      {snippet.body}
+                    </pre>
+                  </div>
+                );
+              })}
+            </section>
+          ))
+        )}
+      </div>
+
+      <div className="flex items-center justify-between border-t px-5 py-3">
+        <p className="text-[11px] text-muted-foreground">{dictionary.shortcutHint}</p>
+        <Button size="sm" variant="ghost" className="h-8 text-xs" onClick={resetSnippets}>
+          {dictionary.resetButton}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+
+import { DEFAULT_SNIPPETS, sanitizeSnippet, type Snippet } from "@/lib/snippets";
+
+const LOCAL_STORAGE_KEY = "pnet-tool.snippets";
+
+export type SnippetContextValue = {
+  snippets: Snippet[];
+  isReady: boolean;
+  saveSnippet: (snippet: Snippet) => void;
+  deleteSnippet: (id: string) => void;
+  resetSnippets: () => void;
+};
+
+const SnippetContext = createContext<SnippetContextValue | null>(null);
+
+function sanitizeSnippets(input: unknown): Snippet[] | null {
+  if (!Array.isArray(input)) {
+    return null;
+  }
+  return input
+    .map((entry) => sanitizeSnippet(entry as Partial<Snippet>))
+    .filter((entry): entry is Snippet => Boolean(entry));
+}
+
+async function readDesktopSnippets(): Promise<Snippet[] | null> {
+  if (typeof window === "undefined" || !window.desktopBridge?.settings) {
+    return null;
+  }
+  try {
+    const settings = await window.desktopBridge.settings.get();
+    return sanitizeSnippets(settings?.snippets);
+  } catch (error) {
+    console.warn("Failed to read desktop snippets", error);
+    return null;
+  }
+}
+
+function readLocalStorageSnippets(): Snippet[] | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  try {
+    const stored = window.localStorage?.getItem(LOCAL_STORAGE_KEY);
+    return stored ? sanitizeSnippets(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.warn("Failed to read snippets from localStorage", error);
+    return null;
+  }
+}
+
+async function persistSnippets(snippets: Snippet[]) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    window.localStorage?.setItem(LOCAL_STORAGE_KEY, JSON.stringify(snippets));
+  } catch (error) {
+    console.warn("Failed to persist snippets to localStorage", error);
+  }
+
+  try {
+    await window.desktopBridge?.settings?.setSnippets(snippets);
+  } catch (error) {
+    console.warn("Failed to persist snippets to desktop settings", error);
+  }
+}
+
+export function SnippetProvider({ children }: { children: ReactNode }) {
+  const [snippets, setSnippets] = useState<Snippet[]>(DEFAULT_SNIPPETS);
+  const [isReady, setReady] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    const bootstrap = async () => {
+      const desktopSnippets = await readDesktopSnippets();
+      if (!active) {
+        return;
+      }
+      const stored = desktopSnippets ?? readLocalStorageSnippets();
+      if (stored) {
+        setSnippets(stored);
+      }
+      setReady(true);
+    };
+
+    bootstrap().catch((error) => {
+      console.error("Failed to bootstrap snippets", error);
+      if (active) {
+        setReady(true);
+      }
+    });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const update = useCallback((transform: (previous: Snippet[]) => Snippet[]) => {
+    setSnippets((previous) => {
+      const next = transform(previous);
+      void persistSnippets(next);
+      return next;
+    });
+  }, []);
+
+  const saveSnippet = useCallback(
+    (snippet: Snippet) => {
+      const sanitized = sanitizeSnippet(snippet);
+      if (!sanitized) {
+        return;
+      }
+      update((previous) => {
+        const index = previous.findIndex((entry) => entry.id === sanitized.id);
+        if (index === -1) {
+          return [...previous, sanitized];
+        }
+        const next = [...previous];
+        next[index] = sanitized;
+        return next;
+      });
+    },
+    [update]
+  );
+
+  const deleteSnippet = useCallback(
+    (id: string) => {
+      update((previous) => previous.filter((entry) => entry.id !== id));
+    },
+    [update]
+  );
+
+  const resetSnippets = useCallback(() => {
+    update(() => DEFAULT_SNIPPETS);
+  }, [update]);
+
+  const value = useMemo<SnippetContextValue>(
+    () => ({ snippets, isReady, saveSnippet, deleteSnippet, resetSnippets }),
+    [deleteSnippet, isReady, resetSnippets, saveSnippet, snippets]
+  );
+
+  return <SnippetContext.Provider value={value}>{children}</SnippetContext.Provider>;
+}
+
+export function useSnippets() {
+  const context = useContext(SnippetContext);
+  if (!context) {
+    throw new Error("useSnippets must be used within a SnippetProvider");
+  }
+  return context;
+}
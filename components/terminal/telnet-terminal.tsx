@@ -1,23 +1,60 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import type { ITheme, Terminal as XtermTerminal } from "@xterm/xterm";
+import type { IDisposable, Terminal as XtermTerminal } from "@xterm/xterm";
 import type { FitAddon as FitAddonClass } from "@xterm/addon-fit";
+import type { SearchAddon as SearchAddonClass } from "@xterm/addon-search";
 import { useTheme } from "next-themes";
 
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { useTerminalSettings } from "@/components/terminal/terminal-settings-provider";
+import { useColorSchemes } from "@/components/color-schemes/color-scheme-provider";
+import { useShortcuts } from "@/components/shortcuts/shortcut-provider";
+import { useHighlightRules } from "@/components/highlight/highlight-provider";
+import { TerminalCompletionHints } from "@/components/terminal/terminal-completion-hints";
+import { TerminalLinkMenu } from "@/components/terminal/terminal-link-menu";
+import { TerminalPasteDialog, type PasteJobState } from "@/components/terminal/terminal-paste-dialog";
+import { TerminalSearchBar } from "@/components/terminal/terminal-search-bar";
+import { TerminalSignalMenu } from "@/components/terminal/terminal-signal-menu";
+import { resolveTerminalFontFamily, useTerminalSettings } from "@/components/terminal/terminal-settings-provider";
+import { useTriggerRules } from "@/components/triggers/trigger-provider";
+import { resolveCommandNodes, suggestCompletions, type CompletionSuggestion } from "@/lib/cli-completion";
+import { toXtermTheme } from "@/lib/color-schemes";
+import { CommandLineCapture, readTerminalCursorLine, readTerminalLineBeforeCursor } from "@/lib/command-history";
+import { OutputHighlighter, compileHighlightRules } from "@/lib/highlight";
 import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import { isPromptVendor } from "@/lib/prompt";
+import { buildDeviceProfileKey, mergeAppearanceOverrides, type TerminalAppearanceOverrides } from "@/lib/terminal/appearance";
+import { createTerminalLinkProvider, type TerminalLinkTarget } from "@/lib/terminal/links";
+import { TERMINAL_ENCODINGS, TERMINAL_ENCODING_LABELS, isTerminalEncoding, type TerminalEncoding } from "@/lib/terminal/encoding";
+import {
+  LINE_TIMESTAMP_FORMATS,
+  LineTimestampTracker,
+  formatLineTimestamp,
+  isLineTimestampFormat,
+  prefixSelectionWithTimestamps,
+  type LineTimestampFormat,
+} from "@/lib/terminal/line-timestamps";
+import { OutputFlowController } from "@/lib/terminal/output-flow";
+import { sendPacedLines, splitPastedLines, type PastePacingMode } from "@/lib/terminal/paste";
+import { RECONNECT_STABLE_AFTER_MS, computeReconnectDelay, type ReconnectProgress } from "@/lib/terminal/reconnect";
+import { loadTerminalRenderer, type TerminalRenderer } from "@/lib/terminal/renderer";
+import { SessionRecorder } from "@/lib/recording";
+import { matchShortcut, type ShortcutActionId } from "@/lib/shortcuts";
+import { CISCO_ESCAPE_SEQUENCE, type TelnetSignal } from "@/lib/telnet";
+import { SessionTranscript } from "@/lib/transcript";
+import { TriggerMatcher, compileTriggers, type TriggerMatch } from "@/lib/triggers";
 import { cn } from "@/lib/utils";
+import type { TerminalPromptInfo } from "@/types/desktop-bridge";
 
-export type TerminalStatus = "idle" | "connecting" | "connected" | "closed" | "error";
+export type TerminalStatus = "idle" | "connecting" | "connected" | "reconnecting" | "closed" | "error";
 
 export type TerminalMode = "create" | "attach";
 
 export type TerminalStatusChange = {
   status: TerminalStatus;
   error?: string | null;
+  reconnect?: ReconnectProgress | null;
 };
 
 export type TelnetTerminalProps = {
@@ -27,17 +64,44 @@ export type TelnetTerminalProps = {
   autoConnectSignal?: number;
   onStatusChange?: (payload: TerminalStatusChange) => void;
   onSessionCreated?: (sessionId: string) => void;
+  /** 用户键入或粘贴的数据，在写入本会话后回调（用于广播输入） */
+  onInput?: (data: string) => void;
+  /** 用户在提示符后回车提交的命令（按设备回显还原） */
+  onCommand?: (command: string) => void;
+  /** 会话当前识别出的提示符，用于选择补全提示的命令树 */
+  prompt?: TerminalPromptInfo | null;
   sessionId?: string;
   mode?: TerminalMode;
   isVisible?: boolean;
   disposeOnUnmount?: boolean;
   showControls?: boolean;
   label?: string;
+  /** 会话输出命中触发器时回调（自动应答已由终端发送） */
+  onTrigger?: (match: TriggerMatch) => void;
+  /** 点击输出中的地址并选择“打开 Telnet 会话”时回调 */
+  onOpenLink?: (target: TerminalLinkTarget) => void;
+  /** 本会话的外观覆盖，优先于设备级覆盖与全局终端设置 */
+  appearance?: TerminalAppearanceOverrides;
   className?: string;
 };
 
 type CleanupDisposer = (() => void) | null;
 
+/** 地址菜单的大致尺寸，用于把菜单限制在终端区域内 */
+const LINK_MENU_WIDTH_PX = 240;
+const LINK_MENU_HEIGHT_PX = 160;
+
+type TimestampGutter = { rowHeight: number; labels: Array<string | null> };
+
+/** 补全提示框的大致尺寸，光标靠近顶部时改为显示在光标行下方 */
+const COMPLETION_HINTS_WIDTH_PX = 288;
+const COMPLETION_HINTS_HEIGHT_PX = 200;
+
+type CompletionHints = {
+  suggestions: CompletionSuggestion[];
+  position: { x: number; y: number; above: boolean };
+};
+
 export function TelnetTerminal({
   host,
   port,
@@ -45,15 +109,22 @@ export function TelnetTerminal({
   autoConnectSignal,
   onStatusChange,
   onSessionCreated,
+  onInput,
+  onCommand,
+  prompt,
+  onOpenLink,
+  onTrigger,
   sessionId,
   mode = "create",
   isVisible = true,
   disposeOnUnmount = true,
   showControls = true,
   label,
+  appearance,
   className,
 }: TelnetTerminalProps) {
   const containerRef = useRef<HTMLDivElement | null>(null);
+  const viewportRef = useRef<HTMLDivElement | null>(null);
   const terminalRef = useRef<XtermTerminal | null>(null);
   const fitAddonRef = useRef<FitAddonClass | null>(null);
   const sessionIdRef = useRef<string | null>(null);
@@ -65,69 +136,99 @@ export function TelnetTerminal({
   const disposeOnUnmountRef = useRef<boolean>(disposeOnUnmount);
   const previousVisibilityRef = useRef<boolean>(isVisible);
   const hasHydratedBufferRef = useRef(false);
+  const isConnectingRef = useRef(false);
+  const transcriptRef = useRef<SessionTranscript | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
   const resizeObserverRef = useRef<ResizeObserver | null>(null);
   const statusChangeHandlerRef = useRef<typeof onStatusChange>(onStatusChange);
+  const inputHandlerRef = useRef<typeof onInput>(onInput);
+  const commandHandlerRef = useRef<typeof onCommand>(onCommand);
+  const triggerHandlerRef = useRef<typeof onTrigger>(onTrigger);
+  const linkActivateHandlerRef = useRef<((target: TerminalLinkTarget, event: MouseEvent) => void) | null>(null);
+  // 连接建立时读取最新的自动开始设置与回调，设置变化本身不应触发开始记录
+  const transcriptAutoStartRef = useRef<{ enabled: boolean; start: () => Promise<void> } | null>(null);
+  // 断线重连：计时器、代次（取消后作废进行中的尝试）、当前重试次数与最近一次连上的时间
+  const reconnectTimerRef = useRef<number | null>(null);
+  const reconnectGenerationRef = useRef(0);
+  const reconnectAttemptRef = useRef(0);
+  const connectedAtRef = useRef(0);
+  const sessionDropHandlerRef = useRef<((id: string) => boolean) | null>(null);
+  const pasteAbortRef = useRef<AbortController | null>(null);
+  const terminalShortcutHandlerRef = useRef<((id: ShortcutActionId) => void) | null>(null);
+  const commandCaptureRef = useRef<CommandLineCapture | null>(null);
+  const outputFlowRef = useRef<OutputFlowController | null>(null);
+  const rendererAddonRef = useRef<{ terminal: XtermTerminal; renderer: TerminalRenderer; addon: IDisposable | null } | null>(null);
+  const timestampTrackerRef = useRef<LineTimestampTracker | null>(null);
+  // 相对时间的起点：本终端首次建立连接的时刻，自动重连不重置
+  const timestampOriginRef = useRef(0);
 
   const [status, setStatus] = useState<TerminalStatus>("idle");
   const [error, setError] = useState<string | null>(null);
   const [isDesktopAvailable, setDesktopAvailable] = useState(false);
   const [isDisposing, setIsDisposing] = useState(false);
+  const [searchAddon, setSearchAddon] = useState<SearchAddonClass | null>(null);
+  const [isSearchOpen, setSearchOpen] = useState(false);
+  const [transcriptPath, setTranscriptPath] = useState<string | null>(null);
+  const [isTranscriptPending, setTranscriptPending] = useState(false);
+  const [recordingPath, setRecordingPath] = useState<string | null>(null);
+  const [isRecordingPending, setRecordingPending] = useState(false);
+  const [reconnectProgress, setReconnectProgress] = useState<ReconnectProgress | null>(null);
+  const [autoReconnectOverride, setAutoReconnectOverride] = useState<boolean | null>(null);
+  const [encodingOverride, setEncodingOverride] = useState<TerminalEncoding | null>(null);
+  const [pasteJob, setPasteJob] = useState<PasteJobState | null>(null);
+  const [linkMenu, setLinkMenu] = useState<{ target: TerminalLinkTarget; position: { x: number; y: number } } | null>(null);
+  const [isHighlighting, setHighlighting] = useState(true);
+  const [timestampsOverride, setTimestampsOverride] = useState<boolean | null>(null);
+  const [timestampFormatOverride, setTimestampFormatOverride] = useState<LineTimestampFormat | null>(null);
+  const [timestampGutter, setTimestampGutter] = useState<TimestampGutter | null>(null);
+  const [isCompletionEnabled, setCompletionEnabled] = useState(true);
+  const [completionHints, setCompletionHints] = useState<CompletionHints | null>(null);
+  const [highlighter] = useState(() => new OutputHighlighter());
+  // 触发器的跨块拼接与冷却状态属于单个会话，每次订阅新会话时重建
+  const triggerMatcherRef = useRef<TriggerMatcher | null>(null);
   const { resolvedTheme } = useTheme();
-  const { settings: terminalSettings, resolvedFontFamily } = useTerminalSettings();
-
-  const lightTheme = useMemo<ITheme>(
-    () => ({
-      background: "#f9fafb",
-      foreground: "#111827",
-      cursor: "#2563eb",
-      selection: "rgba(37, 99, 235, 0.25)",
-      black: "#1f2937",
-      red: "#dc2626",
-      green: "#16a34a",
-      yellow: "#ca8a04",
-      blue: "#2563eb",
-      magenta: "#7c3aed",
-      cyan: "#0891b2",
-      white: "#f3f4f6",
-      brightBlack: "#4b5563",
-      brightRed: "#ef4444",
-      brightGreen: "#22c55e",
-      brightYellow: "#eab308",
-      brightBlue: "#3b82f6",
-      brightMagenta: "#8b5cf6",
-      brightCyan: "#06b6d4",
-      brightWhite: "#ffffff",
-    }),
-    []
+  const { settings: terminalSettings, profileOverrides } = useTerminalSettings();
+  const { rules: highlightRules } = useHighlightRules();
+  const { rules: triggerRules } = useTriggerRules();
+  const triggerRulesRef = useRef(triggerRules);
+  const { schemes, lightScheme, darkScheme } = useColorSchemes();
+  const { bindings: shortcutBindings } = useShortcuts();
+  const shortcutBindingsRef = useRef(shortcutBindings);
+  const sessionEncoding = encodingOverride ?? terminalSettings.defaultEncoding;
+  // 建立会话时读取，避免切换编码触发重新连接
+  const sessionEncodingRef = useRef(sessionEncoding);
+  const showTimestamps = timestampsOverride ?? terminalSettings.lineTimestamps;
+  const timestampFormat = timestampFormatOverride ?? terminalSettings.lineTimestampFormat;
+  // 供数据回调、复制与日志前缀读取，避免开关时间戳重建订阅
+  const lineTimestampsRef = useRef({ enabled: showTimestamps, format: timestampFormat });
+  const promptVendor = prompt?.vendor;
+  const promptMode = prompt?.mode;
+  const promptContext = prompt?.context;
+  // 未识别出提示符或厂商没有离线命令树（MikroTik、Linux）时不显示补全提示
+  const completionRoot = useMemo(
+    () =>
+      promptVendor && promptMode && isPromptVendor(promptVendor)
+        ? resolveCommandNodes(promptVendor, promptMode, promptContext)
+        : null,
+    [promptContext, promptMode, promptVendor]
   );
 
-  const darkTheme = useMemo<ITheme>(
-    () => ({
-      background: "#0f1115",
-      foreground: "#f7fafc",
-      cursor: "#38bdf8",
-      selection: "rgba(56, 189, 248, 0.35)",
-      black: "#111827",
-      red: "#f87171",
-      green: "#34d399",
-      yellow: "#facc15",
-      blue: "#60a5fa",
-      magenta: "#c084fc",
-      cyan: "#5eead4",
-      white: "#e5e7eb",
-      brightBlack: "#1f2937",
-      brightRed: "#f97316",
-      brightGreen: "#4ade80",
-      brightYellow: "#fde047",
-      brightBlue: "#93c5fd",
-      brightMagenta: "#e879f9",
-      brightCyan: "#67e8f9",
-      brightWhite: "#ffffff",
-    }),
-    []
+  // 外观按 全局设置 <- 设备覆盖 <- 会话覆盖 叠加
+  const effectiveAppearance = useMemo(
+    () => mergeAppearanceOverrides(profileOverrides[buildDeviceProfileKey(host, port)], appearance),
+    [appearance, host, port, profileOverrides]
   );
-
-  const activeTheme = useMemo(() => (resolvedTheme === "dark" ? darkTheme : lightTheme), [darkTheme, lightTheme, resolvedTheme]);
+  const effectiveFontSize = effectiveAppearance.fontSize ?? terminalSettings.fontSize;
+  const effectiveScrollback = effectiveAppearance.scrollback ?? terminalSettings.scrollback;
+  const resolvedFontFamily = resolveTerminalFontFamily(effectiveAppearance.fontFamily ?? terminalSettings.fontFamily);
+
+  const activeTheme = useMemo(() => {
+    // 指定的配色方案被删除后回退到随明暗主题切换
+    const pinned = effectiveAppearance.colorSchemeId
+      ? schemes.find((scheme) => scheme.id === effectiveAppearance.colorSchemeId)
+      : undefined;
+    return toXtermTheme(pinned ?? (resolvedTheme === "dark" ? darkScheme : lightScheme));
+  }, [darkScheme, effectiveAppearance.colorSchemeId, lightScheme, resolvedTheme, schemes]);
 
   useEffect(() => {
   setDesktopAvailable(typeof window !== "undefined" && Boolean(window.desktopBridge?.terminal));
@@ -137,6 +238,14 @@ export function TelnetTerminal({
     disposeOnUnmountRef.current = disposeOnUnmount;
   }, [disposeOnUnmount]);
 
+  useEffect(() => {
+    sessionEncodingRef.current = sessionEncoding;
+  }, [sessionEncoding]);
+
+  useEffect(() => {
+    lineTimestampsRef.current = { enabled: showTimestamps, format: timestampFormat };
+  }, [showTimestamps, timestampFormat]);
+
   useEffect(() => {
     if (mode === "attach" && sessionId) {
       sessionIdRef.current = sessionId;
@@ -149,6 +258,10 @@ export function TelnetTerminal({
         return dictionary.status.connecting;
       case "connected":
         return dictionary.status.connected;
+      case "reconnecting":
+        return dictionary.status.reconnecting
+          .replace("{attempt}", String(reconnectProgress?.attempt ?? 1))
+          .replace("{max}", String(reconnectProgress?.maxAttempts ?? 1));
       case "closed":
         return dictionary.status.closed;
       case "error":
@@ -156,12 +269,20 @@ export function TelnetTerminal({
       default:
         return dictionary.status.idle;
     }
-  }, [dictionary.status, status]);
+  }, [dictionary.status, reconnectProgress, status]);
 
   const cleanupSession = useCallback(
     async (killProcess: boolean) => {
       const sessionId = sessionIdRef.current;
 
+      reconnectGenerationRef.current += 1;
+      if (reconnectTimerRef.current !== null) {
+        window.clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+      }
+      reconnectAttemptRef.current = 0;
+      setReconnectProgress(null);
+
       dataDisposerRef.current?.();
       exitDisposerRef.current?.();
       errorDisposerRef.current?.();
@@ -172,13 +293,46 @@ export function TelnetTerminal({
       errorDisposerRef.current = null;
       resizeDisposerRef.current = null;
 
+      timestampTrackerRef.current?.stop();
+      timestampTrackerRef.current = null;
+      setTimestampGutter(null);
+
       terminalRef.current?.dispose();
       terminalRef.current = null;
       fitAddonRef.current = null;
+      setSearchAddon(null);
+      setSearchOpen(false);
+
+      pasteAbortRef.current?.abort();
+      pasteAbortRef.current = null;
+      setPasteJob(null);
+
+      highlighter.reset();
+      outputFlowRef.current?.release();
+      outputFlowRef.current = null;
+      triggerMatcherRef.current = null;
 
       sessionIdRef.current = null;
       hasHydratedBufferRef.current = false;
 
+      const transcript = transcriptRef.current;
+      transcriptRef.current = null;
+      setTranscriptPath(null);
+      if (transcript) {
+        transcript.stop().catch((transcriptError) => {
+          console.warn("Failed to close session transcript", transcriptError);
+        });
+      }
+
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+      setRecordingPath(null);
+      if (recorder) {
+        recorder.stop().catch((recordingError) => {
+          console.warn("Failed to close session recording", recordingError);
+        });
+      }
+
   if (killProcess && sessionId && window.desktopBridge?.terminal) {
         try {
           setIsDisposing(true);
@@ -190,7 +344,7 @@ export function TelnetTerminal({
         }
       }
     },
-    []
+    [highlighter]
   );
 
   const scheduleFit = useCallback(
@@ -217,52 +371,148 @@ export function TelnetTerminal({
     [],
   );
 
+  const startTranscript = useCallback(async () => {
+    if (transcriptRef.current || !sessionIdRef.current) {
+      return;
+    }
+    setTranscriptPending(true);
+    try {
+      const transcript = await SessionTranscript.start(
+        terminalSettings.transcriptFormat,
+        { label: label || host, host, port },
+        {
+          linePrefix: () => {
+            const { enabled, format } = lineTimestampsRef.current;
+            return enabled ? `[${formatLineTimestamp(Date.now(), format, timestampOriginRef.current)}] ` : null;
+          },
+        }
+      );
+      transcriptRef.current = transcript;
+      setTranscriptPath(transcript.path);
+    } catch (transcriptError) {
+      console.error("Failed to start session transcript", transcriptError);
+      setError(dictionary.transcript.failed);
+    } finally {
+      setTranscriptPending(false);
+    }
+  }, [dictionary.transcript.failed, host, label, port, terminalSettings.transcriptFormat]);
+
+  const stopTranscript = useCallback(async () => {
+    const transcript = transcriptRef.current;
+    transcriptRef.current = null;
+    setTranscriptPath(null);
+    if (!transcript) {
+      return;
+    }
+    try {
+      await transcript.stop();
+    } catch (transcriptError) {
+      console.warn("Failed to close session transcript", transcriptError);
+    }
+  }, []);
+
+  const startRecording = useCallback(async () => {
+    const terminal = terminalRef.current;
+    if (recorderRef.current || !sessionIdRef.current || !terminal) {
+      return;
+    }
+    setRecordingPending(true);
+    try {
+      const recorder = await SessionRecorder.start({
+        label: label || host,
+        host,
+        port,
+        cols: terminal.cols,
+        rows: terminal.rows,
+      });
+      recorderRef.current = recorder;
+      setRecordingPath(recorder.path);
+    } catch (recordingError) {
+      console.error("Failed to start session recording", recordingError);
+      setError(dictionary.recording.failed);
+    } finally {
+      setRecordingPending(false);
+    }
+  }, [dictionary.recording.failed, host, label, port]);
+
+  const stopRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    setRecordingPath(null);
+    if (!recorder) {
+      return;
+    }
+    try {
+      await recorder.stop();
+    } catch (recordingError) {
+      console.warn("Failed to close session recording", recordingError);
+    }
+  }, []);
+
   const handleDisconnect = useCallback(() => {
     void cleanupSession(true);
     setStatus("closed");
   }, [cleanupSession]);
 
+  // 设备输出经过高亮规则着色后再写入 xterm；会话日志仍记录原始数据。
+  // 写入经流控统计待解析量，xterm 跟不上时暂停从设备读取
+  const writeSessionOutput = useCallback(
+    (terminal: XtermTerminal, data: string) => {
+      const output = highlighter.push(data);
+      if (!output) {
+        return;
+      }
+      const flow = outputFlowRef.current;
+      if (flow) {
+        flow.write(terminal, output);
+      } else {
+        terminal.write(output);
+      }
+    },
+    [highlighter]
+  );
+
   const subscribeSessionStreams = useCallback(
     (id: string, terminal: XtermTerminal) => {
-      const lastLabelRef = { current: label || host };
-  dataDisposerRef.current = window.desktopBridge?.terminal.onData(({ id: incomingId, data }: { id: string; data: string }) => {
+      // 提示符识别与会话标签更新统一在桥接层完成（terminal:prompt / terminal:label）
+      outputFlowRef.current?.release();
+      outputFlowRef.current = new OutputFlowController((paused) => {
+        void window.desktopBridge?.terminal.setReadPaused(id, paused);
+      });
+      const triggerMatcher = new TriggerMatcher();
+      triggerMatcher.setTriggers(compileTriggers(triggerRulesRef.current, id));
+      triggerMatcherRef.current = triggerMatcher;
+      const disposeData = window.desktopBridge?.terminal.onData(({ id: incomingId, data }: { id: string; data: string }) => {
         if (incomingId === id) {
-          terminal.write(data);
-          try {
-            // 实时解析常见网络设备提示符，持续更新设备名
-            // 匹配示例："R1>", "R1#", "[R1]", "<R1>", "Switch>", "[Huawei]"
-            const lines = data.split(/\r?\n/);
-            for (const line of lines) {
-              const trimmed = line.trim();
-              if (!trimmed) continue;
-              // 扩展正则：支持更多设备格式，包括 Cisco/Huawei/H3C 等
-              const m =
-                /^(?:\[|<)?([A-Za-z0-9._-]{1,32})(?:\]|>)?[#>]\s*$/.exec(trimmed) ||
-                /^\[([A-Za-z0-9._-]{1,32})\]\s*$/.exec(trimmed) ||
-                /^<([A-Za-z0-9._-]{1,32})>\s*$/.exec(trimmed) ||
-                /^([A-Za-z0-9._-]{1,32})\(config[^)]*\)[#>]\s*$/.exec(trimmed);
-              if (m && m[1]) {
-                const candidate = m[1];
-                if (candidate && candidate !== lastLabelRef.current) {
-                  lastLabelRef.current = candidate;
-                  // 通过全局桥接的 onLabel 通道更新会话标签
-                  window.dispatchEvent(
-                    new CustomEvent<{ id: string; label: string; host: string; port: number }>("terminal:label", {
-                      detail: { id, label: candidate, host, port },
-                    })
-                  );
-                }
-                break;
-              }
+          writeSessionOutput(terminal, data);
+          transcriptRef.current?.append(data);
+          recorderRef.current?.output(data);
+          for (const match of triggerMatcher.push(data)) {
+            if (match.rule.response) {
+              window.desktopBridge?.terminal.write(id, `${match.rule.response}\r`);
             }
-          } catch {}
+            triggerHandlerRef.current?.(match);
+          }
         }
-      }) ?? null;
+      });
+      // raw 格式日志记录解码前的字节，与文本输出分开订阅
+      const disposeRawData = window.desktopBridge?.terminal.onRawData(({ id: incomingId, data }) => {
+        if (incomingId === id) {
+          transcriptRef.current?.appendBytes(data);
+        }
+      });
+      dataDisposerRef.current = () => {
+        disposeData?.();
+        disposeRawData?.();
+      };
 
   exitDisposerRef.current = window.desktopBridge?.terminal.onExit(({ id: exitingId }: { id: string }) => {
         if (exitingId !== id) {
           return;
         }
+        if (sessionDropHandlerRef.current?.(id)) {
+          return;
+        }
         void cleanupSession(false);
         setStatus("closed");
       }) ?? null;
@@ -271,14 +521,115 @@ export function TelnetTerminal({
         if (erroredId !== id) {
           return;
         }
+        if (sessionDropHandlerRef.current?.(id)) {
+          return;
+        }
         setError(message ?? dictionary.status.error);
         setStatus("error");
         void cleanupSession(false);
       }) ?? null;
     },
-    [cleanupSession, dictionary.status.error, host, port, label]
+    [cleanupSession, dictionary.status.error, writeSessionOutput]
+  );
+
+  const autoReconnect = autoReconnectOverride ?? terminalSettings.autoReconnect;
+
+  // 会话意外断开时保留 xterm 实例与回滚内容，按指数退避在同一终端上重新建立会话
+  const beginReconnect = useCallback(
+    (droppedId: string) => {
+      const terminal = terminalRef.current;
+      if (!autoReconnect || !terminal || !window.desktopBridge?.terminal) {
+        return false;
+      }
+
+      dataDisposerRef.current?.();
+      exitDisposerRef.current?.();
+      errorDisposerRef.current?.();
+      dataDisposerRef.current = null;
+      exitDisposerRef.current = null;
+      errorDisposerRef.current = null;
+      sessionIdRef.current = null;
+      outputFlowRef.current?.release();
+      outputFlowRef.current = null;
+
+      const generation = ++reconnectGenerationRef.current;
+      const maxAttempts = terminalSettings.reconnectMaxAttempts;
+      const isFreshDrop = Date.now() - connectedAtRef.current > RECONNECT_STABLE_AFTER_MS;
+
+      const scheduleAttempt = (attempt: number, previousId: string) => {
+        if (attempt > maxAttempts) {
+          void cleanupSession(false);
+          setError(dictionary.reconnect.gaveUp.replace("{max}", String(maxAttempts)));
+          setStatus("closed");
+          return;
+        }
+        reconnectAttemptRef.current = attempt;
+        setReconnectProgress({ attempt, maxAttempts });
+        setStatus("reconnecting");
+
+        reconnectTimerRef.current = window.setTimeout(async () => {
+          reconnectTimerRef.current = null;
+          try {
+            const { id } = await window.desktopBridge!.terminal.createTelnetSession({
+              host,
+              port,
+              label,
+              dimensions: { cols: terminal.cols, rows: terminal.rows },
+              resumeFrom: previousId,
+              encoding: sessionEncodingRef.current,
+            });
+            if (generation !== reconnectGenerationRef.current || terminalRef.current !== terminal) {
+              void window.desktopBridge?.terminal.dispose(id);
+              return;
+            }
+            sessionIdRef.current = id;
+            connectedAtRef.current = Date.now();
+            subscribeSessionStreams(id, terminal);
+            onSessionCreated?.(id);
+            setReconnectProgress(null);
+            setError(null);
+            setStatus("connected");
+          } catch (reconnectError) {
+            console.warn(`Reconnect attempt ${attempt} failed`, reconnectError);
+            if (generation === reconnectGenerationRef.current) {
+              scheduleAttempt(attempt + 1, previousId);
+            }
+          }
+        }, computeReconnectDelay(attempt));
+      };
+
+      scheduleAttempt(isFreshDrop ? 1 : reconnectAttemptRef.current + 1, droppedId);
+      return true;
+    },
+    [
+      autoReconnect,
+      cleanupSession,
+      dictionary.reconnect.gaveUp,
+      host,
+      label,
+      onSessionCreated,
+      port,
+      subscribeSessionStreams,
+      terminalSettings.reconnectMaxAttempts,
+    ]
   );
 
+  useEffect(() => {
+    sessionDropHandlerRef.current = beginReconnect;
+  }, [beginReconnect]);
+
+  const handleCancelReconnect = useCallback(() => {
+    void cleanupSession(false);
+    setStatus("closed");
+  }, [cleanupSession]);
+
+  // 重连途中关闭自动重连等同于取消
+  useEffect(() => {
+    if (!autoReconnect && status === "reconnecting") {
+      handleCancelReconnect();
+    }
+  }, [autoReconnect, handleCancelReconnect, status]);
+
   const handleConnect = useCallback(async () => {
     if (!containerRef.current) {
       return;
@@ -296,33 +647,61 @@ export function TelnetTerminal({
       return;
     }
 
-    if (sessionIdRef.current) {
+    // attach 模式下 sessionIdRef 会被提前写入，因此以终端实例与进行中的连接作为重入判断
+    if (terminalRef.current || isConnectingRef.current) {
+      return;
+    }
+    if (mode === "create" && sessionIdRef.current) {
       return;
     }
 
+    isConnectingRef.current = true;
     setStatus("connecting");
     setError(null);
     hasHydratedBufferRef.current = false;
 
-    const [{ Terminal }, { FitAddon }] = await Promise.all([
+    const [{ Terminal }, { FitAddon }, { SearchAddon }] = await Promise.all([
       import("@xterm/xterm"),
       import("@xterm/addon-fit"),
+      import("@xterm/addon-search"),
     ]);
 
     const terminal = new Terminal({
       convertEol: true,
       fontFamily: resolvedFontFamily,
-      fontSize: terminalSettings.fontSize,
+      fontSize: effectiveFontSize,
       lineHeight: terminalSettings.lineHeight,
       letterSpacing: terminalSettings.letterSpacing,
       cursorBlink: true,
       cursorStyle: "block",
-      scrollback: 1000,
+      scrollback: effectiveScrollback,
       theme: activeTheme,
+      // 搜索高亮依赖 decoration API
+      allowProposedApi: true,
     });
 
     const fitAddon = new FitAddon();
     terminal.loadAddon(fitAddon);
+    const search = new SearchAddon();
+    terminal.loadAddon(search);
+    setSearchAddon(search);
+    terminal.registerLinkProvider(
+      createTerminalLinkProvider(terminal, (target, event) => linkActivateHandlerRef.current?.(target, event))
+    );
+
+    // 已绑定的快捷键不交给 xterm：终端级动作在此处理，页面级动作冒泡到 HomePage；
+    // 未绑定或必须透传的组合键（如 Ctrl+Shift+6）照常发送到设备
+    terminal.attachCustomKeyEventHandler((event) => {
+      const shortcut = matchShortcut(event, shortcutBindingsRef.current);
+      if (!shortcut) {
+        return true;
+      }
+      if (event.type === "keydown" && shortcut.scope === "terminal") {
+        event.preventDefault();
+        terminalShortcutHandlerRef.current?.(shortcut.id);
+      }
+      return false;
+    });
 
     terminalRef.current = terminal;
     fitAddonRef.current = fitAddon;
@@ -366,12 +745,18 @@ export function TelnetTerminal({
         if (!attached) {
           throw new Error(`Unable to attach to existing session ${sessionId}`);
         }
+        // 重新挂载时沿用会话当前的编码
+        const described = await window.desktopBridge!.terminal.describe(sessionId).catch(() => null);
+        if (isTerminalEncoding(described?.encoding)) {
+          setEncodingOverride(described.encoding);
+        }
       } else {
         const { id } = await window.desktopBridge!.terminal.createTelnetSession({
           host,
           port,
           label,
           dimensions,
+          encoding: sessionEncodingRef.current,
         });
         resolvedSessionId = id;
       }
@@ -381,7 +766,6 @@ export function TelnetTerminal({
       }
 
       sessionIdRef.current = resolvedSessionId;
-      subscribeSessionStreams(resolvedSessionId, terminal);
 
       const hydrateBuffer = async () => {
         if (hasHydratedBufferRef.current) {
@@ -395,7 +779,7 @@ export function TelnetTerminal({
         try {
           const snapshot = await readBuffer(resolvedSessionId);
           if (snapshot) {
-            terminal.write(snapshot);
+            writeSessionOutput(terminal, snapshot);
             terminal.scrollToBottom();
           }
         } catch (hydrateError) {
@@ -405,21 +789,45 @@ export function TelnetTerminal({
         }
       };
 
-      void hydrateBuffer();
+      // 先回放桥接层保留的历史输出再订阅实时数据，避免重复或乱序
+      await hydrateBuffer();
+      subscribeSessionStreams(resolvedSessionId, terminal);
 
+      // 回放的历史输出没有到达时间，等它们解析完再开始记录
+      const tracker = new LineTimestampTracker(terminal);
+      timestampTrackerRef.current = tracker;
+      timestampOriginRef.current = Date.now();
+      terminal.write("", () => {
+        if (lineTimestampsRef.current.enabled && timestampTrackerRef.current === tracker) {
+          tracker.start();
+        }
+      });
+
+      // 等已收到的输出解析完再读取提示符行，保证读到的是按键之前的屏幕内容
+      const commandCapture = new CommandLineCapture(() => readTerminalCursorLine(terminal));
+      commandCaptureRef.current = commandCapture;
       terminal.onData((data: string) => {
         if (sessionIdRef.current) {
           window.desktopBridge?.terminal.write(sessionIdRef.current, data);
+          inputHandlerRef.current?.(data);
+          recorderRef.current?.input(data);
+          terminal.write("", () => {
+            for (const command of commandCapture.push(data)) {
+              commandHandlerRef.current?.(command);
+            }
+          });
         }
       });
 
       terminal.onResize(({ cols, rows }: { cols: number; rows: number }) => {
+        recorderRef.current?.resize(cols, rows);
         if (sessionIdRef.current) {
           window.desktopBridge?.terminal.resize(sessionIdRef.current, { cols, rows });
         }
       });
 
       onSessionCreated?.(resolvedSessionId);
+      connectedAtRef.current = Date.now();
       setStatus("connected");
       setError(null);
     } catch (connectError) {
@@ -428,7 +836,9 @@ export function TelnetTerminal({
         connectError instanceof Error ? connectError.message : dictionary.status.error
       );
       setStatus("error");
-      await cleanupSession(true);
+      await cleanupSession(mode !== "attach");
+    } finally {
+      isConnectingRef.current = false;
     }
   }, [
     activeTheme,
@@ -444,10 +854,12 @@ export function TelnetTerminal({
     scheduleFit,
     sessionId,
     subscribeSessionStreams,
+    writeSessionOutput,
     resolvedFontFamily,
-    terminalSettings.fontSize,
+    effectiveFontSize,
     terminalSettings.lineHeight,
     terminalSettings.letterSpacing,
+    effectiveScrollback,
   ]);
 
   useEffect(() => {
@@ -456,13 +868,200 @@ export function TelnetTerminal({
     }
   }, [handleConnect, mode, sessionId, status]);
 
+  // 手动重连：保留 xterm 与回滚内容，结束当前会话后立即新建会话；未连接时等同于连接
+  const restartSession = useCallback(async () => {
+    const terminal = terminalRef.current;
+    if (!terminal || !window.desktopBridge?.terminal) {
+      void handleConnect();
+      return;
+    }
+    if (isConnectingRef.current) {
+      return;
+    }
+
+    isConnectingRef.current = true;
+    reconnectGenerationRef.current += 1;
+    if (reconnectTimerRef.current !== null) {
+      window.clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    dataDisposerRef.current?.();
+    exitDisposerRef.current?.();
+    errorDisposerRef.current?.();
+    dataDisposerRef.current = null;
+    exitDisposerRef.current = null;
+    errorDisposerRef.current = null;
+
+    const previousId = sessionIdRef.current;
+    sessionIdRef.current = null;
+    setReconnectProgress(null);
+    setError(null);
+    setStatus("connecting");
+
+    try {
+      if (previousId) {
+        await window.desktopBridge.terminal.dispose(previousId).catch((disposeError) => {
+          console.warn("Failed to dispose previous terminal session", disposeError);
+        });
+      }
+      const { id } = await window.desktopBridge.terminal.createTelnetSession({
+        host,
+        port,
+        label,
+        dimensions: { cols: terminal.cols, rows: terminal.rows },
+        encoding: sessionEncodingRef.current,
+      });
+      if (terminalRef.current !== terminal) {
+        void window.desktopBridge.terminal.dispose(id);
+        return;
+      }
+      sessionIdRef.current = id;
+      connectedAtRef.current = Date.now();
+      subscribeSessionStreams(id, terminal);
+      onSessionCreated?.(id);
+      setStatus("connected");
+    } catch (restartError) {
+      console.error("Failed to restart Telnet session", restartError);
+      setError(restartError instanceof Error ? restartError.message : dictionary.status.error);
+      setStatus("error");
+      void cleanupSession(false);
+    } finally {
+      isConnectingRef.current = false;
+    }
+  }, [cleanupSession, dictionary.status.error, handleConnect, host, label, onSessionCreated, port, subscribeSessionStreams]);
+
+  const handleSendSignal = useCallback((signal: TelnetSignal) => {
+    const id = sessionIdRef.current;
+    if (!id || !window.desktopBridge?.terminal) {
+      return;
+    }
+    window.desktopBridge.terminal.sendSignal(id, signal).catch((signalError) => {
+      console.warn(`Failed to send telnet signal ${signal}`, signalError);
+    });
+    terminalRef.current?.focus();
+  }, []);
+
+  const handleEncodingChange = useCallback(
+    (value: string) => {
+      if (!isTerminalEncoding(value)) {
+        return;
+      }
+      setEncodingOverride(value);
+      const id = sessionIdRef.current;
+      if (!id || !window.desktopBridge?.terminal) {
+        return;
+      }
+      window.desktopBridge.terminal.setEncoding(id, value).catch((encodingError) => {
+        console.warn(`Failed to switch encoding to ${value}`, encodingError);
+        setError(
+          dictionary.encoding.switchFailed.replace(
+            "{reason}",
+            encodingError instanceof Error ? encodingError.message : String(encodingError)
+          )
+        );
+      });
+      terminalRef.current?.focus();
+    },
+    [dictionary.encoding.switchFailed]
+  );
+
+  // Ctrl+^ 与 x 一次写入，只发往本会话（不参与广播）
+  const handleSendCiscoEscape = useCallback(() => {
+    const id = sessionIdRef.current;
+    if (!id) {
+      return;
+    }
+    window.desktopBridge?.terminal.write(id, CISCO_ESCAPE_SEQUENCE);
+    terminalRef.current?.focus();
+  }, []);
+
+  // 补全文本与键入一样写入设备，由设备回显后刷新提示
+  const handleAcceptCompletion = useCallback((suggestion: CompletionSuggestion) => {
+    const id = sessionIdRef.current;
+    if (!id || suggestion.completion === null) {
+      return;
+    }
+    window.desktopBridge?.terminal.write(id, suggestion.completion);
+    inputHandlerRef.current?.(suggestion.completion);
+    recorderRef.current?.input(suggestion.completion);
+    terminalRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    terminalShortcutHandlerRef.current = (id: ShortcutActionId) => {
+      if (id === "openSearch") {
+        setSearchOpen(true);
+      } else if (id === "clearScrollback") {
+        terminalRef.current?.clear();
+      } else if (id === "reconnectSession") {
+        void restartSession();
+      } else if (id === "sendBreak") {
+        handleSendSignal("break");
+      } else if (id === "sendCiscoEscape") {
+        handleSendCiscoEscape();
+      } else if (id === "acceptCompletion") {
+        const suggestion = completionHints?.suggestions.find((candidate) => candidate.completion !== null);
+        if (suggestion) {
+          handleAcceptCompletion(suggestion);
+        }
+      }
+    };
+  }, [completionHints, handleAcceptCompletion, handleSendCiscoEscape, handleSendSignal, restartSession]);
+
   useEffect(() => {
     statusChangeHandlerRef.current = onStatusChange;
   }, [onStatusChange]);
 
   useEffect(() => {
-    statusChangeHandlerRef.current?.({ status, error });
-  }, [status, error]);
+    inputHandlerRef.current = onInput;
+  }, [onInput]);
+
+  useEffect(() => {
+    commandHandlerRef.current = onCommand;
+  }, [onCommand]);
+
+  useEffect(() => {
+    triggerHandlerRef.current = onTrigger;
+  }, [onTrigger]);
+
+  // 菜单出现在点击位置，靠近右/下边缘时向内收，避免被容器裁掉
+  useEffect(() => {
+    linkActivateHandlerRef.current = (target, event) => {
+      const rect = viewportRef.current?.getBoundingClientRect();
+      if (!rect) {
+        return;
+      }
+      setLinkMenu({
+        target,
+        position: {
+          x: Math.max(Math.min(event.clientX - rect.left, rect.width - LINK_MENU_WIDTH_PX), 0),
+          y: Math.max(Math.min(event.clientY - rect.top + 4, rect.height - LINK_MENU_HEIGHT_PX), 0),
+        },
+      });
+    };
+  }, []);
+
+  const handleCloseLinkMenu = useCallback(() => setLinkMenu(null), []);
+
+  useEffect(() => {
+    shortcutBindingsRef.current = shortcutBindings;
+  }, [shortcutBindings]);
+
+  useEffect(() => {
+    transcriptAutoStartRef.current = { enabled: terminalSettings.transcriptAutoStart, start: startTranscript };
+  }, [startTranscript, terminalSettings.transcriptAutoStart]);
+
+  // 仅在连接建立时判断一次，避免手动停止后又被重新开启
+  useEffect(() => {
+    const autoStart = transcriptAutoStartRef.current;
+    if (status === "connected" && autoStart?.enabled && !transcriptRef.current) {
+      void autoStart.start();
+    }
+  }, [status]);
+
+  useEffect(() => {
+    statusChangeHandlerRef.current?.({ status, error, reconnect: reconnectProgress });
+  }, [status, error, reconnectProgress]);
 
   useEffect(() => {
     if (autoConnectSignal === undefined) {
@@ -477,7 +1076,7 @@ export function TelnetTerminal({
       if (status === "connecting") {
         return;
       }
-      if (status === "connected" && mode === "create") {
+      if ((status === "connected" || status === "reconnecting") && mode === "create") {
         await cleanupSession(true);
         setStatus("closed");
       }
@@ -508,11 +1107,12 @@ export function TelnetTerminal({
       return;
     }
     terminalRef.current.options.fontFamily = resolvedFontFamily;
-    terminalRef.current.options.fontSize = terminalSettings.fontSize;
+    terminalRef.current.options.fontSize = effectiveFontSize;
     terminalRef.current.options.lineHeight = terminalSettings.lineHeight;
     terminalRef.current.options.letterSpacing = terminalSettings.letterSpacing;
+    terminalRef.current.options.scrollback = effectiveScrollback;
     scheduleFit();
-  }, [resolvedFontFamily, scheduleFit, terminalSettings.fontFamily, terminalSettings.fontSize, terminalSettings.letterSpacing, terminalSettings.lineHeight]);
+  }, [effectiveFontSize, effectiveScrollback, resolvedFontFamily, scheduleFit, terminalSettings.letterSpacing, terminalSettings.lineHeight]);
 
   useEffect(() => {
     if (isVisible && !previousVisibilityRef.current) {
@@ -558,7 +1158,7 @@ export function TelnetTerminal({
   }, [dictionary.closeButton, dictionary.connectingButton, dictionary.openButton, status]);
 
   const isActionDisabled = useMemo(() => {
-    if (status === "connecting" || isDisposing) {
+    if (status === "connecting" || status === "reconnecting" || isDisposing) {
       return true;
     }
     if (status === "connected") {
@@ -567,6 +1167,256 @@ export function TelnetTerminal({
     return !isDesktopAvailable;
   }, [isDesktopAvailable, isDisposing, status]);
 
+  useEffect(() => {
+    highlighter.setRules(isHighlighting ? compileHighlightRules(highlightRules) : []);
+  }, [highlightRules, highlighter, isHighlighting]);
+
+  useEffect(() => {
+    triggerRulesRef.current = triggerRules;
+    const id = sessionIdRef.current;
+    if (id) {
+      triggerMatcherRef.current?.setTriggers(compileTriggers(triggerRules, id));
+    }
+  }, [triggerRules]);
+
+  // 关闭时间戳即丢弃已记录的时间，重新开启后只对此后的输出计时
+  useEffect(() => {
+    const tracker = timestampTrackerRef.current;
+    if (!tracker) {
+      return;
+    }
+    if (showTimestamps) {
+      tracker.start();
+    } else {
+      tracker.stop();
+    }
+  }, [showTimestamps]);
+
+  // 时间戳画在终端左侧的独立列中，随 xterm 渲染与滚动刷新，终端内容本身不受影响
+  useEffect(() => {
+    const terminal = terminalRef.current;
+    if (!showTimestamps || !terminal || (status !== "connected" && status !== "reconnecting")) {
+      setTimestampGutter(null);
+      return;
+    }
+    let frame: number | null = null;
+    const render = () => {
+      frame = null;
+      const tracker = timestampTrackerRef.current;
+      const screen = terminal.element?.querySelector(".xterm-screen");
+      if (!tracker || !screen || terminal.rows === 0) {
+        return;
+      }
+      const buffer = terminal.buffer.active;
+      const labels = Array.from({ length: terminal.rows }, (_, row) => {
+        const time = buffer.type === "normal" ? tracker.timeAt(buffer.viewportY + row) : undefined;
+        return time !== undefined ? formatLineTimestamp(time, timestampFormat, timestampOriginRef.current) : null;
+      });
+      const rowHeight = screen.getBoundingClientRect().height / terminal.rows;
+      setTimestampGutter((previous) =>
+        previous && previous.rowHeight === rowHeight && previous.labels.join("\n") === labels.join("\n")
+          ? previous
+          : { rowHeight, labels }
+      );
+    };
+    const scheduleRender = () => {
+      if (frame === null) {
+        frame = window.requestAnimationFrame(render);
+      }
+    };
+    scheduleRender();
+    const disposables = [terminal.onRender(scheduleRender), terminal.onScroll(scheduleRender), terminal.onResize(scheduleRender)];
+    return () => {
+      disposables.forEach((disposable) => disposable.dispose());
+      if (frame !== null) {
+        window.cancelAnimationFrame(frame);
+      }
+    };
+  }, [showTimestamps, status, timestampFormat]);
+
+  // 补全提示随设备回显刷新：取光标前的输入去掉提示符后在命令树中匹配，
+  // 只在普通缓冲区且视图停在底部时显示，全屏程序与翻看回滚时隐藏
+  useEffect(() => {
+    const terminal = terminalRef.current;
+    if (!isCompletionEnabled || !completionRoot || !terminal || status !== "connected") {
+      setCompletionHints(null);
+      return;
+    }
+    let frame: number | null = null;
+    const update = () => {
+      frame = null;
+      const capture = commandCaptureRef.current;
+      const screen = terminal.element?.querySelector(".xterm-screen");
+      const viewport = viewportRef.current;
+      const buffer = terminal.buffer.active;
+      const input =
+        capture && buffer.type === "normal" && buffer.viewportY === buffer.baseY
+          ? capture.currentInput(readTerminalLineBeforeCursor(terminal))
+          : null;
+      const suggestions = input ? suggestCompletions(completionRoot, input) : [];
+      if (!screen || !viewport || suggestions.length === 0 || terminal.rows === 0) {
+        setCompletionHints(null);
+        return;
+      }
+      const screenRect = screen.getBoundingClientRect();
+      const viewportRect = viewport.getBoundingClientRect();
+      const cellWidth = screenRect.width / terminal.cols;
+      const rowHeight = screenRect.height / terminal.rows;
+      const x = screenRect.left - viewportRect.left + buffer.cursorX * cellWidth;
+      const y = screenRect.top - viewportRect.top + buffer.cursorY * rowHeight;
+      const above = y > COMPLETION_HINTS_HEIGHT_PX;
+      setCompletionHints({
+        suggestions,
+        position: {
+          x: Math.max(Math.min(x, viewportRect.width - COMPLETION_HINTS_WIDTH_PX), 0),
+          y: above ? y : y + rowHeight,
+          above,
+        },
+      });
+    };
+    const scheduleUpdate = () => {
+      if (frame === null) {
+        frame = window.requestAnimationFrame(update);
+      }
+    };
+    scheduleUpdate();
+    const disposables = [terminal.onWriteParsed(scheduleUpdate), terminal.onScroll(scheduleUpdate), terminal.onResize(scheduleUpdate)];
+    return () => {
+      disposables.forEach((disposable) => disposable.dispose());
+      if (frame !== null) {
+        window.cancelAnimationFrame(frame);
+      }
+    };
+  }, [completionRoot, isCompletionEnabled, status]);
+
+  // 渲染器插件须在终端 open 之后加载；切换设置时卸载旧插件再加载新的
+  useEffect(() => {
+    const terminal = terminalRef.current;
+    const loaded = rendererAddonRef.current;
+    if (!terminal?.element || (loaded?.terminal === terminal && loaded.renderer === terminalSettings.renderer)) {
+      return;
+    }
+    if (loaded?.terminal === terminal) {
+      loaded.addon?.dispose();
+    }
+    const entry = { terminal, renderer: terminalSettings.renderer, addon: null as IDisposable | null };
+    rendererAddonRef.current = entry;
+    void loadTerminalRenderer(terminal, terminalSettings.renderer).then(({ addon }) => {
+      if (rendererAddonRef.current === entry && terminalRef.current === terminal) {
+        entry.addon = addon;
+      } else if (terminalRef.current === terminal) {
+        // 加载期间又切换了渲染器；终端已销毁时插件随之释放，无需再处理
+        addon?.dispose();
+      }
+    });
+  }, [status, terminalSettings.renderer]);
+
+  // 开启时间戳时，复制的选区逐行带上到达时间
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const handleCopy = (event: ClipboardEvent) => {
+      const terminal = terminalRef.current;
+      const tracker = timestampTrackerRef.current;
+      const { enabled, format } = lineTimestampsRef.current;
+      if (!enabled || !terminal || !tracker || !event.clipboardData) {
+        return;
+      }
+      const text = prefixSelectionWithTimestamps(terminal, tracker, (time) =>
+        formatLineTimestamp(time, format, timestampOriginRef.current)
+      );
+      if (text === null) {
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      event.clipboardData.setData("text/plain", text);
+    };
+    container.addEventListener("copy", handleCopy, true);
+    return () => {
+      container.removeEventListener("copy", handleCopy, true);
+    };
+  }, []);
+
+  // 在捕获阶段拦截多行粘贴，阻止 xterm 一次性写入整段内容，改为确认后逐行发送
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const handlePaste = (event: ClipboardEvent) => {
+      const lines = splitPastedLines(event.clipboardData?.getData("text/plain") ?? "");
+      if (lines.length < 2 || !sessionIdRef.current) {
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      if (!pasteAbortRef.current) {
+        setPasteJob({ phase: "confirm", lines });
+      }
+    };
+    container.addEventListener("paste", handlePaste, true);
+    return () => {
+      container.removeEventListener("paste", handlePaste, true);
+    };
+  }, []);
+
+  const handleConfirmPaste = useCallback(
+    async (pacing: PastePacingMode, delayMs: number) => {
+      const lines = pasteJob?.lines;
+      if (!lines || pasteAbortRef.current) {
+        return;
+      }
+      const controller = new AbortController();
+      pasteAbortRef.current = controller;
+      let sent = 0;
+      setPasteJob({ phase: "sending", lines, sent });
+      terminalRef.current?.focus();
+
+      const completed = await sendPacedLines({
+        lines,
+        pacing,
+        delayMs,
+        signal: controller.signal,
+        write: (data) => {
+          const id = sessionIdRef.current;
+          if (id) {
+            window.desktopBridge?.terminal.write(id, data);
+            inputHandlerRef.current?.(data);
+          }
+        },
+        subscribe: (listener) =>
+          window.desktopBridge?.terminal.onData(({ id, data }) => {
+            if (id === sessionIdRef.current) {
+              listener(data);
+            }
+          }) ?? (() => undefined),
+        onProgress: (count) => {
+          sent = count;
+          setPasteJob({ phase: "sending", lines, sent: count });
+        },
+      });
+
+      if (pasteAbortRef.current !== controller) {
+        return;
+      }
+      pasteAbortRef.current = null;
+      setPasteJob(completed ? null : { phase: "cancelled", lines, sent });
+    },
+    [pasteJob]
+  );
+
+  const handleStopPaste = useCallback(() => {
+    pasteAbortRef.current?.abort();
+  }, []);
+
+  const handleDismissPaste = useCallback(() => {
+    setPasteJob(null);
+    terminalRef.current?.focus();
+  }, []);
+
   const handleActionClick = () => {
     if (status === "connected") {
       handleDisconnect();
@@ -589,8 +1439,115 @@ export function TelnetTerminal({
               >
                 {actionButtonLabel}
               </Button>
+              {status === "connected" && (
+                <Button
+                  onClick={() => void (transcriptPath ? stopTranscript() : startTranscript())}
+                  disabled={isTranscriptPending}
+                  variant={transcriptPath ? "secondary" : "outline"}
+                  size="sm"
+                >
+                  {transcriptPath ? dictionary.transcript.stopButton : dictionary.transcript.startButton}
+                </Button>
+              )}
+              {status === "connected" && (
+                <Button
+                  onClick={() => void (recordingPath ? stopRecording() : startRecording())}
+                  disabled={isRecordingPending}
+                  variant={recordingPath ? "secondary" : "outline"}
+                  size="sm"
+                >
+                  {recordingPath && <span className="h-2 w-2 animate-pulse rounded-full bg-destructive" />}
+                  {recordingPath ? dictionary.recording.stopButton : dictionary.recording.startButton}
+                </Button>
+              )}
+              {status === "connected" && (
+                <TerminalSignalMenu
+                  dictionary={dictionary.signals}
+                  onSendSignal={handleSendSignal}
+                  onSendCiscoEscape={handleSendCiscoEscape}
+                />
+              )}
+              {status === "reconnecting" && (
+                <Button onClick={handleCancelReconnect} variant="outline" size="sm">
+                  {dictionary.reconnect.cancelButton}
+                </Button>
+              )}
+              <select
+                aria-label={dictionary.encoding.label}
+                title={dictionary.encoding.label}
+                className="h-8 appearance-none rounded-md border border-border bg-background px-2 text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+                value={sessionEncoding}
+                onChange={(event) => handleEncodingChange(event.target.value)}
+              >
+                {TERMINAL_ENCODINGS.map((encoding) => (
+                  <option key={encoding} value={encoding}>
+                    {TERMINAL_ENCODING_LABELS[encoding]}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={autoReconnect}
+                  onChange={(event) => setAutoReconnectOverride(event.target.checked)}
+                />
+                {dictionary.reconnect.toggleLabel}
+              </label>
+              <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={isHighlighting}
+                  onChange={(event) => setHighlighting(event.target.checked)}
+                />
+                {dictionary.highlight.toggleLabel}
+              </label>
+              <label className="flex items-center gap-1.5 text-xs text-muted-foreground" title={dictionary.timestamps.toggleHint}>
+                <input
+                  type="checkbox"
+                  checked={showTimestamps}
+                  onChange={(event) => setTimestampsOverride(event.target.checked)}
+                />
+                {dictionary.timestamps.toggleLabel}
+              </label>
+              {showTimestamps && (
+                <select
+                  aria-label={dictionary.timestamps.formatLabel}
+                  title={dictionary.timestamps.formatLabel}
+                  className="h-8 appearance-none rounded-md border border-border bg-background px-2 text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+                  value={timestampFormat}
+                  onChange={(event) => {
+                    if (isLineTimestampFormat(event.target.value)) {
+                      setTimestampFormatOverride(event.target.value);
+                    }
+                  }}
+                >
+                  {LINE_TIMESTAMP_FORMATS.map((format) => (
+                    <option key={format} value={format}>
+                      {dictionary.timestamps.formats[format]}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <label className="flex items-center gap-1.5 text-xs text-muted-foreground" title={dictionary.completion.toggleHint}>
+                <input
+                  type="checkbox"
+                  checked={isCompletionEnabled}
+                  onChange={(event) => setCompletionEnabled(event.target.checked)}
+                />
+                {dictionary.completion.toggleLabel}
+              </label>
               <span className="text-xs text-muted-foreground">{statusLabel}</span>
             </div>
+            {transcriptPath && (
+              <p className="truncate text-[11px] text-muted-foreground" title={transcriptPath}>
+                {dictionary.transcript.activeLabel} {transcriptPath}
+              </p>
+            )}
+            {recordingPath && (
+              <p className="truncate text-[11px] text-muted-foreground" title={recordingPath}>
+                {dictionary.recording.activeLabel} {recordingPath}
+              </p>
+            )}
             {!isDesktopAvailable && (
               <p className="rounded-md border border-dashed border-border px-3 py-2 text-xs text-muted-foreground">
                 {dictionary.desktopOnlyHint}
@@ -610,10 +1567,67 @@ export function TelnetTerminal({
           <Separator className="shrink-0 bg-border/60" />
         </>
       )}
-      <div
-        ref={containerRef}
-        className="flex-1 min-h-0 w-full overflow-hidden rounded-lg border border-border bg-card/90 shadow-inner"
-      />
+      <div ref={viewportRef} className="relative flex min-h-0 w-full flex-1 gap-1">
+        {timestampGutter && (
+          <div
+            aria-hidden
+            className="w-[15ch] shrink-0 select-none overflow-hidden rounded-lg border border-border bg-card/60 px-1 font-mono text-[10px] tabular-nums text-muted-foreground"
+          >
+            {timestampGutter.labels.map((label, row) => (
+              <div
+                key={row}
+                className="flex items-center"
+                style={{ height: timestampGutter.rowHeight }}
+              >
+                {label ?? ""}
+              </div>
+            ))}
+          </div>
+        )}
+        <div
+          ref={containerRef}
+          className="flex-1 min-h-0 w-full overflow-hidden rounded-lg border border-border bg-card/90 shadow-inner"
+        />
+        {completionHints && (
+          <TerminalCompletionHints
+            dictionary={dictionary.completion}
+            suggestions={completionHints.suggestions}
+            position={completionHints.position}
+            acceptChord={shortcutBindings.acceptCompletion}
+            onAccept={handleAcceptCompletion}
+          />
+        )}
+        {linkMenu && (
+          <TerminalLinkMenu
+            dictionary={dictionary.links}
+            target={linkMenu.target}
+            position={linkMenu.position}
+            onOpenSession={onOpenLink}
+            onClose={handleCloseLinkMenu}
+          />
+        )}
+        {pasteJob && (
+          <TerminalPasteDialog
+            dictionary={dictionary.paste}
+            job={pasteJob}
+            defaultPacing={terminalSettings.pastePacing}
+            defaultDelayMs={terminalSettings.pasteLineDelayMs}
+            onConfirm={(pacing, delayMs) => void handleConfirmPaste(pacing, delayMs)}
+            onStop={handleStopPaste}
+            onDismiss={handleDismissPaste}
+          />
+        )}
+        {isSearchOpen && searchAddon && (
+          <TerminalSearchBar
+            searchAddon={searchAddon}
+            dictionary={dictionary.search}
+            onClose={() => {
+              setSearchOpen(false);
+              terminalRef.current?.focus();
+            }}
+          />
+        )}
+      </div>
     </div>
   );
 }
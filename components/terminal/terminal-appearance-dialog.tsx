@@ -0,0 +1,231 @@
+"use client";
+
+import { useState, type KeyboardEvent } from "react";
+import { X } from "lucide-react";
+
+import { useColorSchemes } from "@/components/color-schemes/color-scheme-provider";
+import { useLocaleDictionary } from "@/components/locale/locale-provider";
+import {
+  MAX_SCROLLBACK_LINES,
+  MAX_TERMINAL_FONT_SIZE,
+  MIN_SCROLLBACK_LINES,
+  MIN_TERMINAL_FONT_SIZE,
+  TERMINAL_FONT_FAMILY_OPTIONS,
+  sanitizeAppearanceOverrides,
+  useTerminalSettings,
+} from "@/components/terminal/terminal-settings-provider";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import type { TerminalAppearanceOverrides } from "@/lib/terminal/appearance";
+
+export type AppearanceScope = "session" | "device";
+
+type TerminalAppearanceDialogProps = {
+  dictionary: HomeDictionary["terminal"]["appearance"];
+  /** 对话框标题中显示的会话名称 */
+  targetLabel: string;
+  sessionOverrides?: TerminalAppearanceOverrides;
+  deviceOverrides?: TerminalAppearanceOverrides;
+  onSave: (scope: AppearanceScope, overrides: TerminalAppearanceOverrides | null) => void;
+  onClose: () => void;
+};
+
+/** 表单中空字符串表示“沿用上一层” */
+type AppearanceDraft = {
+  fontFamily: string;
+  fontSize: string;
+  colorSchemeId: string;
+  scrollback: string;
+};
+
+const SELECT_CLASS =
+  "h-9 w-full appearance-none rounded-md border border-border bg-background px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary";
+
+function toDraft(overrides: TerminalAppearanceOverrides | undefined): AppearanceDraft {
+  return {
+    fontFamily: overrides?.fontFamily ?? "",
+    fontSize: overrides?.fontSize !== undefined ? String(overrides.fontSize) : "",
+    colorSchemeId: overrides?.colorSchemeId ?? "",
+    scrollback: overrides?.scrollback !== undefined ? String(overrides.scrollback) : "",
+  };
+}
+
+function fromDraft(draft: AppearanceDraft) {
+  return sanitizeAppearanceOverrides({
+    fontFamily: draft.fontFamily || undefined,
+    fontSize: draft.fontSize.trim() ? Number(draft.fontSize) : undefined,
+    colorSchemeId: draft.colorSchemeId || undefined,
+    scrollback: draft.scrollback.trim() ? Number(draft.scrollback) : undefined,
+  });
+}
+
+export function TerminalAppearanceDialog({
+  dictionary,
+  targetLabel,
+  sessionOverrides,
+  deviceOverrides,
+  onSave,
+  onClose,
+}: TerminalAppearanceDialogProps) {
+  const [scope, setScope] = useState<AppearanceScope>("session");
+  const [draft, setDraft] = useState<AppearanceDraft>(() => toDraft(sessionOverrides));
+  const { settings } = useTerminalSettings();
+  const { schemes } = useColorSchemes();
+  const { dictionary: settingsDictionary } = useLocaleDictionary("settings");
+  const fontFamilyOptions = settingsDictionary.terminalSection.fontFamilyOptions;
+
+  const title = dictionary.title.replace("{name}", targetLabel);
+  // 会话层未设置的字段先沿用设备层，再沿用全局设置
+  const inherited = scope === "session" ? deviceOverrides : undefined;
+  const inheritedFontFamily = inherited?.fontFamily ?? settings.fontFamily;
+  const inheritedFontSize = inherited?.fontSize ?? settings.fontSize;
+  const inheritedScrollback = inherited?.scrollback ?? settings.scrollback;
+  const inheritedScheme = inherited?.colorSchemeId ? schemes.find((scheme) => scheme.id === inherited.colorSchemeId) : undefined;
+
+  const fontLabel = (value: string) => fontFamilyOptions.find((option) => option.value === value)?.label ?? value;
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  // 切换作用域时载入该层已保存的覆盖
+  const handleScopeChange = (next: AppearanceScope) => {
+    setScope(next);
+    setDraft(toDraft(next === "session" ? sessionOverrides : deviceOverrides));
+  };
+
+  const update = (partial: Partial<AppearanceDraft>) => setDraft((previous) => ({ ...previous, ...partial }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        className="w-[420px] max-w-[calc(100%-2rem)] space-y-4 rounded-lg border border-border bg-card p-5 shadow-xl"
+        onClick={(event) => event.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1">
+            <p className="text-sm font-semibold">{title}</p>
+            <p className="text-xs text-muted-foreground">{dictionary.description}</p>
+          </div>
+          <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={onClose} title={dictionary.cancelButton}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="appearance-scope" className="text-xs">
+            {dictionary.scopeLabel}
+          </Label>
+          <select
+            id="appearance-scope"
+            className={SELECT_CLASS}
+            value={scope}
+            onChange={(event) => handleScopeChange(event.target.value === "device" ? "device" : "session")}
+          >
+            <option value="session">{dictionary.scopes.session}</option>
+            <option value="device">{dictionary.scopes.device}</option>
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="appearance-font-family" className="text-xs">
+              {dictionary.fontFamilyLabel}
+            </Label>
+            <select
+              id="appearance-font-family"
+              className={SELECT_CLASS}
+              value={draft.fontFamily}
+              onChange={(event) => update({ fontFamily: event.target.value })}
+            >
+              <option value="">{dictionary.inheritOption.replace("{value}", fontLabel(inheritedFontFamily))}</option>
+              {TERMINAL_FONT_FAMILY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {fontLabel(option.value)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="appearance-font-size" className="text-xs">
+              {dictionary.fontSizeLabel}
+            </Label>
+            <Input
+              id="appearance-font-size"
+              type="number"
+              min={MIN_TERMINAL_FONT_SIZE}
+              max={MAX_TERMINAL_FONT_SIZE}
+              placeholder={dictionary.inheritOption.replace("{value}", String(inheritedFontSize))}
+              value={draft.fontSize}
+              onChange={(event) => update({ fontSize: event.target.value })}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="appearance-color-scheme" className="text-xs">
+              {dictionary.colorSchemeLabel}
+            </Label>
+            <select
+              id="appearance-color-scheme"
+              className={SELECT_CLASS}
+              value={draft.colorSchemeId}
+              onChange={(event) => update({ colorSchemeId: event.target.value })}
+            >
+              <option value="">
+                {inheritedScheme ? dictionary.inheritOption.replace("{value}", inheritedScheme.name) : dictionary.followThemeOption}
+              </option>
+              {schemes.map((scheme) => (
+                <option key={scheme.id} value={scheme.id}>
+                  {scheme.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="appearance-scrollback" className="text-xs">
+              {dictionary.scrollbackLabel}
+            </Label>
+            <Input
+              id="appearance-scrollback"
+              type="number"
+              min={MIN_SCROLLBACK_LINES}
+              max={MAX_SCROLLBACK_LINES}
+              step={500}
+              placeholder={dictionary.inheritOption.replace("{value}", String(inheritedScrollback))}
+              value={draft.scrollback}
+              onChange={(event) => update({ scrollback: event.target.value })}
+              className="h-9"
+            />
+          </div>
+        </div>
+
+        <p className="text-[11px] text-muted-foreground">
+          {scope === "session" ? dictionary.sessionHint : dictionary.deviceHint}
+        </p>
+
+        <div className="flex items-center justify-between gap-2">
+          <Button type="button" size="sm" variant="ghost" onClick={() => onSave(scope, null)}>
+            {dictionary.resetButton}
+          </Button>
+          <div className="flex gap-2">
+            <Button type="button" size="sm" variant="outline" onClick={onClose}>
+              {dictionary.cancelButton}
+            </Button>
+            <Button type="button" size="sm" onClick={() => onSave(scope, fromDraft(draft))}>
+              {dictionary.saveButton}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
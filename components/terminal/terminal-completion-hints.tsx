@@ -0,0 +1,60 @@
+"use client";
+
+import type { CompletionSuggestion } from "@/lib/cli-completion";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import { cn } from "@/lib/utils";
+
+type TerminalCompletionHintsProps = {
+  dictionary: HomeDictionary["terminal"]["completion"];
+  suggestions: CompletionSuggestion[];
+  /** 光标所在单元格相对终端容器的位置；above 为 false 时贴在光标行下方 */
+  position: { x: number; y: number; above: boolean };
+  /** 接受第一条提示的组合键，未绑定时为 null */
+  acceptChord: string | null;
+  onAccept: (suggestion: CompletionSuggestion) => void;
+};
+
+export function TerminalCompletionHints({ dictionary, suggestions, position, acceptChord, onAccept }: TerminalCompletionHintsProps) {
+  return (
+    <div
+      role="listbox"
+      aria-label={dictionary.listLabel}
+      className={cn(
+        "pointer-events-auto absolute z-20 w-72 overflow-hidden rounded-md border border-border bg-popover/95 text-xs shadow-lg backdrop-blur",
+        position.above && "-translate-y-full"
+      )}
+      style={{ left: position.x, top: position.y }}
+      // 保持终端焦点，点击后仍可继续键入
+      onMouseDown={(event) => event.preventDefault()}
+    >
+      {suggestions.map((suggestion, index) => {
+        const isParameter = suggestion.completion === null;
+        return (
+          <button
+            key={suggestion.keyword}
+            type="button"
+            role="option"
+            aria-selected={index === 0}
+            disabled={isParameter}
+            className={cn(
+              "flex w-full items-baseline gap-2 px-2 py-1 text-left",
+              isParameter ? "cursor-default" : "hover:bg-muted",
+              index === 0 && !isParameter && "bg-primary/10"
+            )}
+            onClick={() => onAccept(suggestion)}
+          >
+            <span className={cn("shrink-0 font-mono", isParameter ? "italic text-muted-foreground" : "text-foreground")}>
+              {suggestion.keyword}
+            </span>
+            <span className="truncate text-[11px] text-muted-foreground" title={suggestion.description}>
+              {isParameter ? `${dictionary.parameterHint} · ${suggestion.description ?? ""}` : suggestion.description}
+            </span>
+          </button>
+        );
+      })}
+      <p className="border-t px-2 py-1 text-[10px] text-muted-foreground">
+        {acceptChord ? dictionary.acceptHint.replace("{shortcut}", acceptChord) : dictionary.clickHint}
+      </p>
+    </div>
+  );
+}
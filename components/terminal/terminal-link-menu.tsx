@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ClipboardCopy, HeartPulse, TerminalSquare } from "lucide-react";
+
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import { requestPnetlabHealth } from "@/lib/pnetlab/health";
+import type { TerminalLinkTarget } from "@/lib/terminal/links";
+
+type TerminalLinkMenuProps = {
+  dictionary: HomeDictionary["terminal"]["links"];
+  target: TerminalLinkTarget;
+  /** 相对终端容器的点击位置 */
+  position: { x: number; y: number };
+  onOpenSession?: (target: TerminalLinkTarget) => void;
+  onClose: () => void;
+};
+
+type HealthState = { phase: "checking" } | { phase: "done"; ok: boolean; message: string };
+
+const ITEM_CLASS =
+  "flex w-full items-center gap-2 px-3 py-1.5 text-left hover:bg-muted focus:bg-muted focus:outline-none";
+
+export function TerminalLinkMenu({ dictionary, target, position, onOpenSession, onClose }: TerminalLinkMenuProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [isCopied, setCopied] = useState(false);
+  const [health, setHealth] = useState<HealthState | null>(null);
+
+  // 点击菜单外部或按 Esc 时关闭
+  useEffect(() => {
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      }
+    };
+    window.addEventListener("pointerdown", handlePointerDown);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("pointerdown", handlePointerDown);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [onClose]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(target.text);
+      setCopied(true);
+    } catch (error) {
+      console.warn("Failed to copy terminal link", error);
+    }
+  };
+
+  // 探测的是该主机的 PNETLab Web 端口，而不是文本中的 Telnet 端口
+  const handleHealthCheck = async () => {
+    setHealth({ phase: "checking" });
+    const result = await requestPnetlabHealth(target.kind === "ipv6" ? `[${target.host}]` : target.host);
+    setHealth(
+      result.ok
+        ? {
+            phase: "done",
+            ok: true,
+            message: dictionary.healthOk
+              .replace("{status}", String(result.status ?? "-"))
+              .replace("{latency}", result.latencyMs !== undefined ? String(result.latencyMs) : "-"),
+          }
+        : { phase: "done", ok: false, message: dictionary.healthFailed.replace("{reason}", result.message ?? String(result.status ?? "")) }
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      role="menu"
+      className="absolute z-30 w-60 overflow-hidden rounded-md border border-border bg-background/95 py-1 text-xs shadow-lg backdrop-blur"
+      style={{ left: position.x, top: position.y }}
+    >
+      <p className="truncate px-3 py-1 font-mono text-[11px] text-muted-foreground" title={target.text}>
+        {target.text}
+      </p>
+      <div className="my-1 h-px bg-border" />
+      {onOpenSession && (
+        <button
+          type="button"
+          role="menuitem"
+          className={ITEM_CLASS}
+          onClick={() => {
+            onOpenSession(target);
+            onClose();
+          }}
+        >
+          <TerminalSquare className="h-3.5 w-3.5" />
+          {dictionary.openSession}
+        </button>
+      )}
+      <button type="button" role="menuitem" className={ITEM_CLASS} onClick={() => void handleCopy()}>
+        <ClipboardCopy className="h-3.5 w-3.5" />
+        {isCopied ? dictionary.copied : dictionary.copy}
+      </button>
+      <button
+        type="button"
+        role="menuitem"
+        className={ITEM_CLASS}
+        disabled={health?.phase === "checking"}
+        onClick={() => void handleHealthCheck()}
+      >
+        <HeartPulse className="h-3.5 w-3.5" />
+        {health?.phase === "checking" ? dictionary.healthChecking : dictionary.healthCheck}
+      </button>
+      {health?.phase === "done" && (
+        <p className={health.ok ? "px-3 py-1 text-emerald-600 dark:text-emerald-400" : "px-3 py-1 text-destructive"}>
+          {health.message}
+        </p>
+      )}
+    </div>
+  );
+}
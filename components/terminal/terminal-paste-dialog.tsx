@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useRef, useState, type KeyboardEvent } from "react";
+import { X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import {
+  MAX_PASTE_LINE_DELAY_MS,
+  MIN_PASTE_LINE_DELAY_MS,
+  PASTE_PACING_MODES,
+  isPastePacingMode,
+  type PastePacingMode,
+} from "@/lib/terminal/paste";
+
+const PREVIEW_LINES = 6;
+
+export type PasteJobState =
+  | { phase: "confirm"; lines: string[] }
+  | { phase: "sending"; lines: string[]; sent: number }
+  | { phase: "cancelled"; lines: string[]; sent: number };
+
+type TerminalPasteDialogProps = {
+  dictionary: HomeDictionary["terminal"]["paste"];
+  job: PasteJobState;
+  defaultPacing: PastePacingMode;
+  defaultDelayMs: number;
+  onConfirm: (pacing: PastePacingMode, delayMs: number) => void;
+  onStop: () => void;
+  onDismiss: () => void;
+};
+
+export function TerminalPasteDialog({
+  dictionary,
+  job,
+  defaultPacing,
+  defaultDelayMs,
+  onConfirm,
+  onStop,
+  onDismiss,
+}: TerminalPasteDialogProps) {
+  const confirmRef = useRef<HTMLButtonElement | null>(null);
+  const [pacing, setPacing] = useState<PastePacingMode>(defaultPacing);
+  const [delayMs, setDelayMs] = useState(defaultDelayMs);
+  const total = job.lines.length;
+
+  useEffect(() => {
+    if (job.phase === "confirm") {
+      confirmRef.current?.focus();
+    }
+  }, [job.phase]);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== "Escape") {
+      return;
+    }
+    event.preventDefault();
+    if (job.phase === "sending") {
+      onStop();
+    } else {
+      onDismiss();
+    }
+  };
+
+  const confirm = () => {
+    const clamped = Math.min(Math.max(Number.isFinite(delayMs) ? delayMs : defaultDelayMs, MIN_PASTE_LINE_DELAY_MS), MAX_PASTE_LINE_DELAY_MS);
+    onConfirm(pacing, Math.round(clamped));
+  };
+
+  return (
+    <div
+      className="absolute right-3 top-3 z-20 w-80 space-y-2 rounded-md border border-border bg-background/95 p-3 text-xs shadow-lg backdrop-blur"
+      onKeyDown={handleKeyDown}
+    >
+      {job.phase === "confirm" ? (
+        <>
+          <div className="space-y-1">
+            <p className="text-sm font-semibold">{dictionary.confirmTitle.replace("{count}", String(total))}</p>
+            <p className="text-muted-foreground">{dictionary.confirmDescription}</p>
+          </div>
+          <pre className="max-h-28 overflow-hidden whitespace-pre-wrap break-all rounded border border-border/60 bg-muted/40 px-2 py-1 font-mono text-[11px] text-muted-foreground">
+            {job.lines.slice(0, PREVIEW_LINES).join("\n")}
+            {total > PREVIEW_LINES ? "\n…" : ""}
+          </pre>
+          <div className="flex items-center gap-2">
+            <select
+              aria-label={dictionary.pacingLabel}
+              className="h-8 flex-1 appearance-none rounded-md border border-border bg-background px-2 text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+              value={pacing}
+              onChange={(event) => {
+                if (isPastePacingMode(event.target.value)) {
+                  setPacing(event.target.value);
+                }
+              }}
+            >
+              {PASTE_PACING_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {dictionary.pacingOptions[mode]}
+                </option>
+              ))}
+            </select>
+            {pacing === "delay" && (
+              <Input
+                type="number"
+                aria-label={dictionary.delayLabel}
+                title={dictionary.delayLabel}
+                min={MIN_PASTE_LINE_DELAY_MS}
+                max={MAX_PASTE_LINE_DELAY_MS}
+                step={10}
+                value={delayMs}
+                onChange={(event) => setDelayMs(Number(event.target.value))}
+                className="h-8 w-20 text-xs"
+              />
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" size="sm" variant="ghost" className="h-8" onClick={onDismiss}>
+              {dictionary.cancelButton}
+            </Button>
+            <Button ref={confirmRef} type="button" size="sm" className="h-8" onClick={confirm}>
+              {dictionary.sendButton}
+            </Button>
+          </div>
+        </>
+      ) : job.phase === "sending" ? (
+        <>
+          <div className="flex items-center justify-between gap-2">
+            <p className="font-medium">
+              {dictionary.progress.replace("{sent}", String(job.sent)).replace("{total}", String(total))}
+            </p>
+            <Button type="button" size="sm" variant="outline" className="h-7" onClick={onStop}>
+              {dictionary.stopButton}
+            </Button>
+          </div>
+          <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+            <div
+              className="h-full rounded-full bg-primary transition-[width]"
+              style={{ width: `${total > 0 ? (job.sent / total) * 100 : 0}%` }}
+            />
+          </div>
+        </>
+      ) : (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-muted-foreground">
+            {dictionary.cancelled.replace("{sent}", String(job.sent)).replace("{total}", String(total))}
+          </p>
+          <Button type="button" size="icon" variant="ghost" className="h-7 w-7" onClick={onDismiss} title={dictionary.cancelButton}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
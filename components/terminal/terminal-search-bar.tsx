@@ -0,0 +1,168 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react";
+import type { ISearchOptions, SearchAddon } from "@xterm/addon-search";
+import { ChevronDown, ChevronUp, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import { cn } from "@/lib/utils";
+
+type TerminalSearchBarProps = {
+  searchAddon: SearchAddon | null;
+  dictionary: HomeDictionary["terminal"]["search"];
+  onClose: () => void;
+};
+
+const MATCH_DECORATIONS: NonNullable<ISearchOptions["decorations"]> = {
+  matchBackground: "#facc1566",
+  matchBorder: "#eab308",
+  matchOverviewRuler: "#eab308",
+  activeMatchBackground: "#f97316",
+  activeMatchBorder: "#ea580c",
+  activeMatchColorOverviewRuler: "#ea580c",
+};
+
+function isValidPattern(query: string) {
+  try {
+    new RegExp(query);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function TerminalSearchBar({ searchAddon, dictionary, onClose }: TerminalSearchBarProps) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [query, setQuery] = useState("");
+  const [useRegex, setUseRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [results, setResults] = useState<{ index: number; count: number } | null>(null);
+
+  const isInvalid = useRegex && query.length > 0 && !isValidPattern(query);
+
+  const options = useMemo<ISearchOptions>(
+    () => ({ regex: useRegex, caseSensitive, decorations: MATCH_DECORATIONS }),
+    [caseSensitive, useRegex]
+  );
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  useEffect(() => {
+    if (!searchAddon) {
+      return;
+    }
+    const subscription = searchAddon.onDidChangeResults(({ resultIndex, resultCount }) => {
+      setResults({ index: resultIndex, count: resultCount });
+    });
+    return () => {
+      subscription.dispose();
+      searchAddon.clearDecorations();
+    };
+  }, [searchAddon]);
+
+  // 查询或选项变化时增量查找，保持所有匹配高亮
+  useEffect(() => {
+    if (!searchAddon) {
+      return;
+    }
+    if (!query || isInvalid) {
+      searchAddon.clearDecorations();
+      setResults(null);
+      return;
+    }
+    searchAddon.findNext(query, { ...options, incremental: true });
+  }, [isInvalid, options, query, searchAddon]);
+
+  const findNext = useCallback(() => {
+    if (searchAddon && query && !isInvalid) {
+      searchAddon.findNext(query, options);
+    }
+  }, [isInvalid, options, query, searchAddon]);
+
+  const findPrevious = useCallback(() => {
+    if (searchAddon && query && !isInvalid) {
+      searchAddon.findPrevious(query, options);
+    }
+  }, [isInvalid, options, query, searchAddon]);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      if (event.shiftKey) {
+        findPrevious();
+      } else {
+        findNext();
+      }
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  const resultLabel = useMemo(() => {
+    if (isInvalid) {
+      return dictionary.invalidPattern;
+    }
+    if (!query || !results) {
+      return "";
+    }
+    if (results.count === 0) {
+      return dictionary.noResults;
+    }
+    const current = results.index >= 0 ? results.index + 1 : "?";
+    return `${current}/${results.count}`;
+  }, [dictionary.invalidPattern, dictionary.noResults, isInvalid, query, results]);
+
+  return (
+    <div className="absolute right-3 top-3 z-20 flex items-center gap-1 rounded-md border border-border bg-background/95 p-1.5 shadow-lg backdrop-blur">
+      <Input
+        ref={inputRef}
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={dictionary.placeholder}
+        aria-invalid={isInvalid}
+        className="h-8 w-52 text-xs"
+      />
+      <Button
+        type="button"
+        size="sm"
+        variant={caseSensitive ? "secondary" : "ghost"}
+        className="h-8 px-2 font-mono text-xs"
+        onClick={() => setCaseSensitive((value) => !value)}
+        title={dictionary.caseSensitive}
+        aria-pressed={caseSensitive}
+      >
+        Aa
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant={useRegex ? "secondary" : "ghost"}
+        className="h-8 px-2 font-mono text-xs"
+        onClick={() => setUseRegex((value) => !value)}
+        title={dictionary.regex}
+        aria-pressed={useRegex}
+      >
+        .*
+      </Button>
+      <span className={cn("min-w-[3.5rem] text-center text-[11px] text-muted-foreground", isInvalid && "text-destructive")}>
+        {resultLabel}
+      </span>
+      <Button type="button" size="icon" variant="ghost" className="h-8 w-8" onClick={findPrevious} title={dictionary.previous}>
+        <ChevronUp className="h-4 w-4" />
+      </Button>
+      <Button type="button" size="icon" variant="ghost" className="h-8 w-8" onClick={findNext} title={dictionary.next}>
+        <ChevronDown className="h-4 w-4" />
+      </Button>
+      <Button type="button" size="icon" variant="ghost" className="h-8 w-8" onClick={onClose} title={dictionary.close}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
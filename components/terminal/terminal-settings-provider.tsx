@@ -3,7 +3,40 @@
 import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
 import type { ReactNode } from "react";
 
+import { hasAppearanceOverrides, type TerminalAppearanceOverrides } from "@/lib/terminal/appearance";
+import {
+  DEFAULT_TERMINAL_ENCODING,
+  isTerminalEncoding,
+  type TerminalEncoding,
+} from "@/lib/terminal/encoding";
+import {
+  DEFAULT_LINE_TIMESTAMP_FORMAT,
+  isLineTimestampFormat,
+  type LineTimestampFormat,
+} from "@/lib/terminal/line-timestamps";
+import {
+  DEFAULT_PASTE_LINE_DELAY_MS,
+  DEFAULT_PASTE_PACING,
+  MAX_PASTE_LINE_DELAY_MS,
+  MIN_PASTE_LINE_DELAY_MS,
+  isPastePacingMode,
+  type PastePacingMode,
+} from "@/lib/terminal/paste";
+import { DEFAULT_TERMINAL_RENDERER, isTerminalRenderer, type TerminalRenderer } from "@/lib/terminal/renderer";
+import {
+  DEFAULT_RECONNECT_MAX_ATTEMPTS,
+  MAX_RECONNECT_ATTEMPTS,
+  MIN_RECONNECT_ATTEMPTS,
+} from "@/lib/terminal/reconnect";
+import {
+  DEFAULT_SCROLLBACK_BUFFER_KB,
+  MAX_SCROLLBACK_BUFFER_KB,
+  MIN_SCROLLBACK_BUFFER_KB,
+} from "@/lib/terminal/scrollback-buffer";
+import { isTranscriptFormat, type TranscriptFormat } from "@/lib/transcript";
+
 const LOCAL_STORAGE_KEY = "pnet-tool.terminal-settings";
+const PROFILES_STORAGE_KEY = "pnet-tool.terminal-profiles";
 
 const FONT_FAMILY_MAP: Record<string, string> = {
   "geist-mono": 'var(--font-geist-mono, "JetBrains Mono", "Fira Code", "Menlo", monospace)',
@@ -14,11 +47,28 @@ const FONT_FAMILY_MAP: Record<string, string> = {
   consolas: 'Consolas, "Courier New", monospace',
 };
 
+export const MIN_TERMINAL_FONT_SIZE = 10;
+export const MAX_TERMINAL_FONT_SIZE = 26;
+export const MIN_SCROLLBACK_LINES = 500;
+export const MAX_SCROLLBACK_LINES = 100000;
+
 const DEFAULT_TERMINAL_SETTINGS: TerminalSettingsState = {
   fontFamily: "geist-mono",
   fontSize: 13,
   lineHeight: 1.2,
   letterSpacing: 0,
+  scrollback: 5000,
+  bufferSizeKb: DEFAULT_SCROLLBACK_BUFFER_KB,
+  transcriptFormat: "plain",
+  transcriptAutoStart: false,
+  autoReconnect: false,
+  reconnectMaxAttempts: DEFAULT_RECONNECT_MAX_ATTEMPTS,
+  pastePacing: DEFAULT_PASTE_PACING,
+  pasteLineDelayMs: DEFAULT_PASTE_LINE_DELAY_MS,
+  defaultEncoding: DEFAULT_TERMINAL_ENCODING,
+  lineTimestamps: false,
+  lineTimestampFormat: DEFAULT_LINE_TIMESTAMP_FORMAT,
+  renderer: DEFAULT_TERMINAL_RENDERER,
 };
 
 export type TerminalSettingsState = {
@@ -26,6 +76,25 @@ export type TerminalSettingsState = {
   fontSize: number;
   lineHeight: number;
   letterSpacing: number;
+  /** xterm 保留的回滚行数 */
+  scrollback: number;
+  /** 桥接层为每个会话保留的历史输出上限（KB），用于重新挂载后回放 */
+  bufferSizeKb: number;
+  /** 会话日志的默认格式与是否在连接后自动开始记录 */
+  transcriptFormat: TranscriptFormat;
+  transcriptAutoStart: boolean;
+  /** 新会话是否默认开启断线自动重连，以及最多重试次数 */
+  autoReconnect: boolean;
+  reconnectMaxAttempts: number;
+  /** 多行粘贴的默认节奏：固定行间延迟，或等待提示符返回后再发下一行 */
+  pastePacing: PastePacingMode;
+  pasteLineDelayMs: number;
+  /** 新会话的字符编码，可在终端工具栏中按会话切换 */
+  defaultEncoding: TerminalEncoding;
+  /** 新会话是否默认显示行到达时间，及其格式（本地时间或相对连接时刻） */
+  lineTimestamps: boolean;
+  lineTimestampFormat: LineTimestampFormat;
+  renderer: TerminalRenderer;
 };
 
 export type TerminalSettingsContextValue = {
@@ -35,6 +104,9 @@ export type TerminalSettingsContextValue = {
   isUpdating: boolean;
   updateSettings: (partial: Partial<TerminalSettingsState>) => Promise<void>;
   resetSettings: () => Promise<void>;
+  /** 按设备（host:port）保存的外观覆盖，新开到该设备的会话自动套用 */
+  profileOverrides: Record<string, TerminalAppearanceOverrides>;
+  setProfileOverrides: (profileKey: string, overrides: TerminalAppearanceOverrides | null) => void;
 };
 
 const TerminalSettingsContext = createContext<TerminalSettingsContextValue | null>(null);
@@ -46,17 +118,100 @@ function clamp(value: number, minimum: number, maximum: number) {
 function sanitizeSettings(input: Partial<TerminalSettingsState> | null | undefined): TerminalSettingsState {
   const fallback = DEFAULT_TERMINAL_SETTINGS;
   const fontFamily = typeof input?.fontFamily === "string" && input.fontFamily in FONT_FAMILY_MAP ? input.fontFamily : fallback.fontFamily;
-  const fontSize = clamp(Number.isFinite(input?.fontSize) ? Number(input?.fontSize) : fallback.fontSize, 10, 26);
+  const fontSize = clamp(Number.isFinite(input?.fontSize) ? Number(input?.fontSize) : fallback.fontSize, MIN_TERMINAL_FONT_SIZE, MAX_TERMINAL_FONT_SIZE);
   const lineHeight = clamp(Number.isFinite(input?.lineHeight) ? Number(input?.lineHeight) : fallback.lineHeight, 1, 2);
   const letterSpacing = clamp(Number.isFinite(input?.letterSpacing) ? Number(input?.letterSpacing) : fallback.letterSpacing, -1, 2);
+  const scrollback = Math.round(
+    clamp(Number.isFinite(input?.scrollback) ? Number(input?.scrollback) : fallback.scrollback, MIN_SCROLLBACK_LINES, MAX_SCROLLBACK_LINES)
+  );
+  const bufferSizeKb = Math.round(
+    clamp(
+      Number.isFinite(input?.bufferSizeKb) ? Number(input?.bufferSizeKb) : fallback.bufferSizeKb,
+      MIN_SCROLLBACK_BUFFER_KB,
+      MAX_SCROLLBACK_BUFFER_KB
+    )
+  );
+  const transcriptFormat = isTranscriptFormat(input?.transcriptFormat) ? input.transcriptFormat : fallback.transcriptFormat;
+  const transcriptAutoStart =
+    typeof input?.transcriptAutoStart === "boolean" ? input.transcriptAutoStart : fallback.transcriptAutoStart;
+  const autoReconnect = typeof input?.autoReconnect === "boolean" ? input.autoReconnect : fallback.autoReconnect;
+  const reconnectMaxAttempts = Math.round(
+    clamp(
+      Number.isFinite(input?.reconnectMaxAttempts) ? Number(input?.reconnectMaxAttempts) : fallback.reconnectMaxAttempts,
+      MIN_RECONNECT_ATTEMPTS,
+      MAX_RECONNECT_ATTEMPTS
+    )
+  );
+  const pastePacing = isPastePacingMode(input?.pastePacing) ? input.pastePacing : fallback.pastePacing;
+  const pasteLineDelayMs = Math.round(
+    clamp(
+      Number.isFinite(input?.pasteLineDelayMs) ? Number(input?.pasteLineDelayMs) : fallback.pasteLineDelayMs,
+      MIN_PASTE_LINE_DELAY_MS,
+      MAX_PASTE_LINE_DELAY_MS
+    )
+  );
+  const defaultEncoding = isTerminalEncoding(input?.defaultEncoding) ? input.defaultEncoding : fallback.defaultEncoding;
+  const lineTimestamps = typeof input?.lineTimestamps === "boolean" ? input.lineTimestamps : fallback.lineTimestamps;
+  const lineTimestampFormat = isLineTimestampFormat(input?.lineTimestampFormat)
+    ? input.lineTimestampFormat
+    : fallback.lineTimestampFormat;
+  const renderer = isTerminalRenderer(input?.renderer) ? input.renderer : fallback.renderer;
   return {
     fontFamily,
     fontSize,
     lineHeight,
     letterSpacing,
+    scrollback,
+    bufferSizeKb,
+    transcriptFormat,
+    transcriptAutoStart,
+    autoReconnect,
+    reconnectMaxAttempts,
+    pastePacing,
+    pasteLineDelayMs,
+    defaultEncoding,
+    lineTimestamps,
+    lineTimestampFormat,
+    renderer,
   } satisfies TerminalSettingsState;
 }
 
+/** 丢弃无效字段；返回 null 表示没有任何有效覆盖 */
+export function sanitizeAppearanceOverrides(input: unknown): TerminalAppearanceOverrides | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+  const raw = input as Partial<Record<keyof TerminalAppearanceOverrides, unknown>>;
+  const overrides: TerminalAppearanceOverrides = {};
+  if (typeof raw.fontFamily === "string" && raw.fontFamily in FONT_FAMILY_MAP) {
+    overrides.fontFamily = raw.fontFamily;
+  }
+  if (typeof raw.fontSize === "number" && Number.isFinite(raw.fontSize)) {
+    overrides.fontSize = clamp(raw.fontSize, MIN_TERMINAL_FONT_SIZE, MAX_TERMINAL_FONT_SIZE);
+  }
+  if (typeof raw.colorSchemeId === "string" && raw.colorSchemeId.trim()) {
+    overrides.colorSchemeId = raw.colorSchemeId;
+  }
+  if (typeof raw.scrollback === "number" && Number.isFinite(raw.scrollback)) {
+    overrides.scrollback = Math.round(clamp(raw.scrollback, MIN_SCROLLBACK_LINES, MAX_SCROLLBACK_LINES));
+  }
+  return hasAppearanceOverrides(overrides) ? overrides : null;
+}
+
+function sanitizeProfiles(input: unknown): Record<string, TerminalAppearanceOverrides> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return {};
+  }
+  const profiles: Record<string, TerminalAppearanceOverrides> = {};
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    const overrides = sanitizeAppearanceOverrides(value);
+    if (key && overrides) {
+      profiles[key] = overrides;
+    }
+  }
+  return profiles;
+}
+
 function resolveFontFamily(key: string) {
   return FONT_FAMILY_MAP[key] ?? FONT_FAMILY_MAP[DEFAULT_TERMINAL_SETTINGS.fontFamily];
 }
@@ -116,10 +271,48 @@ async function persistPreferences(settings: TerminalSettingsState) {
   }
 }
 
+async function readProfiles(): Promise<Record<string, TerminalAppearanceOverrides>> {
+  if (typeof window === "undefined") {
+    return {};
+  }
+  try {
+    const settings = await window.desktopBridge?.settings?.get();
+    if (settings?.terminalProfiles) {
+      return sanitizeProfiles(settings.terminalProfiles);
+    }
+  } catch (error) {
+    console.warn("Failed to read terminal profiles from desktop settings", error);
+  }
+  try {
+    const stored = window.localStorage?.getItem(PROFILES_STORAGE_KEY);
+    return stored ? sanitizeProfiles(JSON.parse(stored)) : {};
+  } catch (error) {
+    console.warn("Failed to read terminal profiles from localStorage", error);
+    return {};
+  }
+}
+
+async function persistProfiles(profiles: Record<string, TerminalAppearanceOverrides>) {
+  if (typeof window === "undefined") {
+    return;
+  }
+  try {
+    window.localStorage?.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.warn("Failed to persist terminal profiles to localStorage", error);
+  }
+  try {
+    await window.desktopBridge?.settings?.setTerminalProfiles(profiles);
+  } catch (error) {
+    console.warn("Failed to persist terminal profiles to desktop settings", error);
+  }
+}
+
 export function TerminalSettingsProvider({ children }: { children: ReactNode }) {
   const [settings, setSettings] = useState<TerminalSettingsState>(DEFAULT_TERMINAL_SETTINGS);
   const [isReady, setReady] = useState(false);
   const [isUpdating, setUpdating] = useState(false);
+  const [profileOverrides, setProfiles] = useState<Record<string, TerminalAppearanceOverrides>>({});
   const pendingRef = useRef<Partial<TerminalSettingsState> | null>(null);
 
   useEffect(() => {
@@ -133,6 +326,10 @@ export function TerminalSettingsProvider({ children }: { children: ReactNode })
       if (storedPreferences) {
         setSettings(sanitizeSettings(storedPreferences));
       }
+      const storedProfiles = await readProfiles();
+      if (active) {
+        setProfiles(storedProfiles);
+      }
       if (active) {
         setReady(true);
       }
@@ -179,6 +376,20 @@ export function TerminalSettingsProvider({ children }: { children: ReactNode })
     }
   }, []);
 
+  const handleSetProfileOverrides = useCallback((profileKey: string, overrides: TerminalAppearanceOverrides | null) => {
+    setProfiles((previous) => {
+      const next = { ...previous };
+      const sanitized = sanitizeAppearanceOverrides(overrides);
+      if (sanitized) {
+        next[profileKey] = sanitized;
+      } else {
+        delete next[profileKey];
+      }
+      void persistProfiles(next);
+      return next;
+    });
+  }, []);
+
   const value = useMemo<TerminalSettingsContextValue>(
     () => ({
       settings,
@@ -187,8 +398,10 @@ export function TerminalSettingsProvider({ children }: { children: ReactNode })
       isUpdating,
       updateSettings: handleUpdate,
       resetSettings: handleReset,
+      profileOverrides,
+      setProfileOverrides: handleSetProfileOverrides,
     }),
-    [handleReset, handleUpdate, isReady, isUpdating, settings]
+    [handleReset, handleSetProfileOverrides, handleUpdate, isReady, isUpdating, profileOverrides, settings]
   );
 
   return <TerminalSettingsContext.Provider value={value}>{children}</TerminalSettingsContext.Provider>;
@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ChevronDown } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+import { TELNET_SIGNALS, type TelnetSignal } from "@/lib/telnet";
+
+type TerminalSignalMenuProps = {
+  dictionary: HomeDictionary["terminal"]["signals"];
+  disabled?: boolean;
+  onSendSignal: (signal: TelnetSignal) => void;
+  onSendCiscoEscape: () => void;
+};
+
+export function TerminalSignalMenu({ dictionary, disabled, onSendSignal, onSendCiscoEscape }: TerminalSignalMenuProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [isOpen, setOpen] = useState(false);
+
+  // 点击菜单外部或按 Esc 时关闭
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        setOpen(false);
+      }
+    };
+    window.addEventListener("pointerdown", handlePointerDown);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("pointerdown", handlePointerDown);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const choose = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={disabled}
+        onClick={() => setOpen((value) => !value)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        {dictionary.menuLabel}
+        <ChevronDown className="h-3.5 w-3.5" />
+      </Button>
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute left-0 top-full z-30 mt-1 w-64 overflow-hidden rounded-md border border-border bg-background/95 py-1 text-xs shadow-lg backdrop-blur"
+        >
+          {TELNET_SIGNALS.map((signal) => (
+            <button
+              key={signal}
+              type="button"
+              role="menuitem"
+              className="flex w-full flex-col items-start px-3 py-1.5 text-left hover:bg-muted focus:bg-muted focus:outline-none"
+              onClick={() => choose(() => onSendSignal(signal))}
+            >
+              <span className="font-medium">{dictionary.items[signal].label}</span>
+              <span className="text-[11px] text-muted-foreground">{dictionary.items[signal].description}</span>
+            </button>
+          ))}
+          <div className="my-1 h-px bg-border" />
+          <button
+            type="button"
+            role="menuitem"
+            className="flex w-full flex-col items-start px-3 py-1.5 text-left hover:bg-muted focus:bg-muted focus:outline-none"
+            onClick={() => choose(onSendCiscoEscape)}
+          >
+            <span className="font-medium">{dictionary.ciscoEscape.label}</span>
+            <span className="text-[11px] text-muted-foreground">{dictionary.ciscoEscape.description}</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
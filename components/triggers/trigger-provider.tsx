@@ -0,0 +1,157 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+
+import { DEFAULT_TRIGGER_RULES, sanitizeTriggerRule, type TriggerRule } from "@/lib/triggers";
+
+const LOCAL_STORAGE_KEY = "pnet-tool.trigger-rules";
+
+export type TriggerContextValue = {
+  rules: TriggerRule[];
+  isReady: boolean;
+  saveRule: (rule: TriggerRule) => void;
+  deleteRule: (id: string) => void;
+  resetRules: () => void;
+};
+
+const TriggerContext = createContext<TriggerContextValue | null>(null);
+
+function sanitizeRules(input: unknown): TriggerRule[] | null {
+  if (!Array.isArray(input)) {
+    return null;
+  }
+  return input
+    .map((entry) => sanitizeTriggerRule(entry as Partial<TriggerRule>))
+    .filter((entry): entry is TriggerRule => Boolean(entry));
+}
+
+async function readDesktopRules(): Promise<TriggerRule[] | null> {
+  if (typeof window === "undefined" || !window.desktopBridge?.settings) {
+    return null;
+  }
+  try {
+    const settings = await window.desktopBridge.settings.get();
+    return sanitizeRules(settings?.triggerRules);
+  } catch (error) {
+    console.warn("Failed to read desktop trigger rules", error);
+    return null;
+  }
+}
+
+function readLocalStorageRules(): TriggerRule[] | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  try {
+    const stored = window.localStorage?.getItem(LOCAL_STORAGE_KEY);
+    return stored ? sanitizeRules(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.warn("Failed to read trigger rules from localStorage", error);
+    return null;
+  }
+}
+
+/** 会话级触发器绑定的会话 ID 重启后即失效，只持久化全局触发器 */
+async function persistRules(input: TriggerRule[]) {
+  if (typeof window === "undefined") {
+    return;
+  }
+  const rules = input.filter((rule) => !rule.sessionId);
+
+  try {
+    window.localStorage?.setItem(LOCAL_STORAGE_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.warn("Failed to persist trigger rules to localStorage", error);
+  }
+
+  try {
+    await window.desktopBridge?.settings?.setTriggerRules(rules);
+  } catch (error) {
+    console.warn("Failed to persist trigger rules to desktop settings", error);
+  }
+}
+
+export function TriggerProvider({ children }: { children: ReactNode }) {
+  const [rules, setRules] = useState<TriggerRule[]>(DEFAULT_TRIGGER_RULES);
+  const [isReady, setReady] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    const bootstrap = async () => {
+      const desktopRules = await readDesktopRules();
+      if (!active) {
+        return;
+      }
+      const stored = desktopRules ?? readLocalStorageRules();
+      if (stored) {
+        setRules(stored);
+      }
+      setReady(true);
+    };
+
+    bootstrap().catch((error) => {
+      console.error("Failed to bootstrap trigger rules", error);
+      if (active) {
+        setReady(true);
+      }
+    });
+
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const update = useCallback((transform: (previous: TriggerRule[]) => TriggerRule[]) => {
+    setRules((previous) => {
+      const next = transform(previous);
+      void persistRules(next);
+      return next;
+    });
+  }, []);
+
+  const saveRule = useCallback(
+    (rule: TriggerRule) => {
+      const sanitized = sanitizeTriggerRule(rule);
+      if (!sanitized) {
+        return;
+      }
+      update((previous) => {
+        const index = previous.findIndex((entry) => entry.id === sanitized.id);
+        if (index === -1) {
+          return [...previous, sanitized];
+        }
+        const next = [...previous];
+        next[index] = sanitized;
+        return next;
+      });
+    },
+    [update]
+  );
+
+  const deleteRule = useCallback(
+    (id: string) => {
+      update((previous) => previous.filter((entry) => entry.id !== id));
+    },
+    [update]
+  );
+
+  const resetRules = useCallback(() => {
+    update(() => DEFAULT_TRIGGER_RULES);
+  }, [update]);
+
+  const value = useMemo<TriggerContextValue>(
+    () => ({ rules, isReady, saveRule, deleteRule, resetRules }),
+    [deleteRule, isReady, resetRules, rules, saveRule]
+  );
+
+  return <TriggerContext.Provider value={value}>{children}</TriggerContext.Provider>;
+}
+
+export function useTriggerRules() {
+  const context = useContext(TriggerContext);
+  if (!context) {
+    throw new Error("useTriggerRules must be used within a TriggerProvider");
+  }
+  return context;
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { BellRing, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import type { HomeDictionary } from "@/lib/i18n/dictionaries";
+
+export type TriggerToast = {
+  id: string;
+  sessionKey: string;
+  title: string;
+  line: string;
+};
+
+type TriggerToastsProps = {
+  dictionary: HomeDictionary["triggers"];
+  toasts: TriggerToast[];
+  onSelect: (toast: TriggerToast) => void;
+  onDismiss: (id: string) => void;
+};
+
+export function TriggerToasts({ dictionary, toasts, onSelect, onDismiss }: TriggerToastsProps) {
+  if (toasts.length === 0) {
+    return null;
+  }
+  return (
+    <div className="pointer-events-none fixed bottom-4 right-4 z-50 flex w-80 flex-col gap-2" aria-live="polite">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          className="pointer-events-auto flex items-start gap-2 rounded-md border border-amber-500/50 bg-background/95 p-3 text-xs shadow-lg backdrop-blur"
+        >
+          <BellRing className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+          <button type="button" className="min-w-0 flex-1 space-y-1 text-left" onClick={() => onSelect(toast)} title={dictionary.openSession}>
+            <p className="truncate font-semibold">{toast.title}</p>
+            <p className="line-clamp-2 break-all font-mono text-[11px] text-muted-foreground">{toast.line}</p>
+          </button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6 shrink-0"
+            onClick={() => onDismiss(toast.id)}
+            title={dictionary.dismissButton}
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
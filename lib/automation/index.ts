@@ -0,0 +1,5 @@
+export * from "./types";
+export { DEFAULT_EXPECT_TIMEOUT_MS, MAX_LOOP_COUNT, extractAutomationVariables, parseAutomationScript } from "./parser";
+export { AutomationRunner } from "./runner";
+export type { AutomationRunnerOptions, AutomationSessionIo } from "./runner";
+export { DEFAULT_AUTOMATION_SCRIPTS, generateAutomationScriptId, sanitizeAutomationScript } from "./scripts";
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_AUTOMATION_SCRIPTS } from "./scripts";
+import { MAX_LOOP_COUNT, extractAutomationVariables, parseAutomationScript } from "./parser";
+
+describe("parseAutomationScript", () => {
+  it("按行号解析各指令，忽略空行与注释", () => {
+    const program = parseAutomationScript(
+      ["# 登录", "", 'send "enable"', "expect /Password:/ timeout 3", "timeout 5", "set host R1"].join("\n")
+    );
+    expect(program.diagnostics).toEqual([]);
+    expect(program.statements).toEqual([
+      { type: "send", line: 3, text: "enable" },
+      { type: "expect", line: 4, pattern: { source: "Password:", flags: "" }, timeoutMs: 3000 },
+      { type: "timeout", line: 5, timeoutMs: 5000 },
+      { type: "set", line: 6, name: "host", value: "R1" },
+    ]);
+  });
+
+  it("send 支持 JSON 转义，未加引号时取整行原文", () => {
+    const program = parseAutomationScript(['send "a\\tb"', "send show clock", 'send ""'].join("\n"));
+    expect(program.statements.map((statement) => statement.type === "send" && statement.text)).toEqual([
+      "a\tb",
+      "show clock",
+      "",
+    ]);
+  });
+
+  it("带引号的 expect 模式按字面量转义", () => {
+    const [statement] = parseAutomationScript('expect "R1(config)#"').statements;
+    expect(statement).toMatchObject({ type: "expect", pattern: { source: "R1\\(config\\)#", flags: "" } });
+  });
+
+  it("构建 if-match / else 与 loop 的嵌套语句树", () => {
+    const program = parseAutomationScript(
+      ["if-match /#/i", "  loop 2", '    send "a"', "  end", "else", '  send "b"', "end"].join("\n")
+    );
+    expect(program.diagnostics).toEqual([]);
+    expect(program.statements).toEqual([
+      {
+        type: "if-match",
+        line: 1,
+        pattern: { source: "#", flags: "i" },
+        then: [{ type: "loop", line: 2, count: 2, body: [{ type: "send", line: 3, text: "a" }] }],
+        otherwise: [{ type: "send", line: 6, text: "b" }],
+      },
+    ]);
+  });
+
+  it("收集语法错误并继续解析后续行", () => {
+    const program = parseAutomationScript(
+      [
+        "frobnicate",
+        'send "unterminated',
+        "expect /(/",
+        "expect /ok/ after 3",
+        "timeout 0",
+        "set 1abc value",
+        `loop ${MAX_LOOP_COUNT + 1}`,
+        "else",
+        "end",
+        'send "still parsed"',
+        "if-match /x/",
+      ].join("\n")
+    );
+    expect(program.diagnostics.map((diagnostic) => diagnostic.line)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 11]);
+    expect(program.diagnostics[0].message).toBe('Unknown command "frobnicate"');
+    expect(program.diagnostics[3].message).toBe("Expected `timeout <seconds>` after the pattern");
+    expect(program.diagnostics[7].message).toBe("else without matching if-match");
+    expect(program.diagnostics[8].message).toBe("end without an open block");
+    expect(program.diagnostics[9].message).toBe("Block is missing `end`");
+    expect(program.statements[0]).toEqual({ type: "send", line: 10, text: "still parsed" });
+  });
+
+  it("内置脚本均能无错解析", () => {
+    for (const script of DEFAULT_AUTOMATION_SCRIPTS) {
+      expect(parseAutomationScript(script.source).diagnostics).toEqual([]);
+    }
+  });
+});
+
+describe("extractAutomationVariables", () => {
+  it("只列出未经 set 赋值的变量，忽略捕获组", () => {
+    const { statements } = parseAutomationScript(
+      [
+        "set target 10.0.0.1",
+        'send "ping {{target}}"',
+        "if-match /{{prompt}}/",
+        '  send "{{ password }}"',
+        "end",
+        "expect /Version (\\S+)/",
+        "set version {{$1}}",
+      ].join("\n")
+    );
+    expect(extractAutomationVariables(statements)).toEqual(["prompt", "password"]);
+  });
+
+  it("内置的 enable 脚本不携带口令，运行前需要填写", () => {
+    const script = DEFAULT_AUTOMATION_SCRIPTS.find((entry) => entry.id === "automation-cisco-enable-show");
+    const { statements } = parseAutomationScript(script?.source ?? "");
+    expect(extractAutomationVariables(statements)).toEqual(["password"]);
+  });
+});
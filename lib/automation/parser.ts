@@ -0,0 +1,248 @@
+import type { AutomationDiagnostic, AutomationPattern, AutomationProgram, AutomationStatement } from "./types";
+
+export const DEFAULT_EXPECT_TIMEOUT_MS = 10000;
+export const MAX_LOOP_COUNT = 1000;
+
+const VARIABLE_NAME = /^[A-Za-z_][\w-]*$/;
+const VARIABLE_REFERENCE = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+type Block = {
+  kind: "root" | "if-match" | "else" | "loop";
+  line: number;
+  statements: AutomationStatement[];
+  owner?: Extract<AutomationStatement, { type: "if-match" | "loop" }>;
+};
+
+function splitKeyword(text: string) {
+  const match = /^(\S+)\s*(.*)$/.exec(text);
+  return match ? { keyword: match[1].toLowerCase(), rest: match[2] } : { keyword: "", rest: "" };
+}
+
+/** 解析 "..." 字符串（支持 JSON 转义）；未加引号时取整行原文 */
+function parseText(rest: string): string | null {
+  const trimmed = rest.trim();
+  if (!trimmed.startsWith('"')) {
+    return trimmed;
+  }
+  try {
+    const value: unknown = JSON.parse(trimmed);
+    return typeof value === "string" ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 解析 /regex/flags 或 "literal"，并返回剩余部分（用于读取 timeout 子句） */
+function parsePattern(rest: string): { pattern: AutomationPattern; rest: string } | null {
+  const trimmed = rest.trim();
+  const regex = /^\/((?:\\.|[^/\\])+)\/([imsu]*)(.*)$/.exec(trimmed);
+  if (regex) {
+    return { pattern: { source: regex[1], flags: regex[2] }, rest: regex[3] };
+  }
+  const literal = /^("(?:\\.|[^"\\])*")(.*)$/.exec(trimmed);
+  if (literal) {
+    const text = parseText(literal[1]);
+    if (text === null) {
+      return null;
+    }
+    return { pattern: { source: text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), flags: "" }, rest: literal[2] };
+  }
+  return null;
+}
+
+function parseSeconds(value: string) {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : null;
+}
+
+/**
+ * 将脚本源码解析为语句树。每行一条指令，"#" 开头为注释：
+ *
+ *   set host R1
+ *   timeout 5
+ *   send "enable"
+ *   expect /Password:|#\s*$/ timeout 3
+ *   if-match /Password:/
+ *     send "{{password}}"
+ *   else
+ *     send ""
+ *   end
+ *   loop 3
+ *     send "show clock"
+ *     expect /#\s*$/
+ *   end
+ *
+ * 语法错误收集到 diagnostics 中，不会中断解析。
+ */
+export function parseAutomationScript(source: string): AutomationProgram {
+  const diagnostics: AutomationDiagnostic[] = [];
+  const root: Block = { kind: "root", line: 0, statements: [] };
+  const stack: Block[] = [root];
+
+  source.split(/\r\n|\n|\r/).forEach((raw, index) => {
+    const line = index + 1;
+    const text = raw.trim();
+    if (!text || text.startsWith("#")) {
+      return;
+    }
+    const current = stack[stack.length - 1];
+    const { keyword, rest } = splitKeyword(text);
+    const fail = (message: string) => diagnostics.push({ line, message });
+
+    switch (keyword) {
+      case "send": {
+        const value = parseText(rest);
+        if (value === null) {
+          fail("Invalid string literal");
+          return;
+        }
+        current.statements.push({ type: "send", line, text: value });
+        return;
+      }
+      case "expect":
+      case "if-match": {
+        const parsed = parsePattern(rest);
+        if (!parsed) {
+          fail(`${keyword} requires a /regex/ or "text" pattern`);
+          return;
+        }
+        try {
+          new RegExp(parsed.pattern.source, parsed.pattern.flags);
+        } catch (error) {
+          fail(error instanceof Error ? error.message : "Invalid regular expression");
+          return;
+        }
+        if (keyword === "if-match") {
+          if (parsed.rest.trim()) {
+            fail("Unexpected text after if-match pattern");
+            return;
+          }
+          const statement: Extract<AutomationStatement, { type: "if-match" }> = {
+            type: "if-match",
+            line,
+            pattern: parsed.pattern,
+            then: [],
+            otherwise: [],
+          };
+          current.statements.push(statement);
+          stack.push({ kind: "if-match", line, statements: statement.then, owner: statement });
+          return;
+        }
+        const clause = parsed.rest.trim();
+        let timeoutMs: number | undefined;
+        if (clause) {
+          const timeout = /^timeout\s+(\S+)$/i.exec(clause);
+          const value = timeout ? parseSeconds(timeout[1]) : null;
+          if (value === null) {
+            fail("Expected `timeout <seconds>` after the pattern");
+            return;
+          }
+          timeoutMs = value;
+        }
+        current.statements.push({ type: "expect", line, pattern: parsed.pattern, timeoutMs });
+        return;
+      }
+      case "timeout": {
+        const value = parseSeconds(rest.trim());
+        if (value === null) {
+          fail("timeout requires a positive number of seconds");
+          return;
+        }
+        current.statements.push({ type: "timeout", line, timeoutMs: value });
+        return;
+      }
+      case "set": {
+        const match = /^(\S+)\s*(.*)$/.exec(rest.trim());
+        if (!match || !VARIABLE_NAME.test(match[1])) {
+          fail("set requires a variable name");
+          return;
+        }
+        const value = parseText(match[2]);
+        if (value === null) {
+          fail("Invalid string literal");
+          return;
+        }
+        current.statements.push({ type: "set", line, name: match[1], value });
+        return;
+      }
+      case "loop": {
+        const count = Number(rest.trim());
+        if (!Number.isInteger(count) || count < 1 || count > MAX_LOOP_COUNT) {
+          fail(`loop requires a count between 1 and ${MAX_LOOP_COUNT}`);
+          return;
+        }
+        const statement: Extract<AutomationStatement, { type: "loop" }> = { type: "loop", line, count, body: [] };
+        current.statements.push(statement);
+        stack.push({ kind: "loop", line, statements: statement.body, owner: statement });
+        return;
+      }
+      case "else": {
+        if (current.kind !== "if-match" || current.owner?.type !== "if-match") {
+          fail("else without matching if-match");
+          return;
+        }
+        stack.pop();
+        stack.push({ kind: "else", line, statements: current.owner.otherwise, owner: current.owner });
+        return;
+      }
+      case "end": {
+        if (current.kind === "root") {
+          fail("end without an open block");
+          return;
+        }
+        stack.pop();
+        return;
+      }
+      default:
+        fail(`Unknown command "${keyword}"`);
+    }
+  });
+
+  for (const block of stack.slice(1)) {
+    diagnostics.push({ line: block.line, message: "Block is missing `end`" });
+  }
+
+  return { statements: root.statements, diagnostics };
+}
+
+/**
+ * 列出脚本引用但从未通过 set 赋值的变量（不含 {{$1}} 等捕获组），
+ * 运行前需由用户填写，例如登录口令不应写死在脚本里。
+ */
+export function extractAutomationVariables(statements: AutomationStatement[]): string[] {
+  const assigned = new Set<string>();
+  const referenced = new Set<string>();
+  const collect = (text: string) => {
+    for (const match of text.matchAll(VARIABLE_REFERENCE)) {
+      referenced.add(match[1]);
+    }
+  };
+  const visit = (list: AutomationStatement[]) => {
+    for (const statement of list) {
+      switch (statement.type) {
+        case "send":
+          collect(statement.text);
+          break;
+        case "expect":
+          collect(statement.pattern.source);
+          break;
+        case "set":
+          collect(statement.value);
+          assigned.add(statement.name);
+          break;
+        case "if-match":
+          collect(statement.pattern.source);
+          visit(statement.then);
+          visit(statement.otherwise);
+          break;
+        case "loop":
+          visit(statement.body);
+          break;
+        case "timeout":
+          break;
+      }
+    }
+  };
+  visit(statements);
+  return [...referenced].filter((name) => !assigned.has(name));
+}
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { parseAutomationScript } from "./parser";
+import { AutomationRunner, type AutomationRunnerOptions } from "./runner";
+
+/** 模拟会话：记录写入内容，并可向订阅者推送设备输出 */
+function createIo() {
+  const writes: string[] = [];
+  const listeners = new Set<(data: string) => void>();
+  return {
+    writes,
+    emit: (data: string) => listeners.forEach((listener) => listener(data)),
+    get subscribers() {
+      return listeners.size;
+    },
+    io: {
+      write: (data: string) => {
+        writes.push(data);
+      },
+      subscribe: (listener: (data: string) => void) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+    },
+  };
+}
+
+function program(lines: string[]) {
+  const parsed = parseAutomationScript(lines.join("\n"));
+  expect(parsed.diagnostics).toEqual([]);
+  return parsed.statements;
+}
+
+function createRunner(io: AutomationRunnerOptions["io"], options: Partial<AutomationRunnerOptions> = {}) {
+  return new AutomationRunner({ io, ...options });
+}
+
+describe("AutomationRunner", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("send 以 CR 结尾写入会话，并替换已提供的变量", async () => {
+    const session = createIo();
+    const runner = createRunner(session.io, { variables: { password: "s3cret" } });
+    const result = await runner.run(program(['send "enable"', 'send "{{password}}"', 'send "{{unknown}}"']));
+    expect(result).toEqual({ ok: true, cancelled: false });
+    expect(session.writes).toEqual(["enable\r", "s3cret\r", "{{unknown}}\r"]);
+    expect(session.subscribers).toBe(0);
+  });
+
+  it("expect 等待跨块到达的输出，并把捕获组保存为 $n 变量", async () => {
+    const session = createIo();
+    const runner = createRunner(session.io);
+    const done = runner.run(
+      program(['send "show version"', "expect /Version (\\S+),/", "set version {{$1}}", 'send "{{version}}"'])
+    );
+    await vi.advanceTimersByTimeAsync(100);
+    session.emit("\x1b[1mCisco IOS Software, Ver");
+    await vi.advanceTimersByTimeAsync(100);
+    session.emit("sion 15.2(4)M7, RELEASE\r\n");
+    expect(await done).toEqual({ ok: true, cancelled: false });
+    expect(session.writes).toEqual(["show version\r", "15.2(4)M7\r"]);
+  });
+
+  it("expect 超时后以行号报错并停止执行", async () => {
+    const session = createIo();
+    const runner = createRunner(session.io);
+    const done = runner.run(program(["timeout 2", "expect /#\\s*$/", 'send "never"']));
+    await vi.advanceTimersByTimeAsync(2000);
+    const result = await done;
+    expect(result).toEqual({ ok: false, cancelled: false, error: "Line 2: timed out after 2s waiting for /#\\s*$/" });
+    expect(session.writes).toEqual([]);
+  });
+
+  it("if-match 针对最近一次 expect 消费的输出选择分支", async () => {
+    const session = createIo();
+    const runner = createRunner(session.io);
+    const done = runner.run(
+      program(["expect /[>#]\\s*$/", "if-match />\\s*$/", '  send "enable"', "else", '  send "already"', "end"])
+    );
+    session.emit("R1#");
+    await vi.advanceTimersByTimeAsync(0);
+    await done;
+    expect(session.writes).toEqual(["already\r"]);
+  });
+
+  it("loop 按次数重复执行循环体", async () => {
+    const session = createIo();
+    const runner = createRunner(session.io);
+    await runner.run(program(["loop 3", '  send "show clock"', "end"]));
+    expect(session.writes).toEqual(["show clock\r", "show clock\r", "show clock\r"]);
+  });
+
+  it("预演模式不写入会话，并假定 expect 与 if-match 均匹配", async () => {
+    const session = createIo();
+    const levels: string[] = [];
+    const runner = createRunner(session.io, { mode: "dry-run", onLog: (entry) => levels.push(entry.level) });
+    const result = await runner.run(program(['send "a"', "expect /never/", "if-match /x/", '  send "b"', "end"]));
+    expect(result).toEqual({ ok: true, cancelled: false });
+    expect(session.writes).toEqual([]);
+    expect(session.subscribers).toBe(0);
+    expect(levels).toEqual(["info", "send", "expect", "match", "send", "done"]);
+  });
+
+  it("cancel 中断正在等待的 expect", async () => {
+    const session = createIo();
+    const runner = createRunner(session.io);
+    const done = runner.run(program(["expect /#/", 'send "never"']));
+    await vi.advanceTimersByTimeAsync(100);
+    runner.cancel();
+    expect(await done).toEqual({ ok: false, cancelled: true });
+    expect(session.writes).toEqual([]);
+    expect(session.subscribers).toBe(0);
+  });
+
+  it("单步模式在每条语句前暂停，step() 放行下一条", async () => {
+    const session = createIo();
+    const paused: Array<number | null> = [];
+    const runner = createRunner(session.io, { stepping: true, onPause: (line) => paused.push(line) });
+    const done = runner.run(program(['send "a"', 'send "b"']));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(paused).toEqual([1]);
+    expect(session.writes).toEqual([]);
+    runner.step();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(session.writes).toEqual(["a\r"]);
+    runner.setStepping(false);
+    await done;
+    expect(session.writes).toEqual(["a\r", "b\r"]);
+  });
+});
@@ -0,0 +1,223 @@
+import { stripAnsi } from "@/lib/transcript/ansi";
+
+import { DEFAULT_EXPECT_TIMEOUT_MS } from "./parser";
+import type {
+  AutomationLogEntry,
+  AutomationLogLevel,
+  AutomationPattern,
+  AutomationRunMode,
+  AutomationRunResult,
+  AutomationStatement,
+} from "./types";
+
+const MAX_PENDING_OUTPUT = 64 * 1024;
+const VARIABLE_PATTERN = /\{\{\s*(\$?[\w-]+)\s*\}\}/g;
+
+export type AutomationSessionIo = {
+  write: (data: string) => void;
+  /** 订阅会话输出，返回取消订阅函数 */
+  subscribe: (listener: (data: string) => void) => () => void;
+};
+
+export type AutomationRunnerOptions = {
+  io: AutomationSessionIo;
+  mode?: AutomationRunMode;
+  /** 单步模式：每条语句执行前等待 step() */
+  stepping?: boolean;
+  variables?: Record<string, string>;
+  onLog?: (entry: AutomationLogEntry) => void;
+  /** 单步模式下即将执行的行号，null 表示未在等待 */
+  onPause?: (line: number | null) => void;
+};
+
+class CancelledError extends Error {
+  constructor() {
+    super("Script cancelled");
+  }
+}
+
+/**
+ * 驱动单个会话执行脚本：send 写入会话，expect 在累积输出中等待正则匹配，
+ * if-match 针对最近一次 expect 消费的输出做判断。
+ * 预演模式（dry-run）不写入会话，并假定所有 expect / if-match 均匹配成功。
+ */
+export class AutomationRunner {
+  private readonly io: AutomationSessionIo;
+  private readonly mode: AutomationRunMode;
+  private readonly onLog?: (entry: AutomationLogEntry) => void;
+  private readonly onPause?: (line: number | null) => void;
+  private readonly variables: Record<string, string>;
+  private stepping: boolean;
+  private pending = "";
+  private lastOutput = "";
+  private timeoutMs = DEFAULT_EXPECT_TIMEOUT_MS;
+  private cancelled = false;
+  private wake: (() => void) | null = null;
+  private stepGate: (() => void) | null = null;
+
+  constructor(options: AutomationRunnerOptions) {
+    this.io = options.io;
+    this.mode = options.mode ?? "run";
+    this.stepping = options.stepping ?? false;
+    this.variables = { ...options.variables };
+    this.onLog = options.onLog;
+    this.onPause = options.onPause;
+  }
+
+  async run(statements: AutomationStatement[]): Promise<AutomationRunResult> {
+    const unsubscribe = this.mode === "run" ? this.io.subscribe((data) => this.receive(data)) : null;
+    this.log("info", this.mode === "dry-run" ? "Dry run started" : "Script started");
+    try {
+      await this.execute(statements);
+      this.log("done", "Script finished");
+      return { ok: true, cancelled: false };
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        this.log("error", error.message);
+        return { ok: false, cancelled: true };
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      this.log("error", message);
+      return { ok: false, cancelled: false, error: message };
+    } finally {
+      unsubscribe?.();
+      this.onPause?.(null);
+    }
+  }
+
+  /** 单步模式下放行下一条语句 */
+  step() {
+    const gate = this.stepGate;
+    this.stepGate = null;
+    gate?.();
+  }
+
+  setStepping(value: boolean) {
+    this.stepping = value;
+    if (!value) {
+      this.step();
+    }
+  }
+
+  cancel() {
+    this.cancelled = true;
+    this.step();
+    this.wake?.();
+  }
+
+  private receive(data: string) {
+    this.pending = (this.pending + stripAnsi(data.replace(/\r\n?/g, "\n"))).slice(-MAX_PENDING_OUTPUT);
+    this.wake?.();
+  }
+
+  private async execute(statements: AutomationStatement[]): Promise<void> {
+    for (const statement of statements) {
+      await this.checkpoint(statement.line);
+      switch (statement.type) {
+        case "send": {
+          const text = this.interpolate(statement.text);
+          this.log("send", text, statement.line);
+          if (this.mode === "run") {
+            this.io.write(`${text}\r`);
+          }
+          break;
+        }
+        case "expect":
+          await this.expect(statement.pattern, statement.timeoutMs ?? this.timeoutMs, statement.line);
+          break;
+        case "timeout":
+          this.timeoutMs = statement.timeoutMs;
+          this.log("info", `Default expect timeout set to ${statement.timeoutMs / 1000}s`, statement.line);
+          break;
+        case "set": {
+          const value = this.interpolate(statement.value);
+          this.variables[statement.name] = value;
+          this.log("info", `${statement.name} = ${value}`, statement.line);
+          break;
+        }
+        case "if-match": {
+          const regex = this.compile(statement.pattern);
+          const matched = this.mode === "dry-run" || regex.test(this.lastOutput);
+          this.log("match", `${regex} → ${matched ? "matched" : "no match"}`, statement.line);
+          await this.execute(matched ? statement.then : statement.otherwise);
+          break;
+        }
+        case "loop":
+          for (let iteration = 1; iteration <= statement.count; iteration += 1) {
+            this.log("info", `Loop iteration ${iteration}/${statement.count}`, statement.line);
+            await this.execute(statement.body);
+          }
+          break;
+      }
+    }
+  }
+
+  private async checkpoint(line: number) {
+    if (this.cancelled) {
+      throw new CancelledError();
+    }
+    if (!this.stepping) {
+      return;
+    }
+    this.onPause?.(line);
+    await new Promise<void>((resolve) => {
+      this.stepGate = resolve;
+    });
+    this.onPause?.(null);
+    if (this.cancelled) {
+      throw new CancelledError();
+    }
+  }
+
+  private async expect(pattern: AutomationPattern, timeoutMs: number, line: number) {
+    const regex = this.compile(pattern);
+    this.log("expect", `${regex} (${timeoutMs / 1000}s)`, line);
+    if (this.mode === "dry-run") {
+      return;
+    }
+
+    const deadline = Date.now() + timeoutMs;
+    while (true) {
+      if (this.cancelled) {
+        throw new CancelledError();
+      }
+      const match = regex.exec(this.pending);
+      if (match) {
+        const end = match.index + match[0].length;
+        this.lastOutput = this.pending.slice(0, end);
+        this.pending = this.pending.slice(end);
+        match.forEach((group, index) => {
+          this.variables[`$${index}`] = group ?? "";
+        });
+        this.log("match", JSON.stringify(match[0]), line);
+        return;
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        this.lastOutput = this.pending;
+        throw new Error(`Line ${line}: timed out after ${timeoutMs / 1000}s waiting for ${regex}`);
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(finish, remaining);
+        function finish() {
+          clearTimeout(timer);
+          resolve();
+        }
+        this.wake = finish;
+      });
+      this.wake = null;
+    }
+  }
+
+  private compile(pattern: AutomationPattern) {
+    return new RegExp(this.interpolate(pattern.source), pattern.flags.replace(/g/g, ""));
+  }
+
+  private interpolate(text: string) {
+    return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => this.variables[name] ?? placeholder);
+  }
+
+  private log(level: AutomationLogLevel, message: string, line?: number) {
+    this.onLog?.({ timestamp: Date.now(), level, line, message });
+  }
+}
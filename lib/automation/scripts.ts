@@ -0,0 +1,60 @@
+import type { AutomationScript } from "./types";
+
+export const DEFAULT_AUTOMATION_SCRIPTS: AutomationScript[] = [
+  {
+    id: "automation-cisco-enable-show",
+    name: "Cisco: enable + show version",
+    description: "Enter privileged mode if needed, then capture the IOS version line.",
+    source: [
+      "# 变量使用 {{name}} 引用；expect 的捕获组保存在 {{$1}} 等变量中",
+      "# 未 set 的变量（如 {{password}}）会在运行前提示填写",
+      "timeout 5",
+      'send ""',
+      "expect /[>#]\\s*$/",
+      "if-match />\\s*$/",
+      '  send "enable"',
+      "  expect /Password:|#\\s*$/",
+      "  if-match /Password:/",
+      '    send "{{password}}"',
+      "    expect /#\\s*$/",
+      "  end",
+      "end",
+      'send "terminal length 0"',
+      "expect /#\\s*$/",
+      'send "show version | include Version"',
+      "expect /Version (\\S+)/",
+      "set version {{$1}}",
+      "expect /#\\s*$/",
+    ].join("\n"),
+  },
+  {
+    id: "automation-ping-loop",
+    name: "Ping gateway 3 times",
+    source: ["set target 10.0.0.1", "loop 3", '  send "ping {{target}}"', "  expect /#\\s*$|>\\s*$/ timeout 15", "end"].join("\n"),
+  },
+];
+
+export function sanitizeAutomationScript(entry: Partial<AutomationScript> | null | undefined): AutomationScript | null {
+  if (!entry) {
+    return null;
+  }
+  const id = typeof entry.id === "string" ? entry.id.trim() : "";
+  const name = typeof entry.name === "string" ? entry.name.trim() : "";
+  const source = typeof entry.source === "string" ? entry.source : "";
+  if (!id || !name) {
+    return null;
+  }
+  return {
+    id,
+    name,
+    source,
+    description: typeof entry.description === "string" && entry.description.trim() ? entry.description.trim() : undefined,
+  } satisfies AutomationScript;
+}
+
+export function generateAutomationScriptId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return `automation-${crypto.randomUUID()}`;
+  }
+  return `automation-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,46 @@
+export type AutomationScript = {
+  id: string;
+  name: string;
+  source: string;
+  description?: string;
+};
+
+export type AutomationPattern = {
+  source: string;
+  flags: string;
+};
+
+export type AutomationStatement =
+  | { type: "send"; line: number; text: string }
+  | { type: "expect"; line: number; pattern: AutomationPattern; timeoutMs?: number }
+  | { type: "timeout"; line: number; timeoutMs: number }
+  | { type: "set"; line: number; name: string; value: string }
+  | { type: "if-match"; line: number; pattern: AutomationPattern; then: AutomationStatement[]; otherwise: AutomationStatement[] }
+  | { type: "loop"; line: number; count: number; body: AutomationStatement[] };
+
+export type AutomationDiagnostic = {
+  line: number;
+  message: string;
+};
+
+export type AutomationProgram = {
+  statements: AutomationStatement[];
+  diagnostics: AutomationDiagnostic[];
+};
+
+export type AutomationLogLevel = "info" | "send" | "expect" | "match" | "error" | "done";
+
+export type AutomationLogEntry = {
+  timestamp: number;
+  level: AutomationLogLevel;
+  line?: number;
+  message: string;
+};
+
+export type AutomationRunMode = "run" | "dry-run";
+
+export type AutomationRunResult = {
+  ok: boolean;
+  cancelled: boolean;
+  error?: string;
+};
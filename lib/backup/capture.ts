@@ -0,0 +1,100 @@
+import type { AutomationSessionIo } from "@/lib/automation";
+import { parsePrompt, type PromptInfo } from "@/lib/prompt";
+import { stripAnsi } from "@/lib/transcript/ansi";
+
+import { getConfigCommandPlan } from "./commands";
+
+export const DEFAULT_CAPTURE_TIMEOUT_MS = 120000;
+
+const MORE_PATTERN = /--\s?More\s?--|-{4}\s*More\s*-{4}/g;
+const PROMPT_TAIL_LENGTH = 1024;
+
+export type CaptureConfigOptions = {
+  io: AutomationSessionIo;
+  prompt: PromptInfo;
+  timeoutMs?: number;
+};
+
+function toPlainText(raw: string) {
+  return stripAnsi(raw.replace(/\r\n/g, "\n"));
+}
+
+/** 去掉命令回显、分页提示残留与首尾空行 */
+function cleanCapturedOutput(text: string) {
+  const lines = text
+    .replace(MORE_PATTERN, "")
+    .split("\n")
+    .slice(1)
+    .map((line) => line.trimEnd());
+  while (lines.length > 0 && !lines[0]) {
+    lines.shift();
+  }
+  while (lines.length > 0 && !lines[lines.length - 1]) {
+    lines.pop();
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 在会话中执行一条命令并收集输出，直到同一主机名的提示符重新出现。
+ * 遇到未能关闭的分页提示（--More--、---- More ----）时自动发送空格继续。
+ */
+function runCommand(io: AutomationSessionIo, prompt: PromptInfo, command: string, deadline: number) {
+  return new Promise<string>((resolve, reject) => {
+    let raw = "";
+    let scanFrom = 0;
+
+    const finish = (error: Error | null, output = "") => {
+      clearTimeout(timer);
+      unsubscribe();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(output);
+      }
+    };
+
+    const unsubscribe = io.subscribe((data) => {
+      raw += data;
+
+      MORE_PATTERN.lastIndex = scanFrom;
+      let more: RegExpExecArray | null;
+      while ((more = MORE_PATTERN.exec(raw))) {
+        scanFrom = more.index + more[0].length;
+        io.write(" ");
+      }
+
+      const tail = toPlainText(raw.slice(-PROMPT_TAIL_LENGTH));
+      const lastLine = tail.slice(tail.lastIndexOf("\n") + 1);
+      const detected = parsePrompt(lastLine, { hostname: prompt.hostname, vendorHint: prompt.vendor });
+      if (detected && detected.hostname === prompt.hostname) {
+        const text = toPlainText(raw);
+        finish(null, text.slice(0, text.lastIndexOf("\n") + 1));
+      }
+    });
+
+    const timer = setTimeout(
+      () => finish(new Error(`Timed out waiting for the prompt after "${command}"`)),
+      Math.max(deadline - Date.now(), 0)
+    );
+
+    io.write(`${command}\r`);
+  });
+}
+
+/** 关闭分页后读取设备当前配置，返回清理后的配置文本 */
+export async function captureConfiguration({ io, prompt, timeoutMs = DEFAULT_CAPTURE_TIMEOUT_MS }: CaptureConfigOptions) {
+  const plan = getConfigCommandPlan(prompt.vendor);
+  if (!plan) {
+    throw new Error(`Configuration backup is not supported for ${prompt.vendor}`);
+  }
+  const deadline = Date.now() + timeoutMs;
+  if (plan.disablePaging) {
+    await runCommand(io, prompt, plan.disablePaging, deadline);
+  }
+  const output = cleanCapturedOutput(await runCommand(io, prompt, plan.show, deadline));
+  if (!output.trim()) {
+    throw new Error(`"${plan.show}" returned no output`);
+  }
+  return output;
+}
@@ -0,0 +1,37 @@
+import type { CliMode, PromptVendor } from "@/lib/prompt";
+
+import type { ConfigCommandPlan } from "./types";
+
+const COMMAND_PLANS: Partial<Record<PromptVendor, ConfigCommandPlan>> = {
+  "cisco-ios": { disablePaging: "terminal length 0", show: "show running-config" },
+  "cisco-nxos": { disablePaging: "terminal length 0", show: "show running-config" },
+  "arista-eos": { disablePaging: "terminal length 0", show: "show running-config" },
+  "huawei-vrp": { disablePaging: "screen-length 0 temporary", show: "display current-configuration" },
+  "h3c-comware": { disablePaging: "screen-length disable", show: "display current-configuration" },
+  "juniper-junos": { disablePaging: "set cli screen-length 0", show: "show configuration | no-more" },
+  mikrotik: { disablePaging: null, show: "/export" },
+};
+
+/** Cisco 风格设备只有在特权模式下才能读取运行配置 */
+const PRIVILEGED_VENDORS: PromptVendor[] = ["cisco-ios", "cisco-nxos", "arista-eos"];
+
+export function getConfigCommandPlan(vendor: PromptVendor): ConfigCommandPlan | null {
+  return COMMAND_PLANS[vendor] ?? null;
+}
+
+/**
+ * 检查当前提示符是否可以直接执行备份命令。
+ * Junos 的配置模式与其他厂商的配置模式下命令语法不同，因此要求回到操作/特权模式。
+ */
+export function canCaptureConfig(vendor: PromptVendor, mode: CliMode) {
+  if (!getConfigCommandPlan(vendor)) {
+    return false;
+  }
+  if (PRIVILEGED_VENDORS.includes(vendor)) {
+    return mode === "privileged";
+  }
+  if (vendor === "juniper-junos") {
+    return mode === "user-exec";
+  }
+  return true;
+}
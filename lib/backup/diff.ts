@@ -0,0 +1,125 @@
+import type { ConfigDiffRow, ConfigDiffSide, ConfigDiffSummary } from "./types";
+
+/** LCS 表的最大单元数；超过后中间差异段直接按整段删除/新增处理 */
+const MAX_LCS_CELLS = 4_000_000;
+
+type Operation = { type: "same" | "removed" | "added"; left?: ConfigDiffSide; right?: ConfigDiffSide };
+
+function lcsOperations(left: string[], right: string[], leftOffset: number, rightOffset: number): Operation[] {
+  const rows = left.length;
+  const columns = right.length;
+  if (rows * columns > MAX_LCS_CELLS) {
+    return [
+      ...left.map((text, index) => ({ type: "removed" as const, left: { line: leftOffset + index + 1, text } })),
+      ...right.map((text, index) => ({ type: "added" as const, right: { line: rightOffset + index + 1, text } })),
+    ];
+  }
+
+  // table[i][j] 为 left[i..] 与 right[j..] 的最长公共子序列长度
+  const width = columns + 1;
+  const table = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = columns - 1; j >= 0; j -= 1) {
+      table[i * width + j] =
+        left[i] === right[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const operations: Operation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < columns) {
+    if (i < rows && j < columns && left[i] === right[j]) {
+      operations.push({
+        type: "same",
+        left: { line: leftOffset + i + 1, text: left[i] },
+        right: { line: rightOffset + j + 1, text: right[j] },
+      });
+      i += 1;
+      j += 1;
+    } else if (j < columns && (i === rows || table[i * width + j + 1] >= table[(i + 1) * width + j])) {
+      operations.push({ type: "added", right: { line: rightOffset + j + 1, text: right[j] } });
+      j += 1;
+    } else {
+      operations.push({ type: "removed", left: { line: leftOffset + i + 1, text: left[i] } });
+      i += 1;
+    }
+  }
+  return operations;
+}
+
+/** 将相邻的删除段与新增段配对为并排的 "changed" 行 */
+function pairOperations(operations: Operation[]): ConfigDiffRow[] {
+  const rows: ConfigDiffRow[] = [];
+  let index = 0;
+  while (index < operations.length) {
+    const operation = operations[index];
+    if (operation.type === "same") {
+      rows.push({ type: "same", left: operation.left!, right: operation.right! });
+      index += 1;
+      continue;
+    }
+    const removed: ConfigDiffSide[] = [];
+    const added: ConfigDiffSide[] = [];
+    while (index < operations.length && operations[index].type !== "same") {
+      const current = operations[index];
+      if (current.type === "removed") {
+        removed.push(current.left!);
+      } else {
+        added.push(current.right!);
+      }
+      index += 1;
+    }
+    const paired = Math.min(removed.length, added.length);
+    for (let offset = 0; offset < paired; offset += 1) {
+      rows.push({ type: "changed", left: removed[offset], right: added[offset] });
+    }
+    removed.slice(paired).forEach((left) => rows.push({ type: "removed", left }));
+    added.slice(paired).forEach((right) => rows.push({ type: "added", right }));
+  }
+  return rows;
+}
+
+/**
+ * 逐行比较两份配置，生成并排视图所需的行。
+ * 先剥离公共前缀与后缀，实验中通常只有少量改动，LCS 只需处理中间一小段。
+ */
+export function diffConfigs(before: string, after: string): ConfigDiffSummary {
+  const left = before.split("\n");
+  const right = after.split("\n");
+
+  let prefix = 0;
+  while (prefix < left.length && prefix < right.length && left[prefix] === right[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < left.length - prefix &&
+    suffix < right.length - prefix &&
+    left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const same = (leftIndex: number, rightIndex: number): Operation => ({
+    type: "same",
+    left: { line: leftIndex + 1, text: left[leftIndex] },
+    right: { line: rightIndex + 1, text: right[rightIndex] },
+  });
+
+  const operations: Operation[] = [
+    ...Array.from({ length: prefix }, (_, index) => same(index, index)),
+    ...lcsOperations(left.slice(prefix, left.length - suffix), right.slice(prefix, right.length - suffix), prefix, prefix),
+    ...Array.from({ length: suffix }, (_, index) =>
+      same(left.length - suffix + index, right.length - suffix + index)
+    ),
+  ];
+
+  return {
+    rows: pairOperations(operations),
+    added: operations.filter((operation) => operation.type === "added").length,
+    removed: operations.filter((operation) => operation.type === "removed").length,
+  };
+}
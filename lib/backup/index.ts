@@ -0,0 +1,13 @@
+export { DEFAULT_CAPTURE_TIMEOUT_MS, captureConfiguration, type CaptureConfigOptions } from "./capture";
+export { canCaptureConfig, getConfigCommandPlan } from "./commands";
+export { diffConfigs } from "./diff";
+export {
+  ConfigSnapshotQuotaError,
+  MAX_SNAPSHOTS_PER_DEVICE,
+  MAX_SNAPSHOT_STORAGE_CHARS,
+  appendConfigSnapshot,
+  generateConfigSnapshotId,
+  isQuotaExceededError,
+  sanitizeConfigSnapshot,
+} from "./snapshots";
+export type { ConfigCommandPlan, ConfigDiffRow, ConfigDiffSide, ConfigDiffSummary, ConfigSnapshot } from "./types";
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  MAX_SNAPSHOTS_PER_DEVICE,
+  MAX_SNAPSHOT_STORAGE_CHARS,
+  appendConfigSnapshot,
+  isQuotaExceededError,
+} from "./snapshots";
+import type { ConfigSnapshot } from "./types";
+
+function snapshot(id: string, hostname: string, capturedAt: number, size = 16): ConfigSnapshot {
+  return { id, hostname, vendor: "cisco-ios", host: "10.0.0.1", port: 32769, capturedAt, content: "!".repeat(size) };
+}
+
+describe("appendConfigSnapshot", () => {
+  it("每台设备只保留最近的快照", () => {
+    let snapshots: ConfigSnapshot[] = [];
+    for (let index = 0; index < MAX_SNAPSHOTS_PER_DEVICE + 3; index += 1) {
+      snapshots = appendConfigSnapshot(snapshots, snapshot(`r1-${index}`, "R1", index));
+    }
+    snapshots = appendConfigSnapshot(snapshots, snapshot("sw1", "SW1", 0));
+    expect(snapshots.filter((entry) => entry.hostname === "R1")).toHaveLength(MAX_SNAPSHOTS_PER_DEVICE);
+    expect(snapshots.some((entry) => entry.id === "r1-0")).toBe(false);
+    expect(snapshots.some((entry) => entry.id === "sw1")).toBe(true);
+  });
+
+  it("总体积超限时跨设备丢弃最早的快照", () => {
+    const half = MAX_SNAPSHOT_STORAGE_CHARS / 2;
+    let snapshots = appendConfigSnapshot([], snapshot("old", "R1", 1, half));
+    snapshots = appendConfigSnapshot(snapshots, snapshot("mid", "R2", 2, half));
+    snapshots = appendConfigSnapshot(snapshots, snapshot("new", "R3", 3, half));
+    expect(snapshots.map((entry) => entry.id)).toEqual(["new", "mid"]);
+  });
+
+  it("新快照单独超限时仍然保留", () => {
+    const snapshots = appendConfigSnapshot(
+      [snapshot("old", "R1", 1)],
+      snapshot("huge", "R1", 2, MAX_SNAPSHOT_STORAGE_CHARS + 1)
+    );
+    expect(snapshots.map((entry) => entry.id)).toEqual(["huge"]);
+  });
+});
+
+describe("isQuotaExceededError", () => {
+  it("识别 localStorage 写满异常", () => {
+    expect(isQuotaExceededError(new DOMException("full", "QuotaExceededError"))).toBe(true);
+    expect(isQuotaExceededError(new DOMException("gecko", "NS_ERROR_DOM_QUOTA_REACHED"))).toBe(true);
+    expect(isQuotaExceededError(new Error("QuotaExceededError"))).toBe(false);
+  });
+});
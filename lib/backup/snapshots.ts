@@ -0,0 +1,76 @@
+import { isPromptVendor } from "@/lib/prompt";
+
+import type { ConfigSnapshot } from "./types";
+
+/** 每台设备保留的快照数量上限，超过后丢弃最早的快照 */
+export const MAX_SNAPSHOTS_PER_DEVICE = 10;
+
+/**
+ * 全部快照正文的字符总数上限。localStorage 通常只有约 5 MB（按 UTF-16 计），
+ * 留出余量给其他设置，超过后从最早的快照开始丢弃。
+ */
+export const MAX_SNAPSHOT_STORAGE_CHARS = 2_000_000;
+
+/** 快照写入本地存储时空间不足 */
+export class ConfigSnapshotQuotaError extends Error {
+  constructor(options?: { cause?: unknown }) {
+    super("Config snapshot storage is full", options);
+    this.name = "ConfigSnapshotQuotaError";
+  }
+}
+
+/** 识别各浏览器内核在 localStorage 写满时抛出的异常 */
+export function isQuotaExceededError(error: unknown) {
+  if (!(error instanceof DOMException)) {
+    return false;
+  }
+  return error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED" || error.code === 22;
+}
+
+export function sanitizeConfigSnapshot(entry: Partial<ConfigSnapshot> | null | undefined): ConfigSnapshot | null {
+  if (!entry) {
+    return null;
+  }
+  const id = typeof entry.id === "string" ? entry.id.trim() : "";
+  const hostname = typeof entry.hostname === "string" ? entry.hostname.trim() : "";
+  if (!id || !hostname || typeof entry.content !== "string") {
+    return null;
+  }
+  return {
+    id,
+    hostname,
+    vendor: isPromptVendor(entry.vendor) ? entry.vendor : "cisco-ios",
+    host: typeof entry.host === "string" ? entry.host : "",
+    port: typeof entry.port === "number" && Number.isFinite(entry.port) ? entry.port : 23,
+    capturedAt: typeof entry.capturedAt === "number" && Number.isFinite(entry.capturedAt) ? entry.capturedAt : Date.now(),
+    content: entry.content,
+  } satisfies ConfigSnapshot;
+}
+
+/**
+ * 追加快照并按设备数量与总体积裁剪历史，结果按时间倒序排列。
+ * 新快照本身总是保留，即使它单独就超过体积上限。
+ */
+export function appendConfigSnapshot(snapshots: ConfigSnapshot[], snapshot: ConfigSnapshot) {
+  const next = [snapshot, ...snapshots.filter((entry) => entry.id !== snapshot.id)].sort(
+    (a, b) => b.capturedAt - a.capturedAt
+  );
+  const counts = new Map<string, number>();
+  let size = 0;
+  return next.filter((entry) => {
+    const count = (counts.get(entry.hostname) ?? 0) + 1;
+    counts.set(entry.hostname, count);
+    if (count > MAX_SNAPSHOTS_PER_DEVICE) {
+      return false;
+    }
+    size += entry.content.length;
+    return entry.id === snapshot.id || size <= MAX_SNAPSHOT_STORAGE_CHARS;
+  });
+}
+
+export function generateConfigSnapshotId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return `snapshot-${crypto.randomUUID()}`;
+  }
+  return `snapshot-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,35 @@
+import type { PromptVendor } from "@/lib/prompt";
+
+export type ConfigSnapshot = {
+  id: string;
+  /** 快照按提示符中识别出的主机名归档，同一设备更换 IP 后仍能对比 */
+  hostname: string;
+  vendor: PromptVendor;
+  host: string;
+  port: number;
+  capturedAt: number;
+  content: string;
+};
+
+export type ConfigCommandPlan = {
+  /** 关闭分页的命令，null 表示该平台无需关闭 */
+  disablePaging: string | null;
+  show: string;
+};
+
+export type ConfigDiffSide = {
+  line: number;
+  text: string;
+};
+
+export type ConfigDiffRow =
+  | { type: "same"; left: ConfigDiffSide; right: ConfigDiffSide }
+  | { type: "removed"; left: ConfigDiffSide; right?: undefined }
+  | { type: "added"; left?: undefined; right: ConfigDiffSide }
+  | { type: "changed"; left: ConfigDiffSide; right: ConfigDiffSide };
+
+export type ConfigDiffSummary = {
+  rows: ConfigDiffRow[];
+  added: number;
+  removed: number;
+};
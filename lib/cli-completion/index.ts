@@ -0,0 +1,3 @@
+export { MAX_COMPLETION_SUGGESTIONS, resolveCommandNodes, suggestCompletions } from "./suggest";
+export { VENDOR_COMMAND_TREES } from "./trees";
+export type { CommandNode, CompletionSuggestion, VendorCommandTree } from "./types";
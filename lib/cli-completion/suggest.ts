@@ -0,0 +1,76 @@
+import type { CliMode, PromptVendor } from "@/lib/prompt";
+
+import { VENDOR_COMMAND_TREES } from "./trees";
+import type { CommandNode, CompletionSuggestion, VendorCommandTree } from "./types";
+
+export const MAX_COMPLETION_SUGGESTIONS = 8;
+
+function isParameter(node: CommandNode) {
+  return node.keyword.startsWith("<");
+}
+
+/** 按厂商与 CLI 模式选出当前可用的顶层命令；没有命令树时返回 null */
+export function resolveCommandNodes(vendor: PromptVendor, mode: CliMode, context?: string) {
+  const tree: VendorCommandTree | undefined = VENDOR_COMMAND_TREES[vendor];
+  if (!tree) {
+    return null;
+  }
+  if (mode === "user-exec" || mode === "privileged") {
+    return { nodes: tree.exec, negation: tree.negation };
+  }
+  const view = mode === "sub-config" && context ? tree.views?.find((candidate) => candidate.context.test(context)) : undefined;
+  return { nodes: view?.nodes ?? tree.config, negation: tree.negation };
+}
+
+/**
+ * 与设备一样允许缩写：完整关键字或唯一前缀即可匹配，参数占位匹配任意输入。
+ * 有歧义或无法识别时返回 null。
+ */
+function matchToken(nodes: CommandNode[], token: string) {
+  const lower = token.toLowerCase();
+  const keywords = nodes.filter((node) => !isParameter(node));
+  const exact = keywords.find((node) => node.keyword.toLowerCase() === lower);
+  if (exact) {
+    return exact;
+  }
+  const prefixed = keywords.filter((node) => node.keyword.toLowerCase().startsWith(lower));
+  if (prefixed.length === 1) {
+    return prefixed[0];
+  }
+  if (prefixed.length > 1) {
+    return null;
+  }
+  return nodes.find(isParameter) ?? null;
+}
+
+/**
+ * 根据当前输入行给出下一个关键字的候选。最后一个未以空白结束的词视为正在输入的前缀，
+ * completion 为需要补写的剩余字符（加一个空格）。
+ */
+export function suggestCompletions(
+  root: { nodes: CommandNode[]; negation?: string },
+  input: string
+): CompletionSuggestion[] {
+  const tokens = input.trimStart().split(/\s+/);
+  const partial = tokens.pop() ?? "";
+  let nodes = root.nodes;
+  tokens.forEach((token, index) => {
+    if (index === 0 && root.negation && token.toLowerCase() === root.negation) {
+      return;
+    }
+    const matched = nodes.length > 0 ? matchToken(nodes, token) : null;
+    nodes = matched?.children ?? [];
+  });
+  if (tokens.length === 0 && !partial) {
+    return [];
+  }
+  const lower = partial.toLowerCase();
+  const keywords = nodes.filter((node) => !isParameter(node) && node.keyword.toLowerCase().startsWith(lower));
+  const candidates = keywords.length > 0 || partial ? keywords : nodes;
+  const parameters = partial && keywords.length === 0 ? nodes.filter(isParameter) : [];
+  return [...candidates, ...parameters].slice(0, MAX_COMPLETION_SUGGESTIONS).map((node) => ({
+    keyword: node.keyword,
+    description: node.description,
+    completion: isParameter(node) ? null : `${node.keyword.slice(partial.length)} `,
+  }));
+}
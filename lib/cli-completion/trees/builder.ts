@@ -0,0 +1,6 @@
+import type { CommandNode } from "../types";
+
+/** 命令树的简写：cmd("show", "Show running system information", [...]) */
+export function cmd(keyword: string, description?: string, children?: CommandNode[]): CommandNode {
+  return children ? { keyword, description, children } : { keyword, description };
+}
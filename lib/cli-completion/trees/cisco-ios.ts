@@ -0,0 +1,218 @@
+import type { CommandNode, VendorCommandTree } from "../types";
+import { cmd } from "./builder";
+
+const INTERFACE = cmd("<interface>", "Interface name, e.g. GigabitEthernet0/1");
+
+const SHOW_COMMANDS: CommandNode[] = [
+  cmd("running-config", "Current operating configuration", [
+    cmd("interface", "Show interface configuration", [INTERFACE]),
+    cmd("|", "Output modifiers"),
+  ]),
+  cmd("startup-config", "Contents of startup configuration"),
+  cmd("version", "System hardware and software status"),
+  cmd("interfaces", "Interface status and configuration", [
+    cmd("status", "Show interface line status"),
+    cmd("trunk", "Show interface trunk information"),
+    cmd("description", "Show interface description"),
+    INTERFACE,
+  ]),
+  cmd("ip", "IP information", [
+    cmd("interface", "IP interface status and configuration", [cmd("brief", "Brief summary of IP status")]),
+    cmd("route", "IP routing table", [cmd("<prefix>", "Network to display information about")]),
+    cmd("ospf", "OSPF information", [
+      cmd("neighbor", "Neighbor list"),
+      cmd("interface", "Interface information"),
+      cmd("database", "Database summary"),
+    ]),
+    cmd("bgp", "BGP information", [cmd("summary", "Summary of BGP neighbor status")]),
+    cmd("eigrp", "EIGRP information", [cmd("neighbors", "EIGRP neighbors")]),
+    cmd("arp", "IP ARP table"),
+    cmd("protocols", "IP routing protocol process parameters and statistics"),
+    cmd("access-lists", "List IP access lists"),
+  ]),
+  cmd("vlan", "VTP VLAN status", [cmd("brief", "VTP all VLAN status in brief")]),
+  cmd("mac", "MAC configuration", [cmd("address-table", "MAC forwarding table")]),
+  cmd("cdp", "CDP information", [cmd("neighbors", "CDP neighbor entries", [cmd("detail", "Show detailed information")])]),
+  cmd("lldp", "LLDP information", [cmd("neighbors", "LLDP neighbor entries")]),
+  cmd("spanning-tree", "Spanning tree topology"),
+  cmd("etherchannel", "EtherChannel information", [cmd("summary", "One-line summary per channel-group")]),
+  cmd("arp", "ARP table"),
+  cmd("clock", "Display the system clock"),
+  cmd("logging", "Show the contents of logging buffers"),
+  cmd("users", "Display information about terminal lines"),
+  cmd("inventory", "Show the physical inventory"),
+  cmd("processes", "Active process statistics", [cmd("cpu", "Show CPU usage per process")]),
+];
+
+const EXEC: CommandNode[] = [
+  cmd("show", "Show running system information", SHOW_COMMANDS),
+  cmd("enable", "Turn on privileged commands"),
+  cmd("disable", "Turn off privileged commands"),
+  cmd("configure", "Enter configuration mode", [cmd("terminal", "Configure from the terminal")]),
+  cmd("ping", "Send echo messages", [cmd("<host>", "Ping destination address or hostname")]),
+  cmd("traceroute", "Trace route to destination", [cmd("<host>", "Trace route to destination address or hostname")]),
+  cmd("telnet", "Open a telnet connection", [cmd("<host>", "IP address or hostname of a remote system")]),
+  cmd("ssh", "Open a secure shell client connection"),
+  cmd("copy", "Copy from one file to another", [
+    cmd("running-config", "Copy from current system configuration", [
+      cmd("startup-config", "Copy to startup configuration"),
+      cmd("tftp:", "Copy to tftp: file system"),
+    ]),
+    cmd("startup-config", "Copy from startup configuration"),
+    cmd("tftp:", "Copy from tftp: file system"),
+  ]),
+  cmd("write", "Write running configuration to memory, network, or terminal", [
+    cmd("memory", "Write to NV memory"),
+    cmd("erase", "Erase NV memory"),
+    cmd("terminal", "Write to terminal"),
+  ]),
+  cmd("reload", "Halt and perform a cold restart"),
+  cmd("clear", "Reset functions", [
+    cmd("counters", "Clear counters on one or all interfaces"),
+    cmd("ip", "IP", [cmd("route", "Delete route table entries"), cmd("ospf", "OSPF clear commands")]),
+    cmd("arp-cache", "Clear the entire ARP cache"),
+    cmd("line", "Reset a terminal line"),
+  ]),
+  cmd("debug", "Debugging functions", [cmd("ip", "IP information")]),
+  cmd("undebug", "Disable debugging functions", [cmd("all", "Disable all debugging")]),
+  cmd("terminal", "Set terminal line parameters", [
+    cmd("length", "Set number of lines on a screen", [cmd("<0-512>", "Number of lines, 0 disables paging")]),
+    cmd("width", "Set width of the display terminal"),
+    cmd("monitor", "Copy debug output to the current terminal line"),
+  ]),
+  cmd("dir", "List files on a filesystem"),
+  cmd("exit", "Exit from the EXEC"),
+];
+
+const CONFIG: CommandNode[] = [
+  cmd("hostname", "Set system's network name", [cmd("<name>", "This system's network name")]),
+  cmd("interface", "Select an interface to configure", [
+    INTERFACE,
+    cmd("range", "Interface range command"),
+    cmd("loopback", "Loopback interface", [cmd("<number>", "Loopback interface number")]),
+    cmd("vlan", "VLAN interface", [cmd("<vlan-id>", "VLAN interface number")]),
+  ]),
+  cmd("router", "Enable a routing process", [
+    cmd("ospf", "Open Shortest Path First (OSPF)", [cmd("<process-id>", "Process ID")]),
+    cmd("eigrp", "Enhanced Interior Gateway Routing Protocol (EIGRP)", [cmd("<as-number>", "Autonomous system number")]),
+    cmd("bgp", "Border Gateway Protocol (BGP)", [cmd("<as-number>", "Autonomous system number")]),
+    cmd("rip", "Routing Information Protocol (RIP)"),
+  ]),
+  cmd("ip", "Global IP configuration subcommands", [
+    cmd("route", "Establish static routes", [cmd("<prefix>", "Destination prefix", [cmd("<mask>", "Destination prefix mask")])]),
+    cmd("routing", "Enable IP routing"),
+    cmd("domain-name", "Define the default domain name"),
+    cmd("name-server", "Specify address of name server to use"),
+    cmd("access-list", "Named access-list", [cmd("standard", "Standard access list"), cmd("extended", "Extended access list")]),
+    cmd("dhcp", "Configure DHCP server and relay parameters", [
+      cmd("pool", "Configure DHCP address pools"),
+      cmd("excluded-address", "Prevent DHCP from assigning certain addresses"),
+    ]),
+    cmd("nat", "NAT configuration commands"),
+    cmd("ssh", "Configure ssh options", [cmd("version", "Specify protocol version supported")]),
+  ]),
+  cmd("vlan", "VLAN commands", [cmd("<vlan-id>", "ISL VLAN IDs 1-1005")]),
+  cmd("access-list", "Add an access list entry", [cmd("<number>", "Access list number")]),
+  cmd("line", "Configure a terminal line", [
+    cmd("console", "Primary terminal line", [cmd("0", "First line number")]),
+    cmd("vty", "Virtual terminal", [cmd("<first>", "First line number")]),
+  ]),
+  cmd("username", "Establish user name authentication", [cmd("<name>", "User name")]),
+  cmd("enable", "Modify enable password parameters", [cmd("secret", "Assign the privileged level secret"), cmd("password", "Assign the privileged level password")]),
+  cmd("banner", "Define a login banner", [cmd("motd", "Set Message of the Day banner"), cmd("login", "Set login banner")]),
+  cmd("service", "Modify use of network based services", [cmd("password-encryption", "Encrypt system passwords")]),
+  cmd("spanning-tree", "Spanning Tree Subsystem", [
+    cmd("mode", "Spanning tree operating mode", [cmd("pvst", "Per-Vlan spanning tree mode"), cmd("rapid-pvst", "Per-Vlan rapid spanning tree mode"), cmd("mst", "Multiple spanning tree mode")]),
+    cmd("vlan", "VLAN Switch Spanning Tree"),
+  ]),
+  cmd("logging", "Modify message logging facilities"),
+  cmd("ntp", "Configure NTP", [cmd("server", "Configure NTP server")]),
+  cmd("snmp-server", "Modify SNMP engine parameters"),
+  cmd("cdp", "Global CDP configuration subcommands", [cmd("run", "Enable CDP")]),
+  cmd("do", "To run exec commands in config mode", EXEC),
+  cmd("end", "Exit from configure mode"),
+  cmd("exit", "Exit from configure mode"),
+];
+
+const INTERFACE_VIEW: CommandNode[] = [
+  cmd("description", "Interface specific description", [cmd("<text>", "Up to 240 characters describing this interface")]),
+  cmd("ip", "Interface Internet Protocol config commands", [
+    cmd("address", "Set the IP address of an interface", [
+      cmd("<address>", "IP address", [cmd("<mask>", "IP subnet mask")]),
+      cmd("dhcp", "IP Address negotiated via DHCP"),
+    ]),
+    cmd("ospf", "OSPF interface commands", [cmd("cost", "Interface cost"), cmd("<process-id>", "Process ID")]),
+    cmd("helper-address", "Specify a destination address for UDP broadcasts"),
+    cmd("access-group", "Specify access control for packets"),
+    cmd("nat", "NAT interface commands", [cmd("inside", "Inside interface for address translation"), cmd("outside", "Outside interface for address translation")]),
+  ]),
+  cmd("shutdown", "Shutdown the selected interface"),
+  cmd("switchport", "Set switching mode characteristics", [
+    cmd("mode", "Set trunking mode of the interface", [cmd("access", "Set trunking mode to ACCESS unconditionally"), cmd("trunk", "Set trunking mode to TRUNK unconditionally")]),
+    cmd("access", "Set access mode characteristics of the interface", [cmd("vlan", "Set VLAN when interface is in access mode", [cmd("<vlan-id>", "VLAN ID of the VLAN")])]),
+    cmd("trunk", "Set trunking characteristics of the interface", [
+      cmd("allowed", "Set allowed VLAN characteristics", [cmd("vlan", "Set allowed VLANs", [cmd("<vlan-list>", "VLAN IDs of the allowed VLANs")])]),
+      cmd("native", "Set trunking native characteristics", [cmd("vlan", "Set native VLAN")]),
+      cmd("encapsulation", "Set trunking encapsulation", [cmd("dot1q", "Interface uses only 802.1q trunking encapsulation")]),
+    ]),
+    cmd("port-security", "Security related command"),
+  ]),
+  cmd("speed", "Configure speed operation"),
+  cmd("duplex", "Configure duplex operation", [cmd("auto", "Enable AUTO duplex configuration"), cmd("full", "Force full duplex operation"), cmd("half", "Force half-duplex operation")]),
+  cmd("channel-group", "Etherchannel/port bundling configuration", [cmd("<number>", "Channel group number")]),
+  cmd("spanning-tree", "Spanning Tree Subsystem", [cmd("portfast", "Portfast options for the interface"), cmd("bpduguard", "Don't accept BPDUs on this interface")]),
+  cmd("encapsulation", "Set encapsulation type for an interface", [cmd("dot1Q", "IEEE 802.1Q Virtual LAN", [cmd("<vlan-id>", "IEEE 802.1Q VLAN ID")])]),
+  cmd("mtu", "Set the interface Maximum Transmission Unit (MTU)"),
+  cmd("do", "To run exec commands in config mode", EXEC),
+  cmd("exit", "Exit from interface configuration mode"),
+  cmd("end", "Exit from configure mode"),
+];
+
+const ROUTER_VIEW: CommandNode[] = [
+  cmd("network", "Enable routing on an IP network", [cmd("<address>", "Network number", [cmd("<wildcard>", "Wildcard bits", [cmd("area", "Set the OSPF area ID")])])]),
+  cmd("router-id", "Router ID for this routing process", [cmd("<router-id>", "Router ID in IP address format")]),
+  cmd("neighbor", "Specify a neighbor router", [cmd("<address>", "Neighbor address", [cmd("remote-as", "Specify a BGP neighbor"), cmd("update-source", "Source of routing updates")])]),
+  cmd("passive-interface", "Suppress routing updates on an interface", [cmd("default", "Suppress routing updates on all interfaces"), INTERFACE]),
+  cmd("redistribute", "Redistribute information from another routing protocol", [
+    cmd("connected", "Connected"),
+    cmd("static", "Static routes"),
+    cmd("ospf", "Open Shortest Path First (OSPF)"),
+    cmd("bgp", "Border Gateway Protocol (BGP)"),
+  ]),
+  cmd("default-information", "Control distribution of default information", [cmd("originate", "Distribute a default route")]),
+  cmd("auto-summary", "Enable automatic network number summarization"),
+  cmd("version", "Set routing protocol version"),
+  cmd("do", "To run exec commands in config mode", EXEC),
+  cmd("exit", "Exit from routing protocol configuration mode"),
+  cmd("end", "Exit from configure mode"),
+];
+
+const LINE_VIEW: CommandNode[] = [
+  cmd("password", "Set a password", [cmd("<password>", "The unencrypted (cleartext) line password")]),
+  cmd("login", "Enable password checking", [cmd("local", "Local password checking")]),
+  cmd("transport", "Define transport protocols for line", [cmd("input", "Define which protocols to use when connecting to the terminal server", [cmd("ssh", "TCP/IP SSH protocol"), cmd("telnet", "TCP/IP Telnet protocol"), cmd("all", "All protocols")])]),
+  cmd("exec-timeout", "Set the EXEC timeout", [cmd("<minutes>", "Timeout in minutes")]),
+  cmd("logging", "Modify message logging facilities", [cmd("synchronous", "Synchronized message output")]),
+  cmd("privilege", "Change privilege level for line", [cmd("level", "Assign default privilege level for line")]),
+  cmd("exit", "Exit from line configuration mode"),
+  cmd("end", "Exit from configure mode"),
+];
+
+const VLAN_VIEW: CommandNode[] = [
+  cmd("name", "Ascii name of the VLAN", [cmd("<name>", "The ascii name for the VLAN")]),
+  cmd("exit", "Apply changes, bump revision number, and exit mode"),
+  cmd("end", "Exit from configure mode"),
+];
+
+/** Cisco IOS / IOS-XE；NX-OS 与 Arista EOS 语法相近，同样使用这棵树 */
+export const CISCO_IOS_TREE: VendorCommandTree = {
+  exec: EXEC,
+  config: CONFIG,
+  views: [
+    { context: /^(if|subif|if-range)$/, nodes: INTERFACE_VIEW },
+    { context: /^router/, nodes: ROUTER_VIEW },
+    { context: /^line/, nodes: LINE_VIEW },
+    { context: /^vlan$/, nodes: VLAN_VIEW },
+  ],
+  negation: "no",
+};
@@ -0,0 +1,148 @@
+import type { CommandNode, VendorCommandTree } from "../types";
+import { cmd } from "./builder";
+
+const INTERFACE = cmd("<interface>", "Interface name, e.g. GigabitEthernet1/0/1");
+
+const DISPLAY_COMMANDS: CommandNode[] = [
+  cmd("current-configuration", "Running configuration", [cmd("interface", "Interface configuration", [INTERFACE]), cmd("|", "Filter command output")]),
+  cmd("saved-configuration", "Contents of the next-startup configuration file"),
+  cmd("version", "System version information"),
+  cmd("interface", "Interface status", [cmd("brief", "Brief information of interface(s)"), INTERFACE]),
+  cmd("ip", "IP information", [
+    cmd("interface", "IP interface information", [cmd("brief", "Brief information of IP interface(s)")]),
+    cmd("routing-table", "IP routing table", [cmd("protocol", "Routing information of a protocol"), cmd("<prefix>", "Destination IP address")]),
+  ]),
+  cmd("ospf", "OSPF information", [cmd("peer", "OSPF neighbor"), cmd("lsdb", "Link state database"), cmd("interface", "Interface information")]),
+  cmd("bgp", "BGP information", [cmd("peer", "BGP peer information", [cmd("ipv4", "IPv4 address family")])]),
+  cmd("vlan", "VLAN information", [cmd("brief", "Brief information"), cmd("<vlan-id>", "VLAN ID")]),
+  cmd("mac-address", "MAC address table"),
+  cmd("arp", "ARP entries"),
+  cmd("lldp", "Link Layer Discovery Protocol", [cmd("neighbor-information", "Neighbor information", [cmd("list", "List of neighbors")])]),
+  cmd("stp", "Spanning tree information", [cmd("brief", "Brief information")]),
+  cmd("link-aggregation", "Link aggregation information", [cmd("summary", "Summary information"), cmd("verbose", "Detailed information")]),
+  cmd("device", "Device information"),
+  cmd("cpu-usage", "CPU usage information"),
+  cmd("memory", "Memory usage information"),
+  cmd("logbuffer", "Log buffer"),
+  cmd("users", "User line information"),
+  cmd("this", "Configuration of the current view"),
+];
+
+const EXEC: CommandNode[] = [
+  cmd("display", "Display current system information", DISPLAY_COMMANDS),
+  cmd("system-view", "Enter the System View"),
+  cmd("ping", "Ping function", [cmd("<host>", "IP address or hostname of remote system")]),
+  cmd("tracert", "Tracert function", [cmd("<host>", "IP address or hostname of remote system")]),
+  cmd("telnet", "Establish a Telnet connection", [cmd("<host>", "IP address or hostname of remote system")]),
+  cmd("ssh2", "Establish an SSH2 connection"),
+  cmd("save", "Save current configuration", [cmd("force", "Save without prompting")]),
+  cmd("reboot", "Reboot the device"),
+  cmd("reset", "Reset operation", [cmd("counters", "Clear counters", [cmd("interface", "Interface counters")]), cmd("arp", "Clear ARP entries")]),
+  cmd("debugging", "Enable system debugging functions"),
+  cmd("undo", "Cancel current setting", [cmd("debugging", "Disable system debugging functions", [cmd("all", "All debugging")])]),
+  cmd("screen-length", "Specify the lines displayed on one screen", [cmd("disable", "Disable multiple-screen output")]),
+  cmd("terminal", "Set the terminal line characteristics", [cmd("monitor", "Enable log output on the current terminal")]),
+  cmd("dir", "Display files and directories"),
+  cmd("quit", "Exit from current command view"),
+];
+
+const SYSTEM_VIEW: CommandNode[] = [
+  cmd("sysname", "Specify the system name", [cmd("<name>", "System name")]),
+  cmd("interface", "Specify an interface and enter interface view", [
+    INTERFACE,
+    cmd("Vlan-interface", "VLAN interface", [cmd("<vlan-id>", "Vlan-interface number")]),
+    cmd("LoopBack", "LoopBack interface", [cmd("<number>", "LoopBack interface number")]),
+    cmd("Bridge-Aggregation", "Layer 2 aggregate interface", [cmd("<number>", "Aggregation group number")]),
+  ]),
+  cmd("vlan", "Configure VLANs", [cmd("<vlan-id>", "VLAN ID")]),
+  cmd("ip", "IP configuration", [cmd("route-static", "Configure a static route", [cmd("<prefix>", "Destination IP address", [cmd("<mask>", "Mask or mask length")])])]),
+  cmd("ospf", "Open Shortest Path First (OSPF) module", [cmd("<process-id>", "Process ID", [cmd("router-id", "Specify the router ID")])]),
+  cmd("bgp", "Border Gateway Protocol (BGP) module", [cmd("<as-number>", "Autonomous system number")]),
+  cmd("rip", "Routing Information Protocol (RIP) module"),
+  cmd("acl", "Specify an ACL", [cmd("basic", "Basic ACL"), cmd("advanced", "Advanced ACL"), cmd("number", "Specify an ACL by number")]),
+  cmd("local-user", "Configure a local user", [cmd("<name>", "Local user name", [cmd("class", "Specify the user class", [cmd("manage", "Device management user"), cmd("network", "Network access user")])])]),
+  cmd("line", "Specify the user lines", [cmd("vty", "VTY line", [cmd("<first>", "First line number")]), cmd("aux", "AUX line"), cmd("console", "Console line")]),
+  cmd("stp", "Spanning tree protocol", [cmd("mode", "Specify the spanning tree mode", [cmd("stp", "STP mode"), cmd("rstp", "RSTP mode"), cmd("mstp", "MSTP mode"), cmd("pvst", "PVST mode")]), cmd("global", "Global configuration", [cmd("enable", "Enable spanning tree")])]),
+  cmd("ssh", "Secure Shell (SSH) module", [cmd("server", "SSH server", [cmd("enable", "Enable the SSH server")])]),
+  cmd("telnet", "Telnet module", [cmd("server", "Telnet server", [cmd("enable", "Enable the Telnet server")])]),
+  cmd("dhcp", "DHCP configuration", [cmd("enable", "Enable DHCP")]),
+  cmd("ntp-service", "Configure NTP service", [cmd("unicast-server", "Specify an NTP server")]),
+  cmd("snmp-agent", "Configure the SNMP agent"),
+  cmd("lldp", "Link Layer Discovery Protocol", [cmd("global", "Global configuration", [cmd("enable", "Enable LLDP")])]),
+  cmd("info-center", "Information center module"),
+  cmd("return", "Return to User View"),
+  cmd("quit", "Exit from current command view"),
+];
+
+const INTERFACE_VIEW: CommandNode[] = [
+  cmd("description", "Describe the interface", [cmd("<text>", "Up to 255 characters describing this interface")]),
+  cmd("ip", "IP configuration", [cmd("address", "Configure the IP address of the interface", [cmd("<address>", "IP address", [cmd("<mask>", "Mask or mask length")]), cmd("dhcp-alloc", "Obtain an IP address through DHCP")])]),
+  cmd("shutdown", "Shut down the interface"),
+  cmd("port", "Configure port settings", [
+    cmd("link-type", "Set the link type", [cmd("access", "Access link type"), cmd("trunk", "Trunk link type"), cmd("hybrid", "Hybrid link type")]),
+    cmd("access", "Access port", [cmd("vlan", "Assign the port to a VLAN", [cmd("<vlan-id>", "VLAN ID")])]),
+    cmd("trunk", "Trunk port", [cmd("permit", "Permit VLANs", [cmd("vlan", "VLAN", [cmd("<vlan-list>", "VLAN IDs"), cmd("all", "All VLANs")])]), cmd("pvid", "Set the PVID", [cmd("vlan", "VLAN", [cmd("<vlan-id>", "VLAN ID")])])]),
+    cmd("link-aggregation", "Link aggregation", [cmd("group", "Aggregation group", [cmd("<number>", "Aggregation group number")])]),
+  ]),
+  cmd("ospf", "OSPF interface commands", [cmd("cost", "Interface cost"), cmd("network-type", "Specify the OSPF network type"), cmd("<process-id>", "Process ID", [cmd("area", "Specify an area")])]),
+  cmd("stp", "Spanning tree protocol", [cmd("edged-port", "Configure the port as an edge port")]),
+  cmd("speed", "Set the interface speed"),
+  cmd("duplex", "Set the duplex mode", [cmd("auto", "Autonegotiation"), cmd("full", "Full duplex"), cmd("half", "Half duplex")]),
+  cmd("mtu", "Set the maximum transmission unit"),
+  cmd("display", "Display current system information", [cmd("this", "Configuration of the current view")]),
+  cmd("return", "Return to User View"),
+  cmd("quit", "Exit from current command view"),
+];
+
+const PROTOCOL_VIEW: CommandNode[] = [
+  cmd("area", "Specify an OSPF area", [cmd("<area-id>", "OSPF area ID")]),
+  cmd("network", "Specify a network", [cmd("<address>", "Network address", [cmd("<wildcard>", "Wildcard mask")])]),
+  cmd("peer", "Specify a BGP peer", [cmd("<address>", "Peer IP address", [cmd("as-number", "Specify the AS number of the peer"), cmd("connect-interface", "Set the source interface")])]),
+  cmd("address-family", "Specify an address family", [cmd("ipv4", "IPv4 address family", [cmd("unicast", "Unicast")])]),
+  cmd("import-route", "Redistribute routes from another protocol", [cmd("direct", "Direct routes"), cmd("static", "Static routes"), cmd("ospf", "OSPF routes"), cmd("bgp", "BGP routes")]),
+  cmd("silent-interface", "Disable sending packets on an interface", [cmd("all", "All interfaces"), INTERFACE]),
+  cmd("default-route-advertise", "Advertise a default route"),
+  cmd("display", "Display current system information", [cmd("this", "Configuration of the current view")]),
+  cmd("return", "Return to User View"),
+  cmd("quit", "Exit from current command view"),
+];
+
+const LOCAL_USER_VIEW: CommandNode[] = [
+  cmd("password", "Specify the password", [cmd("simple", "Plaintext password"), cmd("hash", "Hashed password")]),
+  cmd("service-type", "Specify the service types", [cmd("telnet", "Telnet service"), cmd("ssh", "SSH service"), cmd("terminal", "Terminal service"), cmd("http", "HTTP service"), cmd("https", "HTTPS service")]),
+  cmd("authorization-attribute", "Specify authorization attributes", [cmd("user-role", "Specify a user role", [cmd("network-admin", "Network administrator"), cmd("network-operator", "Network operator")])]),
+  cmd("return", "Return to User View"),
+  cmd("quit", "Exit from current command view"),
+];
+
+const LINE_VIEW: CommandNode[] = [
+  cmd("authentication-mode", "Specify the login authentication mode", [cmd("scheme", "AAA authentication"), cmd("password", "Password authentication"), cmd("none", "No authentication")]),
+  cmd("protocol", "Specify the protocols", [cmd("inbound", "Inbound protocols", [cmd("telnet", "Telnet protocol"), cmd("ssh", "SSH protocol"), cmd("all", "All protocols")])]),
+  cmd("user-role", "Specify the user role", [cmd("<role>", "User role name")]),
+  cmd("idle-timeout", "Specify the idle timeout", [cmd("<minutes>", "Minutes")]),
+  cmd("screen-length", "Specify the lines displayed on one screen"),
+  cmd("return", "Return to User View"),
+  cmd("quit", "Exit from current command view"),
+];
+
+const VLAN_VIEW: CommandNode[] = [
+  cmd("description", "Describe the VLAN", [cmd("<text>", "VLAN description")]),
+  cmd("name", "Specify the VLAN name", [cmd("<name>", "VLAN name")]),
+  cmd("port", "Assign ports to the VLAN", [INTERFACE]),
+  cmd("return", "Return to User View"),
+  cmd("quit", "Exit from current command view"),
+];
+
+/** 新华三 Comware V7；视图上下文取自 [HOST-xxx] 的后缀 */
+export const H3C_COMWARE_TREE: VendorCommandTree = {
+  exec: EXEC,
+  config: SYSTEM_VIEW,
+  views: [
+    { context: /^(ospf|bgp|rip)/i, nodes: PROTOCOL_VIEW },
+    { context: /^luser-/i, nodes: LOCAL_USER_VIEW },
+    { context: /^line-/i, nodes: LINE_VIEW },
+    { context: /^vlan\d+$/i, nodes: VLAN_VIEW },
+    { context: /^[a-z-]+\d/i, nodes: INTERFACE_VIEW },
+  ],
+  negation: "undo",
+};
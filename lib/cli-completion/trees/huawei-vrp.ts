@@ -0,0 +1,156 @@
+import type { CommandNode, VendorCommandTree } from "../types";
+import { cmd } from "./builder";
+
+const INTERFACE = cmd("<interface>", "Interface name, e.g. GigabitEthernet0/0/1");
+
+const DISPLAY_COMMANDS: CommandNode[] = [
+  cmd("current-configuration", "Current configuration", [
+    cmd("interface", "Interface configuration", [INTERFACE]),
+    cmd("|", "Matching output"),
+  ]),
+  cmd("saved-configuration", "Saved configuration"),
+  cmd("version", "Version information"),
+  cmd("interface", "Interface status and configuration information", [cmd("brief", "Brief information of interface(s)"), cmd("description", "Interface description"), INTERFACE]),
+  cmd("ip", "IP information", [
+    cmd("interface", "IP interface information", [cmd("brief", "Brief information of IP interface(s)")]),
+    cmd("routing-table", "IP routing table", [cmd("protocol", "Routing information of a protocol"), cmd("<prefix>", "Destination IP address")]),
+  ]),
+  cmd("ospf", "OSPF information", [cmd("peer", "OSPF neighbor", [cmd("brief", "Brief information of neighbor")]), cmd("lsdb", "Link state database"), cmd("interface", "Interface information")]),
+  cmd("bgp", "BGP information", [cmd("peer", "BGP peer information")]),
+  cmd("vlan", "VLAN information", [cmd("<vlan-id>", "VLAN ID")]),
+  cmd("mac-address", "MAC address table"),
+  cmd("arp", "ARP entries", [cmd("all", "All ARP entries")]),
+  cmd("lldp", "Link Layer Discovery Protocol", [cmd("neighbor", "Neighbor information", [cmd("brief", "Brief information")])]),
+  cmd("stp", "Spanning tree information", [cmd("brief", "Brief information")]),
+  cmd("eth-trunk", "Eth-Trunk interface information"),
+  cmd("device", "Device status"),
+  cmd("cpu-usage", "CPU usage information"),
+  cmd("memory-usage", "Memory usage information"),
+  cmd("logbuffer", "Log buffer"),
+  cmd("users", "User interface state"),
+  cmd("this", "Configuration of the current view"),
+];
+
+const EXEC: CommandNode[] = [
+  cmd("display", "Display information", DISPLAY_COMMANDS),
+  cmd("system-view", "Enter the system view"),
+  cmd("ping", "Ping function", [cmd("<host>", "IP address or host name of a remote system")]),
+  cmd("tracert", "Trace route function", [cmd("<host>", "IP address or host name of a remote system")]),
+  cmd("telnet", "Open a telnet connection", [cmd("<host>", "IP address or host name of a remote system")]),
+  cmd("stelnet", "Open an STelnet connection"),
+  cmd("save", "Save current configuration"),
+  cmd("reboot", "Reboot the device"),
+  cmd("reset", "Reset operation", [cmd("counters", "Reset statistics counters", [cmd("interface", "Interface counters")]), cmd("arp", "Reset ARP entries")]),
+  cmd("debugging", "Enable system debugging functions"),
+  cmd("undo", "Negate a command or set its defaults", [cmd("debugging", "Disable system debugging functions", [cmd("all", "All debugging")])]),
+  cmd("screen-length", "Set the number of lines displayed on a screen", [cmd("<0-512>", "Number of lines, 0 disables paging", [cmd("temporary", "Temporary setting for the current user")])]),
+  cmd("terminal", "Set the terminal line characteristics", [cmd("monitor", "Send information output to the current terminal")]),
+  cmd("dir", "List files on a file system"),
+  cmd("compare", "Compare function", [cmd("configuration", "Compare current and saved configuration")]),
+  cmd("quit", "Exit from the current system view"),
+];
+
+const SYSTEM_VIEW: CommandNode[] = [
+  cmd("sysname", "Set the host name", [cmd("<name>", "Host name")]),
+  cmd("interface", "Specify the interface configuration view", [
+    INTERFACE,
+    cmd("Vlanif", "Vlanif interface", [cmd("<vlan-id>", "Vlanif interface number")]),
+    cmd("LoopBack", "LoopBack interface", [cmd("<number>", "LoopBack interface number")]),
+    cmd("Eth-Trunk", "Ethernet-Trunk interface", [cmd("<number>", "Eth-Trunk interface number")]),
+  ]),
+  cmd("vlan", "Configure VLAN", [cmd("batch", "Batch create VLANs"), cmd("<vlan-id>", "VLAN ID")]),
+  cmd("ip", "Specify IP configuration", [
+    cmd("route-static", "Establish static routes", [cmd("<prefix>", "Destination IP address", [cmd("<mask>", "Mask or mask length")])]),
+  ]),
+  cmd("ospf", "Open Shortest Path First (OSPF)", [cmd("<process-id>", "Process ID", [cmd("router-id", "Router identifier")])]),
+  cmd("bgp", "Border Gateway Protocol (BGP)", [cmd("<as-number>", "AS number")]),
+  cmd("rip", "Routing Information Protocol (RIP)"),
+  cmd("acl", "Specify ACL configuration information", [cmd("number", "Specify an ACL number"), cmd("name", "Specify a named ACL"), cmd("<number>", "ACL number")]),
+  cmd("aaa", "AAA view"),
+  cmd("user-interface", "Configure the user interface", [cmd("console", "Console user interface", [cmd("0", "User interface number")]), cmd("vty", "Virtual user interface", [cmd("<first>", "First user interface number")])]),
+  cmd("stp", "Spanning tree protocol", [cmd("mode", "Specify the spanning tree mode", [cmd("stp", "Spanning tree protocol"), cmd("rstp", "Rapid spanning tree protocol"), cmd("mstp", "Multiple spanning tree protocol")]), cmd("enable", "Enable spanning tree protocol")]),
+  cmd("dhcp", "DHCP configuration", [cmd("enable", "Enable DHCP")]),
+  cmd("ntp-service", "Specify NTP configuration", [cmd("unicast-server", "Specify an NTP server")]),
+  cmd("snmp-agent", "Enable the SNMP agent"),
+  cmd("lldp", "Link Layer Discovery Protocol", [cmd("enable", "Enable LLDP")]),
+  cmd("info-center", "Information center"),
+  cmd("stelnet", "STelnet protocol", [cmd("server", "STelnet server", [cmd("enable", "Enable the STelnet server")])]),
+  cmd("return", "Return to the user view"),
+  cmd("quit", "Exit from the current view"),
+];
+
+const INTERFACE_VIEW: CommandNode[] = [
+  cmd("description", "Describe the interface", [cmd("<text>", "Up to 242 characters describing this interface")]),
+  cmd("ip", "Specify IP configuration", [
+    cmd("address", "Configure the IP address of the interface", [cmd("<address>", "IP address", [cmd("<mask>", "Mask or mask length")]), cmd("dhcp-alloc", "Obtain an IP address through DHCP")]),
+  ]),
+  cmd("shutdown", "Shut down the interface"),
+  cmd("port", "Specify port configuration", [
+    cmd("link-type", "Set the link type of the port", [cmd("access", "Access port"), cmd("trunk", "Trunk port"), cmd("hybrid", "Hybrid port")]),
+    cmd("default", "Set the default VLAN of the port", [cmd("vlan", "VLAN", [cmd("<vlan-id>", "VLAN ID")])]),
+    cmd("trunk", "Trunk port", [cmd("allow-pass", "Allowed VLANs", [cmd("vlan", "VLAN", [cmd("<vlan-list>", "VLAN IDs"), cmd("all", "All VLANs")])]), cmd("pvid", "Default VLAN of the trunk port")]),
+  ]),
+  cmd("ospf", "OSPF interface commands", [cmd("cost", "Interface cost"), cmd("network-type", "Specify the OSPF network type")]),
+  cmd("eth-trunk", "Add the interface to an Eth-Trunk", [cmd("<number>", "Eth-Trunk interface number")]),
+  cmd("stp", "Spanning tree protocol", [cmd("edged-port", "Specify the port as an edge port", [cmd("enable", "Enable")])]),
+  cmd("speed", "Set the speed of the interface"),
+  cmd("duplex", "Set the duplex mode of the interface", [cmd("full", "Full duplex"), cmd("half", "Half duplex")]),
+  cmd("mtu", "Set the maximum transmission unit"),
+  cmd("dhcp", "DHCP configuration", [cmd("select", "Select an address pool", [cmd("interface", "Interface address pool"), cmd("global", "Global address pool")])]),
+  cmd("display", "Display information", [cmd("this", "Configuration of the current view")]),
+  cmd("return", "Return to the user view"),
+  cmd("quit", "Exit from the current view"),
+];
+
+const PROTOCOL_VIEW: CommandNode[] = [
+  cmd("area", "Specify an OSPF area", [cmd("<area-id>", "OSPF area ID")]),
+  cmd("network", "Specify a network", [cmd("<address>", "Network address", [cmd("<wildcard>", "Wildcard mask")])]),
+  cmd("peer", "Specify a BGP peer", [cmd("<address>", "Peer IP address", [cmd("as-number", "Specify the AS number of the peer"), cmd("connect-interface", "Set the source interface")])]),
+  cmd("import-route", "Import routes from other protocols", [cmd("direct", "Direct routes"), cmd("static", "Static routes"), cmd("ospf", "OSPF routes"), cmd("bgp", "BGP routes")]),
+  cmd("silent-interface", "Disable sending packets on an interface", [cmd("all", "All interfaces"), INTERFACE]),
+  cmd("default-route-advertise", "Advertise a default route"),
+  cmd("display", "Display information", [cmd("this", "Configuration of the current view")]),
+  cmd("return", "Return to the user view"),
+  cmd("quit", "Exit from the current view"),
+];
+
+const AAA_VIEW: CommandNode[] = [
+  cmd("local-user", "Configure a local user", [cmd("<name>", "User name", [
+    cmd("password", "Set the password", [cmd("cipher", "Cipher text password"), cmd("irreversible-cipher", "Irreversible cipher text password")]),
+    cmd("privilege", "Set the user level", [cmd("level", "Level")]),
+    cmd("service-type", "Set the service type", [cmd("telnet", "Telnet user"), cmd("ssh", "SSH user"), cmd("terminal", "Terminal user"), cmd("http", "HTTP user")]),
+  ])]),
+  cmd("return", "Return to the user view"),
+  cmd("quit", "Exit from the current view"),
+];
+
+const USER_INTERFACE_VIEW: CommandNode[] = [
+  cmd("authentication-mode", "Set the authentication mode", [cmd("aaa", "AAA authentication"), cmd("password", "Password authentication"), cmd("none", "No authentication")]),
+  cmd("protocol", "Set the protocol", [cmd("inbound", "Inbound protocol", [cmd("telnet", "Telnet protocol"), cmd("ssh", "SSH protocol"), cmd("all", "All protocols")])]),
+  cmd("user", "Configure the user", [cmd("privilege", "Set the user level", [cmd("level", "Level")])]),
+  cmd("idle-timeout", "Set the idle timeout", [cmd("<minutes>", "Minutes")]),
+  cmd("screen-length", "Set the number of lines displayed on a screen"),
+  cmd("return", "Return to the user view"),
+  cmd("quit", "Exit from the current view"),
+];
+
+const VLAN_VIEW: CommandNode[] = [
+  cmd("description", "Describe the VLAN", [cmd("<text>", "VLAN description")]),
+  cmd("name", "Set the VLAN name", [cmd("<name>", "VLAN name")]),
+  cmd("return", "Return to the user view"),
+  cmd("quit", "Exit from the current view"),
+];
+
+/** 华为 VRP；视图上下文取自 [HOST-xxx] 的后缀 */
+export const HUAWEI_VRP_TREE: VendorCommandTree = {
+  exec: EXEC,
+  config: SYSTEM_VIEW,
+  views: [
+    { context: /^(ospf|bgp|rip)/i, nodes: PROTOCOL_VIEW },
+    { context: /^aaa$/i, nodes: AAA_VIEW },
+    { context: /^ui-/i, nodes: USER_INTERFACE_VIEW },
+    { context: /^vlan\d+$/i, nodes: VLAN_VIEW },
+    { context: /^[a-z-]+\d/i, nodes: INTERFACE_VIEW },
+  ],
+  negation: "undo",
+};
@@ -0,0 +1,17 @@
+import type { PromptVendor } from "@/lib/prompt";
+
+import type { VendorCommandTree } from "../types";
+import { CISCO_IOS_TREE } from "./cisco-ios";
+import { H3C_COMWARE_TREE } from "./h3c-comware";
+import { HUAWEI_VRP_TREE } from "./huawei-vrp";
+import { JUNIPER_JUNOS_TREE } from "./juniper-junos";
+
+/** 各厂商离线命令树；MikroTik 与 Linux 不提供 */
+export const VENDOR_COMMAND_TREES: Partial<Record<PromptVendor, VendorCommandTree>> = {
+  "cisco-ios": CISCO_IOS_TREE,
+  "cisco-nxos": CISCO_IOS_TREE,
+  "arista-eos": CISCO_IOS_TREE,
+  "huawei-vrp": HUAWEI_VRP_TREE,
+  "h3c-comware": H3C_COMWARE_TREE,
+  "juniper-junos": JUNIPER_JUNOS_TREE,
+};
@@ -0,0 +1,102 @@
+import type { CommandNode, VendorCommandTree } from "../types";
+import { cmd } from "./builder";
+
+const INTERFACE = cmd("<interface>", "Interface name, e.g. ge-0/0/0");
+
+const SHOW_COMMANDS: CommandNode[] = [
+  cmd("configuration", "Show current configuration", [cmd("interfaces", "Interface configuration"), cmd("protocols", "Routing protocol configuration"), cmd("|", "Pipe through a command")]),
+  cmd("version", "Show software process revision levels"),
+  cmd("interfaces", "Show interface information", [cmd("terse", "Display terse output"), cmd("descriptions", "Display interface description strings"), INTERFACE]),
+  cmd("route", "Show routing table information", [cmd("summary", "Show route summary information"), cmd("protocol", "Name of protocol"), cmd("<prefix>", "Destination prefix")]),
+  cmd("ospf", "Show information about OSPF", [cmd("neighbor", "Show neighbor information"), cmd("interface", "Show interface information"), cmd("database", "Show link-state database")]),
+  cmd("bgp", "Show BGP information", [cmd("summary", "Show overview of BGP information"), cmd("neighbor", "Show BGP neighbors")]),
+  cmd("arp", "Show system Address Resolution Protocol table entries", [cmd("no-resolve", "Don't attempt to print names")]),
+  cmd("lldp", "Show LLDP information", [cmd("neighbors", "Show LLDP neighbor information")]),
+  cmd("ethernet-switching", "Show Ethernet-switching information", [cmd("table", "Show media access control table")]),
+  cmd("vlans", "Show VLAN information"),
+  cmd("chassis", "Show chassis information", [cmd("hardware", "Show installed hardware components"), cmd("alarms", "Show alarm status"), cmd("routing-engine", "Show Routing Engine status")]),
+  cmd("system", "Show system information", [cmd("uptime", "Show time since system and processes started"), cmd("alarms", "Show system alarm status"), cmd("commit", "Show pending commit and commit history"), cmd("users", "Show users who are currently logged in")]),
+  cmd("log", "Show contents of log file", [cmd("messages", "System log messages")]),
+];
+
+const EXEC: CommandNode[] = [
+  cmd("show", "Show system information", SHOW_COMMANDS),
+  cmd("configure", "Manipulate software configuration information", [cmd("private", "Work in private database"), cmd("exclusive", "Obtain exclusive lock")]),
+  cmd("ping", "Ping remote target", [cmd("<host>", "Hostname or address of remote host")]),
+  cmd("traceroute", "Trace route to remote host", [cmd("<host>", "Hostname or address of remote host")]),
+  cmd("ssh", "Start secure shell on another host"),
+  cmd("telnet", "Telnet to another host"),
+  cmd("request", "Make system-level requests", [cmd("system", "System operations", [cmd("reboot", "Reboot the system"), cmd("halt", "Halt the system"), cmd("zeroize", "Erase all data")])]),
+  cmd("clear", "Clear information in the system", [cmd("interfaces", "Clear interface information", [cmd("statistics", "Clear statistics")]), cmd("arp", "Clear ARP entries"), cmd("bgp", "Clear BGP information")]),
+  cmd("monitor", "Show real-time debugging information", [cmd("interface", "Show interface traffic"), cmd("traffic", "Show real-time network traffic information"), cmd("start", "Start showing log file in real time")]),
+  cmd("set", "Set CLI properties, date/time, craft interface message", [cmd("cli", "Set CLI properties", [cmd("screen-length", "Set number of lines on screen", [cmd("<lines>", "Number of lines, 0 disables paging")])])]),
+  cmd("file", "Perform file operations", [cmd("list", "List file information"), cmd("show", "Show file contents")]),
+  cmd("exit", "Exit the management session"),
+];
+
+const HIERARCHY: CommandNode[] = [
+  cmd("system", "System parameters", [
+    cmd("host-name", "Hostname for this router", [cmd("<name>", "Hostname")]),
+    cmd("root-authentication", "Authentication information for the root login", [cmd("plain-text-password", "Prompt for plain text password")]),
+    cmd("login", "Names, login classes, and passwords for users", [cmd("user", "Username", [cmd("<name>", "Username")])]),
+    cmd("services", "System services", [cmd("ssh", "Allow ssh access"), cmd("telnet", "Allow telnet login"), cmd("netconf", "Allow NETCONF connections")]),
+    cmd("name-server", "DNS name servers"),
+    cmd("ntp", "Network Time Protocol services", [cmd("server", "NTP server")]),
+    cmd("syslog", "System logging facility"),
+  ]),
+  cmd("interfaces", "Interface configuration", [
+    cmd("<interface>", "Interface name, e.g. ge-0/0/0", [
+      cmd("description", "Text description of interface", [cmd("<text>", "Description")]),
+      cmd("disable", "Disable this interface"),
+      cmd("unit", "Logical interface", [
+        cmd("<unit>", "Logical unit number", [
+          cmd("family", "Protocol family", [
+            cmd("inet", "IPv4 parameters", [cmd("address", "Interface address/destination prefix", [cmd("<prefix>", "Address, e.g. 10.0.0.1/24")])]),
+            cmd("inet6", "IPv6 protocol parameters"),
+            cmd("ethernet-switching", "Ethernet switching parameters", [cmd("interface-mode", "Interface mode", [cmd("access", "Access mode"), cmd("trunk", "Trunk mode")]), cmd("vlan", "VLAN membership", [cmd("members", "VLAN members")])]),
+          ]),
+          cmd("vlan-id", "Virtual LAN identifier value for 802.1q VLAN tags"),
+        ]),
+      ]),
+      cmd("mtu", "Maximum transmission unit packet size"),
+    ]),
+  ]),
+  cmd("protocols", "Routing protocol configuration", [
+    cmd("ospf", "OSPF configuration", [cmd("area", "Configure an OSPF area", [cmd("<area-id>", "Area ID", [cmd("interface", "Include an interface in this area", [INTERFACE])])])]),
+    cmd("bgp", "BGP options", [cmd("group", "Define a peer group", [cmd("<name>", "Group name")])]),
+    cmd("lldp", "Link Layer Discovery Protocol", [cmd("interface", "LLDP interface configuration")]),
+    cmd("rstp", "Rapid Spanning Tree Protocol options"),
+  ]),
+  cmd("routing-options", "Protocol-independent routing option configuration", [
+    cmd("static", "Static routes", [cmd("route", "Static route", [cmd("<prefix>", "Destination prefix", [cmd("next-hop", "Next hop to destination")])])]),
+    cmd("router-id", "Router identifier", [cmd("<router-id>", "Router ID")]),
+    cmd("autonomous-system", "Autonomous system number", [cmd("<as-number>", "AS number")]),
+  ]),
+  cmd("vlans", "VLAN configuration", [cmd("<name>", "VLAN name", [cmd("vlan-id", "IEEE 802.1q VLAN identifier", [cmd("<vlan-id>", "VLAN ID")])])]),
+  cmd("security", "Security configuration", [cmd("zones", "Zone configuration"), cmd("policies", "Configure Network Security Policies")]),
+  cmd("firewall", "Define a firewall configuration", [cmd("family", "Protocol family"), cmd("filter", "Define a firewall filter")]),
+  cmd("policy-options", "Policy option configuration", [cmd("policy-statement", "Routing policy")]),
+  cmd("snmp", "Simple Network Management Protocol configuration"),
+];
+
+const CONFIG: CommandNode[] = [
+  cmd("set", "Set a parameter", HIERARCHY),
+  cmd("delete", "Delete a data element", HIERARCHY),
+  cmd("edit", "Edit a sub-element", HIERARCHY),
+  cmd("show", "Show a parameter", [cmd("|", "Pipe through a command", [cmd("compare", "Compare configuration changes with prior version"), cmd("display", "Show additional kinds of information", [cmd("set", "Show 'set' commands that create configuration")])]), ...HIERARCHY]),
+  cmd("commit", "Commit current set of changes", [cmd("check", "Check correctness of syntax; do not apply changes"), cmd("confirmed", "Automatically rollback if not confirmed"), cmd("and-quit", "Quit configuration mode if commit succeeds"), cmd("comment", "Message to write to commit log")]),
+  cmd("rollback", "Roll back to previous committed configuration", [cmd("<number>", "Rollback number")]),
+  cmd("run", "Run an operational-mode command", EXEC),
+  cmd("top", "Exit to top level of configuration"),
+  cmd("up", "Exit one level of configuration"),
+  cmd("exit", "Exit from this level"),
+  cmd("quit", "Quit from this level"),
+  cmd("load", "Load configuration from ASCII file", [cmd("merge", "Merge contents with existing configuration"), cmd("override", "Override existing configuration")]),
+  cmd("status", "Show users currently editing configuration"),
+];
+
+/** Juniper Junos；[edit ...] 下的层级命令仍从顶层给出提示 */
+export const JUNIPER_JUNOS_TREE: VendorCommandTree = {
+  exec: EXEC,
+  config: CONFIG,
+};
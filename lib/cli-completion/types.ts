@@ -0,0 +1,25 @@
+/** 命令树节点；keyword 以 "<" 开头的是参数占位（如 <interface>），可匹配任意输入但不能被补全 */
+export type CommandNode = {
+  keyword: string;
+  description?: string;
+  children?: CommandNode[];
+};
+
+/** 一个厂商的离线命令树，按 CLI 模式划分 */
+export type VendorCommandTree = {
+  /** 用户模式与特权模式（Junos 操作模式） */
+  exec: CommandNode[];
+  /** 全局配置（VRP/Comware 系统视图、Junos 配置模式） */
+  config: CommandNode[];
+  /** 子配置视图，按提示符中的上下文匹配；都不匹配时退回 config */
+  views?: Array<{ context: RegExp; nodes: CommandNode[] }>;
+  /** 取消配置的前缀（IOS "no"、VRP "undo"），其后沿用同一层命令 */
+  negation?: string;
+};
+
+export type CompletionSuggestion = {
+  keyword: string;
+  description?: string;
+  /** 接受时写入设备的文本；参数占位为 null，只作提示 */
+  completion: string | null;
+};
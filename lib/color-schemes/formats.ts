@@ -0,0 +1,250 @@
+import { completeColorSchemeColors } from "./schemes";
+import {
+  ANSI_COLOR_KEYS,
+  type ColorScheme,
+  type ColorSchemeColors,
+  type ColorSchemeFormat,
+  type ColorSchemeKey,
+  type ImportedColorScheme,
+} from "./types";
+
+export const COLOR_SCHEME_FILE_EXTENSIONS: Record<ColorSchemeFormat, string> = {
+  itermcolors: ".itermcolors",
+  "windows-terminal": ".json",
+  xresources: ".Xresources",
+};
+
+const ITERM_KEYS: Record<string, ColorSchemeKey> = {
+  "Background Color": "background",
+  "Foreground Color": "foreground",
+  "Cursor Color": "cursor",
+  "Selection Color": "selection",
+  ...Object.fromEntries(ANSI_COLOR_KEYS.map((key, index) => [`Ansi ${index} Color`, key])),
+};
+
+// Windows Terminal 以 purple 命名品红
+const WINDOWS_TERMINAL_KEYS: Record<string, ColorSchemeKey> = {
+  background: "background",
+  foreground: "foreground",
+  cursorColor: "cursor",
+  selectionBackground: "selection",
+  ...Object.fromEntries(
+    ANSI_COLOR_KEYS.map((key) => [key === "magenta" ? "purple" : key === "brightMagenta" ? "brightPurple" : key, key])
+  ),
+};
+
+const XRESOURCES_KEYS: Record<string, ColorSchemeKey> = {
+  background: "background",
+  foreground: "foreground",
+  cursorcolor: "cursor",
+  highlightcolor: "selection",
+  ...Object.fromEntries(ANSI_COLOR_KEYS.map((key, index) => [`color${index}`, key])),
+};
+
+function baseName(fileName?: string) {
+  const name = fileName?.split(/[\\/]/).pop()?.replace(/\.[^.]+$/, "").trim();
+  return name || "Imported scheme";
+}
+
+export function detectColorSchemeFormat(text: string, fileName?: string): ColorSchemeFormat {
+  const lowerName = fileName?.toLowerCase() ?? "";
+  const trimmed = text.trimStart();
+  if (lowerName.endsWith(".itermcolors") || trimmed.startsWith("<?xml") || trimmed.startsWith("<plist")) {
+    return "itermcolors";
+  }
+  if (lowerName.endsWith(".json") || trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    return "windows-terminal";
+  }
+  return "xresources";
+}
+
+function decodeXml(value: string) {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function encodeXml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function componentToHex(value: number) {
+  return Math.round(Math.min(Math.max(value, 0), 1) * 255)
+    .toString(16)
+    .padStart(2, "0");
+}
+
+function parseItermColors(text: string, fileName?: string): Array<Partial<Record<string, unknown>> & { name: string }> {
+  if (!/<plist[\s>]/.test(text)) {
+    throw new Error("Not an .itermcolors property list");
+  }
+  const colors: Record<string, string> = {};
+  // 顶层每个颜色是 <key>名称</key><dict>…分量…</dict>，分量为 0-1 的实数
+  const entryPattern = /<key>([^<]+)<\/key>\s*<dict>([\s\S]*?)<\/dict>/g;
+  for (const entry of text.matchAll(entryPattern)) {
+    const key = ITERM_KEYS[decodeXml(entry[1]).trim()];
+    if (!key) {
+      continue;
+    }
+    const component = (name: string) => {
+      const match = new RegExp(`<key>${name} Component</key>\\s*<(?:real|integer)>([^<]+)</(?:real|integer)>`).exec(entry[2]);
+      return match ? Number.parseFloat(match[1]) : Number.NaN;
+    };
+    const rgb = [component("Red"), component("Green"), component("Blue")];
+    if (rgb.every((value) => Number.isFinite(value))) {
+      colors[key] = `#${rgb.map(componentToHex).join("")}`;
+    }
+  }
+  return [{ ...colors, name: baseName(fileName) }];
+}
+
+function parseWindowsTerminal(text: string, fileName?: string): Array<Partial<Record<string, unknown>> & { name: string }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid JSON");
+  }
+  // 支持单个方案、方案数组以及完整的 settings.json（取其中的 schemes）
+  const entries: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object" && Array.isArray((parsed as { schemes?: unknown }).schemes)
+      ? (parsed as { schemes: unknown[] }).schemes
+      : [parsed];
+
+  return entries.flatMap((entry) => {
+    if (!entry || typeof entry !== "object") {
+      return [];
+    }
+    const record = entry as Record<string, unknown>;
+    const colors: Record<string, unknown> = {};
+    for (const [source, key] of Object.entries(WINDOWS_TERMINAL_KEYS)) {
+      if (source in record) {
+        colors[key] = record[source];
+      }
+    }
+    const name = typeof record.name === "string" && record.name.trim() ? record.name.trim() : baseName(fileName);
+    return [{ ...colors, name }];
+  });
+}
+
+function parseXresources(text: string, fileName?: string): Array<Partial<Record<string, unknown>> & { name: string }> {
+  const defines = new Map<string, string>();
+  const colors: Record<string, string> = {};
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("!")) {
+      continue;
+    }
+    // base16 等主题常用 #define 定义调色板
+    const define = /^#define\s+(\S+)\s+(\S+)/.exec(line);
+    if (define) {
+      defines.set(define[1], define[2]);
+      continue;
+    }
+    const resource = /^([^:]+):\s*(\S+)/.exec(line);
+    if (!resource) {
+      continue;
+    }
+    const name = resource[1].trim().split(/[.*]/).pop()?.toLowerCase() ?? "";
+    const key = XRESOURCES_KEYS[name];
+    if (key) {
+      colors[key] = defines.get(resource[2]) ?? resource[2];
+    }
+  }
+
+  if (Object.keys(colors).length === 0) {
+    throw new Error("No Xresources color definitions found");
+  }
+  return [{ ...colors, name: baseName(fileName) }];
+}
+
+/**
+ * 解析 iTerm2 .itermcolors、Windows Terminal JSON 或 Xresources 文本。
+ * 缺失的颜色由 fallback 方案补齐；没有可用方案时抛出错误。
+ */
+export function parseColorSchemes(text: string, fallback: ColorSchemeColors, fileName?: string): ImportedColorScheme[] {
+  const format = detectColorSchemeFormat(text, fileName);
+  const entries =
+    format === "itermcolors"
+      ? parseItermColors(text, fileName)
+      : format === "windows-terminal"
+        ? parseWindowsTerminal(text, fileName)
+        : parseXresources(text, fileName);
+
+  const schemes = entries.flatMap((entry) => {
+    const colors = completeColorSchemeColors(entry, fallback);
+    return colors ? [{ ...colors, name: entry.name }] : [];
+  });
+  if (schemes.length === 0) {
+    throw new Error("No usable color scheme found (background and foreground are required)");
+  }
+  return schemes;
+}
+
+function serializeItermColors(scheme: ColorScheme) {
+  const entries = Object.entries(ITERM_KEYS)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, key]) => {
+      const hex = scheme[key];
+      const [red, green, blue] = [1, 3, 5].map((offset) => Number.parseInt(hex.slice(offset, offset + 2), 16) / 255);
+      return [
+        `\t<key>${encodeXml(name)}</key>`,
+        "\t<dict>",
+        "\t\t<key>Alpha Component</key>",
+        "\t\t<real>1</real>",
+        "\t\t<key>Blue Component</key>",
+        `\t\t<real>${blue}</real>`,
+        "\t\t<key>Color Space</key>",
+        "\t\t<string>sRGB</string>",
+        "\t\t<key>Green Component</key>",
+        `\t\t<real>${green}</real>`,
+        "\t\t<key>Red Component</key>",
+        `\t\t<real>${red}</real>`,
+        "\t</dict>",
+      ].join("\n");
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    "<dict>",
+    ...entries,
+    "</dict>",
+    "</plist>",
+    "",
+  ].join("\n");
+}
+
+function serializeWindowsTerminal(scheme: ColorScheme) {
+  const output: Record<string, string> = { name: scheme.name };
+  for (const [name, key] of Object.entries(WINDOWS_TERMINAL_KEYS)) {
+    output[name] = scheme[key].toUpperCase();
+  }
+  return `${JSON.stringify(output, null, 4)}\n`;
+}
+
+function serializeXresources(scheme: ColorScheme) {
+  const lines = [`! ${scheme.name}`];
+  for (const [name, key] of Object.entries(XRESOURCES_KEYS)) {
+    const resource = name === "cursorcolor" ? "cursorColor" : name === "highlightcolor" ? "highlightColor" : name;
+    lines.push(`*.${resource}: ${scheme[key]}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export function serializeColorScheme(scheme: ColorScheme, format: ColorSchemeFormat) {
+  switch (format) {
+    case "itermcolors":
+      return serializeItermColors(scheme);
+    case "windows-terminal":
+      return serializeWindowsTerminal(scheme);
+    default:
+      return serializeXresources(scheme);
+  }
+}
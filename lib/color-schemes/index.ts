@@ -0,0 +1,19 @@
+export { COLOR_SCHEME_FILE_EXTENSIONS, detectColorSchemeFormat, parseColorSchemes, serializeColorScheme } from "./formats";
+export { BUILTIN_COLOR_SCHEMES, DEFAULT_DARK_SCHEME_ID, DEFAULT_LIGHT_SCHEME_ID } from "./presets";
+export {
+  completeColorSchemeColors,
+  generateColorSchemeId,
+  normalizeColor,
+  sanitizeColorScheme,
+  toXtermTheme,
+} from "./schemes";
+export { ANSI_COLOR_KEYS, COLOR_SCHEME_FORMATS, COLOR_SCHEME_KEYS } from "./types";
+export type {
+  AnsiColorKey,
+  ColorScheme,
+  ColorSchemeColors,
+  ColorSchemeFormat,
+  ColorSchemeKey,
+  ColorSchemeMode,
+  ImportedColorScheme,
+} from "./types";
@@ -0,0 +1,121 @@
+import type { ColorScheme } from "./types";
+
+export const DEFAULT_LIGHT_SCHEME_ID = "builtin-default-light";
+export const DEFAULT_DARK_SCHEME_ID = "builtin-default-dark";
+
+const SOLARIZED_ANSI = {
+  black: "#073642",
+  red: "#dc322f",
+  green: "#859900",
+  yellow: "#b58900",
+  blue: "#268bd2",
+  magenta: "#d33682",
+  cyan: "#2aa198",
+  white: "#eee8d5",
+  brightBlack: "#002b36",
+  brightRed: "#cb4b16",
+  brightGreen: "#586e75",
+  brightYellow: "#657b83",
+  brightBlue: "#839496",
+  brightMagenta: "#6c71c4",
+  brightCyan: "#93a1a1",
+  brightWhite: "#fdf6e3",
+};
+
+export const BUILTIN_COLOR_SCHEMES: ColorScheme[] = [
+  {
+    id: DEFAULT_LIGHT_SCHEME_ID,
+    name: "Default Light",
+    builtin: true,
+    background: "#f9fafb",
+    foreground: "#111827",
+    cursor: "#2563eb",
+    selection: "#2563eb",
+    black: "#1f2937",
+    red: "#dc2626",
+    green: "#16a34a",
+    yellow: "#ca8a04",
+    blue: "#2563eb",
+    magenta: "#7c3aed",
+    cyan: "#0891b2",
+    white: "#f3f4f6",
+    brightBlack: "#4b5563",
+    brightRed: "#ef4444",
+    brightGreen: "#22c55e",
+    brightYellow: "#eab308",
+    brightBlue: "#3b82f6",
+    brightMagenta: "#8b5cf6",
+    brightCyan: "#06b6d4",
+    brightWhite: "#ffffff",
+  },
+  {
+    id: DEFAULT_DARK_SCHEME_ID,
+    name: "Default Dark",
+    builtin: true,
+    background: "#0f1115",
+    foreground: "#f7fafc",
+    cursor: "#38bdf8",
+    selection: "#38bdf8",
+    black: "#111827",
+    red: "#f87171",
+    green: "#34d399",
+    yellow: "#facc15",
+    blue: "#60a5fa",
+    magenta: "#c084fc",
+    cyan: "#5eead4",
+    white: "#e5e7eb",
+    brightBlack: "#1f2937",
+    brightRed: "#f97316",
+    brightGreen: "#4ade80",
+    brightYellow: "#fde047",
+    brightBlue: "#93c5fd",
+    brightMagenta: "#e879f9",
+    brightCyan: "#67e8f9",
+    brightWhite: "#ffffff",
+  },
+  {
+    id: "builtin-solarized-light",
+    name: "Solarized Light",
+    builtin: true,
+    background: "#fdf6e3",
+    foreground: "#657b83",
+    cursor: "#586e75",
+    selection: "#93a1a1",
+    ...SOLARIZED_ANSI,
+  },
+  {
+    id: "builtin-solarized-dark",
+    name: "Solarized Dark",
+    builtin: true,
+    background: "#002b36",
+    foreground: "#839496",
+    cursor: "#93a1a1",
+    selection: "#586e75",
+    ...SOLARIZED_ANSI,
+  },
+  {
+    id: "builtin-dracula",
+    name: "Dracula",
+    builtin: true,
+    background: "#282a36",
+    foreground: "#f8f8f2",
+    cursor: "#f8f8f2",
+    selection: "#6272a4",
+    black: "#21222c",
+    red: "#ff5555",
+    green: "#50fa7b",
+    yellow: "#f1fa8c",
+    blue: "#bd93f9",
+    magenta: "#ff79c6",
+    cyan: "#8be9fd",
+    white: "#f8f8f2",
+    brightBlack: "#6272a4",
+    brightRed: "#ff6e6e",
+    brightGreen: "#69ff94",
+    brightYellow: "#ffffa5",
+    brightBlue: "#d6acff",
+    brightMagenta: "#ff92df",
+    brightCyan: "#a4ffff",
+    brightWhite: "#ffffff",
+  },
+];
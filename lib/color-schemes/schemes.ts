@@ -0,0 +1,111 @@
+import type { ITheme } from "@xterm/xterm";
+
+import { COLOR_SCHEME_KEYS, type ColorScheme, type ColorSchemeColors } from "./types";
+
+/** 选区颜色叠加约 35% 透明度，避免遮住选中的文字 */
+const SELECTION_ALPHA = "59";
+
+/**
+ * 将常见颜色写法统一为小写 "#rrggbb"：
+ * "#rgb"、"#rrggbb"、"#rrggbbaa"（丢弃透明度）以及 X11 的 "rgb:r/g/b"（每个分量 1-4 位十六进制）。
+ */
+export function normalizeColor(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const input = value.trim().toLowerCase();
+
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(input);
+  if (hex) {
+    const digits = hex[1];
+    if (digits.length === 3) {
+      return `#${digits
+        .split("")
+        .map((digit) => digit + digit)
+        .join("")}`;
+    }
+    return `#${digits.slice(0, 6)}`;
+  }
+
+  const x11 = /^rgb:([0-9a-f]{1,4})\/([0-9a-f]{1,4})\/([0-9a-f]{1,4})$/.exec(input);
+  if (x11) {
+    return `#${x11
+      .slice(1)
+      .map((component) => {
+        const scaled = Math.round((Number.parseInt(component, 16) / (16 ** component.length - 1)) * 255);
+        return scaled.toString(16).padStart(2, "0");
+      })
+      .join("")}`;
+  }
+
+  return null;
+}
+
+/** 缺失或无效的颜色用 fallback 方案补齐；背景与前景缺失时视为无效方案 */
+export function completeColorSchemeColors(
+  input: Partial<Record<string, unknown>>,
+  fallback: ColorSchemeColors
+): ColorSchemeColors | null {
+  const background = normalizeColor(input.background);
+  const foreground = normalizeColor(input.foreground);
+  if (!background || !foreground) {
+    return null;
+  }
+  const colors = { ...fallback, background, foreground };
+  for (const key of COLOR_SCHEME_KEYS) {
+    const color = normalizeColor(input[key]);
+    if (color) {
+      colors[key] = color;
+    }
+  }
+  if (!normalizeColor(input.cursor)) {
+    colors.cursor = foreground;
+  }
+  return colors;
+}
+
+export function sanitizeColorScheme(entry: Partial<ColorScheme> | null | undefined, fallback: ColorSchemeColors): ColorScheme | null {
+  if (!entry) {
+    return null;
+  }
+  const id = typeof entry.id === "string" ? entry.id.trim() : "";
+  const name = typeof entry.name === "string" ? entry.name.trim() : "";
+  const colors = completeColorSchemeColors(entry, fallback);
+  if (!id || !name || !colors) {
+    return null;
+  }
+  return { id, name, ...colors };
+}
+
+export function generateColorSchemeId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return `scheme-${crypto.randomUUID()}`;
+  }
+  return `scheme-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function toXtermTheme(scheme: ColorSchemeColors): ITheme {
+  return {
+    background: scheme.background,
+    foreground: scheme.foreground,
+    cursor: scheme.cursor,
+    cursorAccent: scheme.background,
+    selectionBackground: `${scheme.selection}${SELECTION_ALPHA}`,
+    black: scheme.black,
+    red: scheme.red,
+    green: scheme.green,
+    yellow: scheme.yellow,
+    blue: scheme.blue,
+    magenta: scheme.magenta,
+    cyan: scheme.cyan,
+    white: scheme.white,
+    brightBlack: scheme.brightBlack,
+    brightRed: scheme.brightRed,
+    brightGreen: scheme.brightGreen,
+    brightYellow: scheme.brightYellow,
+    brightBlue: scheme.brightBlue,
+    brightMagenta: scheme.brightMagenta,
+    brightCyan: scheme.brightCyan,
+    brightWhite: scheme.brightWhite,
+  };
+}
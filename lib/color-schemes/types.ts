@@ -0,0 +1,43 @@
+export const ANSI_COLOR_KEYS = [
+  "black",
+  "red",
+  "green",
+  "yellow",
+  "blue",
+  "magenta",
+  "cyan",
+  "white",
+  "brightBlack",
+  "brightRed",
+  "brightGreen",
+  "brightYellow",
+  "brightBlue",
+  "brightMagenta",
+  "brightCyan",
+  "brightWhite",
+] as const;
+
+export const COLOR_SCHEME_KEYS = ["background", "foreground", "cursor", "selection", ...ANSI_COLOR_KEYS] as const;
+
+export type AnsiColorKey = (typeof ANSI_COLOR_KEYS)[number];
+
+export type ColorSchemeKey = (typeof COLOR_SCHEME_KEYS)[number];
+
+/** 全部为 "#rrggbb"；选区颜色在应用到 xterm 时再叠加透明度 */
+export type ColorSchemeColors = Record<ColorSchemeKey, string>;
+
+export type ColorScheme = ColorSchemeColors & {
+  id: string;
+  name: string;
+  /** 内置方案只读，需复制后再编辑 */
+  builtin?: boolean;
+};
+
+export const COLOR_SCHEME_FORMATS = ["itermcolors", "windows-terminal", "xresources"] as const;
+
+export type ColorSchemeFormat = (typeof COLOR_SCHEME_FORMATS)[number];
+
+export type ColorSchemeMode = "light" | "dark";
+
+/** 导入结果尚未分配 id */
+export type ImportedColorScheme = ColorSchemeColors & { name: string };
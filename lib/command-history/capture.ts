@@ -0,0 +1,84 @@
+import type { Terminal } from "@xterm/xterm";
+
+/** 提示符以这些字符结尾（IOS/VRP/Junos/Linux）；"Password:"、"[confirm]?" 等交互提示不记录 */
+const PROMPT_SUFFIX = /[#>$%\]]$/;
+/** Ctrl+C / Ctrl+Z 会让设备回到新的提示符（可能换了模式），需要重新记录提示符 */
+const PROMPT_RESET_CHARACTERS = /[\x03\x1a]/;
+
+/**
+ * 从设备回显的提示符行中取出用户提交的命令。
+ * 只信任回显：关闭回显的密码输入、分页器中的回车都会得到空命令而被忽略。
+ */
+export function extractSubmittedCommand(promptText: string, line: string): string | null {
+  const prompt = promptText.trimEnd();
+  if (!prompt || !PROMPT_SUFFIX.test(prompt) || !line.startsWith(prompt)) {
+    return null;
+  }
+  const command = line.slice(prompt.length).trim();
+  return command || null;
+}
+
+/** 读取光标所在的逻辑行，自动换行的多行会拼接在一起 */
+export function readTerminalCursorLine(terminal: Terminal) {
+  const buffer = terminal.buffer.active;
+  let row = buffer.baseY + buffer.cursorY;
+  let text = buffer.getLine(row)?.translateToString(true) ?? "";
+  while (row > 0 && buffer.getLine(row)?.isWrapped) {
+    row -= 1;
+    text = (buffer.getLine(row)?.translateToString(false) ?? "") + text;
+  }
+  return text;
+}
+
+/** 读取光标所在逻辑行中光标之前的部分，保留行尾空格（用于判断是否已输入完一个词） */
+export function readTerminalLineBeforeCursor(terminal: Terminal) {
+  const buffer = terminal.buffer.active;
+  let row = buffer.baseY + buffer.cursorY;
+  let text = buffer.getLine(row)?.translateToString(false, 0, buffer.cursorX) ?? "";
+  while (row > 0 && buffer.getLine(row)?.isWrapped) {
+    row -= 1;
+    text = (buffer.getLine(row)?.translateToString(false) ?? "") + text;
+  }
+  return text;
+}
+
+/**
+ * 按会话还原用户提交的命令行：在一行中第一次键入时记下当前行（此时只有提示符），
+ * 回车时再读取同一行，去掉提示符后即为包含 Tab 补全、历史调出等结果的完整命令。
+ */
+export class CommandLineCapture {
+  private promptText: string | null = null;
+
+  constructor(private readonly readLine: () => string) {}
+
+  /** 处理一段用户输入，返回其中提交的命令 */
+  push(data: string): string[] {
+    const commands: string[] = [];
+    const segments = data.split("\r");
+    segments.forEach((segment, index) => {
+      if (PROMPT_RESET_CHARACTERS.test(segment)) {
+        this.promptText = null;
+      } else if (segment && this.promptText === null) {
+        this.promptText = this.readLine();
+      }
+      if (index === segments.length - 1) {
+        return;
+      }
+      const command = this.promptText !== null ? extractSubmittedCommand(this.promptText, this.readLine()) : null;
+      if (command) {
+        commands.push(command);
+      }
+      this.promptText = null;
+    });
+    return commands;
+  }
+
+  /** 当前正在输入的命令（去掉提示符）；本行尚未键入或光标已不在提示符行时返回 null */
+  currentInput(lineBeforeCursor: string): string | null {
+    const prompt = this.promptText?.trimEnd();
+    if (!prompt || !PROMPT_SUFFIX.test(prompt) || !lineBeforeCursor.startsWith(prompt)) {
+      return null;
+    }
+    return lineBeforeCursor.slice(prompt.length);
+  }
+}
@@ -0,0 +1,84 @@
+import type { CommandHistoryEntry } from "./types";
+
+/** 每台设备保留的命令条数与总条数上限，超出时丢弃最久未用的 */
+export const MAX_COMMANDS_PER_DEVICE = 500;
+export const MAX_COMMAND_HISTORY_ENTRIES = 5000;
+const MAX_COMMAND_LENGTH = 1024;
+
+export function generateCommandHistoryId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return `command-${crypto.randomUUID()}`;
+  }
+  return `command-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** 历史按主机名归档；主机名不区分大小写 */
+export function normalizeHistoryDevice(device: string) {
+  return device.trim().toLowerCase();
+}
+
+/**
+ * 会话对应的历史键：识别出主机名时以主机名为主键（节点换 IP/端口后历史仍可用），
+ * 同时保留 host:port 以便找回识别出主机名之前记录的命令。第一个键用于记录新命令。
+ */
+export function buildHistoryDevices(host: string, port: number, hostname?: string | null) {
+  const address = normalizeHistoryDevice(`${host}:${port}`);
+  const name = hostname ? normalizeHistoryDevice(hostname) : "";
+  return name && name !== address ? [name, address] : [address];
+}
+
+export function sanitizeCommandHistoryEntry(entry: Partial<CommandHistoryEntry> | null | undefined): CommandHistoryEntry | null {
+  if (!entry) {
+    return null;
+  }
+  const id = typeof entry.id === "string" ? entry.id.trim() : "";
+  const device = typeof entry.device === "string" ? normalizeHistoryDevice(entry.device) : "";
+  const command = typeof entry.command === "string" ? entry.command.trim().slice(0, MAX_COMMAND_LENGTH) : "";
+  if (!id || !device || !command) {
+    return null;
+  }
+  return {
+    id,
+    device,
+    command,
+    vendor: typeof entry.vendor === "string" && entry.vendor ? entry.vendor : undefined,
+    lastUsedAt: Number.isFinite(entry.lastUsedAt) ? Number(entry.lastUsedAt) : 0,
+    useCount: Number.isInteger(entry.useCount) && Number(entry.useCount) > 0 ? Number(entry.useCount) : 1,
+  } satisfies CommandHistoryEntry;
+}
+
+/**
+ * 记录一条命令：同设备的相同命令只更新时间与次数并移到末尾，
+ * 列表保持按最近使用时间升序，超出上限时从最旧的开始丢弃。
+ */
+export function appendCommandHistory(
+  entries: CommandHistoryEntry[],
+  input: { device: string; command: string; vendor?: string },
+  now = Date.now()
+): CommandHistoryEntry[] {
+  const device = normalizeHistoryDevice(input.device);
+  const command = input.command.trim().slice(0, MAX_COMMAND_LENGTH);
+  if (!device || !command) {
+    return entries;
+  }
+  const existing = entries.find((entry) => entry.device === device && entry.command === command);
+  const next = entries.filter((entry) => entry !== existing);
+  next.push({
+    id: existing?.id ?? generateCommandHistoryId(),
+    device,
+    command,
+    vendor: input.vendor ?? existing?.vendor,
+    lastUsedAt: now,
+    useCount: (existing?.useCount ?? 0) + 1,
+  });
+
+  let deviceCount = next.filter((entry) => entry.device === device).length;
+  const trimmed = next.filter((entry) => {
+    if (entry.device === device && deviceCount > MAX_COMMANDS_PER_DEVICE) {
+      deviceCount -= 1;
+      return false;
+    }
+    return true;
+  });
+  return trimmed.slice(-MAX_COMMAND_HISTORY_ENTRIES);
+}
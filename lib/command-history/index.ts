@@ -0,0 +1,13 @@
+export { CommandLineCapture, extractSubmittedCommand, readTerminalCursorLine, readTerminalLineBeforeCursor } from "./capture";
+export {
+  MAX_COMMANDS_PER_DEVICE,
+  MAX_COMMAND_HISTORY_ENTRIES,
+  appendCommandHistory,
+  buildHistoryDevices,
+  generateCommandHistoryId,
+  normalizeHistoryDevice,
+  sanitizeCommandHistoryEntry,
+} from "./entries";
+export { fuzzyMatchCommand, searchCommandHistory } from "./search";
+export { createSnippetFromCommand } from "./snippets";
+export type { CommandHistoryEntry, CommandHistoryMatch } from "./types";
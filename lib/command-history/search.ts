@@ -0,0 +1,51 @@
+import type { CommandHistoryEntry, CommandHistoryMatch } from "./types";
+
+const WORD_BOUNDARY = /[\s\-_/.:|]/;
+
+/**
+ * 子序列模糊匹配（不区分大小写）：查询中的字符须按顺序出现在命令中。
+ * 连续命中与单词开头命中加分，跨越的字符越多分数越低；不匹配时返回 null。
+ */
+export function fuzzyMatchCommand(query: string, command: string): { score: number; positions: number[] } | null {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return { score: 0, positions: [] };
+  }
+  const haystack = command.toLowerCase();
+  const positions: number[] = [];
+  let score = 0;
+  let cursor = 0;
+  for (const char of needle) {
+    if (char === " ") {
+      continue;
+    }
+    const index = haystack.indexOf(char, cursor);
+    if (index === -1) {
+      return null;
+    }
+    const previous = positions[positions.length - 1];
+    if (previous !== undefined && index === previous + 1) {
+      score += 5;
+    } else if (index === 0 || WORD_BOUNDARY.test(haystack[index - 1])) {
+      score += 3;
+    }
+    score += 1 - Math.min(index - cursor, 10) * 0.1;
+    positions.push(index);
+    cursor = index + 1;
+  }
+  // 命令越短越接近查询本身
+  score -= (haystack.length - positions.length) * 0.01;
+  return { score, positions };
+}
+
+/** 按匹配分数排序，分数相同时最近使用的优先；空查询时按最近使用排序 */
+export function searchCommandHistory(entries: CommandHistoryEntry[], query: string): CommandHistoryMatch[] {
+  const matches: CommandHistoryMatch[] = [];
+  for (const entry of entries) {
+    const match = fuzzyMatchCommand(query, entry.command);
+    if (match) {
+      matches.push({ entry, ...match });
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score || b.entry.lastUsedAt - a.entry.lastUsedAt);
+}
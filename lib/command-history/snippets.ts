@@ -0,0 +1,29 @@
+import { isPromptVendor, type PromptVendor } from "@/lib/prompt";
+import { generateSnippetId, type Snippet, type SnippetVendor } from "@/lib/snippets";
+
+import type { CommandHistoryEntry } from "./types";
+
+const SNIPPET_NAME_LENGTH = 48;
+
+/** NX-OS、EOS 与 IOS 语法相近，归入 Cisco 分组；其余未覆盖的厂商归入通用 */
+const SNIPPET_VENDOR_BY_PROMPT: Partial<Record<PromptVendor, SnippetVendor>> = {
+  "cisco-ios": "cisco-ios",
+  "cisco-nxos": "cisco-ios",
+  "arista-eos": "cisco-ios",
+  "huawei-vrp": "huawei-vrp",
+  "h3c-comware": "h3c-comware",
+  "juniper-junos": "juniper-junos",
+};
+
+/** 把一条历史命令转成命令片段，名称取命令开头 */
+export function createSnippetFromCommand(entry: CommandHistoryEntry): Snippet {
+  const name =
+    entry.command.length > SNIPPET_NAME_LENGTH ? `${entry.command.slice(0, SNIPPET_NAME_LENGTH - 1)}…` : entry.command;
+  return {
+    id: generateSnippetId(),
+    vendor: (isPromptVendor(entry.vendor) && SNIPPET_VENDOR_BY_PROMPT[entry.vendor]) || "generic",
+    name,
+    body: entry.command,
+    description: entry.device,
+  };
+}
@@ -0,0 +1,18 @@
+/** 一条已提交的命令；同一设备上重复执行的命令合并为一条并累计次数 */
+export type CommandHistoryEntry = {
+  id: string;
+  /** 识别出的主机名（小写），未识别时为 host:port */
+  device: string;
+  command: string;
+  /** 提示符识别出的厂商，用于“存为片段”时选择分组 */
+  vendor?: string;
+  lastUsedAt: number;
+  useCount: number;
+};
+
+export type CommandHistoryMatch = {
+  entry: CommandHistoryEntry;
+  score: number;
+  /** 命中的字符下标，用于高亮 */
+  positions: number[];
+};
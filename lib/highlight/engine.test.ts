@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import { OutputHighlighter, compileHighlightRules, highlightLine } from "./engine";
+import type { HighlightRule } from "./types";
+
+const DOWN: HighlightRule = { id: "down", name: "down", pattern: "down", flags: "i", foreground: "#ff0000", bold: false, enabled: true };
+const RED = "\x1b[38;2;255;0;0m";
+
+function createHighlighter() {
+  const highlighter = new OutputHighlighter();
+  highlighter.setRules(compileHighlightRules([DOWN]));
+  return highlighter;
+}
+
+describe("highlightLine", () => {
+  it("高亮结束后复位并重放设备自己的 SGR 属性", () => {
+    const line = "\x1b[1;33mInterface Gi0/1 is down, line protocol is down\x1b[0m";
+    expect(highlightLine(line, compileHighlightRules([DOWN]))).toBe(
+      `\x1b[1;33mInterface Gi0/1 is ${RED}down\x1b[0m\x1b[1;33m, line protocol is ${RED}down\x1b[0m\x1b[1;33m\x1b[0m`
+    );
+  });
+
+  it("没有设备属性时复位到默认", () => {
+    expect(highlightLine("link down", compileHighlightRules([DOWN]))).toBe(`link ${RED}down\x1b[0m`);
+  });
+
+  it("字符集选择序列不参与匹配", () => {
+    expect(highlightLine("do\x1b(Bwn", compileHighlightRules([DOWN]))).toBe(`${RED}do\x1b(Bwn\x1b[0m`);
+  });
+});
+
+describe("OutputHighlighter", () => {
+  it("未结束的尾行（提示符、回显）立即原样输出", () => {
+    const highlighter = createHighlighter();
+    expect(highlighter.push("R1#")).toBe("R1#");
+    expect(highlighter.push("s")).toBe("s");
+  });
+
+  it("行结束后只为尚未输出的部分着色", () => {
+    const highlighter = createHighlighter();
+    expect(highlighter.push("Gi0/1 is do")).toBe("Gi0/1 is do");
+    expect(highlighter.push("wn\r\nR1#")).toBe(`${RED}wn\x1b[0m\r\nR1#`);
+  });
+
+  it("完整行整行着色", () => {
+    const highlighter = createHighlighter();
+    expect(highlighter.push("Gi0/1 is down\r\nGi0/2 is up\r\n")).toBe(`Gi0/1 is ${RED}down\x1b[0m\r\nGi0/2 is up\r\n`);
+  });
+
+  it("跨行保留设备颜色，高亮后恢复", () => {
+    const highlighter = createHighlighter();
+    expect(highlighter.push("\x1b[31m%LINK\r\n")).toBe("\x1b[31m%LINK\r\n");
+    expect(highlighter.push("changed state to down, now\r\n")).toBe(
+      `changed state to ${RED}down\x1b[0m\x1b[31m, now\r\n`
+    );
+  });
+
+  it("暂存尾部不完整的 ESC 序列", () => {
+    const highlighter = createHighlighter();
+    expect(highlighter.push("R1#\x1b[3")).toBe("R1#");
+    expect(highlighter.push("2mok")).toBe("\x1b[32mok");
+  });
+});
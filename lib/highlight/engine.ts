@@ -0,0 +1,265 @@
+import type { CompiledHighlightRule, HighlightRule, HighlightSpan } from "./types";
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const ALLOWED_FLAGS = /^[imsu]*$/;
+
+// CSI / OSC / 字符集选择等带中间字节的序列 / 其他双字节 ESC 序列，以及除制表符外的 C0 控制字符，均不参与匹配
+const NON_TEXT_PATTERN = /\x1b(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[ -/]+[0-~]|[0-?@-Z\\-_])|[\x00-\x08\x0b-\x1f\x7f]/g;
+const INCOMPLETE_ESCAPE = /\x1b(?:\[[0-?]*[ -/]*|\][^\x07\x1b]*(?:\x1b)?|[ -/]+)?$/;
+
+/** 尾部未完成的行最多暂存的长度，超出后直接着色输出 */
+const MAX_PENDING_LENGTH = 4096;
+
+function hexToRgb(hex: string) {
+  const value = Number.parseInt(hex.slice(1), 16);
+  return `${(value >> 16) & 0xff};${(value >> 8) & 0xff};${value & 0xff}`;
+}
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && HEX_COLOR.test(value);
+}
+
+export function validateHighlightPattern(pattern: string, flags = "") {
+  if (!pattern || !ALLOWED_FLAGS.test(flags)) {
+    return false;
+  }
+  try {
+    new RegExp(pattern, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** 去掉 ESC 序列与控制字符，得到用于匹配的纯文本 */
+export function stripControlSequences(text: string) {
+  return text.replace(NON_TEXT_PATTERN, "");
+}
+
+/** 编译启用且有效的规则，生成开启高亮的 SGR 序列；结束时由渲染器恢复设备自身的属性 */
+export function compileHighlightRules(rules: HighlightRule[]): CompiledHighlightRule[] {
+  return rules.flatMap((rule) => {
+    if (!rule.enabled || !validateHighlightPattern(rule.pattern, rule.flags)) {
+      return [];
+    }
+    const open: string[] = [];
+    if (rule.bold) {
+      open.push("1");
+    }
+    if (isHexColor(rule.foreground)) {
+      open.push(`38;2;${hexToRgb(rule.foreground)}`);
+    }
+    if (isHexColor(rule.background)) {
+      open.push(`48;2;${hexToRgb(rule.background)}`);
+    }
+    if (open.length === 0) {
+      return [];
+    }
+    return [
+      {
+        id: rule.id,
+        regex: new RegExp(rule.pattern, `${rule.flags.replace(/g/g, "")}g`),
+        open: `\x1b[${open.join(";")}m`,
+      },
+    ];
+  });
+}
+
+/** 在纯文本中查找高亮区间；规则按顺序生效，与已有区间重叠的匹配被忽略 */
+export function findHighlightSpans(text: string, rules: CompiledHighlightRule[]): HighlightSpan[] {
+  const spans: HighlightSpan[] = [];
+  for (const rule of rules) {
+    rule.regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = rule.regex.exec(text))) {
+      if (match[0].length === 0) {
+        rule.regex.lastIndex += 1;
+        continue;
+      }
+      const start = match.index;
+      const end = start + match[0].length;
+      if (!spans.some((span) => start < span.end && end > span.start)) {
+        spans.push({ start, end, rule });
+      }
+    }
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/** 设备自上次完全复位以来发出的 SGR 序列最多记录的条数 */
+const MAX_SGR_HISTORY = 16;
+
+const SGR_PATTERN = /^\x1b\[([0-9;:]*)m$/;
+
+/**
+ * 记录设备发出的 SGR 序列，高亮结束时先复位再按顺序重放，恢复设备原有的颜色与粗体，
+ * 而不是简单地用 39/49/22 回到默认属性。
+ */
+function trackSgr(history: string[], sequence: string) {
+  const match = SGR_PATTERN.exec(sequence);
+  if (!match) {
+    return false;
+  }
+  const body = match[1];
+  if (/^0*(?:[;:]|$)/.test(body)) {
+    history.length = 0;
+  }
+  if (!/^0*$/.test(body)) {
+    history.push(sequence);
+    if (history.length > MAX_SGR_HISTORY) {
+      history.shift();
+    }
+  }
+  return true;
+}
+
+type LinePart = { raw: string; text: boolean; offset: number; rawStart: number };
+
+/** 拆分为文本片段与控制序列，记录每个文本片段在纯文本中的起点 */
+function splitLine(line: string) {
+  const parts: LinePart[] = [];
+  let plain = "";
+  let cursor = 0;
+  for (const match of line.matchAll(NON_TEXT_PATTERN)) {
+    if (match.index > cursor) {
+      const raw = line.slice(cursor, match.index);
+      parts.push({ raw, text: true, offset: plain.length, rawStart: cursor });
+      plain += raw;
+    }
+    parts.push({ raw: match[0], text: false, offset: plain.length, rawStart: match.index });
+    cursor = match.index + match[0].length;
+  }
+  if (cursor < line.length) {
+    const raw = line.slice(cursor);
+    parts.push({ raw, text: true, offset: plain.length, rawStart: cursor });
+    plain += raw;
+  }
+  return { parts, plain };
+}
+
+/**
+ * 为单行（可包含 ESC 序列，不含换行）插入高亮序列，只输出原始位置 from 之后的部分。
+ * from 之前的内容已经原样写入终端，落在其中的匹配只为剩余部分着色。
+ */
+function renderLine(line: string, rules: CompiledHighlightRule[], sgr: string[], from = 0) {
+  const { parts, plain } = splitLine(line);
+  const fromPlain = parts.reduce(
+    (offset, part) => (part.text && part.rawStart < from ? part.offset + Math.min(from - part.rawStart, part.raw.length) : offset),
+    0
+  );
+  const opens = new Map<number, CompiledHighlightRule>();
+  const closes = new Set<number>();
+  for (const span of rules.length > 0 ? findHighlightSpans(plain, rules) : []) {
+    if (span.end <= fromPlain) {
+      continue;
+    }
+    opens.set(Math.max(span.start, fromPlain), span.rule);
+    closes.add(span.end);
+  }
+
+  let output = "";
+  let active: CompiledHighlightRule | null = null;
+  const restore = () => `\x1b[0m${sgr.join("")}`;
+  for (const part of parts) {
+    if (part.rawStart + part.raw.length <= from) {
+      continue;
+    }
+    if (!part.text) {
+      if (active && closes.has(part.offset)) {
+        output += restore();
+        active = null;
+      }
+      output += part.rawStart < from ? part.raw.slice(from - part.rawStart) : part.raw;
+      // 设备在高亮区间内改变属性时重新应用高亮
+      if (trackSgr(sgr, part.raw) && active) {
+        output += active.open;
+      }
+      continue;
+    }
+    for (let index = Math.max(0, from - part.rawStart); index < part.raw.length; index += 1) {
+      const position = part.offset + index;
+      if (active && closes.has(position)) {
+        output += restore();
+        active = null;
+      }
+      const rule = opens.get(position);
+      if (rule) {
+        output += rule.open;
+        active = rule;
+      }
+      output += part.raw[index];
+    }
+  }
+  if (active) {
+    output += restore();
+  }
+  return output;
+}
+
+/** 为单行（可包含 ESC 序列，不含换行）插入高亮序列 */
+export function highlightLine(line: string, rules: CompiledHighlightRule[]) {
+  if (rules.length === 0 || !line) {
+    return line;
+  }
+  return renderLine(line, rules, []);
+}
+
+/**
+ * 流式高亮：未结束的尾行（提示符、输入回显）立即原样输出，不引入延迟；
+ * 行结束后再对整行匹配，为尚未输出的部分着色。
+ */
+export class OutputHighlighter {
+  private rules: CompiledHighlightRule[] = [];
+  /** 当前行已收到的内容，以及其中已原样输出的长度 */
+  private line = "";
+  private emitted = 0;
+  private readonly sgr: string[] = [];
+
+  setRules(rules: CompiledHighlightRule[]) {
+    this.rules = rules;
+  }
+
+  push(data: string): string {
+    if (this.rules.length === 0) {
+      const rest = this.line.slice(this.emitted);
+      this.line = "";
+      this.emitted = 0;
+      this.sgr.length = 0;
+      return rest + data;
+    }
+
+    const input = this.line + data;
+    const lastNewline = input.lastIndexOf("\n");
+    let output = "";
+    let from = this.emitted;
+    if (lastNewline !== -1) {
+      const lines = input.slice(0, lastNewline).split("\n");
+      output = lines.map((line, index) => renderLine(line, this.rules, this.sgr, index === 0 ? from : 0)).join("\n") + "\n";
+      from = 0;
+    }
+
+    let rest = input.slice(lastNewline + 1);
+    if (rest.length > MAX_PENDING_LENGTH) {
+      output += renderLine(rest, this.rules, this.sgr, from);
+      rest = "";
+      from = 0;
+    }
+
+    // 尾部不完整的 ESC 序列暂不输出，等补全后按完整序列记录设备属性
+    const incomplete = INCOMPLETE_ESCAPE.exec(rest);
+    const ready = incomplete ? incomplete.index : rest.length;
+    if (ready > from) {
+      output += renderLine(rest.slice(0, ready), [], this.sgr, from);
+      from = ready;
+    }
+    this.line = rest;
+    this.emitted = from;
+    return output;
+  }
+
+  reset() {
+    this.line = "";
+    this.emitted = 0;
+    this.sgr.length = 0;
+  }
+}
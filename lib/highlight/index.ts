@@ -0,0 +1,12 @@
+export {
+  OutputHighlighter,
+  compileHighlightRules,
+  findHighlightSpans,
+  highlightLine,
+  isHexColor,
+  stripControlSequences,
+  validateHighlightPattern,
+} from "./engine";
+export { DEFAULT_HIGHLIGHT_RULES } from "./presets";
+export { generateHighlightRuleId, sanitizeHighlightRule } from "./rules";
+export type { CompiledHighlightRule, HighlightRule, HighlightSpan } from "./types";
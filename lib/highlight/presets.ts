@@ -0,0 +1,91 @@
+import type { HighlightRule } from "./types";
+
+/**
+ * 内置规则按顺序匹配，先命中的规则优先：
+ * syslog 按严重级别着色要排在通用的 "% 错误行" 之前。
+ */
+export const DEFAULT_HIGHLIGHT_RULES: HighlightRule[] = [
+  {
+    id: "preset-syslog-critical",
+    name: "Syslog severity 0-2",
+    pattern: "%[A-Z0-9_]+(?:-[A-Z0-9_]+)*-[0-2]-[A-Z0-9_]+:.*",
+    flags: "",
+    foreground: "#ffffff",
+    background: "#b91c1c",
+    bold: true,
+    enabled: true,
+  },
+  {
+    id: "preset-syslog-error",
+    name: "Syslog severity 3",
+    pattern: "%[A-Z0-9_]+(?:-[A-Z0-9_]+)*-3-[A-Z0-9_]+:.*",
+    flags: "",
+    foreground: "#f87171",
+    bold: true,
+    enabled: true,
+  },
+  {
+    id: "preset-syslog-warning",
+    name: "Syslog severity 4",
+    pattern: "%[A-Z0-9_]+(?:-[A-Z0-9_]+)*-4-[A-Z0-9_]+:.*",
+    flags: "",
+    foreground: "#fbbf24",
+    bold: false,
+    enabled: true,
+  },
+  {
+    id: "preset-syslog-info",
+    name: "Syslog severity 5-7",
+    pattern: "%[A-Z0-9_]+(?:-[A-Z0-9_]+)*-[5-7]-[A-Z0-9_]+:.*",
+    flags: "",
+    foreground: "#38bdf8",
+    bold: false,
+    enabled: true,
+  },
+  {
+    id: "preset-error-line",
+    name: "% error lines",
+    pattern: "^\\s*%\\s.*$",
+    flags: "",
+    foreground: "#f87171",
+    bold: true,
+    enabled: true,
+  },
+  {
+    id: "preset-interface-down",
+    name: "Interface down",
+    pattern: "\\b(?:administratively down|down)\\b",
+    flags: "i",
+    foreground: "#ef4444",
+    bold: true,
+    enabled: true,
+  },
+  {
+    id: "preset-interface-up",
+    name: "Interface up",
+    pattern: "\\bup\\b",
+    flags: "i",
+    foreground: "#22c55e",
+    bold: true,
+    enabled: true,
+  },
+  {
+    id: "preset-ipv4",
+    name: "IPv4 addresses",
+    pattern: "\\b(?:(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)\\.){3}(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)(?:/\\d{1,2})?\\b",
+    flags: "",
+    foreground: "#22d3ee",
+    bold: false,
+    enabled: true,
+  },
+  {
+    id: "preset-mac",
+    name: "MAC addresses",
+    pattern:
+      "\\b(?:[0-9a-f]{4}\\.[0-9a-f]{4}\\.[0-9a-f]{4}|[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}|(?:[0-9a-f]{2}[:-]){5}[0-9a-f]{2})\\b",
+    flags: "i",
+    foreground: "#c084fc",
+    bold: false,
+    enabled: true,
+  },
+];
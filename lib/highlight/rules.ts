@@ -0,0 +1,31 @@
+import { isHexColor, validateHighlightPattern } from "./engine";
+import type { HighlightRule } from "./types";
+
+export function sanitizeHighlightRule(entry: Partial<HighlightRule> | null | undefined): HighlightRule | null {
+  if (!entry) {
+    return null;
+  }
+  const id = typeof entry.id === "string" ? entry.id.trim() : "";
+  const pattern = typeof entry.pattern === "string" ? entry.pattern : "";
+  const flags = typeof entry.flags === "string" ? entry.flags : "";
+  if (!id || !validateHighlightPattern(pattern, flags)) {
+    return null;
+  }
+  return {
+    id,
+    name: typeof entry.name === "string" && entry.name.trim() ? entry.name.trim() : pattern,
+    pattern,
+    flags,
+    foreground: isHexColor(entry.foreground) ? entry.foreground : undefined,
+    background: isHexColor(entry.background) ? entry.background : undefined,
+    bold: entry.bold === true,
+    enabled: entry.enabled !== false,
+  } satisfies HighlightRule;
+}
+
+export function generateHighlightRuleId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return `highlight-${crypto.randomUUID()}`;
+  }
+  return `highlight-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
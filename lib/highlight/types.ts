@@ -0,0 +1,24 @@
+export type HighlightRule = {
+  id: string;
+  name: string;
+  /** 正则表达式源码，按行匹配（不含换行符） */
+  pattern: string;
+  flags: string;
+  /** "#rrggbb" 颜色，未设置时保留设备输出的原有颜色 */
+  foreground?: string;
+  background?: string;
+  bold: boolean;
+  enabled: boolean;
+};
+
+export type CompiledHighlightRule = {
+  id: string;
+  regex: RegExp;
+  open: string;
+};
+
+export type HighlightSpan = {
+  start: number;
+  end: number;
+  rule: CompiledHighlightRule;
+};
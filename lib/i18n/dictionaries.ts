@@ -1,3 +1,9 @@
+import type { ColorSchemeFormat, ColorSchemeKey } from "@/lib/color-schemes";
+import type { SnippetVendor } from "@/lib/snippets";
+import type { LineTimestampFormat } from "@/lib/terminal/line-timestamps";
+import type { TerminalRenderer } from "@/lib/terminal/renderer";
+import type { TelnetSignal } from "@/lib/telnet";
+
 import type { Locale } from "./config";
 
 export type HomeDictionary = {
@@ -40,6 +46,110 @@ export type HomeDictionary = {
       connected: string;
       closed: string;
       error: string;
+      reconnecting: string;
+    };
+    prompt: {
+      modes: Record<"user-exec" | "privileged" | "global-config" | "sub-config", string>;
+      vendors: Record<string, string>;
+    };
+    reconnect: {
+      toggleLabel: string;
+      cancelButton: string;
+      gaveUp: string;
+    };
+    highlight: {
+      toggleLabel: string;
+    };
+    encoding: {
+      label: string;
+      switchFailed: string;
+    };
+    timestamps: {
+      toggleLabel: string;
+      toggleHint: string;
+      formatLabel: string;
+      formats: Record<LineTimestampFormat, string>;
+    };
+    completion: {
+      toggleLabel: string;
+      toggleHint: string;
+      listLabel: string;
+      parameterHint: string;
+      acceptHint: string;
+      clickHint: string;
+    };
+    signals: {
+      menuLabel: string;
+      items: Record<TelnetSignal, { label: string; description: string }>;
+      ciscoEscape: {
+        label: string;
+        description: string;
+      };
+    };
+    paste: {
+      confirmTitle: string;
+      confirmDescription: string;
+      pacingLabel: string;
+      pacingOptions: Record<"delay" | "prompt", string>;
+      delayLabel: string;
+      sendButton: string;
+      cancelButton: string;
+      progress: string;
+      stopButton: string;
+      cancelled: string;
+    };
+    search: {
+      placeholder: string;
+      caseSensitive: string;
+      regex: string;
+      previous: string;
+      next: string;
+      close: string;
+      noResults: string;
+      invalidPattern: string;
+    };
+    layout: {
+      label: string;
+      modes: Record<"single" | "columns" | "rows" | "grid", string>;
+      emptyPane: string;
+    };
+    transcript: {
+      startButton: string;
+      stopButton: string;
+      activeLabel: string;
+      failed: string;
+    };
+    recording: {
+      startButton: string;
+      stopButton: string;
+      activeLabel: string;
+      failed: string;
+    };
+    links: {
+      openSession: string;
+      copy: string;
+      copied: string;
+      healthCheck: string;
+      healthChecking: string;
+      healthOk: string;
+      healthFailed: string;
+    };
+    appearance: {
+      title: string;
+      description: string;
+      scopeLabel: string;
+      scopes: Record<"session" | "device", string>;
+      sessionHint: string;
+      deviceHint: string;
+      fontFamilyLabel: string;
+      fontSizeLabel: string;
+      colorSchemeLabel: string;
+      scrollbackLabel: string;
+      inheritOption: string;
+      followThemeOption: string;
+      saveButton: string;
+      resetButton: string;
+      cancelButton: string;
     };
     sessionTabs: {
       headerLabel: string;
@@ -47,8 +157,142 @@ export type HomeDictionary = {
       emptyTitle: string;
       emptyDescription: string;
       reorderHint: string;
+      broadcastToggle: string;
+      broadcastShortcut: string;
+      broadcastHint: string;
+      broadcastTargetLabel: string;
+      broadcastBadge: string;
+      broadcastBanner: string;
+      broadcastExit: string;
+      automateAction: string;
+      backupAction: string;
+      appearanceAction: string;
     };
   };
+  snippets: {
+    toggleButton: string;
+    title: string;
+    description: string;
+    closeButton: string;
+    searchPlaceholder: string;
+    vendorFilterAll: string;
+    vendors: Record<SnippetVendor, string>;
+    newButton: string;
+    editButton: string;
+    deleteButton: string;
+    sendButton: string;
+    saveButton: string;
+    cancelButton: string;
+    resetButton: string;
+    nameLabel: string;
+    vendorLabel: string;
+    bodyLabel: string;
+    bodyHint: string;
+    descriptionLabel: string;
+    variablesTitle: string;
+    empty: string;
+    noActiveSession: string;
+    shortcutHint: string;
+  };
+  commandHistory: {
+    toggleButton: string;
+    title: string;
+    description: string;
+    closeButton: string;
+    searchPlaceholder: string;
+    scopeDevice: string;
+    scopeAll: string;
+    sendButton: string;
+    insertButton: string;
+    saveSnippetButton: string;
+    snippetSaved: string;
+    deleteButton: string;
+    clearDeviceButton: string;
+    useCount: string;
+    empty: string;
+    noActiveSession: string;
+    shortcutHint: string;
+    recallPlaceholder: string;
+    recallHint: string;
+    recallEmpty: string;
+  };
+  automation: {
+    toggleButton: string;
+    title: string;
+    description: string;
+    closeButton: string;
+    targetLabel: string;
+    noTarget: string;
+    scriptLabel: string;
+    newButton: string;
+    saveButton: string;
+    deleteButton: string;
+    untitled: string;
+    nameLabel: string;
+    sourceLabel: string;
+    sourceHint: string;
+    diagnosticLine: string;
+    runButton: string;
+    dryRunButton: string;
+    stepLabel: string;
+    nextStepButton: string;
+    cancelButton: string;
+    running: string;
+    pausedAt: string;
+    variablesTitle: string;
+    variablesCancelButton: string;
+    logTitle: string;
+    logEmpty: string;
+    clearLogButton: string;
+  };
+  backup: {
+    toggleButton: string;
+    title: string;
+    description: string;
+    closeButton: string;
+    capturing: string;
+    captured: string;
+    failed: string;
+    noPrompt: string;
+    unsupported: string;
+    wrongMode: string;
+    storageFull: string;
+    empty: string;
+    deviceLabel: string;
+    baseLabel: string;
+    compareLabel: string;
+    capturedAtLabel: string;
+    deleteButton: string;
+    lineCount: string;
+    sameSnapshot: string;
+    identical: string;
+    changesOnly: string;
+  };
+  recordings: {
+    toggleButton: string;
+    title: string;
+    description: string;
+    closeButton: string;
+    refreshButton: string;
+    desktopOnly: string;
+    empty: string;
+    unknownDevice: string;
+    deviceLabel: string;
+    openButton: string;
+    exportButton: string;
+    deleteButton: string;
+    selectHint: string;
+    loadFailed: string;
+    playButton: string;
+    pauseButton: string;
+    seekLabel: string;
+    speedLabel: string;
+  };
+  triggers: {
+    toastTitle: string;
+    openSession: string;
+    dismissButton: string;
+  };
 };
 
 export type SettingsDictionary = {
@@ -95,6 +339,170 @@ export type SettingsDictionary = {
     fontSizeHelp: string;
     lineHeightHelp: string;
     letterSpacingHelp: string;
+    scrollbackLabel: string;
+    scrollbackHelp: string;
+    bufferSizeLabel: string;
+    bufferSizeHelp: string;
+  };
+  connectionSection: {
+    title: string;
+    description: string;
+    autoReconnectLabel: string;
+    autoReconnectHelp: string;
+    maxAttemptsLabel: string;
+    maxAttemptsHelp: string;
+  };
+  pasteSection: {
+    title: string;
+    description: string;
+    pacingLabel: string;
+    pacingOptions: Array<{
+      value: "delay" | "prompt";
+      label: string;
+    }>;
+    delayLabel: string;
+    delayHelp: string;
+  };
+  encodingSection: {
+    title: string;
+    description: string;
+    defaultLabel: string;
+    help: string;
+  };
+  timestampSection: {
+    title: string;
+    description: string;
+    enabledLabel: string;
+    formatLabel: string;
+    formats: Record<LineTimestampFormat, string>;
+    help: string;
+  };
+  rendererSection: {
+    title: string;
+    description: string;
+    label: string;
+    renderers: Record<TerminalRenderer, string>;
+    help: string;
+  };
+  shortcutSection: {
+    title: string;
+    description: string;
+    forwardedHint: string;
+    recordPrompt: string;
+    unbound: string;
+    clearButton: string;
+    resetButton: string;
+    resetAllButton: string;
+    conflictLabel: string;
+    forwardedError: string;
+    reassigned: string;
+    scopes: {
+      app: string;
+      terminal: string;
+    };
+    actions: {
+      nextSession: string;
+      previousSession: string;
+      jumpToSession: string;
+      closeSession: string;
+      reconnectSession: string;
+      clearScrollback: string;
+      sendBreak: string;
+      sendCiscoEscape: string;
+      openSearch: string;
+      quickConnect: string;
+      toggleBroadcast: string;
+      toggleSnippets: string;
+      recallCommand: string;
+      acceptCompletion: string;
+    };
+  };
+  colorSchemeSection: {
+    title: string;
+    description: string;
+    lightLabel: string;
+    darkLabel: string;
+    editLabel: string;
+    builtinTag: string;
+    builtinHint: string;
+    nameLabel: string;
+    newButton: string;
+    newSchemeName: string;
+    duplicateButton: string;
+    copyName: string;
+    deleteButton: string;
+    saveButton: string;
+    revertButton: string;
+    previewLabel: string;
+    importButton: string;
+    importSuccess: string;
+    importError: string;
+    exportButton: string;
+    exportFormatLabel: string;
+    formatOptions: Record<ColorSchemeFormat, string>;
+    formatHint: string;
+    colorLabels: Record<ColorSchemeKey, string>;
+  };
+  highlightSection: {
+    title: string;
+    description: string;
+    empty: string;
+    enabledLabel: string;
+    nameLabel: string;
+    patternLabel: string;
+    flagsLabel: string;
+    foregroundLabel: string;
+    backgroundLabel: string;
+    boldLabel: string;
+    invalidPattern: string;
+    addButton: string;
+    editButton: string;
+    deleteButton: string;
+    moveUpButton: string;
+    moveDownButton: string;
+    resetButton: string;
+    saveButton: string;
+    cancelButton: string;
+    previewLabel: string;
+    previewSample: string;
+  };
+  triggerSection: {
+    title: string;
+    description: string;
+    empty: string;
+    enabledLabel: string;
+    globalBadge: string;
+    nameLabel: string;
+    patternLabel: string;
+    flagsLabel: string;
+    scopeLabel: string;
+    endedSessionBadge: string;
+    responseLabel: string;
+    responsePlaceholder: string;
+    notifyLabel: string;
+    flashTabLabel: string;
+    invalidPattern: string;
+    addButton: string;
+    editButton: string;
+    deleteButton: string;
+    resetButton: string;
+    saveButton: string;
+    cancelButton: string;
+    testLabel: string;
+    testSample: string;
+    testNoMatches: string;
+  };
+  loggingSection: {
+    title: string;
+    description: string;
+    formatLabel: string;
+    formatOptions: Array<{
+      value: "plain" | "raw" | "html";
+      label: string;
+    }>;
+    autoStartLabel: string;
+    autoStartHelp: string;
+    locationHint: string;
   };
 };
 
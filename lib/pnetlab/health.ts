@@ -1,3 +1,5 @@
+import type { PnetlabHealthResponse } from "@/types/desktop-bridge";
+
 const HOST_PATTERN = /^[a-zA-Z0-9.-]+$/;
 
 export const DEFAULT_PNETLAB_PORT = 80;
@@ -65,3 +67,30 @@ export async function probePnetlabHealth(
     clearTimeout(timeoutId);
   }
 }
+
+/**
+ * 在浏览器端探测 PNETLab：桌面端走桥接层，Web 端调用 /api/pnetlab/health。
+ * IPv6 地址需要以方括号包裹后传入。
+ */
+export async function requestPnetlabHealth(
+  ip: string,
+  port: number = DEFAULT_PNETLAB_PORT
+): Promise<PnetlabHealthResponse> {
+  const bridge = typeof window !== "undefined" ? window.desktopBridge?.pnetlab : undefined;
+  if (bridge) {
+    return bridge.checkHealth({ ip, port });
+  }
+  try {
+    const response = await fetch("/api/pnetlab/health", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ip, port }),
+    });
+    return (await response.json()) as PnetlabHealthResponse;
+  } catch (error) {
+    return {
+      ok: false,
+      message: error instanceof Error ? error.message : "PNETLab 无法连接",
+    };
+  }
+}
@@ -0,0 +1,12 @@
+export { DEFAULT_PROMPT_PARSERS, parsePrompt } from "./parsers";
+export { PromptTracker } from "./tracker";
+export {
+  CLI_MODES,
+  PROMPT_VENDORS,
+  isPromptVendor,
+  type CliMode,
+  type PromptInfo,
+  type PromptParseState,
+  type PromptParser,
+  type PromptVendor,
+} from "./types";
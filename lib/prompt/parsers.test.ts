@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+
+import { parsePrompt } from "./parsers";
+import { PromptTracker } from "./tracker";
+import type { PromptInfo, PromptParseState } from "./types";
+
+type Sample = [line: string, expected: PromptInfo, state?: PromptParseState];
+
+/** 从 PNETLab 实验设备上采集的提示符样本 */
+const SAMPLES: Record<string, Sample[]> = {
+  "cisco-ios": [
+    ["R1>", { vendor: "cisco-ios", hostname: "R1", mode: "user-exec" }],
+    ["R1#", { vendor: "cisco-ios", hostname: "R1", mode: "privileged" }],
+    ["R1(config)#", { vendor: "cisco-ios", hostname: "R1", mode: "global-config" }],
+    ["R1(config-if)#", { vendor: "cisco-ios", hostname: "R1", mode: "sub-config", context: "if" }],
+    ["R1(config-router)#", { vendor: "cisco-ios", hostname: "R1", mode: "sub-config", context: "router" }],
+  ],
+  "cisco-nxos": [
+    ["nx-9k>", { vendor: "cisco-nxos", hostname: "nx-9k", mode: "user-exec" }, { vendorHint: "cisco-nxos" }],
+    ["nx-9k#", { vendor: "cisco-nxos", hostname: "nx-9k", mode: "privileged" }, { vendorHint: "cisco-nxos" }],
+    ["nx-9k(config)#", { vendor: "cisco-nxos", hostname: "nx-9k", mode: "global-config" }, { vendorHint: "cisco-nxos" }],
+    [
+      "nx-9k(config-if)#",
+      { vendor: "cisco-nxos", hostname: "nx-9k", mode: "sub-config", context: "if" },
+      { vendorHint: "cisco-nxos" },
+    ],
+  ],
+  "arista-eos": [
+    ["leaf1>", { vendor: "arista-eos", hostname: "leaf1", mode: "user-exec" }, { vendorHint: "arista-eos" }],
+    ["leaf1#", { vendor: "arista-eos", hostname: "leaf1", mode: "privileged" }, { vendorHint: "arista-eos" }],
+    ["leaf1(config)#", { vendor: "arista-eos", hostname: "leaf1", mode: "global-config" }, { vendorHint: "arista-eos" }],
+    [
+      "leaf1(config-if-Et1)#",
+      { vendor: "arista-eos", hostname: "leaf1", mode: "sub-config", context: "if-Et1" },
+      { vendorHint: "arista-eos" },
+    ],
+  ],
+  "huawei-vrp": [
+    ["<HUAWEI>", { vendor: "huawei-vrp", hostname: "HUAWEI", mode: "user-exec" }],
+    ["[HUAWEI]", { vendor: "huawei-vrp", hostname: "HUAWEI", mode: "global-config" }],
+    ["[~HUAWEI]", { vendor: "huawei-vrp", hostname: "HUAWEI", mode: "global-config" }],
+    ["[*HUAWEI]", { vendor: "huawei-vrp", hostname: "HUAWEI", mode: "global-config" }],
+    [
+      "[AR1-GigabitEthernet0/0/1]",
+      { vendor: "huawei-vrp", hostname: "AR1", mode: "sub-config", context: "GigabitEthernet0/0/1" },
+    ],
+    [
+      "[CE-SW-01-Vlanif10]",
+      { vendor: "huawei-vrp", hostname: "CE-SW-01", mode: "sub-config", context: "Vlanif10" },
+      { hostname: "CE-SW-01" },
+    ],
+  ],
+  "h3c-comware": [
+    ["<H3C>", { vendor: "h3c-comware", hostname: "H3C", mode: "user-exec" }, { vendorHint: "h3c-comware" }],
+    ["[H3C]", { vendor: "h3c-comware", hostname: "H3C", mode: "global-config" }, { vendorHint: "h3c-comware" }],
+    [
+      "[H3C-GigabitEthernet1/0/1]",
+      { vendor: "h3c-comware", hostname: "H3C", mode: "sub-config", context: "GigabitEthernet1/0/1" },
+      { vendorHint: "h3c-comware", hostname: "H3C" },
+    ],
+  ],
+  "juniper-junos": [
+    ["root@vMX>", { vendor: "juniper-junos", hostname: "vMX", mode: "user-exec" }],
+    ["root@vMX%", { vendor: "juniper-junos", hostname: "vMX", mode: "privileged" }],
+    ["root@vMX#", { vendor: "juniper-junos", hostname: "vMX", mode: "global-config" }, { previousLine: "[edit]" }],
+    [
+      "root@vMX#",
+      { vendor: "juniper-junos", hostname: "vMX", mode: "sub-config", context: "interfaces ge-0/0/0" },
+      { previousLine: "[edit interfaces ge-0/0/0]" },
+    ],
+  ],
+  mikrotik: [
+    ["[admin@MikroTik] >", { vendor: "mikrotik", hostname: "MikroTik", mode: "privileged" }],
+    ["[admin@MikroTik] /ip address>", { vendor: "mikrotik", hostname: "MikroTik", mode: "sub-config", context: "/ip address" }],
+  ],
+  linux: [
+    ["user@pnetlab:~$", { vendor: "linux", hostname: "pnetlab", mode: "user-exec" }],
+    ["root@pnetlab:/opt/unetlab#", { vendor: "linux", hostname: "pnetlab", mode: "privileged" }],
+    ["[root@centos7 ~]#", { vendor: "linux", hostname: "centos7", mode: "privileged" }],
+  ],
+};
+
+describe("parsePrompt", () => {
+  for (const [vendor, samples] of Object.entries(SAMPLES)) {
+    describe(vendor, () => {
+      it.each(samples)("识别 %s", (line, expected, state) => {
+        expect(parsePrompt(line, state)).toEqual(expected);
+      });
+    });
+  }
+
+  it("忽略空行、普通输出与 Junos 的 [edit] 行", () => {
+    expect(parsePrompt("")).toBeNull();
+    expect(parsePrompt("Building configuration...")).toBeNull();
+    expect(parsePrompt("[edit]")).toBeNull();
+  });
+
+  it("已知厂商时不回退到其他厂商的语法", () => {
+    // Cisco "write memory" / "copy run start" 打印的 "[OK]" 不能被识别为华为系统视图
+    expect(parsePrompt("[OK]", { vendorHint: "cisco-ios" })).toBeNull();
+    expect(parsePrompt("user@host:~$", { vendorHint: "huawei-vrp" })).toBeNull();
+  });
+});
+
+describe("PromptTracker", () => {
+  it("只把换行后的尾行当作提示符，完整输出行中的 [OK] 不会改名", () => {
+    const tracker = new PromptTracker();
+    expect(tracker.push("\r\nR1#")).toEqual({ vendor: "cisco-ios", hostname: "R1", mode: "privileged" });
+    expect(tracker.push("write memory\r\nBuilding configuration...\r\n[OK]\r\n")).toBeNull();
+    expect(tracker.current?.hostname).toBe("R1");
+    expect(tracker.push("R1#")).toBeNull();
+    expect(tracker.current?.hostname).toBe("R1");
+  });
+
+  it("拼接跨块切开的提示符", () => {
+    const tracker = new PromptTracker();
+    expect(tracker.push("\r\nR1(con")).toBeNull();
+    expect(tracker.push("fig)#")).toEqual({ vendor: "cisco-ios", hostname: "R1", mode: "global-config" });
+  });
+
+  it("根据登录横幅区分语法相同的厂商", () => {
+    const tracker = new PromptTracker();
+    tracker.push("Cisco Nexus Operating System (NX-OS) Software\r\n");
+    expect(tracker.push("\r\nswitch#")?.vendor).toBe("cisco-nxos");
+  });
+
+  it("识别出提示符后，输出中提到的其他厂商不会改变厂商", () => {
+    const tracker = new PromptTracker();
+    expect(tracker.push("\r\nR1#")).toEqual({ vendor: "cisco-ios", hostname: "R1", mode: "privileged" });
+    tracker.push("show cdp neighbors detail\r\nPlatform: HUAWEI S5700, Capabilities: Switch\r\n");
+    tracker.push("Version: Huawei Versatile Routing Platform Software\r\n");
+    tracker.push("Device ID: leaf1  Platform: Arista DCS-7050\r\n");
+    expect(tracker.push("R1#")).toBeNull();
+    expect(tracker.push("configure terminal\r\nR1(config)#")).toEqual({
+      vendor: "cisco-ios",
+      hostname: "R1",
+      mode: "global-config",
+    });
+  });
+
+  it("Junos 配置模式取上一行的 [edit ...] 层级", () => {
+    const tracker = new PromptTracker();
+    expect(tracker.push("\r\n[edit protocols ospf]\r\nroot@vMX# ")).toEqual({
+      vendor: "juniper-junos",
+      hostname: "vMX",
+      mode: "sub-config",
+      context: "protocols ospf",
+    });
+  });
+});
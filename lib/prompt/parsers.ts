@@ -0,0 +1,165 @@
+import type { CliMode, PromptInfo, PromptParseState, PromptParser, PromptVendor } from "./types";
+
+const HOSTNAME = "[A-Za-z0-9][A-Za-z0-9._-]{0,62}";
+
+const CISCO_STYLE_PATTERN = new RegExp(`^(${HOSTNAME})(?:\\(([^()]+)\\))?([>#])$`);
+const VRP_USER_PATTERN = /^<([^<>\s]+)>$/;
+const VRP_SYSTEM_PATTERN = /^\[[~*]?([^[\]\s]+)\]$/;
+const JUNOS_PATTERN = new RegExp(`^[A-Za-z0-9._-]+@(${HOSTNAME})([>#%])$`);
+const JUNOS_EDIT_PATTERN = /^\[edit(?:\s+(.+))?\]$/;
+const MIKROTIK_PATTERN = /^\[[^@\]\s]+@([^\]]+)\]\s*(\/[^>]*?)?\s*>$/;
+const LINUX_PATTERN = new RegExp(`^\\[?[A-Za-z_][\\w.-]*@(${HOSTNAME})(?::[^$#\\]]*|\\s+[^$#\\]]*)\\]?\\s?([$#])$`);
+
+/**
+ * Cisco IOS / NX-OS / Arista EOS 共用的 "主机名(config-xxx)#" 语法：
+ * ">" 用户模式，"#" 特权模式，"(config)" 全局配置，"(config-if)" 等为子配置。
+ */
+function createCiscoStyleParser(vendor: PromptVendor): PromptParser {
+  return {
+    vendor,
+    parse(line) {
+      const match = CISCO_STYLE_PATTERN.exec(line);
+      if (!match) {
+        return null;
+      }
+      const [, hostname, view, terminator] = match;
+      if (!view) {
+        return { vendor, hostname, mode: terminator === "#" ? "privileged" : "user-exec" };
+      }
+      if (terminator !== "#") {
+        return null;
+      }
+      if (view === "config") {
+        return { vendor, hostname, mode: "global-config" };
+      }
+      const context = view.startsWith("config-") ? view.slice("config-".length) : view;
+      return { vendor, hostname, mode: "sub-config", context };
+    },
+  };
+}
+
+/**
+ * 华为 VRP 与 H3C Comware："<主机名>" 为用户视图，"[主机名]" 为系统视图，
+ * "[主机名-GigabitEthernet0/0/1]" 为子视图；VRP8 两阶段提交会在前面加 "~" 或 "*"。
+ */
+function createVrpStyleParser(vendor: PromptVendor): PromptParser {
+  return {
+    vendor,
+    parse(line, state) {
+      const user = VRP_USER_PATTERN.exec(line);
+      if (user) {
+        return { vendor, hostname: user[1], mode: "user-exec" };
+      }
+      const system = VRP_SYSTEM_PATTERN.exec(line);
+      if (!system) {
+        return null;
+      }
+      const view = system[1];
+      // Junos 配置模式在提示符前输出的 "[edit]" 不是系统视图
+      if (view === "edit") {
+        return null;
+      }
+      const known = state.hostname;
+      if (known && view === known) {
+        return { vendor, hostname: known, mode: "global-config" };
+      }
+      if (known && view.startsWith(`${known}-`)) {
+        return { vendor, hostname: known, mode: "sub-config", context: view.slice(known.length + 1) };
+      }
+      // 主机名未知时按第一个 "-" 拆分视图名
+      const separator = view.indexOf("-");
+      if (separator <= 0) {
+        return { vendor, hostname: view, mode: "global-config" };
+      }
+      return { vendor, hostname: view.slice(0, separator), mode: "sub-config", context: view.slice(separator + 1) };
+    },
+  };
+}
+
+/** Junos："user@host>" 为操作模式，"user@host#" 为配置模式，层级在上一行的 [edit ...] 中给出 */
+const junosParser: PromptParser = {
+  vendor: "juniper-junos",
+  parse(line, state) {
+    const match = JUNOS_PATTERN.exec(line);
+    if (!match) {
+      return null;
+    }
+    const [, hostname, terminator] = match;
+    if (terminator === ">") {
+      return { vendor: "juniper-junos", hostname, mode: "user-exec" };
+    }
+    if (terminator === "%") {
+      // "%" 是 Junos 的 FreeBSD shell，语法与 Linux 不同因此在这里处理
+      return { vendor: "juniper-junos", hostname, mode: "privileged" };
+    }
+    const edit = state.previousLine ? JUNOS_EDIT_PATTERN.exec(state.previousLine) : null;
+    const context = edit?.[1]?.trim();
+    return context
+      ? { vendor: "juniper-junos", hostname, mode: "sub-config", context }
+      : { vendor: "juniper-junos", hostname, mode: "global-config" };
+  },
+};
+
+/** MikroTik RouterOS："[admin@MikroTik] >" 为根菜单，"[admin@MikroTik] /ip address>" 为子菜单 */
+const mikrotikParser: PromptParser = {
+  vendor: "mikrotik",
+  parse(line) {
+    const match = MIKROTIK_PATTERN.exec(line);
+    if (!match) {
+      return null;
+    }
+    const [, hostname, menu] = match;
+    const context = menu?.trim();
+    return context && context !== "/"
+      ? { vendor: "mikrotik", hostname, mode: "sub-config", context }
+      : { vendor: "mikrotik", hostname, mode: "privileged" };
+  },
+};
+
+/** Linux shell："user@host:~$"、"[user@host dir]#"；"#" 视为 root 特权 */
+const linuxParser: PromptParser = {
+  vendor: "linux",
+  parse(line) {
+    const match = LINUX_PATTERN.exec(line);
+    if (!match) {
+      return null;
+    }
+    const [, hostname, terminator] = match;
+    const mode: CliMode = terminator === "#" ? "privileged" : "user-exec";
+    return { vendor: "linux", hostname, mode };
+  },
+};
+
+/** 默认解析器按顺序尝试；语法冲突时排在前面的厂商作为缺省结果 */
+export const DEFAULT_PROMPT_PARSERS: PromptParser[] = [
+  createCiscoStyleParser("cisco-ios"),
+  createCiscoStyleParser("cisco-nxos"),
+  createCiscoStyleParser("arista-eos"),
+  createVrpStyleParser("huawei-vrp"),
+  createVrpStyleParser("h3c-comware"),
+  junosParser,
+  mikrotikParser,
+  linuxParser,
+];
+
+/**
+ * 用给定解析器识别单行提示符。已知 vendorHint 时只接受该厂商的结果，
+ * 避免 Cisco 的 "[OK]" 之类输出被其他厂商的语法误认；否则返回第一个匹配结果。
+ */
+export function parsePrompt(
+  line: string,
+  state: PromptParseState = {},
+  parsers: PromptParser[] = DEFAULT_PROMPT_PARSERS
+): PromptInfo | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 128) {
+    return null;
+  }
+  for (const parser of parsers) {
+    const result = parser.parse(trimmed, state);
+    if (result && (!state.vendorHint || result.vendor === state.vendorHint)) {
+      return result;
+    }
+  }
+  return null;
+}
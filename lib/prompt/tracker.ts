@@ -0,0 +1,88 @@
+import { stripAnsi } from "@/lib/transcript/ansi";
+
+import { DEFAULT_PROMPT_PARSERS, parsePrompt } from "./parsers";
+import type { PromptInfo, PromptParseState, PromptParser, PromptVendor } from "./types";
+
+/** 登录横幅与 show version 输出中的厂商特征，用于区分语法相同的提示符 */
+const VENDOR_FINGERPRINTS: Array<{ vendor: PromptVendor; pattern: RegExp }> = [
+  { vendor: "cisco-nxos", pattern: /Cisco Nexus Operating System|\bNX-OS\b/ },
+  { vendor: "arista-eos", pattern: /\bArista\b/ },
+  { vendor: "cisco-ios", pattern: /Cisco IOS(?:-XE)? Software/ },
+  { vendor: "h3c-comware", pattern: /\bH3C\b|\bComware\b/ },
+  { vendor: "huawei-vrp", pattern: /Huawei Versatile Routing Platform|\bHUAWEI\b/ },
+  { vendor: "juniper-junos", pattern: /\bJUNOS\b|\bJunos\b/ },
+  { vendor: "mikrotik", pattern: /\bMikroTik\b|\bRouterOS\b/ },
+];
+
+const MAX_PENDING_LENGTH = 512;
+
+function isSamePrompt(a: PromptInfo | null, b: PromptInfo) {
+  return Boolean(a && a.vendor === b.vendor && a.hostname === b.hostname && a.mode === b.mode && a.context === b.context);
+}
+
+/**
+ * 按会话跟踪终端输出中的提示符。输出可能在任意位置被切块，
+ * 未以换行结束的尾行会暂存并与下一块拼接后再识别。
+ * 提示符总是停在光标所在的尾行，完整的输出行只用于厂商识别与 Junos 的 [edit] 层级，
+ * 不会被当作提示符解析（例如 Cisco "write memory" 打印的 "[OK]"）。
+ * 厂商特征只在首个提示符出现之前（登录横幅）识别；识别出提示符后厂商即锁定为该提示符的厂商，
+ * 之后 show version、邻居表或日志中提到的其他厂商名不会再改变它。
+ */
+export class PromptTracker {
+  private pending = "";
+  private previousLine = "";
+  private vendorHint: PromptVendor | undefined;
+  private last: PromptInfo | null = null;
+
+  constructor(private readonly parsers: PromptParser[] = DEFAULT_PROMPT_PARSERS) {}
+
+  get current() {
+    return this.last;
+  }
+
+  /** 推入一段输出；提示符（主机名、厂商、模式或上下文）发生变化时返回新结果 */
+  push(data: string): PromptInfo | null {
+    const lines = (this.pending + data).split(/\r\n|\n|\r/);
+    this.pending = (lines.pop() ?? "").slice(-MAX_PENDING_LENGTH);
+
+    for (const raw of lines) {
+      const line = stripAnsi(raw).trim();
+      if (line) {
+        this.fingerprint(line);
+        this.previousLine = line;
+      }
+    }
+
+    const tail = stripAnsi(this.pending).trimEnd();
+    if (!tail.trim()) {
+      return null;
+    }
+    this.fingerprint(tail);
+    const detected = parsePrompt(tail, this.state(), this.parsers);
+    if (!detected) {
+      return null;
+    }
+    this.vendorHint = detected.vendor;
+    if (isSamePrompt(this.last, detected)) {
+      return null;
+    }
+    this.last = detected;
+    return detected;
+  }
+
+  private state(): PromptParseState {
+    return { hostname: this.last?.hostname, vendorHint: this.vendorHint, previousLine: this.previousLine };
+  }
+
+  private fingerprint(line: string) {
+    if (this.last) {
+      return;
+    }
+    for (const { vendor, pattern } of VENDOR_FINGERPRINTS) {
+      if (pattern.test(line)) {
+        this.vendorHint = vendor;
+        return;
+      }
+    }
+  }
+}
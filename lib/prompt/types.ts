@@ -0,0 +1,42 @@
+export const PROMPT_VENDORS = [
+  "cisco-ios",
+  "cisco-nxos",
+  "arista-eos",
+  "huawei-vrp",
+  "h3c-comware",
+  "juniper-junos",
+  "mikrotik",
+  "linux",
+] as const;
+
+export type PromptVendor = (typeof PROMPT_VENDORS)[number];
+
+export function isPromptVendor(value: unknown): value is PromptVendor {
+  return typeof value === "string" && (PROMPT_VENDORS as readonly string[]).includes(value);
+}
+
+export const CLI_MODES = ["user-exec", "privileged", "global-config", "sub-config"] as const;
+
+export type CliMode = (typeof CLI_MODES)[number];
+
+export type PromptInfo = {
+  vendor: PromptVendor;
+  hostname: string;
+  mode: CliMode;
+  /** 子配置视图的上下文，例如 "if"、"GigabitEthernet0/0/1"、"interfaces ge-0/0/0" */
+  context?: string;
+};
+
+export type PromptParseState = {
+  /** 最近一次识别出的主机名，用于拆分华为/H3C 视图中的 "主机名-接口" */
+  hostname?: string;
+  /** 从登录横幅等输出中推断出的厂商，用于区分语法相同的提示符 */
+  vendorHint?: PromptVendor;
+  /** 提示符之前的最后一行完整输出，Junos 在此给出 [edit ...] 层级 */
+  previousLine?: string;
+};
+
+export interface PromptParser {
+  vendor: PromptVendor;
+  parse: (line: string, state: PromptParseState) => PromptInfo | null;
+}
@@ -0,0 +1,140 @@
+import { formatTranscriptTimestamp, sanitizeFileNameSegment } from "@/lib/transcript";
+
+/** asciicast v2 事件类型：输出、输入、终端尺寸变化（"COLSxROWS"）、标记 */
+export type AsciicastEventType = "o" | "i" | "r" | "m";
+
+export type AsciicastEvent = [time: number, type: AsciicastEventType, data: string];
+
+export type RecordingDevice = {
+  host: string;
+  port: number;
+  label?: string;
+};
+
+export type AsciicastHeader = {
+  version: 2;
+  width: number;
+  height: number;
+  /** Unix 时间戳（秒） */
+  timestamp?: number;
+  duration?: number;
+  idle_time_limit?: number;
+  title?: string;
+  env?: Record<string, string>;
+  /** 非标准字段：录像所属设备，asciinema 等播放器会忽略 */
+  device?: RecordingDevice;
+};
+
+export type AsciicastRecording = {
+  header: AsciicastHeader;
+  events: AsciicastEvent[];
+  /** 最后一个事件的时间（秒） */
+  duration: number;
+};
+
+export const ASCIICAST_EXTENSION = ".cast";
+
+const EVENT_TYPES = new Set<string>(["o", "i", "r", "m"]);
+
+export function createAsciicastHeader(device: RecordingDevice, cols: number, rows: number, startedAt: Date): AsciicastHeader {
+  return {
+    version: 2,
+    width: cols,
+    height: rows,
+    timestamp: Math.floor(startedAt.getTime() / 1000),
+    title: device.label && device.label !== device.host ? `${device.label} (${device.host}:${device.port})` : `${device.host}:${device.port}`,
+    env: { TERM: "xterm-256color" },
+    device,
+  };
+}
+
+export function serializeAsciicastHeader(header: AsciicastHeader) {
+  return `${JSON.stringify(header)}\n`;
+}
+
+export function serializeAsciicastEvent([time, type, data]: AsciicastEvent) {
+  return `${JSON.stringify([Math.round(time * 1000) / 1000, type, data])}\n`;
+}
+
+/** 生成形如 R1_10.0.0.1-32769_20251019-142530.cast 的文件名 */
+export function buildRecordingFileName({ label, host, port }: RecordingDevice, startedAt: Date) {
+  const segments = [
+    label && label !== host ? sanitizeFileNameSegment(label) : "",
+    `${sanitizeFileNameSegment(host)}-${port}`,
+    formatTranscriptTimestamp(startedAt),
+  ].filter(Boolean);
+  return `${segments.join("_")}${ASCIICAST_EXTENSION}`;
+}
+
+export function parseAsciicastHeader(line: string): AsciicastHeader | null {
+  try {
+    const parsed = JSON.parse(line) as Partial<AsciicastHeader> | null;
+    if (!parsed || typeof parsed !== "object" || parsed.version !== 2) {
+      return null;
+    }
+    const width = Number(parsed.width);
+    const height = Number(parsed.height);
+    if (!Number.isFinite(width) || !Number.isFinite(height) || width <= 0 || height <= 0) {
+      return null;
+    }
+    const device = parsed.device;
+    return {
+      ...parsed,
+      version: 2,
+      width,
+      height,
+      device:
+        device && typeof device.host === "string"
+          ? { host: device.host, port: Number(device.port) || 23, label: typeof device.label === "string" ? device.label : undefined }
+          : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 解析 .cast 文本。无法识别的事件行直接跳过；若头部声明了 idle_time_limit，
+ * 超过该值的停顿在回放时间轴上被压缩。
+ */
+export function parseAsciicast(text: string): AsciicastRecording {
+  const lines = text.split("\n");
+  const header = parseAsciicastHeader(lines[0] ?? "");
+  if (!header) {
+    throw new Error("Not an asciicast v2 recording");
+  }
+  const idleLimit = typeof header.idle_time_limit === "number" && header.idle_time_limit > 0 ? header.idle_time_limit : Infinity;
+  const events: AsciicastEvent[] = [];
+  let previousRaw = 0;
+  let time = 0;
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry = JSON.parse(line) as unknown;
+      if (!Array.isArray(entry) || entry.length < 3) {
+        continue;
+      }
+      const [rawTime, type, data] = entry as [unknown, unknown, unknown];
+      if (typeof rawTime !== "number" || !Number.isFinite(rawTime) || !EVENT_TYPES.has(String(type)) || typeof data !== "string") {
+        continue;
+      }
+      time += Math.min(Math.max(rawTime - previousRaw, 0), idleLimit);
+      previousRaw = rawTime;
+      events.push([time, type as AsciicastEventType, data]);
+    } catch {
+      // 录制中断时最后一行可能不完整
+    }
+  }
+  return { header, events, duration: events.length ? events[events.length - 1][0] : 0 };
+}
+
+/** 解析 "r" 事件的 "COLSxROWS" 数据 */
+export function parseResizeEvent(data: string): { cols: number; rows: number } | null {
+  const match = /^(\d+)x(\d+)$/.exec(data.trim());
+  if (!match) {
+    return null;
+  }
+  return { cols: Number(match[1]), rows: Number(match[2]) };
+}
@@ -0,0 +1,17 @@
+export {
+  ASCIICAST_EXTENSION,
+  buildRecordingFileName,
+  createAsciicastHeader,
+  parseAsciicast,
+  parseAsciicastHeader,
+  parseResizeEvent,
+  serializeAsciicastEvent,
+  serializeAsciicastHeader,
+  type AsciicastEvent,
+  type AsciicastEventType,
+  type AsciicastHeader,
+  type AsciicastRecording,
+  type RecordingDevice,
+} from "./asciicast";
+export { AsciicastPlayer, PLAYBACK_SPEEDS, type AsciicastPlayerOutput } from "./player";
+export { SessionRecorder, type SessionRecorderOptions } from "./session-recorder";
@@ -0,0 +1,162 @@
+import { parseResizeEvent, type AsciicastRecording } from "./asciicast";
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8] as const;
+
+export type AsciicastPlayerOutput = {
+  /** 清空终端，seek 回放前调用 */
+  reset: () => void;
+  write: (data: string) => void;
+  resize?: (cols: number, rows: number) => void;
+  onEnd?: () => void;
+};
+
+/**
+ * 与渲染无关的回放时钟：按事件时间把输出交给 write，支持暂停、变速与跳转。
+ * 跳转时先 reset，再一次性写入目标时间之前的全部输出。
+ */
+export class AsciicastPlayer {
+  private cursor = 0;
+  private position = 0;
+  private playing = false;
+  private speed = 1;
+  /** 开始播放时的 performance.now() 与对应的录像时间 */
+  private anchorClock = 0;
+  private anchorPosition = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly recording: AsciicastRecording,
+    private readonly output: AsciicastPlayerOutput
+  ) {
+    this.output.reset();
+    this.output.resize?.(recording.header.width, recording.header.height);
+  }
+
+  get duration() {
+    return this.recording.duration;
+  }
+
+  get isPlaying() {
+    return this.playing;
+  }
+
+  get currentTime() {
+    if (!this.playing) {
+      return this.position;
+    }
+    return Math.min(this.anchorPosition + ((performance.now() - this.anchorClock) / 1000) * this.speed, this.duration);
+  }
+
+  play() {
+    if (this.playing) {
+      return;
+    }
+    // 播放结束后再次播放从头开始
+    if (this.cursor >= this.recording.events.length) {
+      this.seek(0);
+    }
+    this.playing = true;
+    this.anchor(this.position);
+    this.schedule();
+  }
+
+  pause() {
+    if (!this.playing) {
+      return;
+    }
+    this.position = this.currentTime;
+    this.playing = false;
+    this.clearTimer();
+  }
+
+  setSpeed(speed: number) {
+    if (!Number.isFinite(speed) || speed <= 0) {
+      return;
+    }
+    const current = this.currentTime;
+    this.speed = speed;
+    if (this.playing) {
+      this.anchor(current);
+      this.schedule();
+    }
+  }
+
+  seek(time: number) {
+    const target = Math.min(Math.max(time, 0), this.duration);
+    const { header } = this.recording;
+    this.clearTimer();
+    this.output.reset();
+    this.output.resize?.(header.width, header.height);
+    this.cursor = 0;
+    this.applyEventsUntil(target);
+    this.position = target;
+    if (this.playing) {
+      this.anchor(target);
+      this.schedule();
+    }
+  }
+
+  dispose() {
+    this.playing = false;
+    this.clearTimer();
+  }
+
+  private anchor(position: number) {
+    this.anchorClock = performance.now();
+    this.anchorPosition = position;
+    this.position = position;
+  }
+
+  private schedule() {
+    this.clearTimer();
+    if (!this.playing) {
+      return;
+    }
+    const { events } = this.recording;
+    const now = this.currentTime;
+    this.applyEventsUntil(now);
+    if (this.cursor >= events.length) {
+      this.position = this.duration;
+      this.playing = false;
+      this.output.onEnd?.();
+      return;
+    }
+    const delay = ((events[this.cursor][0] - now) / this.speed) * 1000;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.schedule();
+    }, Math.max(delay, 0));
+  }
+
+  /** 依次应用到期事件，相邻输出合并为一次写入 */
+  private applyEventsUntil(time: number) {
+    const { events } = this.recording;
+    let buffered = "";
+    while (this.cursor < events.length && events[this.cursor][0] <= time) {
+      const [, type, data] = events[this.cursor];
+      this.cursor += 1;
+      if (type === "o") {
+        buffered += data;
+        continue;
+      }
+      const size = type === "r" ? parseResizeEvent(data) : null;
+      if (size) {
+        if (buffered) {
+          this.output.write(buffered);
+          buffered = "";
+        }
+        this.output.resize?.(size.cols, size.rows);
+      }
+    }
+    if (buffered) {
+      this.output.write(buffered);
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
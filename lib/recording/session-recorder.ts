@@ -0,0 +1,100 @@
+import {
+  buildRecordingFileName,
+  createAsciicastHeader,
+  serializeAsciicastEvent,
+  serializeAsciicastHeader,
+  type AsciicastEventType,
+  type RecordingDevice,
+} from "./asciicast";
+
+const FLUSH_INTERVAL_MS = 500;
+
+export type SessionRecorderOptions = RecordingDevice & {
+  cols: number;
+  rows: number;
+};
+
+/**
+ * 以 asciicast v2 格式录制单个会话：事件时间相对录制开始计算，
+ * 与转录一样先在内存中合并，再定时交给桥接层落盘。
+ */
+export class SessionRecorder {
+  private pending = "";
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  private constructor(
+    private readonly id: string,
+    readonly path: string,
+    readonly fileName: string,
+    private readonly startedAt: number
+  ) {}
+
+  static async start({ cols, rows, ...device }: SessionRecorderOptions) {
+    const recordings = window.desktopBridge?.recordings;
+    if (!recordings) {
+      throw new Error("Session recording is only available in the desktop app");
+    }
+    const startedAt = new Date();
+    const fileName = buildRecordingFileName(device, startedAt);
+    const { id, path } = await recordings.open(fileName);
+    const recorder = new SessionRecorder(id, path, fileName, startedAt.getTime());
+    recorder.enqueue(serializeAsciicastHeader(createAsciicastHeader(device, cols, rows, startedAt)));
+    return recorder;
+  }
+
+  output(chunk: string) {
+    this.record("o", chunk);
+  }
+
+  input(chunk: string) {
+    this.record("i", chunk);
+  }
+
+  resize(cols: number, rows: number) {
+    this.record("r", `${cols}x${rows}`);
+  }
+
+  async stop() {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+    await window.desktopBridge?.recordings?.close(this.id);
+  }
+
+  private record(type: AsciicastEventType, data: string) {
+    if (this.closed || !data) {
+      return;
+    }
+    this.enqueue(serializeAsciicastEvent([(Date.now() - this.startedAt) / 1000, type, data]));
+  }
+
+  private enqueue(text: string) {
+    this.pending += text;
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flush();
+      }, FLUSH_INTERVAL_MS);
+    }
+  }
+
+  private async flush() {
+    if (!this.pending) {
+      return;
+    }
+    const data = this.pending;
+    this.pending = "";
+    try {
+      await window.desktopBridge?.recordings?.write(this.id, data);
+    } catch (error) {
+      console.warn("Failed to write session recording", error);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+type ChordEvent = Pick<KeyboardEvent, "code" | "ctrlKey" | "altKey" | "shiftKey" | "metaKey">;
+
+const MODIFIER_ORDER = ["Ctrl", "Alt", "Shift", "Meta"] as const;
+const MODIFIER_CODES = /^(Control|Alt|Shift|Meta|OS)(Left|Right)?$/;
+
+/** 单独按 Ctrl 加这些键会产生控制字符（Ctrl+C、Ctrl+Z、Ctrl+] 等），必须交给设备 */
+const CONTROL_CHARACTER_KEYS = /^([A-Z0-9]|Space|Minus|Equal|BracketLeft|BracketRight|Backslash|Slash|Semicolon|Quote|Backquote|Comma|Period)$/;
+
+const FUNCTION_KEY = /^F([1-9]|1[0-2])$/;
+
+/**
+ * 即使带 Shift 也必须透传的组合：
+ * Ctrl+Shift+6 即 Ctrl+^（Cisco 中断序列 Ctrl+Shift+6 x），Ctrl+Shift+2 即 Ctrl+@，Ctrl+Shift+Minus 即 Ctrl+_
+ */
+export const FORWARDED_CHORDS = ["Ctrl+Shift+6", "Ctrl+Shift+2", "Ctrl+Shift+Minus"] as const;
+
+/** 以物理键位（event.code）表示按键，避免 Shift 与键盘布局改变 event.key */
+function keyName(code: string) {
+  if (/^Key[A-Z]$/.test(code)) {
+    return code.slice(3);
+  }
+  if (/^Digit[0-9]$/.test(code)) {
+    return code.slice(5);
+  }
+  return code;
+}
+
+/** 由键盘事件生成组合键字符串；仅按下修饰键时返回 null */
+export function chordFromEvent(event: ChordEvent): string | null {
+  if (!event.code || MODIFIER_CODES.test(event.code)) {
+    return null;
+  }
+  const parts: string[] = [];
+  if (event.ctrlKey) parts.push("Ctrl");
+  if (event.altKey) parts.push("Alt");
+  if (event.shiftKey) parts.push("Shift");
+  if (event.metaKey) parts.push("Meta");
+  parts.push(keyName(event.code));
+  return parts.join("+");
+}
+
+/** 规范化用户或配置文件中的组合键写法（修饰键顺序、大小写）；无法识别时返回 null */
+export function normalizeChord(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const parts = value
+    .split("+")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const key = parts.pop();
+  if (!key) {
+    return null;
+  }
+  const modifiers = new Set<string>();
+  for (const part of parts) {
+    const modifier = MODIFIER_ORDER.find((entry) => entry.toLowerCase() === part.toLowerCase());
+    if (!modifier) {
+      return null;
+    }
+    modifiers.add(modifier);
+  }
+  const normalizedKey = key.length === 1 ? key.toUpperCase() : key;
+  return [...MODIFIER_ORDER.filter((modifier) => modifiers.has(modifier)), normalizedKey].join("+");
+}
+
+/**
+ * 判断组合键是否必须透传给设备（不可绑定为快捷键）：
+ * 无 Ctrl/Alt/Meta 的普通输入（功能键除外）、单独 Ctrl 产生的控制字符，以及 FORWARDED_CHORDS。
+ */
+export function isForwardedChord(chord: string) {
+  const parts = chord.split("+");
+  const key = parts[parts.length - 1];
+  const modifiers = new Set(parts.slice(0, -1));
+  if ((FORWARDED_CHORDS as readonly string[]).includes(chord)) {
+    return true;
+  }
+  if (!modifiers.has("Ctrl") && !modifiers.has("Alt") && !modifiers.has("Meta")) {
+    return !FUNCTION_KEY.test(key);
+  }
+  if (modifiers.size === 1 && modifiers.has("Ctrl")) {
+    return CONTROL_CHARACTER_KEYS.test(key);
+  }
+  return false;
+}
@@ -0,0 +1,16 @@
+export { FORWARDED_CHORDS, chordFromEvent, isForwardedChord, normalizeChord } from "./chords";
+export {
+  DEFAULT_SHORTCUT_BINDINGS,
+  SHORTCUT_DEFINITIONS,
+  findShortcutConflicts,
+  getShortcutDefinition,
+  matchShortcut,
+  sanitizeShortcutBindings,
+} from "./registry";
+export type {
+  SessionIndexShortcutId,
+  ShortcutActionId,
+  ShortcutBindings,
+  ShortcutDefinition,
+  ShortcutScope,
+} from "./types";
@@ -0,0 +1,77 @@
+import { chordFromEvent, isForwardedChord, normalizeChord } from "./chords";
+import type { SessionIndexShortcutId, ShortcutActionId, ShortcutBindings, ShortcutDefinition } from "./types";
+
+const SESSION_INDEX_SHORTCUTS: ShortcutDefinition[] = Array.from({ length: 9 }, (_, index) => ({
+  id: `jumpToSession${index + 1}` as SessionIndexShortcutId,
+  scope: "app",
+  defaultChord: `Alt+${index + 1}`,
+  sessionIndex: index + 1,
+}));
+
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  { id: "nextSession", scope: "app", defaultChord: "Ctrl+PageDown" },
+  { id: "previousSession", scope: "app", defaultChord: "Ctrl+PageUp" },
+  ...SESSION_INDEX_SHORTCUTS,
+  { id: "closeSession", scope: "app", defaultChord: "Ctrl+Shift+W" },
+  { id: "reconnectSession", scope: "terminal", defaultChord: "Ctrl+Shift+R" },
+  { id: "clearScrollback", scope: "terminal", defaultChord: "Ctrl+Shift+K" },
+  { id: "sendBreak", scope: "terminal", defaultChord: null },
+  { id: "sendCiscoEscape", scope: "terminal", defaultChord: null },
+  { id: "openSearch", scope: "terminal", defaultChord: "Ctrl+Shift+F" },
+  { id: "quickConnect", scope: "app", defaultChord: "Ctrl+Shift+N" },
+  { id: "toggleBroadcast", scope: "app", defaultChord: "Ctrl+Shift+B" },
+  { id: "toggleSnippets", scope: "app", defaultChord: "Ctrl+Shift+S" },
+  // 单独的 Ctrl+R 属于设备（IOS 用于重显当前行），因此默认加上 Alt
+  { id: "recallCommand", scope: "app", defaultChord: "Ctrl+Alt+R" },
+  // Tab 仍交给设备自身补全，接受离线提示使用单独的组合键
+  { id: "acceptCompletion", scope: "terminal", defaultChord: "Alt+Enter" },
+];
+
+export const DEFAULT_SHORTCUT_BINDINGS = Object.fromEntries(
+  SHORTCUT_DEFINITIONS.map((definition) => [definition.id, definition.defaultChord])
+) as ShortcutBindings;
+
+export function getShortcutDefinition(id: ShortcutActionId) {
+  return SHORTCUT_DEFINITIONS.find((definition) => definition.id === id)!;
+}
+
+/** 合并持久化的绑定：未知动作被忽略，无效或必须透传的组合键视为未绑定 */
+export function sanitizeShortcutBindings(input: unknown): ShortcutBindings {
+  const bindings = { ...DEFAULT_SHORTCUT_BINDINGS };
+  if (!input || typeof input !== "object") {
+    return bindings;
+  }
+  const record = input as Record<string, unknown>;
+  for (const definition of SHORTCUT_DEFINITIONS) {
+    if (!(definition.id in record)) {
+      continue;
+    }
+    const chord = normalizeChord(record[definition.id]);
+    bindings[definition.id] = chord && !isForwardedChord(chord) ? chord : null;
+  }
+  return bindings;
+}
+
+/** 返回被多个动作共用的组合键及其动作列表 */
+export function findShortcutConflicts(bindings: ShortcutBindings) {
+  const byChord = new Map<string, ShortcutActionId[]>();
+  for (const definition of SHORTCUT_DEFINITIONS) {
+    const chord = bindings[definition.id];
+    if (chord) {
+      byChord.set(chord, [...(byChord.get(chord) ?? []), definition.id]);
+    }
+  }
+  return new Map([...byChord].filter(([, actions]) => actions.length > 1));
+}
+
+/** 查找键盘事件对应的动作；必须透传给设备的组合键永远不匹配 */
+export function matchShortcut(
+  event: Pick<KeyboardEvent, "code" | "ctrlKey" | "altKey" | "shiftKey" | "metaKey">,
+  bindings: ShortcutBindings
+): ShortcutDefinition | null {
+  const chord = chordFromEvent(event);
+  if (!chord || isForwardedChord(chord)) {
+    return null;
+  }
+  return SHORTCUT_DEFINITIONS.find((definition) => bindings[definition.id] === chord) ?? null;
+}
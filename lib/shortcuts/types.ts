@@ -0,0 +1,31 @@
+export type SessionIndexShortcutId = `jumpToSession${1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9}`;
+
+export type ShortcutActionId =
+  | "nextSession"
+  | "previousSession"
+  | SessionIndexShortcutId
+  | "closeSession"
+  | "reconnectSession"
+  | "clearScrollback"
+  | "sendBreak"
+  | "sendCiscoEscape"
+  | "openSearch"
+  | "quickConnect"
+  | "toggleBroadcast"
+  | "toggleSnippets"
+  | "recallCommand"
+  | "acceptCompletion";
+
+/** app：页面级操作（任何焦点下生效）；terminal：只作用于当前获得焦点的终端 */
+export type ShortcutScope = "app" | "terminal";
+
+export type ShortcutDefinition = {
+  id: ShortcutActionId;
+  scope: ShortcutScope;
+  defaultChord: string | null;
+  /** 跳转到第 N 个会话 */
+  sessionIndex?: number;
+};
+
+/** 动作 -> 组合键（如 "Ctrl+Shift+F"），null 表示未绑定 */
+export type ShortcutBindings = Record<ShortcutActionId, string | null>;
@@ -0,0 +1,26 @@
+import type { Snippet } from "./types";
+
+// 内置常用命令，首次启动或用户未保存过片段时使用
+export const DEFAULT_SNIPPETS: Snippet[] = [
+  { id: "builtin-ios-int-brief", vendor: "cisco-ios", name: "show ip interface brief", body: "show ip interface brief" },
+  { id: "builtin-ios-no-paging", vendor: "cisco-ios", name: "terminal length 0", body: "terminal length 0" },
+  { id: "builtin-ios-route", vendor: "cisco-ios", name: "show ip route", body: "show ip route" },
+  {
+    id: "builtin-ios-loopback",
+    vendor: "cisco-ios",
+    name: "Loopback interface",
+    body: "configure terminal\ninterface Loopback{{id}}\n ip address {{ip}} {{mask}}\nend",
+  },
+  { id: "builtin-vrp-int-brief", vendor: "huawei-vrp", name: "display ip interface brief", body: "display ip interface brief" },
+  { id: "builtin-vrp-no-paging", vendor: "huawei-vrp", name: "screen-length 0 temporary", body: "screen-length 0 temporary" },
+  {
+    id: "builtin-vrp-sysname",
+    vendor: "huawei-vrp",
+    name: "Rename device",
+    body: "system-view\nsysname {{hostname}}\nreturn",
+  },
+  { id: "builtin-comware-int-brief", vendor: "h3c-comware", name: "display ip interface brief", body: "display ip interface brief" },
+  { id: "builtin-comware-no-paging", vendor: "h3c-comware", name: "screen-length disable", body: "screen-length disable" },
+  { id: "builtin-junos-int-terse", vendor: "juniper-junos", name: "show interfaces terse", body: "show interfaces terse" },
+  { id: "builtin-junos-no-paging", vendor: "juniper-junos", name: "set cli screen-length 0", body: "set cli screen-length 0" },
+];
@@ -0,0 +1,9 @@
+export { DEFAULT_SNIPPETS } from "./defaults";
+export {
+  extractSnippetVariables,
+  fillSnippetTemplate,
+  generateSnippetId,
+  renderSnippetForTerminal,
+  sanitizeSnippet,
+} from "./template";
+export { SNIPPET_VENDORS, isSnippetVendor, type Snippet, type SnippetVendor } from "./types";
@@ -0,0 +1,52 @@
+import { isSnippetVendor, type Snippet } from "./types";
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/** 按出现顺序返回去重后的 {{variable}} 名称 */
+export function extractSnippetVariables(body: string): string[] {
+  const names: string[] = [];
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+export function fillSnippetTemplate(body: string, values: Record<string, string>) {
+  return body.replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? "");
+}
+
+/**
+ * 生成写入终端的数据：换行统一为 CR（等同按下回车），末尾补一个回车执行最后一行。
+ */
+export function renderSnippetForTerminal(body: string, values: Record<string, string> = {}) {
+  const filled = fillSnippetTemplate(body, values).replace(/\r\n?/g, "\n").replace(/\n+$/, "");
+  return `${filled.split("\n").join("\r")}\r`;
+}
+
+export function sanitizeSnippet(entry: Partial<Snippet> | null | undefined): Snippet | null {
+  if (!entry) {
+    return null;
+  }
+  const id = typeof entry.id === "string" ? entry.id.trim() : "";
+  const name = typeof entry.name === "string" ? entry.name.trim() : "";
+  const body = typeof entry.body === "string" ? entry.body : "";
+  if (!id || !name || !body.trim()) {
+    return null;
+  }
+  return {
+    id,
+    vendor: isSnippetVendor(entry.vendor) ? entry.vendor : "generic",
+    name,
+    body,
+    description: typeof entry.description === "string" && entry.description.trim() ? entry.description.trim() : undefined,
+  } satisfies Snippet;
+}
+
+export function generateSnippetId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return `snippet-${crypto.randomUUID()}`;
+  }
+  return `snippet-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
@@ -0,0 +1,15 @@
+export const SNIPPET_VENDORS = ["cisco-ios", "huawei-vrp", "h3c-comware", "juniper-junos", "generic"] as const;
+
+export type SnippetVendor = (typeof SNIPPET_VENDORS)[number];
+
+export type Snippet = {
+  id: string;
+  vendor: SnippetVendor;
+  name: string;
+  body: string;
+  description?: string;
+};
+
+export function isSnippetVendor(value: unknown): value is SnippetVendor {
+  return typeof value === "string" && (SNIPPET_VENDORS as readonly string[]).includes(value);
+}
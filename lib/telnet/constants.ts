@@ -0,0 +1,58 @@
+// RFC 854 / RFC 855 命令字节与常用选项编号
+
+export const TelnetCommand = {
+  SE: 240,
+  NOP: 241,
+  DM: 242,
+  BRK: 243,
+  IP: 244,
+  AO: 245,
+  AYT: 246,
+  EC: 247,
+  EL: 248,
+  GA: 249,
+  SB: 250,
+  WILL: 251,
+  WONT: 252,
+  DO: 253,
+  DONT: 254,
+  IAC: 255,
+} as const;
+
+export type TelnetCommandCode = (typeof TelnetCommand)[keyof typeof TelnetCommand];
+
+export type TelnetNegotiationVerb =
+  | typeof TelnetCommand.WILL
+  | typeof TelnetCommand.WONT
+  | typeof TelnetCommand.DO
+  | typeof TelnetCommand.DONT;
+
+export const TelnetOption = {
+  BINARY: 0,
+  ECHO: 1,
+  SGA: 3,
+  STATUS: 5,
+  TIMING_MARK: 6,
+  TTYPE: 24,
+  NAWS: 31,
+  LINEMODE: 34,
+} as const;
+
+export type TelnetOptionCode = number;
+
+// RFC 1091 TERMINAL-TYPE 子协商
+export const TTYPE_IS = 0;
+export const TTYPE_SEND = 1;
+
+export const CR = 13;
+export const LF = 10;
+export const NUL = 0;
+
+export function isNegotiationVerb(value: number): value is TelnetNegotiationVerb {
+  return (
+    value === TelnetCommand.WILL ||
+    value === TelnetCommand.WONT ||
+    value === TelnetCommand.DO ||
+    value === TelnetCommand.DONT
+  );
+}
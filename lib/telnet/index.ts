@@ -0,0 +1,22 @@
+export { TelnetCommand, TelnetOption } from "./constants";
+export type { TelnetCommandCode, TelnetNegotiationVerb } from "./constants";
+export { TelnetParser, escapeIac, type TelnetParserEvent } from "./parser";
+export { TelnetOptionNegotiator, type NegotiationSide } from "./negotiation";
+export {
+  CISCO_ESCAPE_SEQUENCE,
+  TELNET_CLIENT_ESCAPE,
+  TELNET_CLIENT_SEND_ARGUMENTS,
+  TELNET_SIGNALS,
+  TELNET_SIGNAL_COMMANDS,
+  isTelnetSignal,
+  type TelnetSignal,
+} from "./signals";
+export {
+  DEFAULT_TERMINAL_TYPES,
+  TelnetSession,
+  type TelnetLocalEchoMode,
+  type TelnetOptionSnapshot,
+  type TelnetSessionOptions,
+  type TelnetTextCodec,
+} from "./session";
+export type { TelnetEndpoint, TelnetTransport, TelnetTransportCloseInfo } from "./transport";
@@ -0,0 +1,176 @@
+import { TelnetCommand, type TelnetNegotiationVerb } from "./constants";
+
+type OptionState = "no" | "yes" | "want-no" | "want-yes";
+type QueueState = "empty" | "opposite";
+
+type SideState = {
+  state: OptionState;
+  queue: QueueState;
+};
+
+export type NegotiationSide = "local" | "remote";
+
+export type TelnetNegotiatorHooks = {
+  /** 需要向对端发送 IAC <verb> <option> */
+  send: (verb: TelnetNegotiationVerb, option: number) => void;
+  /** 选项真正生效或失效时回调 */
+  onChange?: (side: NegotiationSide, option: number, enabled: boolean) => void;
+  /** 对端主动请求某个选项时，是否接受 */
+  accept: (side: NegotiationSide, option: number) => boolean;
+};
+
+/**
+ * RFC 1143 "Q method" 选项协商状态机，避免 WILL/DO 互相应答导致的死循环。
+ * local 表示本端（我们发送 WILL/WONT），remote 表示对端（我们发送 DO/DONT）。
+ */
+export class TelnetOptionNegotiator {
+  private readonly local = new Map<number, SideState>();
+  private readonly remote = new Map<number, SideState>();
+
+  constructor(private readonly hooks: TelnetNegotiatorHooks) {}
+
+  isEnabled(side: NegotiationSide, option: number): boolean {
+    return this.entry(side, option).state === "yes";
+  }
+
+  /** 对端是否已明确拒绝（或在请求后回到 NO） */
+  isDisabled(side: NegotiationSide, option: number): boolean {
+    return this.entry(side, option).state === "no";
+  }
+
+  receive(verb: TelnetNegotiationVerb, option: number) {
+    switch (verb) {
+      case TelnetCommand.WILL:
+        this.handleAffirmative("remote", option);
+        break;
+      case TelnetCommand.WONT:
+        this.handleNegative("remote", option);
+        break;
+      case TelnetCommand.DO:
+        this.handleAffirmative("local", option);
+        break;
+      case TelnetCommand.DONT:
+        this.handleNegative("local", option);
+        break;
+    }
+  }
+
+  request(side: NegotiationSide, option: number, enable: boolean) {
+    const entry = this.entry(side, option);
+    if (enable) {
+      switch (entry.state) {
+        case "no":
+          entry.state = "want-yes";
+          this.sendFor(side, true, option);
+          break;
+        case "want-no":
+          entry.queue = "opposite";
+          break;
+        case "want-yes":
+          entry.queue = "empty";
+          break;
+        default:
+          break;
+      }
+      return;
+    }
+
+    switch (entry.state) {
+      case "yes":
+        entry.state = "want-no";
+        this.sendFor(side, false, option);
+        break;
+      case "want-no":
+        entry.queue = "empty";
+        break;
+      case "want-yes":
+        entry.queue = "opposite";
+        break;
+      default:
+        break;
+    }
+  }
+
+  private handleAffirmative(side: NegotiationSide, option: number) {
+    const entry = this.entry(side, option);
+    switch (entry.state) {
+      case "no":
+        if (this.hooks.accept(side, option)) {
+          entry.state = "yes";
+          this.sendFor(side, true, option);
+          this.hooks.onChange?.(side, option, true);
+        } else {
+          this.sendFor(side, false, option);
+        }
+        break;
+      case "yes":
+        break;
+      case "want-no":
+        if (entry.queue === "empty") {
+          // 对端违反协议（DONT 的回应不应是 WILL），按 RFC 1143 视为 NO
+          entry.state = "no";
+        } else {
+          entry.state = "yes";
+          entry.queue = "empty";
+          this.hooks.onChange?.(side, option, true);
+        }
+        break;
+      case "want-yes":
+        if (entry.queue === "empty") {
+          entry.state = "yes";
+          this.hooks.onChange?.(side, option, true);
+        } else {
+          entry.state = "want-no";
+          entry.queue = "empty";
+          this.sendFor(side, false, option);
+        }
+        break;
+    }
+  }
+
+  private handleNegative(side: NegotiationSide, option: number) {
+    const entry = this.entry(side, option);
+    switch (entry.state) {
+      case "no":
+        break;
+      case "yes":
+        entry.state = "no";
+        this.sendFor(side, false, option);
+        this.hooks.onChange?.(side, option, false);
+        break;
+      case "want-no":
+        if (entry.queue === "empty") {
+          entry.state = "no";
+          this.hooks.onChange?.(side, option, false);
+        } else {
+          entry.state = "want-yes";
+          entry.queue = "empty";
+          this.sendFor(side, true, option);
+        }
+        break;
+      case "want-yes":
+        entry.state = "no";
+        entry.queue = "empty";
+        this.hooks.onChange?.(side, option, false);
+        break;
+    }
+  }
+
+  private sendFor(side: NegotiationSide, enable: boolean, option: number) {
+    if (side === "local") {
+      this.hooks.send(enable ? TelnetCommand.WILL : TelnetCommand.WONT, option);
+    } else {
+      this.hooks.send(enable ? TelnetCommand.DO : TelnetCommand.DONT, option);
+    }
+  }
+
+  private entry(side: NegotiationSide, option: number): SideState {
+    const table = side === "local" ? this.local : this.remote;
+    let entry = table.get(option);
+    if (!entry) {
+      entry = { state: "no", queue: "empty" };
+      table.set(option, entry);
+    }
+    return entry;
+  }
+}
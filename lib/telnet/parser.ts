@@ -0,0 +1,141 @@
+import { CR, NUL, TelnetCommand, isNegotiationVerb, type TelnetNegotiationVerb } from "./constants";
+
+export type TelnetParserEvent =
+  | { type: "data"; data: Uint8Array }
+  | { type: "command"; command: number }
+  | { type: "negotiation"; verb: TelnetNegotiationVerb; option: number }
+  | { type: "subnegotiation"; option: number; data: Uint8Array };
+
+type ParserState = "data" | "iac" | "negotiation" | "sb-option" | "sb-data" | "sb-iac";
+
+/**
+ * 增量式 IAC 解析器：数据块可以在任意字节处被切断，状态会保留到下一次 push。
+ * 输出的 data 事件已经去除了 IAC 转义与 CR NUL 填充。
+ */
+export class TelnetParser {
+  private state: ParserState = "data";
+  private pendingVerb: TelnetNegotiationVerb | null = null;
+  private subOption = 0;
+  private subBuffer: number[] = [];
+  private lastWasCR = false;
+
+  push(chunk: Uint8Array): TelnetParserEvent[] {
+    const events: TelnetParserEvent[] = [];
+    let plain: number[] = [];
+
+    const flushPlain = () => {
+      if (plain.length > 0) {
+        events.push({ type: "data", data: Uint8Array.from(plain) });
+        plain = [];
+      }
+    };
+
+    for (const byte of chunk) {
+      switch (this.state) {
+        case "data": {
+          if (byte === TelnetCommand.IAC) {
+            this.state = "iac";
+            break;
+          }
+          // RFC 854：CR 后跟 NUL 表示裸回车，NUL 只是填充
+          if (this.lastWasCR && byte === NUL) {
+            this.lastWasCR = false;
+            break;
+          }
+          this.lastWasCR = byte === CR;
+          plain.push(byte);
+          break;
+        }
+        case "iac": {
+          if (byte === TelnetCommand.IAC) {
+            plain.push(byte);
+            this.lastWasCR = false;
+            this.state = "data";
+          } else if (isNegotiationVerb(byte)) {
+            this.pendingVerb = byte;
+            this.state = "negotiation";
+          } else if (byte === TelnetCommand.SB) {
+            this.state = "sb-option";
+          } else {
+            flushPlain();
+            events.push({ type: "command", command: byte });
+            this.state = "data";
+          }
+          break;
+        }
+        case "negotiation": {
+          flushPlain();
+          events.push({ type: "negotiation", verb: this.pendingVerb!, option: byte });
+          this.pendingVerb = null;
+          this.state = "data";
+          break;
+        }
+        case "sb-option": {
+          this.subOption = byte;
+          this.subBuffer = [];
+          this.state = "sb-data";
+          break;
+        }
+        case "sb-data": {
+          if (byte === TelnetCommand.IAC) {
+            this.state = "sb-iac";
+          } else {
+            this.subBuffer.push(byte);
+          }
+          break;
+        }
+        case "sb-iac": {
+          if (byte === TelnetCommand.SE) {
+            flushPlain();
+            events.push({ type: "subnegotiation", option: this.subOption, data: Uint8Array.from(this.subBuffer) });
+            this.subBuffer = [];
+            this.state = "data";
+          } else if (byte === TelnetCommand.IAC) {
+            this.subBuffer.push(byte);
+            this.state = "sb-data";
+          } else {
+            // 不完整的子协商：丢弃缓冲并按普通命令处理
+            this.subBuffer = [];
+            this.state = "data";
+            flushPlain();
+            events.push({ type: "command", command: byte });
+          }
+          break;
+        }
+      }
+    }
+
+    flushPlain();
+    return events;
+  }
+
+  reset() {
+    this.state = "data";
+    this.pendingVerb = null;
+    this.subOption = 0;
+    this.subBuffer = [];
+    this.lastWasCR = false;
+  }
+}
+
+/** 将用户数据中的 0xFF 转义为 IAC IAC。 */
+export function escapeIac(bytes: Uint8Array): Uint8Array {
+  let count = 0;
+  for (const byte of bytes) {
+    if (byte === TelnetCommand.IAC) {
+      count += 1;
+    }
+  }
+  if (count === 0) {
+    return bytes;
+  }
+  const escaped = new Uint8Array(bytes.length + count);
+  let offset = 0;
+  for (const byte of bytes) {
+    escaped[offset++] = byte;
+    if (byte === TelnetCommand.IAC) {
+      escaped[offset++] = byte;
+    }
+  }
+  return escaped;
+}
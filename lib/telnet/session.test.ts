@@ -0,0 +1,218 @@
+import { createServer, connect, type Server, type Socket } from "node:net";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { NUL, TTYPE_IS, TTYPE_SEND, TelnetCommand, TelnetOption } from "./constants";
+import { TelnetSession, type TelnetTextCodec } from "./session";
+import type { TelnetTransport } from "./transport";
+
+const { IAC, SB, SE, WILL, DO } = TelnetCommand;
+
+/** 本地 TCP 替身服务器：记录客户端发来的全部字节，并可主动向客户端写入 */
+type StandIn = {
+  peer: Socket;
+  received: () => number[];
+  waitFor: (sequence: number[]) => Promise<void>;
+};
+
+async function startStandIn(): Promise<{ standIn: Promise<StandIn>; port: number; server: Server }> {
+  const server = createServer();
+  const standIn = new Promise<StandIn>((resolve) => {
+    server.once("connection", (peer) => {
+      const bytes: number[] = [];
+      const waiters = new Set<() => void>();
+      peer.on("data", (chunk) => {
+        bytes.push(...chunk);
+        for (const check of waiters) {
+          check();
+        }
+      });
+      resolve({
+        peer,
+        received: () => bytes,
+        waitFor: (sequence) =>
+          new Promise<void>((done, fail) => {
+            const timer = setTimeout(() => {
+              waiters.delete(check);
+              fail(new Error(`stand-in never received [${sequence.join(" ")}], got [${bytes.join(" ")}]`));
+            }, 2000);
+            const check = () => {
+              if (indexOfSequence(bytes, sequence) >= 0) {
+                clearTimeout(timer);
+                waiters.delete(check);
+                done();
+              }
+            };
+            waiters.add(check);
+            check();
+          }),
+      });
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : 0;
+  return { standIn, port, server };
+}
+
+function createSocketTransport(socket: Socket): TelnetTransport {
+  return {
+    send: (bytes) => {
+      socket.write(bytes);
+    },
+    close: () => {
+      socket.end();
+    },
+    onData: (listener) => {
+      const handler = (chunk: Buffer) => listener(new Uint8Array(chunk));
+      socket.on("data", handler);
+      return () => socket.off("data", handler);
+    },
+    onClose: (listener) => {
+      const handler = () => listener({});
+      socket.on("close", handler);
+      return () => socket.off("close", handler);
+    },
+  };
+}
+
+/** 单字节编码，方便构造 0xFF 这类 UTF-8 中不会出现的数据字节 */
+const latin1Codec: TelnetTextCodec = {
+  decode: (bytes) => String.fromCharCode(...bytes),
+  flush: () => "",
+  encode: (text) => Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff),
+};
+
+function indexOfSequence(haystack: number[], needle: number[]) {
+  outer: for (let start = 0; start + needle.length <= haystack.length; start += 1) {
+    for (let offset = 0; offset < needle.length; offset += 1) {
+      if (haystack[start + offset] !== needle[offset]) {
+        continue outer;
+      }
+    }
+    return start;
+  }
+  return -1;
+}
+
+function nextData(session: TelnetSession, length: number) {
+  return new Promise<string>((resolve) => {
+    let text = "";
+    const dispose = session.onData((chunk) => {
+      text += chunk;
+      if (text.length >= length) {
+        dispose();
+        resolve(text);
+      }
+    });
+  });
+}
+
+function ascii(text: string) {
+  return Array.from(text, (char) => char.charCodeAt(0));
+}
+
+describe("TelnetSession（本地 TCP 替身服务器）", () => {
+  let server: Server;
+  let standIn: StandIn;
+  let socket: Socket;
+  let session: TelnetSession;
+
+  beforeEach(async () => {
+    const started = await startStandIn();
+    server = started.server;
+    socket = connect(started.port, "127.0.0.1");
+    await new Promise<void>((resolve) => socket.once("connect", () => resolve()));
+    standIn = await started.standIn;
+    session = new TelnetSession(createSocketTransport(socket), {
+      dimensions: { cols: 80, rows: 24 },
+      codec: latin1Codec,
+    });
+    session.start();
+  });
+
+  afterEach(async () => {
+    await session.close();
+    standIn.peer.destroy();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  /** 服务器接受全部提议并请求终端类型，模拟 Cisco IOS 的典型握手 */
+  async function completeHandshake() {
+    await standIn.waitFor([IAC, DO, TelnetOption.ECHO]);
+    standIn.peer.write(
+      Uint8Array.of(
+        IAC, DO, TelnetOption.NAWS,
+        IAC, DO, TelnetOption.TTYPE,
+        IAC, WILL, TelnetOption.SGA,
+        IAC, WILL, TelnetOption.ECHO,
+        IAC, SB, TelnetOption.TTYPE, TTYPE_SEND, IAC, SE
+      )
+    );
+    await standIn.waitFor([IAC, SB, TelnetOption.TTYPE, TTYPE_IS, ...ascii("XTERM-256COLOR"), IAC, SE]);
+  }
+
+  it("连接后主动提出 NAWS、TTYPE、SGA 与 ECHO", async () => {
+    await standIn.waitFor([
+      IAC, WILL, TelnetOption.NAWS,
+      IAC, WILL, TelnetOption.TTYPE,
+      IAC, DO, TelnetOption.SGA,
+      IAC, DO, TelnetOption.ECHO,
+    ]);
+  });
+
+  it("完成协商并上报窗口尺寸与终端类型", async () => {
+    await completeHandshake();
+    await standIn.waitFor([IAC, SB, TelnetOption.NAWS, 0, 80, 0, 24, IAC, SE]);
+    expect(session.getOptions()).toEqual({
+      binary: false,
+      remoteEcho: true,
+      suppressGoAhead: true,
+      naws: true,
+      terminalType: true,
+    });
+  });
+
+  it("调整尺寸后发送 NAWS 更新，负载中的 255 需转义", async () => {
+    await completeHandshake();
+    session.resize(132, 50);
+    await standIn.waitFor([IAC, SB, TelnetOption.NAWS, 0, 132, 0, 50, IAC, SE]);
+    session.resize(255, 50);
+    await standIn.waitFor([IAC, SB, TelnetOption.NAWS, 0, IAC, IAC, 0, 50, IAC, SE]);
+  });
+
+  it("写入数据中的 IAC 加倍发送，收到的 IAC IAC 还原为单字节", async () => {
+    await completeHandshake();
+    session.write("aÿb");
+    await standIn.waitFor([...ascii("a"), IAC, IAC, ...ascii("b")]);
+
+    const received = nextData(session, 3);
+    standIn.peer.write(Uint8Array.of(...ascii("x"), IAC, IAC, ...ascii("y")));
+    expect(await received).toBe("xÿy");
+  });
+
+  it("按原始字节上报数据区，不经过编解码器", async () => {
+    await completeHandshake();
+    const received = new Promise<number[]>((resolve) => {
+      const dispose = session.onBytes((bytes) => {
+        dispose();
+        resolve(Array.from(bytes));
+      });
+    });
+    standIn.peer.write(Uint8Array.of(0xc4, 0xe3, IAC, IAC, IAC, TelnetCommand.NOP));
+    expect(await received).toEqual([0xc4, 0xe3, IAC]);
+  });
+
+  it("裸 CR 以 CR NUL 发送，收到的 CR NUL 去除填充", async () => {
+    await completeHandshake();
+    session.write("show\r");
+    await standIn.waitFor([...ascii("show"), 13, NUL]);
+    session.write("ok\r\n");
+    await standIn.waitFor([...ascii("ok"), 13, 10]);
+    expect(indexOfSequence(standIn.received(), [13, NUL, 10])).toBe(-1);
+
+    const received = nextData(session, 3);
+    standIn.peer.write(Uint8Array.of(...ascii("x"), 13, NUL, ...ascii("y")));
+    expect(await received).toBe("x\ry");
+  });
+});
@@ -0,0 +1,349 @@
+import {
+  CR,
+  LF,
+  NUL,
+  TTYPE_IS,
+  TTYPE_SEND,
+  TelnetCommand,
+  TelnetOption,
+  type TelnetNegotiationVerb,
+} from "./constants";
+import { TelnetOptionNegotiator, type NegotiationSide } from "./negotiation";
+import { TelnetParser, escapeIac } from "./parser";
+import type { TelnetTransport, TelnetTransportCloseInfo } from "./transport";
+
+export const DEFAULT_TERMINAL_TYPES = ["XTERM-256COLOR", "XTERM", "VT100"];
+
+export type TelnetLocalEchoMode = "auto" | "off";
+
+/** 数据区的文本编解码器，decode 需以流式处理跨分片的多字节字符 */
+export type TelnetTextCodec = {
+  decode: (bytes: Uint8Array) => string;
+  flush: () => string;
+  encode: (text: string) => Uint8Array;
+};
+
+export type TelnetSessionOptions = {
+  /** RFC 1091：依次回应 TTYPE SEND，最后一项重复发送 */
+  terminalTypes?: string[];
+  dimensions?: { cols?: number; rows?: number };
+  /** auto：对端明确拒绝 ECHO 时由本端回显输入 */
+  localEcho?: TelnetLocalEchoMode;
+  /** 连接建立后主动提出 NAWS/TTYPE/SGA/ECHO，纯原始 TCP 端口可关闭 */
+  negotiateOnConnect?: boolean;
+  /** 默认 UTF-8 */
+  codec?: TelnetTextCodec;
+};
+
+export type TelnetOptionSnapshot = {
+  binary: boolean;
+  remoteEcho: boolean;
+  suppressGoAhead: boolean;
+  naws: boolean;
+  terminalType: boolean;
+};
+
+type Listener<T> = (payload: T) => void;
+
+const LOCAL_OPTIONS = new Set<number>([TelnetOption.BINARY, TelnetOption.SGA, TelnetOption.TTYPE, TelnetOption.NAWS]);
+const REMOTE_OPTIONS = new Set<number>([TelnetOption.BINARY, TelnetOption.ECHO, TelnetOption.SGA]);
+
+/**
+ * 基于 TelnetTransport 的 RFC 854 客户端会话：解析 IAC、协商选项，
+ * 对外只暴露解码后的文本流，写入时负责转义与 CR 处理。
+ */
+export class TelnetSession {
+  private readonly parser = new TelnetParser();
+  private readonly negotiator: TelnetOptionNegotiator;
+  private readonly encoder = new TextEncoder();
+  private codec: TelnetTextCodec;
+  private readonly dataListeners = new Set<Listener<string>>();
+  private readonly byteListeners = new Set<Listener<Uint8Array>>();
+  private readonly closeListeners = new Set<Listener<TelnetTransportCloseInfo>>();
+  private readonly terminalTypes: string[];
+  private readonly localEcho: TelnetLocalEchoMode;
+  private readonly negotiateOnConnect: boolean;
+  private terminalTypeIndex = 0;
+  private cols: number;
+  private rows: number;
+  private disposers: Array<() => void> = [];
+  private started = false;
+  private closed = false;
+  private echoRefused = false;
+
+  constructor(private readonly transport: TelnetTransport, options: TelnetSessionOptions = {}) {
+    this.terminalTypes = options.terminalTypes?.length ? options.terminalTypes : DEFAULT_TERMINAL_TYPES;
+    this.localEcho = options.localEcho ?? "auto";
+    this.negotiateOnConnect = options.negotiateOnConnect ?? true;
+    this.codec = options.codec ?? createUtf8Codec();
+    this.cols = clampDimension(options.dimensions?.cols, 80);
+    this.rows = clampDimension(options.dimensions?.rows, 24);
+    this.negotiator = new TelnetOptionNegotiator({
+      send: (verb, option) => this.sendNegotiation(verb, option),
+      accept: (side, option) => (side === "local" ? LOCAL_OPTIONS.has(option) : REMOTE_OPTIONS.has(option)),
+      onChange: (side, option, enabled) => this.handleOptionChange(side, option, enabled),
+    });
+  }
+
+  start() {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.disposers.push(this.transport.onData((bytes) => this.handleIncoming(bytes)));
+    this.disposers.push(this.transport.onClose((info) => this.handleClose(info)));
+
+    if (this.negotiateOnConnect) {
+      this.negotiator.request("local", TelnetOption.NAWS, true);
+      this.negotiator.request("local", TelnetOption.TTYPE, true);
+      this.negotiator.request("remote", TelnetOption.SGA, true);
+      this.negotiator.request("remote", TelnetOption.ECHO, true);
+    }
+  }
+
+  onData(listener: Listener<string>) {
+    this.dataListeners.add(listener);
+    return () => {
+      this.dataListeners.delete(listener);
+    };
+  }
+
+  /** 数据区的原始字节：已去除 IAC 命令与 CR NUL 填充，尚未经过编解码器 */
+  onBytes(listener: Listener<Uint8Array>) {
+    this.byteListeners.add(listener);
+    return () => {
+      this.byteListeners.delete(listener);
+    };
+  }
+
+  onClose(listener: Listener<TelnetTransportCloseInfo>) {
+    this.closeListeners.add(listener);
+    return () => {
+      this.closeListeners.delete(listener);
+    };
+  }
+
+  get isClosed() {
+    return this.closed;
+  }
+
+  getOptions(): TelnetOptionSnapshot {
+    return {
+      binary: this.negotiator.isEnabled("local", TelnetOption.BINARY),
+      remoteEcho: this.negotiator.isEnabled("remote", TelnetOption.ECHO),
+      suppressGoAhead: this.negotiator.isEnabled("remote", TelnetOption.SGA),
+      naws: this.negotiator.isEnabled("local", TelnetOption.NAWS),
+      terminalType: this.negotiator.isEnabled("local", TelnetOption.TTYPE),
+    };
+  }
+
+  write(data: string) {
+    if (this.closed || !data) {
+      return;
+    }
+    const encoded = this.codec.encode(data);
+    const binary = this.negotiator.isEnabled("local", TelnetOption.BINARY);
+    this.sendRaw(escapeIac(binary ? encoded : padCarriageReturns(encoded)));
+
+    if (this.shouldEchoLocally()) {
+      this.emitData(data.replace(/\r(?!\n)/g, "\r\n"));
+    }
+  }
+
+  resize(cols?: number, rows?: number) {
+    const nextCols = clampDimension(cols, this.cols);
+    const nextRows = clampDimension(rows, this.rows);
+    if (nextCols === this.cols && nextRows === this.rows) {
+      return;
+    }
+    this.cols = nextCols;
+    this.rows = nextRows;
+    if (this.negotiator.isEnabled("local", TelnetOption.NAWS)) {
+      this.sendWindowSize();
+    }
+  }
+
+  /** 切换编码前先输出旧解码器中残留的字节 */
+  setCodec(codec: TelnetTextCodec) {
+    const tail = this.codec.flush();
+    if (tail) {
+      this.emitData(tail);
+    }
+    this.codec = codec;
+  }
+
+  /** 发送单字节 Telnet 命令，例如 AYT、BRK */
+  sendCommand(command: number) {
+    if (this.closed) {
+      return;
+    }
+    this.sendRaw(Uint8Array.of(TelnetCommand.IAC, command));
+  }
+
+  async close() {
+    if (this.closed) {
+      return;
+    }
+    try {
+      await this.transport.close();
+    } finally {
+      this.handleClose({});
+    }
+  }
+
+  private shouldEchoLocally() {
+    return this.localEcho === "auto" && this.echoRefused;
+  }
+
+  private handleIncoming(bytes: Uint8Array) {
+    if (this.closed) {
+      return;
+    }
+    for (const event of this.parser.push(bytes)) {
+      switch (event.type) {
+        case "data": {
+          for (const listener of this.byteListeners) {
+            listener(event.data);
+          }
+          const text = this.codec.decode(event.data);
+          if (text) {
+            this.emitData(text);
+          }
+          break;
+        }
+        case "negotiation":
+          this.negotiator.receive(event.verb, event.option);
+          break;
+        case "subnegotiation":
+          this.handleSubnegotiation(event.option, event.data);
+          break;
+        case "command":
+          // GA/NOP/DM 等对前端无意义，直接忽略
+          break;
+      }
+    }
+  }
+
+  private handleSubnegotiation(option: number, data: Uint8Array) {
+    if (option === TelnetOption.TTYPE && data[0] === TTYPE_SEND) {
+      const index = Math.min(this.terminalTypeIndex, this.terminalTypes.length - 1);
+      const name = this.terminalTypes[index];
+      this.terminalTypeIndex += 1;
+      const payload = this.encoder.encode(name);
+      this.sendRaw(
+        Uint8Array.of(
+          TelnetCommand.IAC,
+          TelnetCommand.SB,
+          TelnetOption.TTYPE,
+          TTYPE_IS,
+          ...escapeIac(payload),
+          TelnetCommand.IAC,
+          TelnetCommand.SE
+        )
+      );
+    }
+  }
+
+  private handleOptionChange(side: NegotiationSide, option: number, enabled: boolean) {
+    if (side === "local" && option === TelnetOption.NAWS && enabled) {
+      this.sendWindowSize();
+    }
+    if (side === "local" && option === TelnetOption.TTYPE && enabled) {
+      this.terminalTypeIndex = 0;
+    }
+    if (side === "remote" && option === TelnetOption.ECHO) {
+      this.echoRefused = !enabled;
+    }
+  }
+
+  private sendWindowSize() {
+    const size = Uint8Array.of(this.cols >> 8, this.cols & 0xff, this.rows >> 8, this.rows & 0xff);
+    this.sendRaw(
+      Uint8Array.of(
+        TelnetCommand.IAC,
+        TelnetCommand.SB,
+        TelnetOption.NAWS,
+        ...escapeIac(size),
+        TelnetCommand.IAC,
+        TelnetCommand.SE
+      )
+    );
+  }
+
+  private sendNegotiation(verb: TelnetNegotiationVerb, option: number) {
+    this.sendRaw(Uint8Array.of(TelnetCommand.IAC, verb, option));
+  }
+
+  private sendRaw(bytes: Uint8Array) {
+    if (this.closed) {
+      return;
+    }
+    try {
+      const result = this.transport.send(bytes);
+      if (result && typeof (result as Promise<void>).catch === "function") {
+        (result as Promise<void>).catch((error) => {
+          console.warn("Telnet transport write failed", error);
+        });
+      }
+    } catch (error) {
+      console.warn("Telnet transport write failed", error);
+    }
+  }
+
+  private emitData(text: string) {
+    for (const listener of this.dataListeners) {
+      listener(text);
+    }
+  }
+
+  private handleClose(info: TelnetTransportCloseInfo) {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    const tail = this.codec.flush();
+    if (tail) {
+      this.emitData(tail);
+    }
+    for (const dispose of this.disposers) {
+      dispose();
+    }
+    this.disposers = [];
+    for (const listener of this.closeListeners) {
+      listener(info);
+    }
+    this.dataListeners.clear();
+    this.byteListeners.clear();
+    this.closeListeners.clear();
+  }
+}
+
+function createUtf8Codec(): TelnetTextCodec {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder("utf-8");
+  return {
+    decode: (bytes) => decoder.decode(bytes, { stream: true }),
+    flush: () => decoder.decode(),
+    encode: (text) => encoder.encode(text),
+  };
+}
+
+function clampDimension(value: number | undefined, fallback: number) {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    return fallback;
+  }
+  return Math.min(Math.round(value), 0xffff);
+}
+
+/** NVT 要求裸 CR 以 CR NUL 发送；CR LF 保持不变 */
+function padCarriageReturns(bytes: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  for (let index = 0; index < bytes.length; index += 1) {
+    const byte = bytes[index];
+    output.push(byte);
+    if (byte === CR && bytes[index + 1] !== LF) {
+      output.push(NUL);
+    }
+  }
+  return Uint8Array.from(output);
+}
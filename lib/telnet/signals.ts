@@ -0,0 +1,33 @@
+import { TelnetCommand } from "./constants";
+
+/** 可通过 sendSignal 发送的 Telnet 特殊命令（RFC 854） */
+export const TELNET_SIGNALS = ["break", "ayt", "interrupt", "abort-output", "erase-line"] as const;
+
+export type TelnetSignal = (typeof TELNET_SIGNALS)[number];
+
+export const TELNET_SIGNAL_COMMANDS: Record<TelnetSignal, number> = {
+  break: TelnetCommand.BRK,
+  ayt: TelnetCommand.AYT,
+  interrupt: TelnetCommand.IP,
+  "abort-output": TelnetCommand.AO,
+  "erase-line": TelnetCommand.EL,
+};
+
+/** 系统 telnet 客户端（PTY 回退路径）中 "send" 命令对应的参数 */
+export const TELNET_CLIENT_SEND_ARGUMENTS: Record<TelnetSignal, string> = {
+  break: "brk",
+  ayt: "ayt",
+  interrupt: "ip",
+  "abort-output": "ao",
+  "erase-line": "el",
+};
+
+/** 系统 telnet 客户端的默认转义字符 Ctrl+] */
+export const TELNET_CLIENT_ESCAPE = "\x1d";
+
+/** Cisco 中断序列 Ctrl+Shift+6 x（Ctrl+^ 即 0x1e），用于挂起反向 telnet 或中止 ping/traceroute */
+export const CISCO_ESCAPE_SEQUENCE = "\x1ex";
+
+export function isTelnetSignal(value: unknown): value is TelnetSignal {
+  return typeof value === "string" && (TELNET_SIGNALS as readonly string[]).includes(value);
+}
@@ -0,0 +1,114 @@
+import { invoke } from "@tauri-apps/api/core";
+import { listen, type UnlistenFn } from "@tauri-apps/api/event";
+
+import type { TelnetEndpoint, TelnetTransport, TelnetTransportCloseInfo } from "./transport";
+
+type TcpDataEvent = { id: string; data: number[] };
+type TcpCloseEvent = { id: string; message?: string | null };
+
+function generateChannelId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return `tcp-${crypto.randomUUID()}`;
+  }
+  return `tcp-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * 通过 Rust 侧的 tcp_connect/tcp_write/tcp_close 命令建立原始 TCP 通道。
+ * 监听器在连接前注册，避免丢失服务端的首包协商。
+ */
+export async function openTauriTelnetTransport({ host, port }: TelnetEndpoint): Promise<{ id: string; transport: TelnetTransport }> {
+  const id = generateChannelId();
+  const transport = await bindTauriChannel(id, () => invoke("tcp_connect", { id, host, port }));
+  return { id, transport };
+}
+
+/** webview 重新加载后接回 Rust 侧仍在运行的 TCP 通道 */
+export async function attachTauriTelnetTransport(id: string): Promise<TelnetTransport> {
+  return bindTauriChannel(id);
+}
+
+async function bindTauriChannel(id: string, connect?: () => Promise<unknown>): Promise<TelnetTransport> {
+  const dataListeners = new Set<(bytes: Uint8Array) => void>();
+  const closeListeners = new Set<(info: TelnetTransportCloseInfo) => void>();
+  const pending: Uint8Array[] = [];
+  let closedInfo: TelnetTransportCloseInfo | null = null;
+
+  const unlisteners: UnlistenFn[] = await Promise.all([
+    listen<TcpDataEvent>("tcp://data", ({ payload }) => {
+      if (payload.id !== id) {
+        return;
+      }
+      const bytes = Uint8Array.from(payload.data);
+      if (dataListeners.size === 0) {
+        pending.push(bytes);
+        return;
+      }
+      for (const listener of dataListeners) {
+        listener(bytes);
+      }
+    }),
+    listen<TcpCloseEvent>("tcp://close", ({ payload }) => {
+      if (payload.id !== id) {
+        return;
+      }
+      closedInfo = { message: payload.message ?? undefined };
+      const info = closedInfo;
+      for (const listener of closeListeners) {
+        listener(info);
+      }
+      release();
+    }),
+  ]);
+
+  const release = () => {
+    for (const unlisten of unlisteners) {
+      try {
+        unlisten();
+      } catch {}
+    }
+    unlisteners.length = 0;
+  };
+
+  try {
+    await connect?.();
+  } catch (error) {
+    release();
+    throw error instanceof Error ? error : new Error(String(error));
+  }
+
+  const transport: TelnetTransport = {
+    async send(bytes) {
+      await invoke("tcp_write", { id, data: Array.from(bytes) });
+    },
+    async close() {
+      try {
+        await invoke("tcp_close", { id });
+      } finally {
+        release();
+      }
+    },
+    onData(listener) {
+      dataListeners.add(listener);
+      // 首个订阅者接收连接建立前后积压的数据
+      while (pending.length > 0) {
+        listener(pending.shift()!);
+      }
+      return () => {
+        dataListeners.delete(listener);
+      };
+    },
+    onClose(listener) {
+      if (closedInfo) {
+        listener(closedInfo);
+        return () => {};
+      }
+      closeListeners.add(listener);
+      return () => {
+        closeListeners.delete(listener);
+      };
+    },
+  };
+
+  return transport;
+}
@@ -0,0 +1,19 @@
+export type TelnetTransportCloseInfo = {
+  message?: string;
+};
+
+/**
+ * 字节级传输层。TelnetSession 不关心底层是 Tauri 的 TCP 通道还是测试用的本地 socket，
+ * 只要求按序推送收到的字节并在连接结束时通知一次。
+ */
+export interface TelnetTransport {
+  send: (bytes: Uint8Array) => void | Promise<void>;
+  close: () => void | Promise<void>;
+  onData: (listener: (bytes: Uint8Array) => void) => () => void;
+  onClose: (listener: (info: TelnetTransportCloseInfo) => void) => () => void;
+}
+
+export type TelnetEndpoint = {
+  host: string;
+  port: number;
+};
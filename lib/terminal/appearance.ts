@@ -0,0 +1,40 @@
+/**
+ * 单个会话或设备的外观覆盖项。未设置的字段沿用全局终端设置；
+ * colorSchemeId 未设置时跟随明暗主题各自选定的配色方案。
+ */
+export type TerminalAppearanceOverrides = {
+  fontFamily?: string;
+  fontSize?: number;
+  colorSchemeId?: string;
+  scrollback?: number;
+};
+
+export type TerminalAppearanceKey = keyof TerminalAppearanceOverrides;
+
+export const TERMINAL_APPEARANCE_KEYS: readonly TerminalAppearanceKey[] = ["fontFamily", "fontSize", "colorSchemeId", "scrollback"];
+
+/** 设备级配置（外观覆盖、触发器范围）以 host:port 为键，host 不区分大小写 */
+export function buildDeviceProfileKey(host: string, port: number) {
+  return `${host.trim().toLowerCase()}:${port}`;
+}
+
+export function hasAppearanceOverrides(overrides: TerminalAppearanceOverrides | null | undefined) {
+  return Boolean(overrides && TERMINAL_APPEARANCE_KEYS.some((key) => overrides[key] !== undefined));
+}
+
+/** 按顺序叠加各层覆盖，后面的层优先 */
+export function mergeAppearanceOverrides(
+  ...layers: Array<TerminalAppearanceOverrides | null | undefined>
+): TerminalAppearanceOverrides {
+  const merged: TerminalAppearanceOverrides = {};
+  for (const layer of layers) {
+    if (!layer) {
+      continue;
+    }
+    if (layer.fontFamily !== undefined) merged.fontFamily = layer.fontFamily;
+    if (layer.fontSize !== undefined) merged.fontSize = layer.fontSize;
+    if (layer.colorSchemeId !== undefined) merged.colorSchemeId = layer.colorSchemeId;
+    if (layer.scrollback !== undefined) merged.scrollback = layer.scrollback;
+  }
+  return merged;
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+
+import { decodeChannelBuffer } from "./channel-buffer";
+
+describe("decodeChannelBuffer", () => {
+  it("TCP 缓冲剥离 IAC 协商与 CR NUL 填充后解码", () => {
+    const bytes = Uint8Array.of(
+      0xff, 0xfb, 0x01, // IAC WILL ECHO
+      ...new TextEncoder().encode("R1>"),
+      0x0d, 0x00,
+      0xff, 0xff, // 转义后的 0xFF
+      0x0d, 0x0a
+    );
+    expect(decodeChannelBuffer(bytes, "tcp", "latin1")).toBe("R1>\rÿ\r\n");
+  });
+
+  it("按会话编码解码 PTY 输出，丢弃末尾不完整的字符", () => {
+    const gbk = Uint8Array.of(0xc4, 0xe3, 0xba, 0xc3, 0xc4);
+    expect(decodeChannelBuffer(gbk, "pty", "gbk")).toBe("你好");
+  });
+});
@@ -0,0 +1,24 @@
+import { TelnetParser } from "@/lib/telnet/parser";
+
+import { createTerminalCodec, type TerminalEncoding } from "./encoding";
+
+/** Rust 侧通道类型：tcp 为内置 Telnet 引擎的原始流（含 IAC 协商），pty 为系统 telnet 客户端的输出 */
+export type ChannelKind = "tcp" | "pty";
+
+/**
+ * 把 Rust 侧环形缓冲中的原始字节还原为回放文本：TCP 通道先剥离 Telnet 命令与 CR NUL 填充，
+ * 再按会话编码解码。末尾未完整的多字节字符直接丢弃，其余字节随后续实时输出到达。
+ */
+export function decodeChannelBuffer(bytes: Uint8Array, kind: ChannelKind, encoding?: TerminalEncoding) {
+  const codec = createTerminalCodec(encoding);
+  if (kind === "pty") {
+    return codec.decode(bytes);
+  }
+  let text = "";
+  for (const event of new TelnetParser().push(bytes)) {
+    if (event.type === "data") {
+      text += codec.decode(event.data);
+    }
+  }
+  return text;
+}
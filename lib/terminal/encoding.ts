@@ -0,0 +1,114 @@
+export const TERMINAL_ENCODINGS = ["utf-8", "gbk", "gb18030", "big5", "latin1"] as const;
+
+export type TerminalEncoding = (typeof TERMINAL_ENCODINGS)[number];
+
+export const DEFAULT_TERMINAL_ENCODING: TerminalEncoding = "utf-8";
+
+/** 工具栏与设置页展示用名称，不随界面语言变化 */
+export const TERMINAL_ENCODING_LABELS: Record<TerminalEncoding, string> = {
+  "utf-8": "UTF-8",
+  gbk: "GBK",
+  gb18030: "GB18030",
+  big5: "Big5",
+  latin1: "Latin-1",
+};
+
+// WHATWG Encoding 标准中 latin1 / iso-8859-1 均映射为 windows-1252
+const DECODER_LABELS: Record<TerminalEncoding, string> = {
+  "utf-8": "utf-8",
+  gbk: "gbk",
+  gb18030: "gb18030",
+  big5: "big5",
+  latin1: "windows-1252",
+};
+
+/** 无法用目标编码表示的字符以 "?" 发送 */
+const REPLACEMENT_BYTE = 0x3f;
+
+export function isTerminalEncoding(value: unknown): value is TerminalEncoding {
+  return typeof value === "string" && (TERMINAL_ENCODINGS as readonly string[]).includes(value);
+}
+
+/**
+ * 会话级文本编解码器：decode 以 stream 模式处理跨分片的多字节字符，
+ * flush 在会话结束或切换编码时取出残留字节。
+ */
+export type TerminalTextCodec = {
+  readonly encoding: TerminalEncoding;
+  decode: (bytes: Uint8Array) => string;
+  flush: () => string;
+  encode: (text: string) => Uint8Array;
+};
+
+export function createTerminalCodec(encoding: TerminalEncoding = DEFAULT_TERMINAL_ENCODING): TerminalTextCodec {
+  const decoder = new TextDecoder(DECODER_LABELS[encoding]);
+  const encode = encoding === "utf-8" ? createUtf8Encoder() : (text: string) => encodeWithTable(text, encoding);
+  return {
+    encoding,
+    decode: (bytes) => decoder.decode(bytes, { stream: true }),
+    flush: () => decoder.decode(),
+    encode,
+  };
+}
+
+function createUtf8Encoder() {
+  const encoder = new TextEncoder();
+  return (text: string) => encoder.encode(text);
+}
+
+// 浏览器只内置 UTF-8 编码器；其余编码的反查表由 TextDecoder 遍历码位生成，首次使用时构建
+const encodeTables = new Map<TerminalEncoding, Map<string, number[]>>();
+
+function getEncodeTable(encoding: TerminalEncoding) {
+  let table = encodeTables.get(encoding);
+  if (table) {
+    return table;
+  }
+  table = new Map<string, number[]>();
+  const decoder = new TextDecoder(DECODER_LABELS[encoding], { fatal: true });
+  const tryAdd = (bytes: number[]) => {
+    try {
+      const char = decoder.decode(Uint8Array.from(bytes));
+      // 同一字符存在多个码位时保留首个（即标准码位）
+      if ([...char].length === 1 && !table!.has(char)) {
+        table!.set(char, bytes);
+      }
+    } catch {
+      // 非法码位
+    }
+  };
+
+  for (let byte = 0x80; byte <= 0xff; byte += 1) {
+    tryAdd([byte]);
+  }
+  if (encoding !== "latin1") {
+    // GBK / GB18030 / Big5 双字节区：首字节 0x81-0xFE，尾字节 0x40-0xFE
+    for (let lead = 0x81; lead <= 0xfe; lead += 1) {
+      for (let trail = 0x40; trail <= 0xfe; trail += 1) {
+        tryAdd([lead, trail]);
+      }
+    }
+  }
+  encodeTables.set(encoding, table);
+  return table;
+}
+
+function encodeWithTable(text: string, encoding: TerminalEncoding) {
+  const output: number[] = [];
+  let table: Map<string, number[]> | null = null;
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    if (codePoint < 0x80) {
+      output.push(codePoint);
+      continue;
+    }
+    table ??= getEncodeTable(encoding);
+    const bytes = table.get(char);
+    if (bytes) {
+      output.push(...bytes);
+    } else {
+      output.push(REPLACEMENT_BYTE);
+    }
+  }
+  return Uint8Array.from(output);
+}
@@ -0,0 +1,151 @@
+import type { IDisposable, IMarker, Terminal } from "@xterm/xterm";
+
+export const LINE_TIMESTAMP_FORMATS = ["wall-clock", "relative"] as const;
+
+export type LineTimestampFormat = (typeof LINE_TIMESTAMP_FORMATS)[number];
+
+export const DEFAULT_LINE_TIMESTAMP_FORMAT: LineTimestampFormat = "wall-clock";
+
+export function isLineTimestampFormat(value: unknown): value is LineTimestampFormat {
+  return typeof value === "string" && (LINE_TIMESTAMP_FORMATS as readonly string[]).includes(value);
+}
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, "0");
+}
+
+/**
+ * 等宽的时间戳文本：wall-clock 为本地时间 HH:MM:SS.mmm，
+ * relative 为相对 origin（连接建立时刻）的 +HH:MM:SS.mmm。
+ */
+export function formatLineTimestamp(time: number, format: LineTimestampFormat, origin: number) {
+  if (format === "relative") {
+    const elapsed = Math.max(time - origin, 0);
+    const hours = Math.floor(elapsed / 3_600_000);
+    const minutes = Math.floor((elapsed % 3_600_000) / 60_000);
+    const seconds = Math.floor((elapsed % 60_000) / 1000);
+    return `+${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(elapsed % 1000, 3)}`;
+  }
+  const date = new Date(time);
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+type LineStamp = { marker: IMarker; time: number };
+
+/**
+ * 记录每个输出行到达的时间。时间挂在 xterm marker 上，随回滚裁剪、清屏与重排自动跟随或失效，
+ * 终端内容本身不做任何改动，因此不会影响光标定位输出。
+ * marker 只存在于普通缓冲区，全屏程序使用的备用缓冲区不记录。
+ */
+export class LineTimestampTracker {
+  private stamps: LineStamp[] = [];
+  private disposables: IDisposable[] = [];
+  private hasDisposedStamps = false;
+
+  constructor(private readonly terminal: Terminal) {}
+
+  get isTracking() {
+    return this.disposables.length > 0;
+  }
+
+  /** 开始记录；光标所在行视为此刻到达 */
+  start() {
+    if (this.isTracking) {
+      return;
+    }
+    this.mark();
+    this.disposables.push(this.terminal.onLineFeed(() => this.mark()));
+  }
+
+  /** 停止记录并丢弃已有时间 */
+  stop() {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    for (const stamp of this.stamps) {
+      stamp.marker.dispose();
+    }
+    this.stamps = [];
+    this.hasDisposedStamps = false;
+  }
+
+  /** 返回缓冲区行（0 起）的到达时间；自动换行的后续行与未记录的行返回 undefined */
+  timeAt(bufferLine: number) {
+    this.prune();
+    let low = 0;
+    let high = this.stamps.length - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const line = this.stamps[middle].marker.line;
+      if (line === bufferLine) {
+        return this.stamps[middle].time;
+      }
+      if (line < bufferLine) {
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return undefined;
+  }
+
+  private mark() {
+    if (this.terminal.buffer.active.type !== "normal") {
+      return;
+    }
+    const marker = this.terminal.registerMarker(0) as IMarker | undefined;
+    if (!marker) {
+      return;
+    }
+    this.prune();
+    // 清屏等操作后光标可能回到更早的行，丢弃位于其后的旧记录以保持行号递增
+    while (this.stamps.length > 0 && this.stamps[this.stamps.length - 1].marker.line >= marker.line) {
+      this.stamps.pop()?.marker.dispose();
+    }
+    marker.onDispose(() => {
+      this.hasDisposedStamps = true;
+    });
+    this.stamps.push({ marker, time: Date.now() });
+  }
+
+  // 被裁剪或清除的 marker 行号变为 -1，查找前先移除以保证二分有序
+  private prune() {
+    if (this.hasDisposedStamps) {
+      this.hasDisposedStamps = false;
+      this.stamps = this.stamps.filter((stamp) => !stamp.marker.isDisposed);
+    }
+  }
+}
+
+/**
+ * 给复制的选区逐行加上时间戳前缀。getSelection() 会把自动换行的行拼回一行，
+ * 因此只有不是续行的缓冲区行才对应选区文本中的一行。
+ */
+export function prefixSelectionWithTimestamps(
+  terminal: Terminal,
+  tracker: LineTimestampTracker,
+  format: (time: number) => string
+) {
+  const position = terminal.getSelectionPosition();
+  const text = terminal.getSelection();
+  if (!position || !text) {
+    return null;
+  }
+  const buffer = terminal.buffer.active;
+  // getSelectionPosition 实际返回 0 起的缓冲区行号
+  const lineStarts: number[] = [];
+  for (let y = position.start.y; y <= position.end.y; y += 1) {
+    if (y === position.start.y || !buffer.getLine(y)?.isWrapped) {
+      lineStarts.push(y);
+    }
+  }
+  const separator = text.includes("\r\n") ? "\r\n" : "\n";
+  return text
+    .split(separator)
+    .map((line, index) => {
+      const time = lineStarts[index] !== undefined ? tracker.timeAt(lineStarts[index]) : undefined;
+      return time !== undefined ? `[${format(time)}] ${line}` : line;
+    })
+    .join(separator);
+}
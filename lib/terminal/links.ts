@@ -0,0 +1,142 @@
+import type { ILink, ILinkProvider, Terminal } from "@xterm/xterm";
+
+export type TerminalLinkKind = "telnet-url" | "ipv4" | "ipv6" | "host-port";
+
+export type TerminalLinkTarget = {
+  kind: TerminalLinkKind;
+  /** 原始匹配文本 */
+  text: string;
+  host: string;
+  /** 文本中未给出端口时为 undefined，由调用方决定默认端口 */
+  port?: number;
+};
+
+/** 匹配在行文本中的位置，end 不包含 */
+export type TerminalLinkMatch = TerminalLinkTarget & {
+  start: number;
+  end: number;
+};
+
+const TELNET_URL_PATTERN = /telnet:\/\/(\[[0-9A-Fa-f:.]+\]|[A-Za-z0-9][A-Za-z0-9.-]*)(?::(\d{1,5}))?\/?/g;
+// 方括号包裹的 IPv6（可带端口）或裸 IPv6；前后不能紧贴十六进制字符或冒号，避免截取 MAC/时间的一部分
+const IPV6_PATTERN = /\[([0-9A-Fa-f:.]+)\](?::(\d{1,5}))?|(?<![0-9A-Fa-f:])((?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f.]*)(?![0-9A-Fa-f:])/g;
+// 点分十进制，可带 :port；排除 OID 等更长的点分数字串
+const IPV4_PATTERN = /(?<![\d.])((?:\d{1,3}\.){3}\d{1,3})(?::(\d{1,5}))?(?!\.?\d)(?!:)/g;
+// 主机名:端口，如 R1:32769、core-sw.lab:2001；排除时间（12:30:45）与路径片段
+const HOST_PORT_PATTERN = /(?<![\w./:-])([A-Za-z][A-Za-z0-9-]*(?:\.[A-Za-z0-9-]+)*):(\d{1,5})(?![\d:])/g;
+
+function parsePort(raw: string | undefined): number | undefined | null {
+  if (raw === undefined) {
+    return undefined;
+  }
+  const port = Number(raw);
+  return Number.isInteger(port) && port > 0 && port <= 65535 ? port : null;
+}
+
+function isIpv4(value: string) {
+  const octets = value.split(".");
+  return octets.length === 4 && octets.every((octet) => /^\d{1,3}$/.test(octet) && Number(octet) <= 255);
+}
+
+/** 校验 IPv6：至多一个 "::"，分组不超过 4 位十六进制，末尾允许内嵌 IPv4 */
+function isIpv6(value: string) {
+  const halves = value.split("::");
+  if (halves.length > 2) {
+    return false;
+  }
+  const groups = halves.flatMap((half) => (half ? half.split(":") : []));
+  const tail = groups[groups.length - 1];
+  const embeddedV4 = tail !== undefined && tail.includes(".");
+  if (embeddedV4 && !isIpv4(tail)) {
+    return false;
+  }
+  const hexGroups = embeddedV4 ? groups.slice(0, -1) : groups;
+  if (!hexGroups.every((group) => /^[0-9A-Fa-f]{1,4}$/.test(group))) {
+    return false;
+  }
+  const size = hexGroups.length + (embeddedV4 ? 2 : 0);
+  return halves.length === 2 ? size < 8 : size === 8;
+}
+
+function overlaps(matches: TerminalLinkMatch[], start: number, end: number) {
+  return matches.some((match) => start < match.end && end > match.start);
+}
+
+/**
+ * 在一行终端文本中查找可点击的地址：telnet:// URL、IPv4/IPv6（可带端口）与 host:port。
+ * 按上述优先级匹配，已被更具体规则覆盖的区间不再重复识别。
+ */
+export function findTerminalLinks(line: string): TerminalLinkMatch[] {
+  const matches: TerminalLinkMatch[] = [];
+  const push = (kind: TerminalLinkKind, text: string, start: number, host: string, rawPort: string | undefined) => {
+    const port = parsePort(rawPort);
+    const end = start + text.length;
+    if (port === null || overlaps(matches, start, end)) {
+      return;
+    }
+    matches.push({ kind, text, start, end, host, port });
+  };
+
+  for (const match of line.matchAll(TELNET_URL_PATTERN)) {
+    const host = match[1].startsWith("[") ? match[1].slice(1, -1) : match[1];
+    push("telnet-url", match[0], match.index, host, match[2]);
+  }
+  for (const match of line.matchAll(IPV6_PATTERN)) {
+    const address = match[1] ?? match[3];
+    if (address && isIpv6(address)) {
+      push("ipv6", match[0], match.index, address, match[2]);
+    }
+  }
+  for (const match of line.matchAll(IPV4_PATTERN)) {
+    if (isIpv4(match[1])) {
+      push("ipv4", match[0], match.index, match[1], match[2]);
+    }
+  }
+  for (const match of line.matchAll(HOST_PORT_PATTERN)) {
+    push("host-port", match[0], match.index, match[1], match[2]);
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 把 findTerminalLinks 接入 xterm：按单元格重建行文本，使宽字符（中文等）之后的列号仍然对齐。
+ * 只识别单个缓冲区行，跨自动换行的地址不处理。
+ */
+export function createTerminalLinkProvider(
+  terminal: Terminal,
+  onActivate: (target: TerminalLinkTarget, event: MouseEvent) => void
+): ILinkProvider {
+  return {
+    provideLinks(bufferLineNumber, callback) {
+      const line = terminal.buffer.active.getLine(bufferLineNumber - 1);
+      if (!line) {
+        callback(undefined);
+        return;
+      }
+      // columns[i] 为文本第 i 个 UTF-16 单元所在的单元格（0 起）
+      let text = "";
+      const columns: number[] = [];
+      for (let x = 0; x < line.length; x += 1) {
+        const cell = line.getCell(x);
+        if (!cell || cell.getWidth() === 0) {
+          continue;
+        }
+        const chars = cell.getChars() || " ";
+        text += chars;
+        for (let i = 0; i < chars.length; i += 1) {
+          columns.push(x);
+        }
+      }
+      const links: ILink[] = findTerminalLinks(text).map(({ start, end, ...target }) => ({
+        range: {
+          start: { x: columns[start] + 1, y: bufferLineNumber },
+          end: { x: columns[end - 1] + 1, y: bufferLineNumber },
+        },
+        text: target.text,
+        activate: (event) => onActivate(target, event),
+      }));
+      callback(links.length > 0 ? links : undefined);
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/** 返回取消函数的调度器；默认按动画帧调度 */
+export type OutputBatchScheduler = (run: () => void) => () => void;
+
+/** 单个会话一帧内积压超过该字符数时立即派发，让终端侧流控尽早生效 */
+export const MAX_BATCH_CHARS = 256 * 1024;
+
+/** 窗口隐藏或最小化时 requestAnimationFrame 不再触发，用定时器兜底，避免输出积压到切回窗口 */
+const MAX_BATCH_DELAY_MS = 100;
+
+export const scheduleOnAnimationFrame: OutputBatchScheduler = (run) => {
+  let done = false;
+  const once = () => {
+    if (!done) {
+      done = true;
+      window.cancelAnimationFrame(frame);
+      window.clearTimeout(timer);
+      run();
+    }
+  };
+  const frame = window.requestAnimationFrame(once);
+  const timer = window.setTimeout(once, MAX_BATCH_DELAY_MS);
+  return () => {
+    done = true;
+    window.cancelAnimationFrame(frame);
+    window.clearTimeout(timer);
+  };
+};
+
+/**
+ * 按会话合并输出：同一帧内到达的数据块拼成一次派发，
+ * 大量输出（如 show tech）时事件与 terminal.write 调用从每 8 KB 一次降为每帧一次。
+ * 会话结束前先 flush，保证数据总在退出事件之前送达。
+ */
+export class OutputBatcher {
+  private pending = new Map<string, { chunks: string[]; size: number }>();
+  private cancel: (() => void) | null = null;
+
+  constructor(
+    private readonly dispatch: (id: string, data: string) => void,
+    private readonly schedule: OutputBatchScheduler = scheduleOnAnimationFrame
+  ) {}
+
+  push(id: string, data: string) {
+    if (!data) {
+      return;
+    }
+    const batch = this.pending.get(id) ?? { chunks: [], size: 0 };
+    batch.chunks.push(data);
+    batch.size += data.length;
+    this.pending.set(id, batch);
+    if (batch.size >= MAX_BATCH_CHARS) {
+      this.flush(id);
+      return;
+    }
+    this.cancel ??= this.schedule(() => {
+      this.cancel = null;
+      this.flushAll();
+    });
+  }
+
+  /** 立即派发某个会话积压的输出 */
+  flush(id: string) {
+    const batch = this.pending.get(id);
+    if (!batch) {
+      return;
+    }
+    this.pending.delete(id);
+    this.dispatch(id, batch.chunks.join(""));
+  }
+
+  flushAll() {
+    for (const id of [...this.pending.keys()]) {
+      this.flush(id);
+    }
+  }
+
+  /** 丢弃会话积压的输出（会话已销毁） */
+  discard(id: string) {
+    this.pending.delete(id);
+  }
+
+  dispose() {
+    this.cancel?.();
+    this.cancel = null;
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,66 @@
+import type { Terminal } from "@xterm/xterm";
+
+/** 已交给 xterm 但尚未解析完的字符数超过高水位时暂停读取，回落到低水位后恢复 */
+export const OUTPUT_HIGH_WATERMARK = 512 * 1024;
+export const OUTPUT_LOW_WATERMARK = 128 * 1024;
+
+type WritableTerminal = Pick<Terminal, "write">;
+
+/**
+ * 基于 xterm 写入回调的流控：每次写入累加待解析量，解析完成的回调中扣减。
+ * 暂停期间设备数据留在 TCP/PTY 缓冲中，终端追上后再继续读取，界面不会因积压而卡死。
+ * 每个会话订阅一个实例；release 后旧终端迟到的回调不再生效。
+ */
+export class OutputFlowController {
+  private pending = 0;
+  private paused = false;
+  private released = false;
+
+  constructor(
+    private readonly setPaused: (paused: boolean) => void,
+    private readonly highWatermark = OUTPUT_HIGH_WATERMARK,
+    private readonly lowWatermark = OUTPUT_LOW_WATERMARK
+  ) {}
+
+  get isPaused() {
+    return this.paused;
+  }
+
+  get pendingChars() {
+    return this.pending;
+  }
+
+  write(terminal: WritableTerminal, data: string) {
+    if (!data) {
+      return;
+    }
+    const size = data.length;
+    this.pending += size;
+    terminal.write(data, () => {
+      if (this.released) {
+        return;
+      }
+      this.pending -= size;
+      if (this.paused && this.pending <= this.lowWatermark) {
+        this.paused = false;
+        this.setPaused(false);
+      }
+    });
+    if (!this.paused && this.pending > this.highWatermark) {
+      this.paused = true;
+      this.setPaused(true);
+    }
+  }
+
+  /** 会话结束或终端销毁时调用，仍处于暂停时通知恢复读取 */
+  release() {
+    if (this.released) {
+      return;
+    }
+    this.released = true;
+    if (this.paused) {
+      this.paused = false;
+      this.setPaused(false);
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { parsePrompt } from "@/lib/prompt";
+import { stripAnsi } from "@/lib/transcript/ansi";
+
+export const PASTE_PACING_MODES = ["delay", "prompt"] as const;
+
+export type PastePacingMode = (typeof PASTE_PACING_MODES)[number];
+
+export const DEFAULT_PASTE_PACING: PastePacingMode = "delay";
+export const DEFAULT_PASTE_LINE_DELAY_MS = 50;
+export const MIN_PASTE_LINE_DELAY_MS = 0;
+export const MAX_PASTE_LINE_DELAY_MS = 2000;
+
+/** "等待提示符" 模式下单行的最长等待时间，超时后继续发送下一行 */
+export const PASTE_PROMPT_TIMEOUT_MS = 5000;
+
+const PROMPT_TAIL_LENGTH = 512;
+
+export function isPastePacingMode(value: unknown): value is PastePacingMode {
+  return typeof value === "string" && (PASTE_PACING_MODES as readonly string[]).includes(value);
+}
+
+/** 拆分粘贴内容；末尾的单个换行不计为额外的空行 */
+export function splitPastedLines(text: string) {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  if (lines.length > 1 && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+export type PastePacingOptions = {
+  lines: string[];
+  pacing: PastePacingMode;
+  delayMs: number;
+  write: (data: string) => void;
+  /** 订阅会话输出，仅 "prompt" 模式使用 */
+  subscribe: (listener: (data: string) => void) => () => void;
+  onProgress?: (sent: number, total: number) => void;
+  signal?: AbortSignal;
+};
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (signal?.aborted || ms <= 0) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * 逐行发送粘贴内容，避免一次性写入撑爆低速串口控制台的输入缓冲。
+ * "delay" 模式在每行之间固定等待；"prompt" 模式等到设备重新输出提示符（或超时）后再发下一行。
+ * 返回是否完整发送（被取消时为 false）。
+ */
+export async function sendPacedLines({
+  lines,
+  pacing,
+  delayMs,
+  write,
+  subscribe,
+  onProgress,
+  signal,
+}: PastePacingOptions): Promise<boolean> {
+  let tail = "";
+  let notify: (() => void) | null = null;
+  const unsubscribe =
+    pacing === "prompt"
+      ? subscribe((data) => {
+          tail = (tail + data).slice(-PROMPT_TAIL_LENGTH);
+          notify?.();
+        })
+      : null;
+
+  const promptReturned = () => {
+    const text = stripAnsi(tail.replace(/\r\n/g, "\n"));
+    return parsePrompt(text.slice(text.lastIndexOf("\n") + 1)) !== null;
+  };
+
+  const waitForPrompt = () =>
+    new Promise<void>((resolve) => {
+      const finish = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", finish);
+        notify = null;
+        resolve();
+      };
+      const timer = setTimeout(finish, PASTE_PROMPT_TIMEOUT_MS);
+      signal?.addEventListener("abort", finish, { once: true });
+      notify = () => {
+        if (promptReturned()) {
+          finish();
+        }
+      };
+      notify();
+    });
+
+  try {
+    for (let index = 0; index < lines.length; index += 1) {
+      if (signal?.aborted) {
+        return false;
+      }
+      tail = "";
+      write(`${lines[index]}\r`);
+      onProgress?.(index + 1, lines.length);
+      if (index === lines.length - 1) {
+        break;
+      }
+      if (pacing === "prompt") {
+        await waitForPrompt();
+      } else {
+        await wait(delayMs, signal);
+      }
+    }
+    return !signal?.aborted;
+  } finally {
+    unsubscribe?.();
+  }
+}
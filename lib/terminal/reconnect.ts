@@ -0,0 +1,24 @@
+export const DEFAULT_RECONNECT_MAX_ATTEMPTS = 5;
+export const MIN_RECONNECT_ATTEMPTS = 1;
+export const MAX_RECONNECT_ATTEMPTS = 20;
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+/** 连接保持超过该时长后再断开，视为新的故障，重试计数从头开始 */
+export const RECONNECT_STABLE_AFTER_MS = 10000;
+
+export type ReconnectProgress = {
+  attempt: number;
+  maxAttempts: number;
+};
+
+/**
+ * 第 n 次重连前的等待时间：1s、2s、4s… 指数退避，封顶 30s，
+ * 并叠加最多 20% 的随机抖动，避免整个实验拓扑重启后所有会话同时冲击设备。
+ */
+export function computeReconnectDelay(attempt: number) {
+  const exponent = Math.max(attempt - 1, 0);
+  const base = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** exponent, RECONNECT_MAX_DELAY_MS);
+  return Math.round(base * (1 + Math.random() * 0.2));
+}
@@ -0,0 +1,46 @@
+import type { IDisposable, Terminal } from "@xterm/xterm";
+
+export const TERMINAL_RENDERERS = ["dom", "canvas", "webgl"] as const;
+
+export type TerminalRenderer = (typeof TERMINAL_RENDERERS)[number];
+
+/** DOM 渲染兼容性最好；大量输出时 WebGL 最快，Canvas 介于两者之间 */
+export const DEFAULT_TERMINAL_RENDERER: TerminalRenderer = "dom";
+
+export function isTerminalRenderer(value: unknown): value is TerminalRenderer {
+  return typeof value === "string" && (TERMINAL_RENDERERS as readonly string[]).includes(value);
+}
+
+/**
+ * 为已 open 的终端加载渲染器插件，返回实际生效的渲染器与用于卸载的句柄。
+ * WebGL 初始化失败时依次回退到 Canvas 与 DOM。
+ */
+export async function loadTerminalRenderer(
+  terminal: Terminal,
+  renderer: TerminalRenderer
+): Promise<{ renderer: TerminalRenderer; addon: IDisposable | null }> {
+  if (renderer === "webgl") {
+    try {
+      const { WebglAddon } = await import("@xterm/addon-webgl");
+      const addon = new WebglAddon();
+      terminal.loadAddon(addon);
+      // 上下文丢失后卸载插件，xterm 自动回到 DOM 渲染
+      addon.onContextLoss(() => addon.dispose());
+      return { renderer, addon };
+    } catch (error) {
+      console.warn("WebGL renderer unavailable, falling back to canvas", error);
+      return loadTerminalRenderer(terminal, "canvas");
+    }
+  }
+  if (renderer === "canvas") {
+    try {
+      const { CanvasAddon } = await import("@xterm/addon-canvas");
+      const addon = new CanvasAddon();
+      terminal.loadAddon(addon);
+      return { renderer, addon };
+    } catch (error) {
+      console.warn("Canvas renderer unavailable, falling back to DOM", error);
+    }
+  }
+  return { renderer: "dom", addon: null };
+}
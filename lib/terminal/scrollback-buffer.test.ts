@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+
+import { MIN_SCROLLBACK_BUFFER_KB, ScrollbackBuffer } from "./scrollback-buffer";
+
+describe("ScrollbackBuffer", () => {
+  it("按 UTF-8 字节截断多字节字符的首块，不多丢数据", () => {
+    const buffer = new ScrollbackBuffer(MIN_SCROLLBACK_BUFFER_KB);
+    buffer.append("中".repeat(20000));
+    buffer.append("x".repeat(10000));
+    expect(buffer.size).toBe(buffer.limit);
+    expect(buffer.read()).toBe("中".repeat(18512) + "x".repeat(10000));
+  });
+
+  it("截断点落在字符中间时跳到下一个完整字符", () => {
+    const buffer = new ScrollbackBuffer(MIN_SCROLLBACK_BUFFER_KB);
+    buffer.append("中".repeat(20000));
+    buffer.append("x".repeat(10001));
+    expect(buffer.size).toBeLessThanOrEqual(buffer.limit);
+    expect(buffer.read()).toBe("中".repeat(18511) + "x".repeat(10001));
+  });
+
+  it("截断后对齐到下一行开头", () => {
+    const buffer = new ScrollbackBuffer(MIN_SCROLLBACK_BUFFER_KB);
+    buffer.append(`${"a".repeat(1000)}\r\nR1#show clock\r\n`);
+    buffer.append("b".repeat(buffer.limit - 500));
+    expect(buffer.read()).toBe(`R1#show clock\r\n${"b".repeat(buffer.limit - 500)}`);
+  });
+});
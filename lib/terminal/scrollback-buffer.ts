@@ -0,0 +1,93 @@
+export const DEFAULT_SCROLLBACK_BUFFER_KB = 512;
+export const MIN_SCROLLBACK_BUFFER_KB = 64;
+export const MAX_SCROLLBACK_BUFFER_KB = 8192;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function byteLength(text: string) {
+  return encoder.encode(text).length;
+}
+
+/**
+ * 按 UTF-8 字节数限制容量的输出环形缓冲。超出上限时从最旧的数据块开始丢弃，
+ * 被截断的首块会对齐到下一行开头，避免回放时出现半截转义序列。
+ */
+export class ScrollbackBuffer {
+  private chunks: Array<{ text: string; bytes: number }> = [];
+  private totalBytes = 0;
+  private maxBytes: number;
+
+  constructor(limitKb: number = DEFAULT_SCROLLBACK_BUFFER_KB) {
+    this.maxBytes = normalizeLimit(limitKb) * 1024;
+  }
+
+  get size() {
+    return this.totalBytes;
+  }
+
+  get limit() {
+    return this.maxBytes;
+  }
+
+  setLimit(limitKb: number) {
+    this.maxBytes = normalizeLimit(limitKb) * 1024;
+    this.trim();
+  }
+
+  append(text: string) {
+    if (!text) {
+      return;
+    }
+    const bytes = byteLength(text);
+    this.chunks.push({ text, bytes });
+    this.totalBytes += bytes;
+    this.trim();
+  }
+
+  read() {
+    return this.chunks.map((chunk) => chunk.text).join("");
+  }
+
+  clear() {
+    this.chunks = [];
+    this.totalBytes = 0;
+  }
+
+  private trim() {
+    while (this.totalBytes > this.maxBytes && this.chunks.length > 0) {
+      const head = this.chunks[0];
+      const overflow = this.totalBytes - this.maxBytes;
+      if (head.bytes <= overflow) {
+        this.chunks.shift();
+        this.totalBytes -= head.bytes;
+        continue;
+      }
+      // 按字节截去溢出部分，起点跳过 UTF-8 续字节以免切开多字节字符，然后对齐到换行
+      const encoded = encoder.encode(head.text);
+      let start = overflow;
+      while (start < encoded.length && (encoded[start] & 0xc0) === 0x80) {
+        start += 1;
+      }
+      let remainder = decoder.decode(encoded.subarray(start));
+      const newline = remainder.indexOf("\n");
+      if (newline !== -1 && newline < remainder.length - 1) {
+        remainder = remainder.slice(newline + 1);
+      }
+      const remainderBytes = byteLength(remainder);
+      this.totalBytes -= head.bytes - remainderBytes;
+      if (remainder) {
+        this.chunks[0] = { text: remainder, bytes: remainderBytes };
+      } else {
+        this.chunks.shift();
+      }
+    }
+  }
+}
+
+export function normalizeLimit(limitKb: number) {
+  if (!Number.isFinite(limitKb)) {
+    return DEFAULT_SCROLLBACK_BUFFER_KB;
+  }
+  return Math.min(Math.max(Math.round(limitKb), MIN_SCROLLBACK_BUFFER_KB), MAX_SCROLLBACK_BUFFER_KB);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+
+import { TerminalSessionRegistry } from "./session-registry";
+
+describe("TerminalSessionRegistry", () => {
+  it("为早于登记到达的首包建立条目", () => {
+    const registry = new TerminalSessionRegistry();
+    expect(registry.append("early", "Trying 10.0.0.1...\r\n")).toBe(true);
+    registry.register({ id: "early", host: "10.0.0.1", port: 32769 });
+    expect(registry.get("early")?.buffer.read()).toBe("Trying 10.0.0.1...\r\n");
+  });
+
+  it("丢弃释放后迟到的输出，不让会话复活", () => {
+    const registry = new TerminalSessionRegistry();
+    registry.register({ id: "s1", host: "10.0.0.1" });
+    registry.append("s1", "R1#");
+    registry.remove("s1");
+    expect(registry.append("s1", "late")).toBe(false);
+    expect(registry.get("s1")).toBeNull();
+    expect(registry.list()).toHaveLength(0);
+  });
+
+  it("重连接管缓冲后，旧会话的迟到输出同样被丢弃", () => {
+    const registry = new TerminalSessionRegistry();
+    registry.register({ id: "old" });
+    registry.append("old", "before\r\n");
+    registry.register({ id: "new" });
+    registry.adopt("old", "new");
+    expect(registry.append("old", "late")).toBe(false);
+    expect(registry.get("new")?.buffer.read()).toBe("before\r\n");
+    expect(registry.get("old")).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import type { PromptInfo } from "@/lib/prompt";
+
+import type { TerminalEncoding } from "./encoding";
+import { DEFAULT_SCROLLBACK_BUFFER_KB, ScrollbackBuffer } from "./scrollback-buffer";
+
+export type RegisteredSession = {
+  id: string;
+  host?: string;
+  port?: number;
+  label?: string;
+  createdAt: number;
+  exited: boolean;
+  buffer: ScrollbackBuffer;
+  prompt?: PromptInfo;
+  encoding?: TerminalEncoding;
+};
+
+export type RegisterSessionInput = {
+  id: string;
+  host?: string;
+  port?: number;
+  label?: string;
+};
+
+/**
+ * 桥接层的会话登记表：记录每个终端会话的元数据与输出缓冲，
+ * 供 describe/attach/readBuffer 在组件重新挂载后恢复现场。
+ * Rust 通道（TCP/PTY）的缓冲与元数据由 Rust 侧登记表保存，这里只兜底其它会话。
+ */
+export class TerminalSessionRegistry {
+  private readonly sessions = new Map<string, RegisteredSession>();
+  // 已释放的会话 ID：释放后才到达的 tcp://data / pty://data 不能让条目复活
+  private readonly removed = new Set<string>();
+  private bufferLimitKb: number;
+
+  constructor(bufferLimitKb: number = DEFAULT_SCROLLBACK_BUFFER_KB) {
+    this.bufferLimitKb = bufferLimitKb;
+  }
+
+  setBufferLimit(limitKb: number) {
+    this.bufferLimitKb = limitKb;
+    for (const session of this.sessions.values()) {
+      session.buffer.setLimit(limitKb);
+    }
+  }
+
+  register({ id, host, port, label }: RegisterSessionInput) {
+    const existing = this.sessions.get(id);
+    if (existing) {
+      this.update(id, { host, port, label: label ?? host });
+      return existing;
+    }
+    const entry: RegisteredSession = {
+      id,
+      host,
+      port,
+      label: label ?? host,
+      createdAt: Date.now(),
+      exited: false,
+      buffer: new ScrollbackBuffer(this.bufferLimitKb),
+    };
+    this.sessions.set(id, entry);
+    return entry;
+  }
+
+  get(id: string) {
+    return this.sessions.get(id) ?? null;
+  }
+
+  /**
+   * 首包可能早于 createTelnetSession 返回，未登记的会话先建立空条目；
+   * 已释放的会话直接丢弃，返回 false。
+   */
+  append(id: string, data: string) {
+    if (this.removed.has(id)) {
+      return false;
+    }
+    const entry = this.sessions.get(id) ?? this.register({ id });
+    entry.buffer.append(data);
+    return true;
+  }
+
+  isRemoved(id: string) {
+    return this.removed.has(id);
+  }
+
+  update(id: string, patch: Partial<Pick<RegisteredSession, "host" | "port" | "label">>) {
+    const entry = this.sessions.get(id);
+    if (!entry) {
+      return;
+    }
+    if (typeof patch.label === "string" && patch.label.trim()) {
+      entry.label = patch.label.trim();
+    }
+    if (typeof patch.host === "string" && patch.host.trim()) {
+      entry.host = patch.host.trim();
+    }
+    if (typeof patch.port === "number" && Number.isFinite(patch.port) && patch.port > 0) {
+      entry.port = patch.port;
+    }
+  }
+
+  /** 重连后新会话沿用旧会话的输出缓冲，旧条目随之移除 */
+  adopt(previousId: string, id: string) {
+    const previous = this.sessions.get(previousId);
+    const entry = this.sessions.get(id);
+    if (!previous || !entry || previousId === id) {
+      return;
+    }
+    const pending = entry.buffer.read();
+    entry.buffer = previous.buffer;
+    if (pending) {
+      entry.buffer.append(pending);
+    }
+    this.sessions.delete(previousId);
+    this.removed.add(previousId);
+  }
+
+  setEncoding(id: string, encoding: TerminalEncoding) {
+    const entry = this.sessions.get(id);
+    if (entry) {
+      entry.encoding = encoding;
+    }
+  }
+
+  setPrompt(id: string, prompt: PromptInfo) {
+    const entry = this.sessions.get(id);
+    if (entry) {
+      entry.prompt = prompt;
+    }
+  }
+
+  markExited(id: string) {
+    const entry = this.sessions.get(id);
+    if (entry) {
+      entry.exited = true;
+    }
+  }
+
+  remove(id: string) {
+    this.sessions.delete(id);
+    this.removed.add(id);
+  }
+
+  list() {
+    return Array.from(this.sessions.values());
+  }
+}
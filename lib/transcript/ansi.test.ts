@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+
+import { AnsiTokenizer, stripAnsi } from "./ansi";
+import { createTranscriptFormatter } from "./format";
+
+describe("stripAnsi", () => {
+  it("去除 SGR、字符集选择与保存/恢复光标序列", () => {
+    expect(stripAnsi("\x1b(B\x1b[mR1#\x1b[0m")).toBe("R1#");
+    expect(stripAnsi("\x1b7\x1b[24;1H--More--\x1b8")).toBe("--More--");
+    expect(stripAnsi("\x1b)0\x1b#8line\x1b=\x1b>")).toBe("line");
+  });
+});
+
+describe("AnsiTokenizer", () => {
+  it("暂存跨块切开的字符集选择序列", () => {
+    const tokenizer = new AnsiTokenizer();
+    expect(tokenizer.push("Router\x1b(")).toEqual([{ type: "text", value: "Router" }]);
+    expect(tokenizer.push("B#")).toEqual([{ type: "text", value: "#" }]);
+  });
+});
+
+describe("plain transcript", () => {
+  it("不把 Cisco/Huawei 常见的 ESC ( B 与 ESC 7/8 写入日志", () => {
+    const formatter = createTranscriptFormatter("plain", { host: "10.0.0.1", port: 32769, startedAt: new Date(0) });
+    const body = formatter.format("\x1b7show ver\x1b8\r\n\x1b(B<HUAWEI>") + formatter.footer();
+    expect(body).toBe("show ver\n<HUAWEI>");
+  });
+});
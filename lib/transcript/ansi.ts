@@ -0,0 +1,255 @@
+// 终端输出的 ANSI 转义处理：剥离为纯文本，或按 SGR 属性转换为 HTML
+
+const ANSI_16_COLORS = [
+  "#000000",
+  "#cd3131",
+  "#0dbc79",
+  "#e5e510",
+  "#2472c8",
+  "#bc3fbc",
+  "#11a8cd",
+  "#e5e5e5",
+  "#666666",
+  "#f14c4c",
+  "#23d18b",
+  "#f5f543",
+  "#3b8eea",
+  "#d670d6",
+  "#29b8db",
+  "#ffffff",
+];
+
+type Token = { type: "text"; value: string } | { type: "sgr"; params: number[] };
+
+// CSI / OSC / 字符集选择等带中间字节的序列（ESC ( B、ESC # 8）/ 其他双字节 ESC 序列（含 ESC 7、ESC 8 保存与恢复光标）
+const ESCAPE_PATTERN = /\x1b(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[ -/]+[0-~]|[0-?@-Z\\-_])/g;
+
+/**
+ * 流式分词：数据块末尾不完整的 ESC 序列会被暂存，与下一块拼接后再解析。
+ */
+export class AnsiTokenizer {
+  private carry = "";
+
+  push(chunk: string): Token[] {
+    let input = this.carry + chunk;
+    this.carry = "";
+    const lastEsc = input.lastIndexOf("\x1b");
+    if (lastEsc !== -1 && !isCompleteEscape(input.slice(lastEsc))) {
+      this.carry = input.slice(lastEsc);
+      input = input.slice(0, lastEsc);
+    }
+
+    const tokens: Token[] = [];
+    let cursor = 0;
+    ESCAPE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = ESCAPE_PATTERN.exec(input)) !== null) {
+      if (match.index > cursor) {
+        tokens.push({ type: "text", value: input.slice(cursor, match.index) });
+      }
+      const sequence = match[0];
+      if (sequence.startsWith("\x1b[") && sequence.endsWith("m")) {
+        const body = sequence.slice(2, -1);
+        const params = body.length === 0 ? [0] : body.split(/[;:]/).map((part) => (part === "" ? 0 : Number(part)));
+        tokens.push({ type: "sgr", params: params.filter((value) => Number.isFinite(value)) });
+      }
+      cursor = match.index + sequence.length;
+    }
+    if (cursor < input.length) {
+      tokens.push({ type: "text", value: input.slice(cursor) });
+    }
+    return tokens;
+  }
+
+  flush(): Token[] {
+    const rest = this.carry;
+    this.carry = "";
+    return rest ? [{ type: "text", value: rest.replace(/\x1b/g, "") }] : [];
+  }
+}
+
+function isCompleteEscape(fragment: string) {
+  ESCAPE_PATTERN.lastIndex = 0;
+  const match = ESCAPE_PATTERN.exec(fragment);
+  ESCAPE_PATTERN.lastIndex = 0;
+  return Boolean(match && match.index === 0);
+}
+
+/** 处理控制字符：退格删除前一个字符，去掉 CR 与其他 C0 控制符（保留换行与制表） */
+export function normalizeControlCharacters(text: string) {
+  let output = "";
+  for (const char of text) {
+    if (char === "\b") {
+      output = output.slice(0, -1);
+      continue;
+    }
+    if (char === "\n" || char === "\t") {
+      output += char;
+      continue;
+    }
+    const code = char.charCodeAt(0);
+    if (code < 0x20 || code === 0x7f) {
+      continue;
+    }
+    output += char;
+  }
+  return output;
+}
+
+export function stripAnsi(text: string) {
+  return normalizeControlCharacters(text.replace(ESCAPE_PATTERN, ""));
+}
+
+type SgrState = {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  inverse: boolean;
+  foreground: string | null;
+  background: string | null;
+};
+
+const EMPTY_STATE: SgrState = {
+  bold: false,
+  italic: false,
+  underline: false,
+  inverse: false,
+  foreground: null,
+  background: null,
+};
+
+function color256(index: number) {
+  if (index < 16) {
+    return ANSI_16_COLORS[index];
+  }
+  if (index >= 232) {
+    const level = 8 + (index - 232) * 10;
+    return rgb(level, level, level);
+  }
+  const offset = index - 16;
+  const steps = [0, 95, 135, 175, 215, 255];
+  return rgb(steps[Math.floor(offset / 36)], steps[Math.floor(offset / 6) % 6], steps[offset % 6]);
+}
+
+function rgb(r: number, g: number, b: number) {
+  const hex = (value: number) => Math.max(0, Math.min(255, value)).toString(16).padStart(2, "0");
+  return `#${hex(r)}${hex(g)}${hex(b)}`;
+}
+
+function applySgr(state: SgrState, params: number[]): SgrState {
+  const next = { ...state };
+  for (let index = 0; index < params.length; index += 1) {
+    const code = params[index];
+    if (code === 0) {
+      Object.assign(next, EMPTY_STATE);
+    } else if (code === 1) {
+      next.bold = true;
+    } else if (code === 3) {
+      next.italic = true;
+    } else if (code === 4) {
+      next.underline = true;
+    } else if (code === 7) {
+      next.inverse = true;
+    } else if (code === 22) {
+      next.bold = false;
+    } else if (code === 23) {
+      next.italic = false;
+    } else if (code === 24) {
+      next.underline = false;
+    } else if (code === 27) {
+      next.inverse = false;
+    } else if (code >= 30 && code <= 37) {
+      next.foreground = ANSI_16_COLORS[code - 30];
+    } else if (code >= 90 && code <= 97) {
+      next.foreground = ANSI_16_COLORS[code - 90 + 8];
+    } else if (code === 39) {
+      next.foreground = null;
+    } else if (code >= 40 && code <= 47) {
+      next.background = ANSI_16_COLORS[code - 40];
+    } else if (code >= 100 && code <= 107) {
+      next.background = ANSI_16_COLORS[code - 100 + 8];
+    } else if (code === 49) {
+      next.background = null;
+    } else if (code === 38 || code === 48) {
+      const mode = params[index + 1];
+      let value: string | null = null;
+      if (mode === 5 && params.length > index + 2) {
+        value = color256(params[index + 2]);
+        index += 2;
+      } else if (mode === 2 && params.length > index + 4) {
+        value = rgb(params[index + 2], params[index + 3], params[index + 4]);
+        index += 4;
+      }
+      if (value) {
+        if (code === 38) {
+          next.foreground = value;
+        } else {
+          next.background = value;
+        }
+      }
+    }
+  }
+  return next;
+}
+
+function styleFor(state: SgrState) {
+  const declarations: string[] = [];
+  const foreground = state.inverse ? state.background ?? "var(--transcript-bg)" : state.foreground;
+  const background = state.inverse ? state.foreground ?? "var(--transcript-fg)" : state.background;
+  if (foreground) declarations.push(`color:${foreground}`);
+  if (background) declarations.push(`background:${background}`);
+  if (state.bold) declarations.push("font-weight:bold");
+  if (state.italic) declarations.push("font-style:italic");
+  if (state.underline) declarations.push("text-decoration:underline");
+  return declarations.join(";");
+}
+
+export function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (char) => {
+    switch (char) {
+      case "&":
+        return "&amp;";
+      case "<":
+        return "&lt;";
+      case ">":
+        return "&gt;";
+      case '"':
+        return "&quot;";
+      default:
+        return "&#39;";
+    }
+  });
+}
+
+/**
+ * 将带 SGR 颜色的终端输出增量转换为 HTML 片段，跨数据块保留颜色状态。
+ */
+export class AnsiHtmlConverter {
+  private readonly tokenizer = new AnsiTokenizer();
+  private state: SgrState = { ...EMPTY_STATE };
+
+  push(chunk: string) {
+    return this.render(this.tokenizer.push(chunk));
+  }
+
+  flush() {
+    return this.render(this.tokenizer.flush());
+  }
+
+  private render(tokens: Token[]) {
+    let html = "";
+    for (const token of tokens) {
+      if (token.type === "sgr") {
+        this.state = applySgr(this.state, token.params);
+        continue;
+      }
+      const text = normalizeControlCharacters(token.value);
+      if (!text) {
+        continue;
+      }
+      const style = styleFor(this.state);
+      html += style ? `<span style="${style}">${escapeHtml(text)}</span>` : escapeHtml(text);
+    }
+    return html;
+  }
+}
@@ -0,0 +1,91 @@
+import { AnsiHtmlConverter, AnsiTokenizer, escapeHtml, normalizeControlCharacters } from "./ansi";
+
+export const TRANSCRIPT_FORMATS = ["plain", "raw", "html"] as const;
+
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+export type TranscriptMetadata = {
+  label?: string;
+  host: string;
+  port: number;
+  startedAt: Date;
+};
+
+export type TranscriptFormatter = {
+  header: () => string;
+  format: (chunk: string) => string;
+  footer: () => string;
+};
+
+const EXTENSIONS: Record<TranscriptFormat, string> = {
+  plain: "txt",
+  raw: "log",
+  html: "html",
+};
+
+export function isTranscriptFormat(value: unknown): value is TranscriptFormat {
+  return typeof value === "string" && (TRANSCRIPT_FORMATS as readonly string[]).includes(value);
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, "0");
+}
+
+export function formatTranscriptTimestamp(date: Date) {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+/** 文件名片段：替换路径分隔符与空白，限制长度 */
+export function sanitizeFileNameSegment(value: string) {
+  return value
+    .trim()
+    .replace(/[\\/:*?"<>|\s]+/g, "_")
+    .replace(/_+/g, "_")
+    .replace(/^_|_$/g, "")
+    .slice(0, 48);
+}
+
+/** 生成形如 R1_10.0.0.1-32769_20251019-142530.txt 的文件名 */
+export function buildTranscriptFileName({ label, host, port, startedAt }: TranscriptMetadata, format: TranscriptFormat) {
+  const segments = [label && label !== host ? sanitizeFileNameSegment(label) : "", `${sanitizeFileNameSegment(host)}-${port}`, formatTranscriptTimestamp(startedAt)].filter(Boolean);
+  return `${segments.join("_")}.${EXTENSIONS[format]}`;
+}
+
+export function createTranscriptFormatter(format: TranscriptFormat, metadata: TranscriptMetadata): TranscriptFormatter {
+  const title = `${metadata.label ?? metadata.host} (${metadata.host}:${metadata.port}) ${metadata.startedAt.toLocaleString()}`;
+
+  // 原始字节流由 SessionTranscript.appendBytes 直接写入，不经过文本格式化
+  if (format === "raw") {
+    return {
+      header: () => "",
+      format: () => "",
+      footer: () => "",
+    };
+  }
+
+  if (format === "html") {
+    const converter = new AnsiHtmlConverter();
+    return {
+      header: () =>
+        [
+          "<!DOCTYPE html>",
+          '<html><head><meta charset="utf-8">',
+          `<title>${escapeHtml(title)}</title>`,
+          "<style>:root{--transcript-bg:#0f1115;--transcript-fg:#f7fafc}body{margin:0;background:var(--transcript-bg);color:var(--transcript-fg)}",
+          "pre{margin:0;padding:16px;font:13px/1.3 ui-monospace,Menlo,Consolas,monospace;white-space:pre-wrap;word-break:break-all}</style>",
+          `</head><body><pre>`,
+        ].join("\n"),
+      format: (chunk) => converter.push(chunk),
+      footer: () => `${converter.flush()}</pre></body></html>\n`,
+    };
+  }
+
+  const tokenizer = new AnsiTokenizer();
+  const render = (tokens: ReturnType<AnsiTokenizer["push"]>) =>
+    tokens.map((token) => (token.type === "text" ? normalizeControlCharacters(token.value) : "")).join("");
+  return {
+    header: () => `# ${title}\n`,
+    format: (chunk) => render(tokenizer.push(chunk)),
+    footer: () => render(tokenizer.flush()),
+  };
+}
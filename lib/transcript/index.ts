@@ -0,0 +1,13 @@
+export { AnsiHtmlConverter, AnsiTokenizer, escapeHtml, normalizeControlCharacters, stripAnsi } from "./ansi";
+export {
+  TRANSCRIPT_FORMATS,
+  buildTranscriptFileName,
+  createTranscriptFormatter,
+  formatTranscriptTimestamp,
+  isTranscriptFormat,
+  sanitizeFileNameSegment,
+  type TranscriptFormat,
+  type TranscriptFormatter,
+  type TranscriptMetadata,
+} from "./format";
+export { SessionTranscript, type SessionTranscriptOptions } from "./session-transcript";
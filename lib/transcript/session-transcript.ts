@@ -0,0 +1,151 @@
+import {
+  buildTranscriptFileName,
+  createTranscriptFormatter,
+  type TranscriptFormat,
+  type TranscriptFormatter,
+  type TranscriptMetadata,
+} from "./format";
+
+const FLUSH_INTERVAL_MS = 500;
+
+export type SessionTranscriptOptions = {
+  /** 纯文本日志每行开头的前缀（如行时间戳），返回 null 表示不加；在该行首个字符写入时取值 */
+  linePrefix?: () => string | null;
+};
+
+/**
+ * 单个会话的转录写入器：输出先在内存中合并，定时批量交给桥接层落盘，
+ * 避免每个数据块都触发一次 IPC。raw 格式只记录 appendBytes 传入的解码前字节，忽略文本输出。
+ */
+export class SessionTranscript {
+  private pending = "";
+  private pendingBytes: Uint8Array[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private atLineStart = true;
+
+  private constructor(
+    private readonly id: string,
+    readonly path: string,
+    readonly format: TranscriptFormat,
+    private readonly formatter: TranscriptFormatter,
+    private readonly options: SessionTranscriptOptions
+  ) {}
+
+  static async start(
+    format: TranscriptFormat,
+    metadata: Omit<TranscriptMetadata, "startedAt">,
+    options: SessionTranscriptOptions = {}
+  ) {
+    const transcripts = window.desktopBridge?.transcripts;
+    if (!transcripts) {
+      throw new Error("Transcript logging is only available in the desktop app");
+    }
+    const fullMetadata: TranscriptMetadata = { ...metadata, startedAt: new Date() };
+    const fileName = buildTranscriptFileName(fullMetadata, format);
+    const { id, path } = await transcripts.open(fileName);
+    const formatter = createTranscriptFormatter(format, fullMetadata);
+    const transcript = new SessionTranscript(id, path, format, formatter, options);
+    transcript.enqueue(formatter.header());
+    return transcript;
+  }
+
+  append(chunk: string) {
+    if (this.closed || this.format === "raw") {
+      return;
+    }
+    this.enqueue(this.prefixLines(this.formatter.format(chunk)));
+  }
+
+  /** 设备输出的原始字节（编解码前），仅 raw 格式记录 */
+  appendBytes(bytes: Uint8Array) {
+    if (this.closed || this.format !== "raw" || bytes.length === 0) {
+      return;
+    }
+    this.pendingBytes.push(bytes.slice());
+    this.scheduleFlush();
+  }
+
+  async stop() {
+    if (this.closed) {
+      return;
+    }
+    this.pending += this.formatter.footer();
+    this.closed = true;
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+    await window.desktopBridge?.transcripts?.close(this.id);
+  }
+
+  // raw/html 日志保持原样，前缀只加在纯文本日志的非空行上
+  private prefixLines(text: string) {
+    const prefix = this.format === "plain" ? this.options.linePrefix?.() : null;
+    if (!prefix) {
+      if (text) {
+        this.atLineStart = text.endsWith("\n");
+      }
+      return text;
+    }
+    const lines = text.split("\n");
+    return lines
+      .map((line, index) => {
+        const isLast = index === lines.length - 1;
+        const stamped = line && this.atLineStart ? `${prefix}${line}` : line;
+        if (line) {
+          this.atLineStart = false;
+        }
+        if (!isLast) {
+          this.atLineStart = true;
+        }
+        return stamped;
+      })
+      .join("\n");
+  }
+
+  private enqueue(text: string) {
+    if (!text) {
+      return;
+    }
+    this.pending += text;
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush() {
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flush();
+      }, FLUSH_INTERVAL_MS);
+    }
+  }
+
+  private async flush() {
+    const data = this.pending;
+    const chunks = this.pendingBytes;
+    this.pending = "";
+    this.pendingBytes = [];
+    try {
+      if (data) {
+        await window.desktopBridge?.transcripts?.write(this.id, data);
+      }
+      if (chunks.length > 0) {
+        await window.desktopBridge?.transcripts?.writeBytes(this.id, concatBytes(chunks));
+      }
+    } catch (error) {
+      console.warn("Failed to write session transcript", error);
+    }
+  }
+}
+
+function concatBytes(chunks: Uint8Array[]) {
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
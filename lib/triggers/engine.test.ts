@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { TRIGGER_COOLDOWN_MS, TriggerMatcher, compileTriggers } from "./engine";
+import { sanitizeTriggerRule } from "./rules";
+import type { TriggerRule } from "./types";
+
+function rule(id: string, pattern: string, extra: Partial<TriggerRule> = {}): TriggerRule {
+  return { id, name: id, pattern, flags: "i", notify: false, flashTab: false, enabled: true, ...extra };
+}
+
+function createMatcher(rules: TriggerRule[]) {
+  const matcher = new TriggerMatcher();
+  matcher.setTriggers(compileTriggers(rules, "session-1"));
+  return matcher;
+}
+
+const PASSWORD = rule("password", "^Password:\\s*$", { response: "cisco" });
+
+describe("TriggerMatcher", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("拼接跨块切开的提示符，在尾行未结束时即触发", () => {
+    const matcher = createMatcher([PASSWORD]);
+    expect(matcher.push("\r\nPass")).toEqual([]);
+    expect(matcher.push("word: ")).toEqual([{ rule: PASSWORD, line: "Password: " }]);
+  });
+
+  it("同一行补全后不再重复触发，避免向设备发送第二次应答", () => {
+    const matcher = createMatcher([PASSWORD]);
+    expect(matcher.push("Password:")).toHaveLength(1);
+    vi.advanceTimersByTime(TRIGGER_COOLDOWN_MS * 5);
+    expect(matcher.push(" ")).toEqual([]);
+    expect(matcher.push("\r\n")).toEqual([]);
+    expect(matcher.push("R1>")).toEqual([]);
+  });
+
+  it("冷却时间内的再次命中被抑制，冷却结束后新行可以再次触发", () => {
+    const linkDown = rule("link", "changed state to down");
+    const matcher = createMatcher([linkDown]);
+    const line = "%LINK-3-UPDOWN: Interface Gi0/1, changed state to down\r\n";
+    expect(matcher.push(line)).toHaveLength(1);
+    vi.advanceTimersByTime(TRIGGER_COOLDOWN_MS - 1);
+    expect(matcher.push(line)).toEqual([]);
+    vi.advanceTimersByTime(1);
+    expect(matcher.push(line)).toHaveLength(1);
+  });
+
+  it("认证失败后重新出现的提示符在冷却结束后再次触发", () => {
+    const matcher = createMatcher([PASSWORD]);
+    expect(matcher.push("Password:")).toHaveLength(1);
+    vi.advanceTimersByTime(TRIGGER_COOLDOWN_MS);
+    expect(matcher.push("\r\n% Bad passwords\r\n\r\nPassword:")).toEqual([{ rule: PASSWORD, line: "Password:" }]);
+  });
+});
+
+describe("compileTriggers", () => {
+  it("会话级触发器只对绑定的会话生效", () => {
+    const scoped = rule("scoped", "%LINK-3-UPDOWN", { sessionId: "session-1" });
+    const global = rule("global", "%OSPF-5-ADJCHG");
+    expect(compileTriggers([scoped, global], "session-1").map((trigger) => trigger.rule.id)).toEqual(["scoped", "global"]);
+    expect(compileTriggers([scoped, global], "session-2").map((trigger) => trigger.rule.id)).toEqual(["global"]);
+  });
+
+  it("旧版按设备限定的触发器读入后停用，不会放宽到所有会话", () => {
+    const legacy = sanitizeTriggerRule({ ...PASSWORD, device: "10.0.0.1:32769" } as Partial<typeof PASSWORD>);
+    expect(legacy).toMatchObject({ id: "password", enabled: false, sessionId: undefined });
+  });
+});
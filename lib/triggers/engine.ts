@@ -0,0 +1,90 @@
+import { stripControlSequences, validateHighlightPattern } from "@/lib/highlight";
+
+import type { CompiledTrigger, TriggerMatch, TriggerRule } from "./types";
+
+/** 同一触发器两次命中之间的最短间隔，避免刷屏日志或自动应答形成循环 */
+export const TRIGGER_COOLDOWN_MS = 1000;
+
+/** 未结束的行最多保留的长度 */
+const MAX_PENDING_LENGTH = 4096;
+
+export function validateTriggerPattern(pattern: string, flags = "") {
+  return validateHighlightPattern(pattern, flags);
+}
+
+/** 只保留启用、有效且适用于该会话的触发器 */
+export function compileTriggers(rules: TriggerRule[], sessionId: string): CompiledTrigger[] {
+  return rules.flatMap((rule) => {
+    if (!rule.enabled || (rule.sessionId && rule.sessionId !== sessionId) || !validateTriggerPattern(rule.pattern, rule.flags)) {
+      return [];
+    }
+    return [{ rule, regex: new RegExp(rule.pattern, rule.flags.replace(/g/g, "")) }];
+  });
+}
+
+/** 用于设置页的样例测试：返回每条命中的行与触发器 */
+export function testTriggers(sample: string, triggers: CompiledTrigger[]): TriggerMatch[] {
+  return sample.split("\n").flatMap((raw) => {
+    const line = stripControlSequences(raw);
+    return triggers.filter((trigger) => trigger.regex.test(line)).map((trigger) => ({ rule: trigger.rule, line }));
+  });
+}
+
+/**
+ * 流式匹配会话输出：完整的行逐行匹配；行尾未结束的部分（如 "Password:" 提示符）也立即匹配，
+ * 但同一行在补全后不会再次触发同一个触发器。
+ */
+export class TriggerMatcher {
+  private triggers: CompiledTrigger[] = [];
+  private pending = "";
+  private firedOnPending = new Set<string>();
+  private lastFiredAt = new Map<string, number>();
+
+  setTriggers(triggers: CompiledTrigger[]) {
+    this.triggers = triggers;
+  }
+
+  push(data: string): TriggerMatch[] {
+    if (this.triggers.length === 0) {
+      this.pending = "";
+      this.firedOnPending.clear();
+      return [];
+    }
+    const lines = (this.pending + data).split("\n");
+    const rest = lines.pop() ?? "";
+    const matches: TriggerMatch[] = [];
+
+    for (const raw of lines) {
+      this.matchLine(stripControlSequences(raw), matches);
+      this.firedOnPending.clear();
+    }
+
+    this.pending = rest.length > MAX_PENDING_LENGTH ? rest.slice(-MAX_PENDING_LENGTH) : rest;
+    const partial = stripControlSequences(this.pending);
+    if (partial) {
+      this.matchLine(partial, matches);
+    }
+    return matches;
+  }
+
+  reset() {
+    this.pending = "";
+    this.firedOnPending.clear();
+  }
+
+  private matchLine(line: string, matches: TriggerMatch[]) {
+    const now = Date.now();
+    for (const trigger of this.triggers) {
+      const { id } = trigger.rule;
+      if (this.firedOnPending.has(id) || !trigger.regex.test(line)) {
+        continue;
+      }
+      this.firedOnPending.add(id);
+      if (now - (this.lastFiredAt.get(id) ?? 0) < TRIGGER_COOLDOWN_MS) {
+        continue;
+      }
+      this.lastFiredAt.set(id, now);
+      matches.push({ rule: trigger.rule, line });
+    }
+  }
+}
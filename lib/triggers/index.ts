@@ -0,0 +1,5 @@
+export { TRIGGER_COOLDOWN_MS, TriggerMatcher, compileTriggers, testTriggers, validateTriggerPattern } from "./engine";
+export { showSystemNotification } from "./notify";
+export { DEFAULT_TRIGGER_RULES } from "./presets";
+export { generateTriggerRuleId, sanitizeTriggerRule } from "./rules";
+export type { CompiledTrigger, TriggerMatch, TriggerRule } from "./types";
@@ -0,0 +1,40 @@
+import { isPermissionGranted, requestPermission, sendNotification } from "@tauri-apps/plugin-notification";
+
+function isTauriRuntime() {
+  return typeof window !== "undefined" && "__TAURI_INTERNALS__" in window;
+}
+
+/**
+ * 弹出系统通知：桌面端走 Tauri 通知插件（webview 内的 Notification 不保证可用），
+ * 浏览器中回退到 Web Notification API。首次调用时申请权限，
+ * 被拒绝或当前环境不支持时返回 false，由调用方保留应用内提示。
+ */
+export async function showSystemNotification(title: string, body: string) {
+  if (typeof window === "undefined") {
+    return false;
+  }
+  try {
+    if (isTauriRuntime()) {
+      const granted = (await isPermissionGranted()) || (await requestPermission()) === "granted";
+      if (!granted) {
+        return false;
+      }
+      sendNotification({ title, body });
+      return true;
+    }
+    if (typeof Notification === "undefined") {
+      return false;
+    }
+    if (Notification.permission === "default") {
+      await Notification.requestPermission();
+    }
+    if (Notification.permission !== "granted") {
+      return false;
+    }
+    new Notification(title, { body });
+    return true;
+  } catch (error) {
+    console.warn("Failed to show system notification", error);
+    return false;
+  }
+}
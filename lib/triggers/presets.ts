@@ -0,0 +1,31 @@
+import type { TriggerRule } from "./types";
+
+export const DEFAULT_TRIGGER_RULES: TriggerRule[] = [
+  {
+    id: "preset-link-updown",
+    name: "Link up/down",
+    pattern: "%LINK-3-UPDOWN:.*",
+    flags: "",
+    notify: true,
+    flashTab: true,
+    enabled: true,
+  },
+  {
+    id: "preset-ospf-adjchg",
+    name: "OSPF adjacency change",
+    pattern: "%OSPF(?:V3)?-5-ADJCHG:.*",
+    flags: "",
+    notify: true,
+    flashTab: true,
+    enabled: true,
+  },
+  {
+    id: "preset-password-prompt",
+    name: "Password prompt",
+    pattern: "^\\s*Password:\\s*$",
+    flags: "i",
+    notify: false,
+    flashTab: true,
+    enabled: true,
+  },
+];
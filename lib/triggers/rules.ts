@@ -0,0 +1,37 @@
+import { validateTriggerPattern } from "./engine";
+import type { TriggerRule } from "./types";
+
+export function sanitizeTriggerRule(entry: Partial<TriggerRule> | null | undefined): TriggerRule | null {
+  if (!entry) {
+    return null;
+  }
+  const id = typeof entry.id === "string" ? entry.id.trim() : "";
+  const pattern = typeof entry.pattern === "string" ? entry.pattern : "";
+  const flags = typeof entry.flags === "string" ? entry.flags : "";
+  if (!id || !validateTriggerPattern(pattern, flags)) {
+    return null;
+  }
+  const sessionId = typeof entry.sessionId === "string" ? entry.sessionId.trim() : "";
+  // 旧版按设备（host:port）限定的触发器不能直接放宽到所有会话，保留但停用
+  const { device } = entry as { device?: unknown };
+  const legacyDevice = typeof device === "string" && device.trim() !== "";
+  const response = typeof entry.response === "string" ? entry.response : "";
+  return {
+    id,
+    name: typeof entry.name === "string" && entry.name.trim() ? entry.name.trim() : pattern,
+    pattern,
+    flags,
+    sessionId: sessionId || undefined,
+    notify: entry.notify !== false,
+    flashTab: entry.flashTab !== false,
+    response: response || undefined,
+    enabled: entry.enabled !== false && !legacyDevice,
+  } satisfies TriggerRule;
+}
+
+export function generateTriggerRuleId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return `trigger-${crypto.randomUUID()}`;
+  }
+  return `trigger-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
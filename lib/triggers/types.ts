@@ -0,0 +1,27 @@
+export type TriggerRule = {
+  id: string;
+  name: string;
+  /** 正则表达式源码，对去掉控制序列后的单行输出匹配 */
+  pattern: string;
+  flags: string;
+  /** 为空时对所有会话生效，否则只对该会话生效；会话级触发器随会话结束失效，不会持久化 */
+  sessionId?: string;
+  /** 弹出应用内提示；窗口不在前台时改为系统通知 */
+  notify: boolean;
+  /** 闪烁对应的会话标签，直到切换到该会话 */
+  flashTab: boolean;
+  /** 命中后自动发送的文本（末尾追加回车），为空则不发送 */
+  response?: string;
+  enabled: boolean;
+};
+
+export type CompiledTrigger = {
+  rule: TriggerRule;
+  regex: RegExp;
+};
+
+export type TriggerMatch = {
+  rule: TriggerRule;
+  /** 命中的整行文本（已去掉控制序列） */
+  line: string;
+};
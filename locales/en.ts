@@ -44,6 +44,144 @@ export const home: Dictionaries["home"] = {
       connected: "Connected",
       closed: "Session closed",
       error: "Connection failed",
+      reconnecting: "Reconnecting ({attempt}/{max})",
+    },
+    prompt: {
+      modes: {
+        "user-exec": "User",
+        privileged: "Exec",
+        "global-config": "Config",
+        "sub-config": "Config",
+      },
+      vendors: {
+        "cisco-ios": "Cisco IOS",
+        "cisco-nxos": "Cisco NX-OS",
+        "arista-eos": "Arista EOS",
+        "huawei-vrp": "Huawei VRP",
+        "h3c-comware": "H3C Comware",
+        "juniper-junos": "Juniper Junos",
+        mikrotik: "MikroTik RouterOS",
+        linux: "Linux",
+      },
+    },
+    reconnect: {
+      toggleLabel: "Auto-reconnect",
+      cancelButton: "Cancel reconnect",
+      gaveUp: "Gave up reconnecting after {max} attempts.",
+    },
+    highlight: {
+      toggleLabel: "Highlight",
+    },
+    encoding: {
+      label: "Character encoding",
+      switchFailed: "Failed to switch encoding: {reason}",
+    },
+    timestamps: {
+      toggleLabel: "Timestamps",
+      toggleHint: "Show when each output line arrived. Copies and plain-text logs get the same prefix.",
+      formatLabel: "Timestamp format",
+      formats: {
+        "wall-clock": "Wall clock",
+        relative: "Since connect",
+      },
+    },
+    completion: {
+      toggleLabel: "Hints",
+      toggleHint: "Suggest the next keyword from offline command trees for the detected vendor and CLI mode.",
+      listLabel: "CLI completion hints",
+      parameterHint: "value",
+      acceptHint: "{shortcut} accepts the first hint, click to insert another",
+      clickHint: "Click a hint to insert it",
+    },
+    signals: {
+      menuLabel: "Send special",
+      items: {
+        break: { label: "Break (IAC BRK)", description: "Interrupt boot into ROMMON for password recovery." },
+        ayt: { label: "Are You There (IAC AYT)", description: "Ask the remote side to confirm it is alive." },
+        interrupt: { label: "Interrupt Process (IAC IP)", description: "Abort the running command on the remote side." },
+        "abort-output": { label: "Abort Output (IAC AO)", description: "Discard output that is still being sent." },
+        "erase-line": { label: "Erase Line (IAC EL)", description: "Delete the current input line on the remote side." },
+      },
+      ciscoEscape: {
+        label: "Cisco escape (Ctrl+Shift+6 x)",
+        description: "Suspend a reverse telnet session or stop ping/traceroute.",
+      },
+    },
+    paste: {
+      confirmTitle: "Paste {count} lines?",
+      confirmDescription: "Lines are sent one at a time so the console can keep up.",
+      pacingLabel: "Pacing",
+      pacingOptions: {
+        delay: "Fixed delay",
+        prompt: "Wait for prompt",
+      },
+      delayLabel: "Delay (ms)",
+      sendButton: "Paste",
+      cancelButton: "Cancel",
+      progress: "Pasting line {sent} of {total}",
+      stopButton: "Stop",
+      cancelled: "Paste stopped after {sent} of {total} lines.",
+    },
+    search: {
+      placeholder: "Search output (Ctrl+Shift+F)",
+      caseSensitive: "Match case",
+      regex: "Use regular expression",
+      previous: "Previous match (Shift+Enter)",
+      next: "Next match (Enter)",
+      close: "Close search (Esc)",
+      noResults: "No results",
+      invalidPattern: "Invalid regex",
+    },
+    layout: {
+      label: "Pane layout",
+      modes: {
+        single: "Single pane",
+        columns: "Split side by side",
+        rows: "Split top and bottom",
+        grid: "2 × 2 grid",
+      },
+      emptyPane: "Drag a session here or pick one from the list",
+    },
+    transcript: {
+      startButton: "Start logging",
+      stopButton: "Stop logging",
+      activeLabel: "Logging to",
+      failed: "Unable to start the session log.",
+    },
+    recording: {
+      startButton: "Record",
+      stopButton: "Stop recording",
+      activeLabel: "Recording to",
+      failed: "Unable to start the session recording.",
+    },
+    links: {
+      openSession: "Open Telnet session",
+      copy: "Copy",
+      copied: "Copied",
+      healthCheck: "Run health check",
+      healthChecking: "Checking…",
+      healthOk: "Reachable · HTTP {status} · {latency} ms",
+      healthFailed: "Unreachable: {reason}",
+    },
+    appearance: {
+      title: "Appearance · {name}",
+      description: "Override the global terminal settings. Empty fields keep the inherited value.",
+      scopeLabel: "Apply to",
+      scopes: {
+        session: "This session only",
+        device: "Every session to this device",
+      },
+      sessionHint: "Session overrides are kept with the tab and take precedence over device overrides.",
+      deviceHint: "Device overrides are saved by host and port and apply to new and open sessions.",
+      fontFamilyLabel: "Font family",
+      fontSizeLabel: "Font size",
+      colorSchemeLabel: "Color scheme",
+      scrollbackLabel: "Scrollback lines",
+      inheritOption: "Inherited ({value})",
+      followThemeOption: "Follow light/dark theme",
+      saveButton: "Save",
+      resetButton: "Clear overrides",
+      cancelButton: "Cancel",
     },
     sessionTabs: {
       headerLabel: "Telnet Sessions",
@@ -52,7 +190,148 @@ export const home: Dictionaries["home"] = {
       emptyDescription:
         "Launch a session from the sidebar or via PNETLab to see it listed here.",
       reorderHint: "Drag items to reorder your session list.",
+      broadcastToggle: "Broadcast",
+      broadcastShortcut: "Toggle broadcast input (Ctrl+Shift+B)",
+      broadcastHint: "Input typed in the active session is mirrored to every ticked session. Press Ctrl+Shift+B to exit.",
+      broadcastTargetLabel: "Include in broadcast",
+      broadcastBadge: "Broadcast",
+      broadcastBanner: "Broadcasting input to {count} other session(s)",
+      broadcastExit: "Exit broadcast",
+      automateAction: "Run automation script",
+      backupAction: "Back up config",
+      appearanceAction: "Appearance",
+    },
+  },
+  snippets: {
+    toggleButton: "Snippets",
+    title: "Command snippets",
+    description: "Reusable command blocks grouped by vendor. Placeholders like {{ip}} are prompted before sending.",
+    closeButton: "Close snippets",
+    searchPlaceholder: "Filter snippets… (↑/↓ to move, Enter to send)",
+    vendorFilterAll: "All vendors",
+    vendors: {
+      "cisco-ios": "Cisco IOS",
+      "huawei-vrp": "Huawei VRP",
+      "h3c-comware": "H3C Comware",
+      "juniper-junos": "Juniper Junos",
+      generic: "Generic",
     },
+    newButton: "New",
+    editButton: "Edit",
+    deleteButton: "Delete",
+    sendButton: "Send",
+    saveButton: "Save",
+    cancelButton: "Cancel",
+    resetButton: "Restore defaults",
+    nameLabel: "Name",
+    vendorLabel: "Vendor",
+    bodyLabel: "Commands",
+    bodyHint: "One command per line. Use {{name}} for values filled in when sending.",
+    descriptionLabel: "Description (optional)",
+    variablesTitle: "Fill in variables",
+    empty: "No snippets match the current filter.",
+    noActiveSession: "Open a session to send snippets.",
+    shortcutHint: "Ctrl+Shift+S toggles this panel",
+  },
+  commandHistory: {
+    toggleButton: "History",
+    title: "Command history",
+    description: "Commands you submit are saved per device (detected hostname, or host:port), so they survive wiping a lab node.",
+    closeButton: "Close history",
+    searchPlaceholder: "Fuzzy search… (↑/↓ to move, Enter to send)",
+    scopeDevice: "This device ({device})",
+    scopeAll: "All devices",
+    sendButton: "Send again",
+    insertButton: "Insert without running",
+    saveSnippetButton: "Save as snippet",
+    snippetSaved: "Saved to snippets",
+    deleteButton: "Delete",
+    clearDeviceButton: "Clear this device",
+    useCount: "×{count}",
+    empty: "No commands recorded yet.",
+    noActiveSession: "Open a session to send commands.",
+    shortcutHint: "Ctrl+Alt+R opens quick recall",
+    recallPlaceholder: "Recall command on {device}…",
+    recallHint: "Enter run · Tab insert · Esc close",
+    recallEmpty: "No matching commands",
+  },
+  automation: {
+    toggleButton: "Automation",
+    title: "Automation scripts",
+    description: "Expect-style scripts that send commands and wait for output in one session.",
+    closeButton: "Close automation",
+    targetLabel: "Target: {name}",
+    noTarget: "Open a session, or launch a script from a session tab.",
+    scriptLabel: "Script",
+    newButton: "New",
+    saveButton: "Save",
+    deleteButton: "Delete",
+    untitled: "Untitled script",
+    nameLabel: "Name",
+    sourceLabel: "Script",
+    sourceHint:
+      "Commands: send \"text\", expect /regex/ [timeout s], timeout s, set name value, if-match /regex/ … else … end, loop n … end. Use {{name}} for variables and {{$1}} for expect captures; variables that are never set are asked for before each run.",
+    diagnosticLine: "Line {line}: {message}",
+    runButton: "Run",
+    dryRunButton: "Dry run",
+    stepLabel: "Step mode",
+    nextStepButton: "Next step",
+    cancelButton: "Stop",
+    running: "Running…",
+    pausedAt: "Paused before line {line}",
+    variablesTitle: "Fill in variables before running",
+    variablesCancelButton: "Cancel",
+    logTitle: "Run log",
+    logEmpty: "Run or dry-run a script to see its log here.",
+    clearLogButton: "Clear",
+  },
+  backup: {
+    toggleButton: "Config history",
+    title: "Configuration history",
+    description: "Snapshots captured with “Back up config” on a session tab, grouped by device hostname.",
+    closeButton: "Close configuration history",
+    capturing: "Backing up {name}…",
+    captured: "Saved a new snapshot of {name}.",
+    failed: "Backup of {name} failed: {message}",
+    noPrompt: "No device prompt detected yet. Press Enter in the session and try again.",
+    unsupported: "Configuration backup is not supported for this device type.",
+    wrongMode: "Return to privileged (Cisco/Arista) or operational (Junos) mode before backing up.",
+    storageFull: "Snapshot storage is full. Delete old snapshots in Config history and try again.",
+    empty: "No snapshots yet. Use “Back up config” on a session tab to capture one.",
+    deviceLabel: "Device",
+    baseLabel: "A",
+    compareLabel: "B",
+    capturedAtLabel: "Captured at",
+    deleteButton: "Delete snapshot",
+    lineCount: "{count} lines",
+    sameSnapshot: "Pick two different snapshots to compare them.",
+    identical: "The selected snapshots are identical.",
+    changesOnly: "Only show changes",
+  },
+  recordings: {
+    toggleButton: "Recordings",
+    title: "Session recordings",
+    description: "Replay recorded console sessions with their original timing, or export the asciicast (.cast) file to share with students.",
+    closeButton: "Close",
+    refreshButton: "Refresh",
+    desktopOnly: "Recordings are stored by the desktop app in Documents/pnet-tool/recordings.",
+    empty: "No recordings yet. Use Record in a connected session's toolbar to create one.",
+    unknownDevice: "Unknown device",
+    deviceLabel: "Device",
+    openButton: "Play",
+    exportButton: "Export .cast",
+    deleteButton: "Delete",
+    selectHint: "Pick a recording to replay it here.",
+    loadFailed: "Recording operation failed: {reason}",
+    playButton: "Play",
+    pauseButton: "Pause",
+    seekLabel: "Playback position",
+    speedLabel: "Playback speed",
+  },
+  triggers: {
+    toastTitle: "{name} · {session}",
+    openSession: "Switch to this session",
+    dismissButton: "Dismiss",
   },
 };
 
@@ -103,5 +382,202 @@ export const settings: Dictionaries["settings"] = {
     fontSizeHelp: "Controls text scaling only for the embedded terminal.",
     lineHeightHelp: "Increase spacing to improve readability for dense output.",
     letterSpacingHelp: "Fine-tune character spacing for legacy devices.",
+    scrollbackLabel: "Scrollback lines",
+    scrollbackHelp: "How many lines each terminal keeps for scrolling and search.",
+    bufferSizeLabel: "Session history buffer",
+    bufferSizeHelp: "Output kept per session so reopened tabs can replay their history.",
+  },
+  connectionSection: {
+    title: "Connection",
+    description: "How sessions behave when a device console drops, e.g. while a PNETLab node reboots.",
+    autoReconnectLabel: "Enable auto-reconnect for new sessions",
+    autoReconnectHelp: "Each session can still toggle it from its toolbar. Scrollback is kept across reconnects.",
+    maxAttemptsLabel: "Maximum attempts",
+    maxAttemptsHelp: "Retries wait 1s, 2s, 4s… up to 30s between attempts.",
+  },
+  pasteSection: {
+    title: "Multi-line paste",
+    description: "Pasting several lines asks for confirmation, then sends them one at a time so slow consoles don't drop characters.",
+    pacingLabel: "Default pacing",
+    pacingOptions: [
+      { value: "delay", label: "Fixed delay between lines" },
+      { value: "prompt", label: "Wait for the prompt after each line" },
+    ],
+    delayLabel: "Delay between lines (ms)",
+    delayHelp: "Raise this if an IOL or serial console still loses characters. Prompt pacing gives up after 5s per line.",
+  },
+  encodingSection: {
+    title: "Character encoding",
+    description: "Output is decoded per session as a byte stream, so multibyte characters split across packets stay intact.",
+    defaultLabel: "Default encoding for new sessions",
+    help: "Use GBK or GB18030 for Huawei/H3C devices configured for Chinese. Each session can switch from the terminal toolbar.",
+  },
+  timestampSection: {
+    title: "Line timestamps",
+    description: "Record when each output line arrives and show it in a gutter beside the terminal. Nothing is sent to the device.",
+    enabledLabel: "Show timestamps in new sessions",
+    formatLabel: "Default format",
+    formats: {
+      "wall-clock": "Wall clock (HH:MM:SS.mmm)",
+      relative: "Relative to connect (+HH:MM:SS.mmm)",
+    },
+    help: "Each session can toggle timestamps from the terminal toolbar. Copied selections and plain-text logs are prefixed while timestamps are on.",
+  },
+  rendererSection: {
+    title: "Renderer",
+    description: "How terminals draw their contents. GPU renderers keep large dumps such as show tech responsive.",
+    label: "Terminal renderer",
+    renderers: {
+      dom: "DOM (most compatible)",
+      canvas: "Canvas",
+      webgl: "WebGL (fastest)",
+    },
+    help: "Applies to open terminals immediately. If WebGL is unavailable the terminal falls back to Canvas, then DOM.",
+  },
+  shortcutSection: {
+    title: "Keyboard shortcuts",
+    description: "Click a shortcut and press the new key combination. Esc cancels. Terminal shortcuts act on the focused terminal; app shortcuts work anywhere on the workspace page.",
+    forwardedHint: "Plain typing, Ctrl+letter control characters and {chords} are always sent to the device, so Cisco's Ctrl+Shift+6 break sequence keeps working.",
+    recordPrompt: "Press keys…",
+    unbound: "Not set",
+    clearButton: "Remove shortcut",
+    resetButton: "Restore default",
+    resetAllButton: "Restore all defaults",
+    conflictLabel: "Conflicts with: {actions}",
+    forwardedError: "{chord} is passed through to the device and can't be used as a shortcut.",
+    reassigned: "{chord} was removed from “{action}”.",
+    scopes: {
+      app: "App",
+      terminal: "Terminal",
+    },
+    actions: {
+      nextSession: "Next session",
+      previousSession: "Previous session",
+      jumpToSession: "Jump to session {index}",
+      closeSession: "Close session",
+      reconnectSession: "Reconnect session",
+      clearScrollback: "Clear scrollback",
+      sendBreak: "Send Break",
+      sendCiscoEscape: "Send Cisco escape (Ctrl+Shift+6 x)",
+      openSearch: "Search output",
+      quickConnect: "Quick connect",
+      toggleBroadcast: "Toggle broadcast input",
+      toggleSnippets: "Toggle snippet panel",
+      recallCommand: "Recall command from history",
+      acceptCompletion: "Accept CLI completion hint",
+    },
+  },
+  colorSchemeSection: {
+    title: "Terminal color schemes",
+    description: "Choose the palette used by terminals in light and dark app modes, create your own, or import one from iTerm2, Windows Terminal or Xresources.",
+    lightLabel: "Light mode scheme",
+    darkLabel: "Dark mode scheme",
+    editLabel: "Edit scheme",
+    builtinTag: "built-in",
+    builtinHint: "Built-in schemes are read-only. Duplicate one to customize it.",
+    nameLabel: "Name",
+    newButton: "New",
+    newSchemeName: "New scheme",
+    duplicateButton: "Duplicate",
+    copyName: "{name} copy",
+    deleteButton: "Delete",
+    saveButton: "Save",
+    revertButton: "Revert",
+    previewLabel: "Scheme preview",
+    importButton: "Import…",
+    importSuccess: "Imported {count} scheme(s).",
+    importError: "Import failed: {reason}",
+    exportButton: "Export",
+    exportFormatLabel: "Export format",
+    formatOptions: {
+      itermcolors: "iTerm2 (.itermcolors)",
+      "windows-terminal": "Windows Terminal (JSON)",
+      xresources: "Xresources",
+    },
+    formatHint: "Imports detect the format automatically. A Windows Terminal settings.json imports every scheme it contains; missing colors fall back to the current dark scheme.",
+    colorLabels: {
+      background: "Background",
+      foreground: "Foreground",
+      cursor: "Cursor",
+      selection: "Selection",
+      black: "Black",
+      red: "Red",
+      green: "Green",
+      yellow: "Yellow",
+      blue: "Blue",
+      magenta: "Magenta",
+      cyan: "Cyan",
+      white: "White",
+      brightBlack: "Bright black",
+      brightRed: "Bright red",
+      brightGreen: "Bright green",
+      brightYellow: "Bright yellow",
+      brightBlue: "Bright blue",
+      brightMagenta: "Bright magenta",
+      brightCyan: "Bright cyan",
+      brightWhite: "Bright white",
+    },
+  },
+  highlightSection: {
+    title: "Output highlighting",
+    description: "Color device output as it arrives. Rules apply in order; earlier rules win where matches overlap. Highlighting can be switched off per session from the terminal toolbar.",
+    empty: "No rules yet.",
+    enabledLabel: "Enabled",
+    nameLabel: "Name",
+    patternLabel: "Pattern (regex)",
+    flagsLabel: "Flags",
+    foregroundLabel: "Foreground",
+    backgroundLabel: "Background",
+    boldLabel: "Bold",
+    invalidPattern: "Invalid regular expression or flags (allowed: i, m, s, u).",
+    addButton: "Add rule",
+    editButton: "Edit rule",
+    deleteButton: "Delete rule",
+    moveUpButton: "Move up",
+    moveDownButton: "Move down",
+    resetButton: "Restore presets",
+    saveButton: "Save",
+    cancelButton: "Cancel",
+    previewLabel: "Preview",
+    previewSample: "*Mar  1 00:01:12.345: %LINK-3-UPDOWN: Interface GigabitEthernet0/1, changed state to down\n*Mar  1 00:01:14.345: %LINEPROTO-5-UPDOWN: Line protocol on Interface GigabitEthernet0/1, changed state to up\n% Invalid input detected at '^' marker.\nInternet  10.0.12.2   5   0050.7966.6801  ARPA   GigabitEthernet0/1",
+  },
+  triggerSection: {
+    title: "Output triggers",
+    description: "Regex triggers watch incoming output line by line. A match can notify you (a system notification when the window is in the background), flash the session tab, or send a response automatically.",
+    empty: "No triggers defined.",
+    enabledLabel: "Enabled",
+    globalBadge: "All sessions",
+    nameLabel: "Name",
+    patternLabel: "Pattern",
+    flagsLabel: "Flags",
+    scopeLabel: "Applies to (session triggers are not saved)",
+    endedSessionBadge: "Ended session",
+    responseLabel: "Auto response",
+    responsePlaceholder: "Sent with Enter, empty = none",
+    notifyLabel: "Notify",
+    flashTabLabel: "Flash tab",
+    invalidPattern: "Invalid regular expression or flags.",
+    addButton: "Add trigger",
+    editButton: "Edit",
+    deleteButton: "Delete",
+    resetButton: "Restore presets",
+    saveButton: "Save",
+    cancelButton: "Cancel",
+    testLabel: "Test against sample text",
+    testSample: "*Mar  1 00:01:12.345: %LINK-3-UPDOWN: Interface GigabitEthernet0/1, changed state to down\n*Mar  1 00:02:40.112: %OSPF-5-ADJCHG: Process 1, Nbr 2.2.2.2 on GigabitEthernet0/1 from FULL to DOWN, Neighbor Down: Interface down or detached\nUser Access Verification\nPassword: ",
+    testNoMatches: "No trigger matches the sample.",
+  },
+  loggingSection: {
+    title: "Session logging",
+    description: "Save console transcripts for lab reports and troubleshooting tickets.",
+    formatLabel: "Default log format",
+    formatOptions: [
+      { value: "plain", label: "Plain text (ANSI stripped)" },
+      { value: "raw", label: "Raw byte stream (undecoded)" },
+      { value: "html", label: "Colorized HTML" },
+    ],
+    autoStartLabel: "Start logging automatically when a session connects",
+    autoStartHelp: "You can still start or stop logging per session from the terminal toolbar.",
+    locationHint: "Files are named after the device label, host, port and date, and stored in Documents/pnet-tool/transcripts.",
   },
 };
@@ -44,6 +44,144 @@ export const home: Dictionaries["home"] = {
       connected: "连接成功",
       closed: "会话已关闭",
       error: "连接失败",
+      reconnecting: "正在重连（{attempt}/{max}）",
+    },
+    prompt: {
+      modes: {
+        "user-exec": "用户模式",
+        privileged: "特权模式",
+        "global-config": "全局配置",
+        "sub-config": "配置",
+      },
+      vendors: {
+        "cisco-ios": "Cisco IOS",
+        "cisco-nxos": "Cisco NX-OS",
+        "arista-eos": "Arista EOS",
+        "huawei-vrp": "华为 VRP",
+        "h3c-comware": "H3C Comware",
+        "juniper-junos": "Juniper Junos",
+        mikrotik: "MikroTik RouterOS",
+        linux: "Linux",
+      },
+    },
+    reconnect: {
+      toggleLabel: "自动重连",
+      cancelButton: "取消重连",
+      gaveUp: "已尝试重连 {max} 次，停止重连。",
+    },
+    highlight: {
+      toggleLabel: "高亮",
+    },
+    encoding: {
+      label: "字符编码",
+      switchFailed: "切换编码失败：{reason}",
+    },
+    timestamps: {
+      toggleLabel: "时间戳",
+      toggleHint: "显示每行输出的到达时间，复制内容与纯文本日志会带上同样的前缀。",
+      formatLabel: "时间戳格式",
+      formats: {
+        "wall-clock": "本地时间",
+        relative: "相对连接",
+      },
+    },
+    completion: {
+      toggleLabel: "补全提示",
+      toggleHint: "根据识别出的厂商与 CLI 模式，从离线命令树提示下一个关键字。",
+      listLabel: "命令补全提示",
+      parameterHint: "参数",
+      acceptHint: "{shortcut} 接受第一条提示，点击可插入其他提示",
+      clickHint: "点击提示即可插入",
+    },
+    signals: {
+      menuLabel: "发送特殊命令",
+      items: {
+        break: { label: "中断 (IAC BRK)", description: "开机时中断进入 ROMMON，用于密码恢复。" },
+        ayt: { label: "探测在线 (IAC AYT)", description: "请求对端确认连接仍然存活。" },
+        interrupt: { label: "中断进程 (IAC IP)", description: "中止对端正在执行的命令。" },
+        "abort-output": { label: "丢弃输出 (IAC AO)", description: "丢弃对端仍在发送的输出。" },
+        "erase-line": { label: "擦除行 (IAC EL)", description: "删除对端当前输入行。" },
+      },
+      ciscoEscape: {
+        label: "Cisco 中断序列 (Ctrl+Shift+6 x)",
+        description: "挂起反向 telnet 会话，或中止 ping/traceroute。",
+      },
+    },
+    paste: {
+      confirmTitle: "粘贴 {count} 行内容？",
+      confirmDescription: "内容会逐行发送，以便控制台来得及处理。",
+      pacingLabel: "发送节奏",
+      pacingOptions: {
+        delay: "固定延迟",
+        prompt: "等待提示符",
+      },
+      delayLabel: "延迟（毫秒）",
+      sendButton: "粘贴",
+      cancelButton: "取消",
+      progress: "正在粘贴第 {sent} / {total} 行",
+      stopButton: "停止",
+      cancelled: "已停止粘贴，共发送 {sent} / {total} 行。",
+    },
+    search: {
+      placeholder: "搜索输出（Ctrl+Shift+F）",
+      caseSensitive: "区分大小写",
+      regex: "使用正则表达式",
+      previous: "上一个匹配（Shift+Enter）",
+      next: "下一个匹配（Enter）",
+      close: "关闭搜索（Esc）",
+      noResults: "无结果",
+      invalidPattern: "正则无效",
+    },
+    layout: {
+      label: "窗格布局",
+      modes: {
+        single: "单窗格",
+        columns: "左右分屏",
+        rows: "上下分屏",
+        grid: "2 × 2 网格",
+      },
+      emptyPane: "将会话拖到这里，或在列表中选择一个会话",
+    },
+    transcript: {
+      startButton: "开始记录日志",
+      stopButton: "停止记录",
+      activeLabel: "正在记录到",
+      failed: "无法开始记录会话日志。",
+    },
+    recording: {
+      startButton: "录像",
+      stopButton: "停止录像",
+      activeLabel: "正在录像到",
+      failed: "无法开始会话录像。",
+    },
+    links: {
+      openSession: "打开 Telnet 会话",
+      copy: "复制",
+      copied: "已复制",
+      healthCheck: "健康检查",
+      healthChecking: "检查中…",
+      healthOk: "可达 · HTTP {status} · {latency} ms",
+      healthFailed: "不可达：{reason}",
+    },
+    appearance: {
+      title: "外观 · {name}",
+      description: "覆盖全局终端设置，留空的字段沿用上一层的值。",
+      scopeLabel: "作用范围",
+      scopes: {
+        session: "仅当前会话",
+        device: "该设备的所有会话",
+      },
+      sessionHint: "会话覆盖随标签保存，优先于设备覆盖。",
+      deviceHint: "设备覆盖按主机与端口保存，对新建和已打开的会话都生效。",
+      fontFamilyLabel: "字体",
+      fontSizeLabel: "字号",
+      colorSchemeLabel: "配色方案",
+      scrollbackLabel: "回滚行数",
+      inheritOption: "沿用（{value}）",
+      followThemeOption: "跟随明暗主题",
+      saveButton: "保存",
+      resetButton: "清除覆盖",
+      cancelButton: "取消",
     },
     sessionTabs: {
       headerLabel: "Telnet 会话",
@@ -52,7 +190,148 @@ export const home: Dictionaries["home"] = {
       emptyDescription:
         "可以在侧栏发起测试，或从 PNETLab 点击设备，这里会显示所有连接。",
       reorderHint: "可以拖动列表项调整顺序。",
+      broadcastToggle: "广播",
+      broadcastShortcut: "切换广播输入（Ctrl+Shift+B）",
+      broadcastHint: "在当前会话中的输入会同步发送到所有勾选的会话，按 Ctrl+Shift+B 退出。",
+      broadcastTargetLabel: "加入广播",
+      broadcastBadge: "广播中",
+      broadcastBanner: "正在将输入广播到另外 {count} 个会话",
+      broadcastExit: "退出广播",
+      automateAction: "运行自动化脚本",
+      backupAction: "备份配置",
+      appearanceAction: "外观",
+    },
+  },
+  snippets: {
+    toggleButton: "命令片段",
+    title: "命令片段",
+    description: "按厂商分组的常用命令块，{{ip}} 等占位符会在发送前提示填写。",
+    closeButton: "关闭命令片段",
+    searchPlaceholder: "筛选片段…（↑/↓ 选择，Enter 发送）",
+    vendorFilterAll: "全部厂商",
+    vendors: {
+      "cisco-ios": "Cisco IOS",
+      "huawei-vrp": "华为 VRP",
+      "h3c-comware": "H3C Comware",
+      "juniper-junos": "Juniper Junos",
+      generic: "通用",
     },
+    newButton: "新建",
+    editButton: "编辑",
+    deleteButton: "删除",
+    sendButton: "发送",
+    saveButton: "保存",
+    cancelButton: "取消",
+    resetButton: "恢复默认",
+    nameLabel: "名称",
+    vendorLabel: "厂商",
+    bodyLabel: "命令",
+    bodyHint: "每行一条命令，使用 {{name}} 声明发送时填写的变量。",
+    descriptionLabel: "说明（可选）",
+    variablesTitle: "填写变量",
+    empty: "没有匹配当前筛选条件的片段。",
+    noActiveSession: "请先打开一个会话再发送片段。",
+    shortcutHint: "Ctrl+Shift+S 可切换此面板",
+  },
+  commandHistory: {
+    toggleButton: "历史命令",
+    title: "命令历史",
+    description: "提交过的命令按设备（识别出的主机名或 host:port）保存，实验节点被清空后也不会丢失。",
+    closeButton: "关闭命令历史",
+    searchPlaceholder: "模糊搜索…（↑/↓ 选择，Enter 发送）",
+    scopeDevice: "当前设备（{device}）",
+    scopeAll: "全部设备",
+    sendButton: "再次发送",
+    insertButton: "插入但不执行",
+    saveSnippetButton: "存为片段",
+    snippetSaved: "已存入命令片段",
+    deleteButton: "删除",
+    clearDeviceButton: "清空当前设备",
+    useCount: "×{count}",
+    empty: "暂无记录的命令。",
+    noActiveSession: "打开会话后才能发送命令。",
+    shortcutHint: "Ctrl+Alt+R 打开快速调出",
+    recallPlaceholder: "在 {device} 上调出命令…",
+    recallHint: "Enter 执行 · Tab 插入 · Esc 关闭",
+    recallEmpty: "没有匹配的命令",
+  },
+  automation: {
+    toggleButton: "自动化",
+    title: "自动化脚本",
+    description: "Expect 风格的脚本，在单个会话中发送命令并等待输出。",
+    closeButton: "关闭自动化",
+    targetLabel: "目标会话：{name}",
+    noTarget: "请先打开一个会话，或从会话标签启动脚本。",
+    scriptLabel: "脚本",
+    newButton: "新建",
+    saveButton: "保存",
+    deleteButton: "删除",
+    untitled: "未命名脚本",
+    nameLabel: "名称",
+    sourceLabel: "脚本内容",
+    sourceHint:
+      "指令：send \"文本\"、expect /正则/ [timeout 秒]、timeout 秒、set 变量 值、if-match /正则/ … else … end、loop 次数 … end。使用 {{name}} 引用变量，{{$1}} 引用 expect 捕获组；未 set 的变量会在每次运行前提示填写。",
+    diagnosticLine: "第 {line} 行：{message}",
+    runButton: "运行",
+    dryRunButton: "预演",
+    stepLabel: "单步执行",
+    nextStepButton: "下一步",
+    cancelButton: "停止",
+    running: "运行中…",
+    pausedAt: "已暂停，下一条为第 {line} 行",
+    variablesTitle: "运行前填写变量",
+    variablesCancelButton: "取消",
+    logTitle: "运行日志",
+    logEmpty: "运行或预演脚本后在此查看日志。",
+    clearLogButton: "清空",
+  },
+  backup: {
+    toggleButton: "配置历史",
+    title: "配置历史",
+    description: "通过会话标签上的“备份配置”采集的快照，按设备主机名分组。",
+    closeButton: "关闭配置历史",
+    capturing: "正在备份 {name}…",
+    captured: "已保存 {name} 的新快照。",
+    failed: "{name} 备份失败：{message}",
+    noPrompt: "尚未识别到设备提示符，请在会话中按一次回车后重试。",
+    unsupported: "暂不支持备份此类设备的配置。",
+    wrongMode: "请先回到特权模式（Cisco/Arista）或操作模式（Junos）再备份。",
+    storageFull: "快照存储空间已满，请在配置历史中删除旧快照后重试。",
+    empty: "还没有快照，可在会话标签上点击“备份配置”采集。",
+    deviceLabel: "设备",
+    baseLabel: "A",
+    compareLabel: "B",
+    capturedAtLabel: "采集时间",
+    deleteButton: "删除快照",
+    lineCount: "{count} 行",
+    sameSnapshot: "请选择两个不同的快照进行对比。",
+    identical: "所选快照内容完全相同。",
+    changesOnly: "仅显示差异",
+  },
+  recordings: {
+    toggleButton: "录像",
+    title: "会话录像",
+    description: "按原始节奏回放录制的控制台会话，或导出 asciicast（.cast）文件分享给学员。",
+    closeButton: "关闭",
+    refreshButton: "刷新",
+    desktopOnly: "录像由桌面端保存在 文档/pnet-tool/recordings 目录中。",
+    empty: "还没有录像。在已连接会话的工具栏中点击“录像”即可开始录制。",
+    unknownDevice: "未知设备",
+    deviceLabel: "设备",
+    openButton: "播放",
+    exportButton: "导出 .cast",
+    deleteButton: "删除",
+    selectHint: "选择一个录像在此处回放。",
+    loadFailed: "录像操作失败：{reason}",
+    playButton: "播放",
+    pauseButton: "暂停",
+    seekLabel: "播放进度",
+    speedLabel: "播放速度",
+  },
+  triggers: {
+    toastTitle: "{name} · {session}",
+    openSession: "切换到该会话",
+    dismissButton: "关闭",
   },
 };
 
@@ -103,5 +382,202 @@ export const settings: Dictionaries["settings"] = {
     fontSizeHelp: "仅影响终端区域的文字缩放。",
     lineHeightHelp: "增大行距有助于提升密集输出的可读性。",
     letterSpacingHelp: "适度调节字距以兼容不同设备。",
+    scrollbackLabel: "回滚行数",
+    scrollbackHelp: "每个终端可回滚与搜索的最大行数。",
+    bufferSizeLabel: "会话历史缓冲",
+    bufferSizeHelp: "为每个会话保留的输出上限，重新打开标签页时可回放历史内容。",
+  },
+  connectionSection: {
+    title: "连接",
+    description: "设备控制台断开（例如 PNETLab 节点重启）时的会话行为。",
+    autoReconnectLabel: "新会话默认开启自动重连",
+    autoReconnectHelp: "每个会话仍可在工具栏单独开关，重连前后的回滚内容会保留。",
+    maxAttemptsLabel: "最大重试次数",
+    maxAttemptsHelp: "重试间隔依次为 1 秒、2 秒、4 秒……最长 30 秒。",
+  },
+  pasteSection: {
+    title: "多行粘贴",
+    description: "粘贴多行内容时先确认，再逐行发送，避免低速控制台丢字符。",
+    pacingLabel: "默认发送节奏",
+    pacingOptions: [
+      { value: "delay", label: "每行之间固定延迟" },
+      { value: "prompt", label: "每行发送后等待提示符返回" },
+    ],
+    delayLabel: "行间延迟（毫秒）",
+    delayHelp: "IOL 或串口控制台仍然丢字符时可调大此值。等待提示符模式每行最多等待 5 秒。",
+  },
+  encodingSection: {
+    title: "字符编码",
+    description: "按会话以字节流解码输出，跨数据包拆分的多字节字符也能正确显示。",
+    defaultLabel: "新会话默认编码",
+    help: "华为/H3C 设备配置中文描述时请选择 GBK 或 GB18030。每个会话可在终端工具栏中单独切换。",
+  },
+  timestampSection: {
+    title: "行时间戳",
+    description: "记录每行输出的到达时间并显示在终端左侧，时间信息不会发送到设备。",
+    enabledLabel: "新会话默认显示时间戳",
+    formatLabel: "默认格式",
+    formats: {
+      "wall-clock": "本地时间（HH:MM:SS.mmm）",
+      relative: "相对连接时刻（+HH:MM:SS.mmm）",
+    },
+    help: "每个会话可在终端工具栏中单独开关。开启时复制的选区与纯文本日志会逐行加上时间前缀。",
+  },
+  rendererSection: {
+    title: "渲染方式",
+    description: "终端内容的绘制方式。使用 GPU 渲染时，show tech 等大量输出也能保持流畅。",
+    label: "终端渲染器",
+    renderers: {
+      dom: "DOM（兼容性最好）",
+      canvas: "Canvas",
+      webgl: "WebGL（最快）",
+    },
+    help: "修改后立即应用到已打开的终端。WebGL 不可用时依次回退到 Canvas 与 DOM。",
+  },
+  shortcutSection: {
+    title: "键盘快捷键",
+    description: "点击快捷键后按下新的组合键，Esc 取消。终端快捷键作用于获得焦点的终端；应用快捷键在工作台页面任意位置生效。",
+    forwardedHint: "普通输入、Ctrl+字母等控制字符以及 {chords} 始终发送到设备，确保 Cisco 的 Ctrl+Shift+6 中断序列可用。",
+    recordPrompt: "请按下组合键…",
+    unbound: "未设置",
+    clearButton: "移除快捷键",
+    resetButton: "恢复默认",
+    resetAllButton: "全部恢复默认",
+    conflictLabel: "与以下动作冲突：{actions}",
+    forwardedError: "{chord} 会直接发送到设备，不能用作快捷键。",
+    reassigned: "{chord} 已从“{action}”移除。",
+    scopes: {
+      app: "应用",
+      terminal: "终端",
+    },
+    actions: {
+      nextSession: "下一个会话",
+      previousSession: "上一个会话",
+      jumpToSession: "切换到第 {index} 个会话",
+      closeSession: "关闭会话",
+      reconnectSession: "重新连接会话",
+      clearScrollback: "清空回滚缓冲",
+      sendBreak: "发送 Break",
+      sendCiscoEscape: "发送 Cisco 中断序列 (Ctrl+Shift+6 x)",
+      openSearch: "搜索输出",
+      quickConnect: "快速连接",
+      toggleBroadcast: "切换广播输入",
+      toggleSnippets: "切换命令片段面板",
+      recallCommand: "从历史中调出命令",
+      acceptCompletion: "接受命令补全提示",
+    },
+  },
+  colorSchemeSection: {
+    title: "终端配色方案",
+    description: "分别为浅色与深色界面模式选择终端配色，可自建方案，或从 iTerm2、Windows Terminal、Xresources 导入。",
+    lightLabel: "浅色模式方案",
+    darkLabel: "深色模式方案",
+    editLabel: "编辑方案",
+    builtinTag: "内置",
+    builtinHint: "内置方案为只读，复制后即可自定义。",
+    nameLabel: "名称",
+    newButton: "新建",
+    newSchemeName: "新方案",
+    duplicateButton: "复制",
+    copyName: "{name} 副本",
+    deleteButton: "删除",
+    saveButton: "保存",
+    revertButton: "还原",
+    previewLabel: "方案预览",
+    importButton: "导入…",
+    importSuccess: "已导入 {count} 个方案。",
+    importError: "导入失败：{reason}",
+    exportButton: "导出",
+    exportFormatLabel: "导出格式",
+    formatOptions: {
+      itermcolors: "iTerm2 (.itermcolors)",
+      "windows-terminal": "Windows Terminal (JSON)",
+      xresources: "Xresources",
+    },
+    formatHint: "导入时自动识别格式。Windows Terminal 的 settings.json 会导入其中全部方案；缺失的颜色取当前深色方案。",
+    colorLabels: {
+      background: "背景",
+      foreground: "前景",
+      cursor: "光标",
+      selection: "选区",
+      black: "黑",
+      red: "红",
+      green: "绿",
+      yellow: "黄",
+      blue: "蓝",
+      magenta: "品红",
+      cyan: "青",
+      white: "白",
+      brightBlack: "亮黑",
+      brightRed: "亮红",
+      brightGreen: "亮绿",
+      brightYellow: "亮黄",
+      brightBlue: "亮蓝",
+      brightMagenta: "亮品红",
+      brightCyan: "亮青",
+      brightWhite: "亮白",
+    },
+  },
+  highlightSection: {
+    title: "输出高亮",
+    description: "在设备输出到达时着色。规则按顺序生效，匹配重叠时靠前的规则优先。可在终端工具栏中按会话关闭高亮。",
+    empty: "暂无规则。",
+    enabledLabel: "启用",
+    nameLabel: "名称",
+    patternLabel: "匹配（正则）",
+    flagsLabel: "标志",
+    foregroundLabel: "前景色",
+    backgroundLabel: "背景色",
+    boldLabel: "加粗",
+    invalidPattern: "正则表达式或标志无效（允许：i、m、s、u）。",
+    addButton: "新增规则",
+    editButton: "编辑规则",
+    deleteButton: "删除规则",
+    moveUpButton: "上移",
+    moveDownButton: "下移",
+    resetButton: "恢复预设",
+    saveButton: "保存",
+    cancelButton: "取消",
+    previewLabel: "预览",
+    previewSample: "*Mar  1 00:01:12.345: %LINK-3-UPDOWN: Interface GigabitEthernet0/1, changed state to down\n*Mar  1 00:01:14.345: %LINEPROTO-5-UPDOWN: Line protocol on Interface GigabitEthernet0/1, changed state to up\n% Invalid input detected at '^' marker.\nInternet  10.0.12.2   5   0050.7966.6801  ARPA   GigabitEthernet0/1",
+  },
+  triggerSection: {
+    title: "输出触发器",
+    description: "按正则逐行监视设备输出。命中后可弹出提示（窗口在后台时改为系统通知）、闪烁会话标签，或自动发送应答。",
+    empty: "尚未定义触发器。",
+    enabledLabel: "启用",
+    globalBadge: "所有会话",
+    nameLabel: "名称",
+    patternLabel: "正则表达式",
+    flagsLabel: "修饰符",
+    scopeLabel: "生效范围（会话级触发器不会保存）",
+    endedSessionBadge: "已结束的会话",
+    responseLabel: "自动应答",
+    responsePlaceholder: "发送后自动回车，留空则不发送",
+    notifyLabel: "通知",
+    flashTabLabel: "闪烁标签",
+    invalidPattern: "正则表达式或修饰符无效。",
+    addButton: "添加触发器",
+    editButton: "编辑",
+    deleteButton: "删除",
+    resetButton: "恢复预设",
+    saveButton: "保存",
+    cancelButton: "取消",
+    testLabel: "用样例文本测试",
+    testSample: "*Mar  1 00:01:12.345: %LINK-3-UPDOWN: Interface GigabitEthernet0/1, changed state to down\n*Mar  1 00:02:40.112: %OSPF-5-ADJCHG: Process 1, Nbr 2.2.2.2 on GigabitEthernet0/1 from FULL to DOWN, Neighbor Down: Interface down or detached\nUser Access Verification\nPassword: ",
+    testNoMatches: "样例中没有命中任何触发器。",
+  },
+  loggingSection: {
+    title: "会话日志",
+    description: "保存控制台记录，便于撰写实验报告或提交故障工单。",
+    formatLabel: "默认日志格式",
+    formatOptions: [
+      { value: "plain", label: "纯文本（去除 ANSI）" },
+      { value: "raw", label: "原始字节流（未解码）" },
+      { value: "html", label: "彩色 HTML" },
+    ],
+    autoStartLabel: "会话连接后自动开始记录",
+    autoStartHelp: "仍可在终端工具栏中针对单个会话开始或停止记录。",
+    locationHint: "文件按设备名、主机、端口与日期自动命名，保存在 文档/pnet-tool/transcripts 目录。",
   },
 };
@@ -0,0 +1,249 @@
+#!/usr/bin/env node
+// 输出管线吞吐基准：把一份大体量抓取（asciicast 录像或纯文本）按 8 KB 分片回放到 headless xterm，
+// 对比“每个分片一次事件与写入”和“按帧合并 + 写入回调流控”两种方式。
+// 用法：node scripts/benchmark-output.mjs [capture.cast|capture.txt] [--chunk 8192] [--size-mb 16]
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { performance } from "node:perf_hooks";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { createRequire } from "node:module";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const appRoot = resolve(__dirname, "..");
+const require = createRequire(import.meta.url);
+const ts = require("typescript");
+const { Terminal } = require("@xterm/headless");
+
+/** 模拟的帧间隔，与浏览器 60 Hz 的 requestAnimationFrame 相当 */
+const FRAME_MS = 16;
+/** 每个事件循环周期最多“到达”的分片数，模拟套接字持续收包 */
+const CHUNKS_PER_TICK = 32;
+
+function parseArgs(argv) {
+  const options = { file: null, chunk: 8192, sizeMb: 16 };
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === "--chunk") {
+      options.chunk = Number(argv[++index]) || options.chunk;
+    } else if (arg === "--size-mb") {
+      options.sizeMb = Number(argv[++index]) || options.sizeMb;
+    } else if (!arg.startsWith("--")) {
+      options.file = resolve(arg);
+    }
+  }
+  return options;
+}
+
+// 直接加载仓库中的 TypeScript 实现，保证测的就是应用实际使用的管线
+async function importTypeScript(tempDir, relativePath) {
+  const source = readFileSync(join(appRoot, relativePath), "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+  });
+  const target = join(tempDir, relativePath.replace(/[\\/]/g, "_").replace(/\.ts$/, ".mjs"));
+  writeFileSync(target, outputText);
+  return import(pathToFileURL(target).href);
+}
+
+function loadCapture(file) {
+  const text = readFileSync(file, "utf8");
+  if (!file.endsWith(".cast")) {
+    return text;
+  }
+  // asciicast v2：首行为头部，其后每行一个 [time, type, data] 事件，只取输出
+  return text
+    .split("\n")
+    .slice(1)
+    .filter(Boolean)
+    .map((line) => JSON.parse(line))
+    .filter((event) => Array.isArray(event) && event[1] === "o")
+    .map((event) => event[2])
+    .join("");
+}
+
+// 没有提供抓取文件时生成类似 show tech-support 的输出
+function synthesizeCapture(sizeMb) {
+  const target = sizeMb * 1024 * 1024;
+  const parts = [];
+  let length = 0;
+  for (let index = 0; length < target; index += 1) {
+    const slot = `${Math.floor(index / 48) % 8}/0/${index % 48}`;
+    const block =
+      `GigabitEthernet${slot} is up, line protocol is up \r\n` +
+      `  Hardware is Gigabit Ethernet, address is 00${(index % 256).toString(16).padStart(2, "0")}.5e00.0${index % 10}00\r\n` +
+      `  Description: \x1b[1mUPLINK-${index}\x1b[0m\r\n` +
+      `  MTU 1500 bytes, BW 1000000 Kbit/sec, DLY 10 usec, reliability 255/255\r\n` +
+      `  5 minute input rate ${(index * 7919) % 100000} bits/sec, ${(index * 31) % 1000} packets/sec\r\n` +
+      `     ${index * 1301} packets input, ${index * 982451} bytes, 0 no buffer\r\n` +
+      `     ${index * 1201} packets output, ${index * 872341} bytes, 0 underruns\r\n` +
+      `${String(index % 4096).padStart(5)}  ${"vlan" + (index % 4096)}`.padEnd(40) + "active    Gi0/1, Gi0/2, Gi0/3\r\n";
+    parts.push(block);
+    length += block.length;
+  }
+  return parts.join("");
+}
+
+function splitChunks(text, size) {
+  const chunks = [];
+  for (let offset = 0; offset < text.length; offset += size) {
+    chunks.push(text.slice(offset, offset + size));
+  }
+  return chunks;
+}
+
+function createTerminal() {
+  return new Terminal({ cols: 120, rows: 40, scrollback: 5000, allowProposedApi: true, convertEol: true });
+}
+
+/** 分片按事件循环周期陆续到达；isPaused 为真时停止读取，resume 后继续 */
+function createSource(chunks, deliver) {
+  let index = 0;
+  let paused = false;
+  let scheduled = false;
+  let onDrained = () => {};
+  const drained = new Promise((resolveDrained) => (onDrained = resolveDrained));
+  const pump = () => {
+    scheduled = false;
+    let budget = CHUNKS_PER_TICK;
+    while (!paused && index < chunks.length && budget > 0) {
+      deliver(chunks[index]);
+      index += 1;
+      budget -= 1;
+    }
+    if (index >= chunks.length) {
+      onDrained();
+    } else if (!paused) {
+      schedule();
+    }
+  };
+  const schedule = () => {
+    if (!scheduled) {
+      scheduled = true;
+      setImmediate(pump);
+    }
+  };
+  return {
+    start: schedule,
+    drained,
+    setPaused(value) {
+      paused = value;
+      if (!paused) {
+        schedule();
+      }
+    },
+  };
+}
+
+/** 等待终端解析完此前写入的全部数据 */
+function waitParsed(terminal) {
+  return new Promise((resolveParsed) => terminal.write("", resolveParsed));
+}
+
+async function runPerChunk(chunks) {
+  const terminal = createTerminal();
+  const events = new EventTarget();
+  const stats = { events: 0, writes: 0, peakPending: 0 };
+  let pending = 0;
+  events.addEventListener("terminal:data", (event) => {
+    const data = event.detail.data;
+    stats.writes += 1;
+    pending += data.length;
+    stats.peakPending = Math.max(stats.peakPending, pending);
+    terminal.write(data, () => {
+      pending -= data.length;
+    });
+  });
+  const started = performance.now();
+  const source = createSource(chunks, (data) => {
+    stats.events += 1;
+    events.dispatchEvent(new CustomEvent("terminal:data", { detail: { id: "bench", data } }));
+  });
+  source.start();
+  await source.drained;
+  await waitParsed(terminal);
+  const elapsed = performance.now() - started;
+  terminal.dispose();
+  return { ...stats, elapsed, pauses: 0 };
+}
+
+async function runBatched(chunks, { OutputBatcher }, { OutputFlowController }) {
+  const terminal = createTerminal();
+  const events = new EventTarget();
+  const stats = { events: 0, writes: 0, peakPending: 0, pauses: 0 };
+  let source = null;
+  const flow = new OutputFlowController((paused) => {
+    if (paused) {
+      stats.pauses += 1;
+    }
+    source?.setPaused(paused);
+  });
+  events.addEventListener("terminal:data", (event) => {
+    stats.writes += 1;
+    flow.write(terminal, event.detail.data);
+    stats.peakPending = Math.max(stats.peakPending, flow.pendingChars);
+  });
+  const batcher = new OutputBatcher(
+    (id, data) => {
+      stats.events += 1;
+      events.dispatchEvent(new CustomEvent("terminal:data", { detail: { id, data } }));
+    },
+    (run) => {
+      const timer = setTimeout(run, FRAME_MS);
+      return () => clearTimeout(timer);
+    }
+  );
+  const started = performance.now();
+  source = createSource(chunks, (data) => batcher.push("bench", data));
+  source.start();
+  await source.drained;
+  batcher.flushAll();
+  await waitParsed(terminal);
+  const elapsed = performance.now() - started;
+  batcher.dispose();
+  flow.release();
+  terminal.dispose();
+  return { ...stats, elapsed };
+}
+
+function report(label, totalChars, result) {
+  const megabytes = totalChars / (1024 * 1024);
+  console.log(
+    [
+      label.padEnd(22),
+      `${result.elapsed.toFixed(0).padStart(7)} ms`,
+      `${(megabytes / (result.elapsed / 1000)).toFixed(2).padStart(7)} MB/s`,
+      `events ${String(result.events).padStart(6)}`,
+      `writes ${String(result.writes).padStart(6)}`,
+      `peak backlog ${(result.peakPending / 1024).toFixed(0).padStart(7)} KB`,
+      `pauses ${result.pauses}`,
+    ].join("  ")
+  );
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const capture = options.file ? loadCapture(options.file) : synthesizeCapture(options.sizeMb);
+  const chunks = splitChunks(capture, options.chunk);
+  const tempDir = mkdtempSync(join(tmpdir(), "pnet-bench-"));
+  try {
+    const batcherModule = await importTypeScript(tempDir, "lib/terminal/output-batcher.ts");
+    const flowModule = await importTypeScript(tempDir, "lib/terminal/output-flow.ts");
+    console.log(
+      `[pnet-tool] capture: ${options.file ?? "synthetic show tech"}, ${(capture.length / (1024 * 1024)).toFixed(1)} MB, ` +
+        `${chunks.length} chunks of ${options.chunk} B`
+    );
+    // 先预热一次解析器，避免 JIT 影响第一组结果
+    await runPerChunk(chunks.slice(0, 256));
+    report("per-chunk (before)", capture.length, await runPerChunk(chunks));
+    report("batched + flow control", capture.length, await runBatched(chunks, batcherModule, flowModule));
+    console.log("peak backlog 是已交给 xterm 但尚未解析的数据量，决定了界面卡顿的时长；渲染开销不在 headless 测量范围内。");
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.error("[pnet-tool] benchmark failed", error);
+  process.exit(1);
+});
@@ -1,6 +1,6 @@
 #![cfg_attr(not(debug_assertions), windows_subsystem = "windows")]
 
-use std::{collections::HashMap, io::Read, sync::{Arc, Mutex}};
+use std::{collections::HashMap, io::Read, sync::{Arc, Condvar, Mutex}};
 use tauri::{Emitter, Manager, State, Url};
 use serde::{Deserialize, Serialize};
 
@@ -32,6 +32,187 @@ struct PtyEntry {
   writer: Box<dyn std::io::Write + Send>,
 }
 
+// ===== Raw TCP channel for the TypeScript telnet engine =====
+#[derive(Default)]
+struct TcpRegistry(Mutex<HashMap<String, TcpChannel>>);
+// 写入端各自加锁，对端阻塞写入时只卡住本会话；control 是独立句柄，关闭时 shutdown 可打断阻塞中的写入
+struct TcpChannel {
+  writer: Arc<Mutex<std::net::TcpStream>>,
+  control: std::net::TcpStream,
+}
+
+// ===== Read flow control shared by PTY and TCP channels =====
+// 前端渲染跟不上时暂停读取：PTY 缓冲或 TCP 接收窗口填满后，对端自然放慢发送
+#[derive(Default)]
+struct ReadGate {
+  paused: Mutex<bool>,
+  resumed: Condvar,
+}
+
+impl ReadGate {
+  fn set_paused(&self, paused: bool) {
+    if let Ok(mut guard) = self.paused.lock() {
+      *guard = paused;
+    }
+    if !paused {
+      self.resumed.notify_all();
+    }
+  }
+
+  fn wait_while_paused(&self) {
+    let Ok(mut guard) = self.paused.lock() else { return };
+    while *guard {
+      guard = match self.resumed.wait(guard) {
+        Ok(guard) => guard,
+        Err(_) => return,
+      };
+    }
+  }
+}
+
+#[derive(Default)]
+struct ReadGates(Mutex<HashMap<String, Arc<ReadGate>>>);
+
+impl ReadGates {
+  fn open(&self, id: &str) -> Arc<ReadGate> {
+    let gate = Arc::new(ReadGate::default());
+    if let Ok(mut guard) = self.0.lock() {
+      guard.insert(id.to_string(), gate.clone());
+    }
+    gate
+  }
+
+  // 关闭通道时先放行，让阻塞在闸门上的读取线程退出
+  fn close(&self, id: &str) {
+    if let Ok(mut guard) = self.0.lock() {
+      if let Some(gate) = guard.remove(id) {
+        gate.set_paused(false);
+      }
+    }
+  }
+}
+
+// ===== Session metadata and scrollback that outlive the webview =====
+// 读取线程直接把原始字节写入环形缓冲，webview 重新加载后前端凭 list/describe/read_buffer 恢复会话
+const MIN_BUFFER_KB: usize = 64;
+const MAX_BUFFER_KB: usize = 8192;
+const DEFAULT_BUFFER_KB: usize = 512;
+
+struct SessionRecord {
+  kind: &'static str,
+  host: String,
+  port: u16,
+  label: Option<String>,
+  encoding: Option<String>,
+  prompt: Option<serde_json::Value>,
+  exited: bool,
+  buffer: std::collections::VecDeque<u8>,
+}
+
+impl SessionRecord {
+  // 超出上限时丢弃最旧的字节，并对齐到下一行开头，避免回放时出现半截转义序列
+  fn push(&mut self, bytes: &[u8], limit: usize) {
+    self.buffer.extend(bytes);
+    if self.buffer.len() <= limit {
+      return;
+    }
+    let overflow = self.buffer.len() - limit;
+    self.buffer.drain(..overflow);
+    if let Some(newline) = self.buffer.iter().position(|byte| *byte == b'\n') {
+      if newline + 1 < self.buffer.len() {
+        self.buffer.drain(..=newline);
+      }
+    }
+  }
+
+  fn info(&self, id: &str) -> SessionInfo {
+    SessionInfo {
+      id: id.to_string(),
+      kind: self.kind,
+      host: self.host.clone(),
+      port: self.port,
+      label: self.label.clone(),
+      encoding: self.encoding.clone(),
+      prompt: self.prompt.clone(),
+      exited: self.exited,
+    }
+  }
+}
+
+#[derive(Serialize)]
+struct SessionInfo {
+  id: String,
+  kind: &'static str,
+  host: String,
+  port: u16,
+  #[serde(skip_serializing_if = "Option::is_none")]
+  label: Option<String>,
+  #[serde(skip_serializing_if = "Option::is_none")]
+  encoding: Option<String>,
+  #[serde(skip_serializing_if = "Option::is_none")]
+  prompt: Option<serde_json::Value>,
+  exited: bool,
+}
+
+struct SessionTable {
+  records: HashMap<String, SessionRecord>,
+  limit: usize,
+}
+
+impl Default for SessionTable {
+  fn default() -> Self {
+    Self { records: HashMap::new(), limit: DEFAULT_BUFFER_KB * 1024 }
+  }
+}
+
+#[derive(Default)]
+struct SessionRegistry(Mutex<SessionTable>);
+
+impl SessionRegistry {
+  fn register(&self, id: &str, kind: &'static str, host: &str, port: u16) {
+    if let Ok(mut guard) = self.0.lock() {
+      guard.records.insert(id.to_string(), SessionRecord {
+        kind,
+        host: host.to_string(),
+        port,
+        label: None,
+        encoding: None,
+        prompt: None,
+        exited: false,
+        buffer: std::collections::VecDeque::new(),
+      });
+    }
+  }
+
+  // 只写入已登记的会话：释放后迟到的输出不能让条目复活
+  fn append(&self, id: &str, bytes: &[u8]) {
+    if let Ok(mut guard) = self.0.lock() {
+      let limit = guard.limit;
+      if let Some(record) = guard.records.get_mut(id) {
+        record.push(bytes, limit);
+      }
+    }
+  }
+
+  fn mark_exited(&self, id: &str) {
+    if let Ok(mut guard) = self.0.lock() {
+      if let Some(record) = guard.records.get_mut(id) {
+        record.exited = true;
+      }
+    }
+  }
+
+  fn remove(&self, id: &str) {
+    if let Ok(mut guard) = self.0.lock() {
+      guard.records.remove(id);
+    }
+  }
+}
+
+// ===== Session transcripts written to the user's documents folder =====
+#[derive(Default)]
+struct TranscriptRegistry(Mutex<HashMap<String, std::fs::File>>);
+
 fn parse_telnet_url(url: &str) -> Option<TelnetLaunchRequest> {
   // Accept formats like telnet://host or telnet://host:port
   // Be tolerant to cases where only host:port is passed (without scheme)
@@ -60,10 +241,19 @@ fn consume_pending_telnet_actions(state: State<Arc<PendingActions>>) -> Vec<Teln
 fn main() {
   let pending = Arc::new(PendingActions::default());
   let ptys = Arc::new(PtyRegistry::default());
+  let tcps = Arc::new(TcpRegistry::default());
+  let gates = Arc::new(ReadGates::default());
+  let sessions = Arc::new(SessionRegistry::default());
+  let transcripts = Arc::new(TranscriptRegistry::default());
 
   tauri::Builder::default()
     .manage(pending.clone())
     .manage(ptys.clone())
+    .manage(tcps.clone())
+    .manage(gates.clone())
+    .manage(sessions.clone())
+    .manage(transcripts.clone())
+    .plugin(tauri_plugin_notification::init())
     .plugin(tauri_plugin_process::init())
     .plugin(tauri_plugin_shell::init())
     .plugin(tauri_plugin_single_instance::init(|app, argv, _cwd| {
@@ -105,14 +295,32 @@ fn main() {
       start_pty,
       write_pty,
       resize_pty,
-      kill_pty
+      kill_pty,
+      tcp_connect,
+      tcp_write,
+      tcp_close,
+      set_read_paused,
+      list_sessions,
+      describe,
+      read_buffer,
+      session_update,
+      session_adopt,
+      set_buffer_limit,
+      transcript_open,
+      transcript_write,
+      transcript_write_bytes,
+      transcript_close,
+      recording_open,
+      recording_list,
+      recording_read,
+      recording_delete
     ])
     .run(tauri::generate_context!())
     .expect("error while running tauri application");
 }
 
 #[tauri::command]
-async fn start_pty(app: tauri::AppHandle, state: State<'_, Arc<PtyRegistry>>, host: String, port: Option<u16>, cols: Option<u16>, rows: Option<u16>) -> Result<String, String> {
+async fn start_pty(app: tauri::AppHandle, state: State<'_, Arc<PtyRegistry>>, gates: State<'_, Arc<ReadGates>>, sessions: State<'_, Arc<SessionRegistry>>, host: String, port: Option<u16>, cols: Option<u16>, rows: Option<u16>) -> Result<String, String> {
   let mut cmd = CommandBuilder::new("telnet");
   cmd.arg(&host);
   cmd.arg(port.unwrap_or(23).to_string());
@@ -131,20 +339,29 @@ async fn start_pty(app: tauri::AppHandle, state: State<'_, Arc<PtyRegistry>>, ho
     let mut guard = state.0.lock().map_err(|_| "lock ptys".to_string())?;
     guard.insert(id.clone(), PtyEntry { child, pair, writer });
   }
+  sessions.register(&id, "pty", &host, port.unwrap_or(23));
 
   let app_handle = app.clone();
   let id_clone = id.clone();
+  let gate = gates.open(&id);
+  let gates = gates.inner().clone();
+  let sessions = sessions.inner().clone();
   std::thread::spawn(move || {
     let mut buf = [0u8; 8192];
     loop {
+      gate.wait_while_paused();
       match reader.read(&mut buf) {
         Ok(0) => break,
         Ok(n) => {
-          let _ = app_handle.emit("pty://data", &PtyData { id: id_clone.clone(), data: String::from_utf8_lossy(&buf[..n]).to_string() });
+          // 原样转发字节，由前端按会话编码流式解码
+          sessions.append(&id_clone, &buf[..n]);
+          let _ = app_handle.emit("pty://data", &PtyData { id: id_clone.clone(), data: buf[..n].to_vec() });
         }
         Err(_) => break,
       }
     }
+    gates.close(&id_clone);
+    sessions.mark_exited(&id_clone);
     let _ = app_handle.emit("pty://exit", &PtyExit { id: id_clone.clone() });
   });
 
@@ -152,17 +369,17 @@ async fn start_pty(app: tauri::AppHandle, state: State<'_, Arc<PtyRegistry>>, ho
 }
 
 #[derive(Serialize)]
-struct PtyData { id: String, data: String }
+struct PtyData { id: String, data: Vec<u8> }
 
 #[derive(Serialize)]
 struct PtyExit { id: String }
 
 #[tauri::command]
-async fn write_pty(state: State<'_, Arc<PtyRegistry>>, id: String, data: String) -> Result<(), String> {
+async fn write_pty(state: State<'_, Arc<PtyRegistry>>, id: String, data: Vec<u8>) -> Result<(), String> {
   let mut guard = state.0.lock().map_err(|_| "lock ptys".to_string())?;
   let entry = guard.get_mut(&id).ok_or_else(|| "pty not found".to_string())?;
   use std::io::Write;
-  entry.writer.write_all(data.as_bytes()).map_err(|e| format!("write: {e}"))?;
+  entry.writer.write_all(&data).map_err(|e| format!("write: {e}"))?;
   Ok(())
 }
 
@@ -175,10 +392,326 @@ async fn resize_pty(state: State<'_, Arc<PtyRegistry>>, id: String, cols: u16, r
 }
 
 #[tauri::command]
-async fn kill_pty(state: State<'_, Arc<PtyRegistry>>, id: String) -> Result<(), String> {
+async fn kill_pty(state: State<'_, Arc<PtyRegistry>>, gates: State<'_, Arc<ReadGates>>, sessions: State<'_, Arc<SessionRegistry>>, id: String) -> Result<(), String> {
+  gates.close(&id);
+  sessions.remove(&id);
   let mut guard = state.0.lock().map_err(|_| "lock ptys".to_string())?;
   if let Some(mut entry) = guard.remove(&id) {
     let _ = entry.child.kill();
   }
   Ok(())
 }
+
+#[derive(Serialize, Clone)]
+struct TcpData { id: String, data: Vec<u8> }
+
+#[derive(Serialize, Clone)]
+struct TcpClose {
+  id: String,
+  #[serde(skip_serializing_if = "Option::is_none")]
+  message: Option<String>,
+}
+
+#[tauri::command]
+async fn tcp_connect(app: tauri::AppHandle, state: State<'_, Arc<TcpRegistry>>, gates: State<'_, Arc<ReadGates>>, sessions: State<'_, Arc<SessionRegistry>>, id: String, host: String, port: Option<u16>) -> Result<(), String> {
+  use std::net::ToSocketAddrs;
+  let port = port.unwrap_or(23);
+  let target = host.clone();
+  let stream = tauri::async_runtime::spawn_blocking(move || -> Result<std::net::TcpStream, String> {
+    let addrs = (host.as_str(), port).to_socket_addrs().map_err(|e| format!("resolve {host}: {e}"))?;
+    let mut last_error = format!("no address for {host}");
+    for addr in addrs {
+      match std::net::TcpStream::connect_timeout(&addr, std::time::Duration::from_secs(10)) {
+        Ok(stream) => return Ok(stream),
+        Err(e) => last_error = format!("connect {addr}: {e}"),
+      }
+    }
+    Err(last_error)
+  })
+  .await
+  .map_err(|e| format!("connect task: {e}"))??;
+
+  let _ = stream.set_nodelay(true);
+  let mut reader = stream.try_clone().map_err(|e| format!("clone stream: {e}"))?;
+  let control = stream.try_clone().map_err(|e| format!("clone stream: {e}"))?;
+  {
+    let mut guard = state.0.lock().map_err(|_| "lock tcp".to_string())?;
+    guard.insert(id.clone(), TcpChannel { writer: Arc::new(Mutex::new(stream)), control });
+  }
+  sessions.register(&id, "tcp", &target, port);
+
+  let registry = state.inner().clone();
+  let gate = gates.open(&id);
+  let gates = gates.inner().clone();
+  let sessions = sessions.inner().clone();
+  std::thread::spawn(move || {
+    let mut buf = [0u8; 8192];
+    let mut message: Option<String> = None;
+    loop {
+      gate.wait_while_paused();
+      match reader.read(&mut buf) {
+        Ok(0) => break,
+        Ok(n) => {
+          sessions.append(&id, &buf[..n]);
+          let _ = app.emit("tcp://data", &TcpData { id: id.clone(), data: buf[..n].to_vec() });
+        }
+        Err(e) => {
+          if e.kind() == std::io::ErrorKind::Interrupted {
+            continue;
+          }
+          message = Some(e.to_string());
+          break;
+        }
+      }
+    }
+    if let Ok(mut guard) = registry.0.lock() {
+      guard.remove(&id);
+    }
+    gates.close(&id);
+    sessions.mark_exited(&id);
+    let _ = app.emit("tcp://close", &TcpClose { id, message });
+  });
+
+  Ok(())
+}
+
+#[tauri::command]
+async fn tcp_write(state: State<'_, Arc<TcpRegistry>>, id: String, data: Vec<u8>) -> Result<(), String> {
+  use std::io::Write;
+  // 取出本会话的写入端后立即释放登记表锁，再进行可能阻塞的写入
+  let writer = {
+    let guard = state.0.lock().map_err(|_| "lock tcp".to_string())?;
+    guard.get(&id).ok_or_else(|| "tcp channel not found".to_string())?.writer.clone()
+  };
+  let mut stream = writer.lock().map_err(|_| "lock tcp channel".to_string())?;
+  stream.write_all(&data).map_err(|e| format!("write: {e}"))?;
+  Ok(())
+}
+
+#[tauri::command]
+async fn tcp_close(state: State<'_, Arc<TcpRegistry>>, gates: State<'_, Arc<ReadGates>>, sessions: State<'_, Arc<SessionRegistry>>, id: String) -> Result<(), String> {
+  gates.close(&id);
+  sessions.remove(&id);
+  let channel = {
+    let mut guard = state.0.lock().map_err(|_| "lock tcp".to_string())?;
+    guard.remove(&id)
+  };
+  if let Some(channel) = channel {
+    let _ = channel.control.shutdown(std::net::Shutdown::Both);
+  }
+  Ok(())
+}
+
+#[tauri::command]
+async fn set_read_paused(gates: State<'_, Arc<ReadGates>>, id: String, paused: bool) -> Result<(), String> {
+  let guard = gates.0.lock().map_err(|_| "lock read gates".to_string())?;
+  if let Some(gate) = guard.get(&id) {
+    gate.set_paused(paused);
+  }
+  Ok(())
+}
+
+#[tauri::command]
+async fn list_sessions(sessions: State<'_, Arc<SessionRegistry>>) -> Result<Vec<SessionInfo>, String> {
+  let guard = sessions.0.lock().map_err(|_| "lock sessions".to_string())?;
+  Ok(guard.records.iter().map(|(id, record)| record.info(id)).collect())
+}
+
+#[tauri::command]
+async fn describe(sessions: State<'_, Arc<SessionRegistry>>, id: String) -> Result<Option<SessionInfo>, String> {
+  let guard = sessions.0.lock().map_err(|_| "lock sessions".to_string())?;
+  Ok(guard.records.get(&id).map(|record| record.info(&id)))
+}
+
+// 以二进制响应返回原始字节，避免把数 MB 的缓冲序列化成 JSON 数组
+#[tauri::command]
+async fn read_buffer(sessions: State<'_, Arc<SessionRegistry>>, id: String) -> Result<tauri::ipc::Response, String> {
+  let guard = sessions.0.lock().map_err(|_| "lock sessions".to_string())?;
+  let bytes: Vec<u8> = guard.records.get(&id).map(|record| record.buffer.iter().copied().collect()).unwrap_or_default();
+  Ok(tauri::ipc::Response::new(bytes))
+}
+
+#[tauri::command]
+async fn session_update(sessions: State<'_, Arc<SessionRegistry>>, id: String, label: Option<String>, encoding: Option<String>, prompt: Option<serde_json::Value>) -> Result<(), String> {
+  let mut guard = sessions.0.lock().map_err(|_| "lock sessions".to_string())?;
+  let record = guard.records.get_mut(&id).ok_or_else(|| "session not found".to_string())?;
+  if let Some(label) = label.filter(|value| !value.trim().is_empty()) {
+    record.label = Some(label.trim().to_string());
+  }
+  if encoding.is_some() {
+    record.encoding = encoding;
+  }
+  if prompt.is_some() {
+    record.prompt = prompt;
+  }
+  Ok(())
+}
+
+// 重连后新会话沿用旧会话的缓冲；两者字节格式不同（TCP 含 IAC 协商、PTY 为客户端输出）时不合并
+#[tauri::command]
+async fn session_adopt(sessions: State<'_, Arc<SessionRegistry>>, previous_id: String, id: String) -> Result<(), String> {
+  if previous_id == id {
+    return Ok(());
+  }
+  let mut guard = sessions.0.lock().map_err(|_| "lock sessions".to_string())?;
+  let Some(previous) = guard.records.remove(&previous_id) else { return Ok(()) };
+  let limit = guard.limit;
+  if let Some(record) = guard.records.get_mut(&id) {
+    if record.kind == previous.kind {
+      let pending: Vec<u8> = record.buffer.drain(..).collect();
+      record.buffer = previous.buffer;
+      record.push(&pending, limit);
+    }
+  }
+  Ok(())
+}
+
+#[tauri::command]
+async fn set_buffer_limit(sessions: State<'_, Arc<SessionRegistry>>, limit_kb: usize) -> Result<(), String> {
+  let mut guard = sessions.0.lock().map_err(|_| "lock sessions".to_string())?;
+  let limit = limit_kb.clamp(MIN_BUFFER_KB, MAX_BUFFER_KB) * 1024;
+  guard.limit = limit;
+  for record in guard.records.values_mut() {
+    record.push(&[], limit);
+  }
+  Ok(())
+}
+
+fn documents_subdir(app: &tauri::AppHandle, name: &str) -> Result<std::path::PathBuf, String> {
+  let base = app
+    .path()
+    .document_dir()
+    .or_else(|_| app.path().app_data_dir())
+    .map_err(|e| format!("resolve {name} dir: {e}"))?;
+  let dir = base.join("pnet-tool").join(name);
+  std::fs::create_dir_all(&dir).map_err(|e| format!("create {}: {e}", dir.display()))?;
+  Ok(dir)
+}
+
+fn transcript_dir(app: &tauri::AppHandle) -> Result<std::path::PathBuf, String> {
+  documents_subdir(app, "transcripts")
+}
+
+fn recording_dir(app: &tauri::AppHandle) -> Result<std::path::PathBuf, String> {
+  documents_subdir(app, "recordings")
+}
+
+// 只接受文件名，防止读写目录之外的文件
+fn bare_file_name(file_name: &str) -> Result<std::ffi::OsString, String> {
+  std::path::Path::new(file_name)
+    .file_name()
+    .map(|name| name.to_owned())
+    .ok_or_else(|| "invalid file name".to_string())
+}
+
+#[derive(Serialize)]
+struct TranscriptHandle { id: String, path: String }
+
+#[tauri::command]
+async fn transcript_open(app: tauri::AppHandle, state: State<'_, Arc<TranscriptRegistry>>, file_name: String) -> Result<TranscriptHandle, String> {
+  let path = transcript_dir(&app)?.join(bare_file_name(&file_name)?);
+  let file = std::fs::OpenOptions::new()
+    .create(true)
+    .append(true)
+    .open(&path)
+    .map_err(|e| format!("open {}: {e}", path.display()))?;
+  let id = nanoid::nanoid!();
+  let mut guard = state.0.lock().map_err(|_| "lock transcripts".to_string())?;
+  guard.insert(id.clone(), file);
+  Ok(TranscriptHandle { id, path: path.display().to_string() })
+}
+
+#[tauri::command]
+async fn transcript_write(state: State<'_, Arc<TranscriptRegistry>>, id: String, data: String) -> Result<(), String> {
+  use std::io::Write;
+  let mut guard = state.0.lock().map_err(|_| "lock transcripts".to_string())?;
+  let file = guard.get_mut(&id).ok_or_else(|| "transcript not found".to_string())?;
+  file.write_all(data.as_bytes()).map_err(|e| format!("write: {e}"))?;
+  Ok(())
+}
+
+// raw 日志：设备输出的原始字节，不做任何编码转换
+#[tauri::command]
+async fn transcript_write_bytes(state: State<'_, Arc<TranscriptRegistry>>, id: String, data: Vec<u8>) -> Result<(), String> {
+  use std::io::Write;
+  let mut guard = state.0.lock().map_err(|_| "lock transcripts".to_string())?;
+  let file = guard.get_mut(&id).ok_or_else(|| "transcript not found".to_string())?;
+  file.write_all(&data).map_err(|e| format!("write: {e}"))?;
+  Ok(())
+}
+
+#[tauri::command]
+async fn transcript_close(state: State<'_, Arc<TranscriptRegistry>>, id: String) -> Result<(), String> {
+  use std::io::Write;
+  let mut guard = state.0.lock().map_err(|_| "lock transcripts".to_string())?;
+  if let Some(mut file) = guard.remove(&id) {
+    let _ = file.flush();
+  }
+  Ok(())
+}
+
+// ===== Asciicast recordings: written through the transcript registry, listed and replayed by the frontend =====
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+struct RecordingEntry { file_name: String, path: String, size: u64, modified_at: u64, header: String }
+
+#[tauri::command]
+async fn recording_open(app: tauri::AppHandle, state: State<'_, Arc<TranscriptRegistry>>, file_name: String) -> Result<TranscriptHandle, String> {
+  let path = recording_dir(&app)?.join(bare_file_name(&file_name)?);
+  let file = std::fs::OpenOptions::new()
+    .create(true)
+    .write(true)
+    .truncate(true)
+    .open(&path)
+    .map_err(|e| format!("open {}: {e}", path.display()))?;
+  let id = nanoid::nanoid!();
+  let mut guard = state.0.lock().map_err(|_| "lock transcripts".to_string())?;
+  guard.insert(id.clone(), file);
+  Ok(TranscriptHandle { id, path: path.display().to_string() })
+}
+
+#[tauri::command]
+async fn recording_list(app: tauri::AppHandle) -> Result<Vec<RecordingEntry>, String> {
+  use std::io::BufRead;
+  let dir = recording_dir(&app)?;
+  let mut entries = Vec::new();
+  for item in std::fs::read_dir(&dir).map_err(|e| format!("read {}: {e}", dir.display()))? {
+    let Ok(item) = item else { continue };
+    let path = item.path();
+    if path.extension().and_then(|ext| ext.to_str()) != Some("cast") {
+      continue;
+    }
+    let Ok(metadata) = item.metadata() else { continue };
+    // 头部是首行 JSON，列表只需读这一行
+    let mut header = String::new();
+    if let Ok(file) = std::fs::File::open(&path) {
+      let _ = std::io::BufReader::new(file).read_line(&mut header);
+    }
+    let modified_at = metadata
+      .modified()
+      .ok()
+      .and_then(|time| time.duration_since(std::time::UNIX_EPOCH).ok())
+      .map(|duration| duration.as_millis() as u64)
+      .unwrap_or(0);
+    entries.push(RecordingEntry {
+      file_name: item.file_name().to_string_lossy().to_string(),
+      path: path.display().to_string(),
+      size: metadata.len(),
+      modified_at,
+      header: header.trim_end().to_string(),
+    });
+  }
+  Ok(entries)
+}
+
+#[tauri::command]
+async fn recording_read(app: tauri::AppHandle, file_name: String) -> Result<String, String> {
+  let path = recording_dir(&app)?.join(bare_file_name(&file_name)?);
+  std::fs::read_to_string(&path).map_err(|e| format!("read {}: {e}", path.display()))
+}
+
+#[tauri::command]
+async fn recording_delete(app: tauri::AppHandle, file_name: String) -> Result<(), String> {
+  let path = recording_dir(&app)?.join(bare_file_name(&file_name)?);
+  std::fs::remove_file(&path).map_err(|e| format!("remove {}: {e}", path.display()))
+}
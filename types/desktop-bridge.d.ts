@@ -10,8 +10,14 @@ export type TerminalCreateOptions = {
   port?: number;
   label?: string;
   dimensions?: TerminalDimensions;
+  /** 重连时传入已退出的旧会话 ID，新会话将沿用其输出缓冲 */
+  resumeFrom?: string;
+  /** 会话字符编码，缺省时使用终端设置中的默认编码 */
+  encoding?: TerminalEncoding;
 };
 
+export type TerminalEncoding = "utf-8" | "gbk" | "gb18030" | "big5" | "latin1";
+
 export type TerminalCreateResult = { id: string };
 
 export type TerminalAttachOptions = { id: string; dimensions?: TerminalDimensions };
@@ -21,12 +27,24 @@ export type TerminalDescribeResult = {
   host?: string;
   port?: number;
   label?: string;
+  exited?: boolean;
+  prompt?: TerminalPromptInfo;
+  encoding?: TerminalEncoding;
 };
 
 export type TerminalDataPayload = { id: string; data: string };
+/** 设备输出的原始字节（内置引擎为去除 IAC 后的数据区），尚未按会话编码解码 */
+export type TerminalRawDataPayload = { id: string; data: Uint8Array };
 export type TerminalExitPayload = { id: string; exitCode: number | null; signal: number | null };
 export type TerminalErrorPayload = { id: string; message: string };
 export type TerminalLabelPayload = { id: string; label?: string; host?: string; port?: number };
+export type TerminalPromptInfo = {
+  vendor: string;
+  hostname: string;
+  mode: "user-exec" | "privileged" | "global-config" | "sub-config";
+  context?: string;
+};
+export type TerminalPromptPayload = TerminalPromptInfo & { id: string };
 
 export type WindowStatePayload = {
   isMaximized: boolean;
@@ -47,20 +65,164 @@ export type TerminalPreferences = {
   fontSize: number;
   lineHeight: number;
   letterSpacing: number;
+  scrollback: number;
+  bufferSizeKb: number;
+  transcriptFormat: "plain" | "raw" | "html";
+  transcriptAutoStart: boolean;
+  autoReconnect: boolean;
+  reconnectMaxAttempts: number;
+  pastePacing: "delay" | "prompt";
+  pasteLineDelayMs: number;
+  defaultEncoding: TerminalEncoding;
+  lineTimestamps: boolean;
+  lineTimestampFormat: "wall-clock" | "relative";
+  renderer: "dom" | "canvas" | "webgl";
+};
+
+/** 会话/设备级外观覆盖，未设置的字段沿用全局终端设置 */
+export type TerminalAppearanceOverridesRecord = {
+  fontFamily?: string;
+  fontSize?: number;
+  colorSchemeId?: string;
+  scrollback?: number;
 };
 
 export type RecentConnection = { host: string; port: number; label: string; lastConnectedAt: number };
 
+export type SnippetRecord = { id: string; vendor: string; name: string; body: string; description?: string };
+
+export type AutomationScriptRecord = { id: string; name: string; source: string; description?: string };
+
+export type HighlightRuleRecord = {
+  id: string;
+  name: string;
+  pattern: string;
+  flags: string;
+  foreground?: string;
+  background?: string;
+  bold: boolean;
+  enabled: boolean;
+};
+
+export type TriggerRuleRecord = {
+  id: string;
+  name: string;
+  pattern: string;
+  flags: string;
+  /** host:port，为空时对所有会话生效 */
+  device?: string;
+  notify: boolean;
+  flashTab: boolean;
+  response?: string;
+  enabled: boolean;
+};
+
+export type CommandHistoryRecord = {
+  id: string;
+  /** 识别出的主机名，未识别时为 host:port */
+  device: string;
+  command: string;
+  /** 记录时提示符识别出的厂商，用于“存为片段”时选择分组 */
+  vendor?: string;
+  lastUsedAt: number;
+  useCount: number;
+};
+
+export type ColorSchemeRecord = {
+  id: string;
+  name: string;
+  background: string;
+  foreground: string;
+  cursor: string;
+  selection: string;
+  black: string;
+  red: string;
+  green: string;
+  yellow: string;
+  blue: string;
+  magenta: string;
+  cyan: string;
+  white: string;
+  brightBlack: string;
+  brightRed: string;
+  brightGreen: string;
+  brightYellow: string;
+  brightBlue: string;
+  brightMagenta: string;
+  brightCyan: string;
+  brightWhite: string;
+};
+
+export type ColorSchemeSettings = {
+  /** 仅保存用户自定义方案，内置方案不持久化 */
+  schemes: ColorSchemeRecord[];
+  lightSchemeId: string;
+  darkSchemeId: string;
+};
+
+/** 快捷键动作 -> 组合键（如 "Ctrl+Shift+F"），null 表示已解绑 */
+export type ShortcutBindingsRecord = Record<string, string | null>;
+
 export type AppSettings = {
   preferredLocale: string;
   terminal: TerminalPreferences;
+  /** host:port -> 外观覆盖 */
+  terminalProfiles?: Record<string, TerminalAppearanceOverridesRecord>;
   recentConnections: RecentConnection[];
+  snippets?: SnippetRecord[];
+  automationScripts?: AutomationScriptRecord[];
+  highlightRules?: HighlightRuleRecord[];
+  triggerRules?: TriggerRuleRecord[];
+  commandHistory?: CommandHistoryRecord[];
+  colorSchemes?: ColorSchemeSettings;
+  shortcuts?: ShortcutBindingsRecord;
 };
 
 export type SettingsUpdateResult = { ok: boolean; updated: boolean; locale?: string; error?: string };
 export type TerminalSettingsUpdateResult = { ok: boolean; updated: boolean; settings?: TerminalPreferences; error?: string };
+export type TerminalProfilesUpdateResult = {
+  ok: boolean;
+  updated: boolean;
+  profiles: Record<string, TerminalAppearanceOverridesRecord>;
+  error?: string;
+};
+export type SnippetsUpdateResult = { ok: boolean; updated: boolean; snippets: SnippetRecord[]; error?: string };
+export type AutomationScriptsUpdateResult = { ok: boolean; updated: boolean; scripts: AutomationScriptRecord[]; error?: string };
+export type HighlightRulesUpdateResult = { ok: boolean; updated: boolean; rules: HighlightRuleRecord[]; error?: string };
+export type TriggerRulesUpdateResult = { ok: boolean; updated: boolean; rules: TriggerRuleRecord[]; error?: string };
+export type CommandHistoryUpdateResult = { ok: boolean; updated: boolean; entries: CommandHistoryRecord[]; error?: string };
+export type ColorSchemesUpdateResult = { ok: boolean; updated: boolean; colorSchemes: ColorSchemeSettings; error?: string };
+export type ShortcutsUpdateResult = { ok: boolean; updated: boolean; shortcuts: ShortcutBindingsRecord; error?: string };
 export type RecentConnectionsUpdateResult = { ok: boolean; updated: boolean; connections: RecentConnection[]; error?: string };
 
+export type TranscriptHandle = { id: string; path: string };
+
+export interface DesktopBridgeTranscriptApi {
+  open: (fileName: string) => Promise<TranscriptHandle>;
+  write: (id: string, data: string) => Promise<void>;
+  /** raw 格式日志：按字节原样写入 */
+  writeBytes: (id: string, data: Uint8Array) => Promise<void>;
+  close: (id: string) => Promise<void>;
+}
+
+export type RecordingFileEntry = {
+  fileName: string;
+  path: string;
+  size: number;
+  modifiedAt: number;
+  /** .cast 文件首行的 JSON 头部 */
+  header: string;
+};
+
+export interface DesktopBridgeRecordingApi {
+  open: (fileName: string) => Promise<TranscriptHandle>;
+  write: (id: string, data: string) => Promise<void>;
+  close: (id: string) => Promise<void>;
+  list: () => Promise<RecordingFileEntry[]>;
+  read: (fileName: string) => Promise<string>;
+  remove: (fileName: string) => Promise<void>;
+}
+
 export interface DesktopBridgeWindowApi {
   minimize: () => void;
   toggleMaximize: () => Promise<WindowStatePayload>;
@@ -69,19 +231,30 @@ export interface DesktopBridgeWindowApi {
   onStateChange: (callback: (payload: WindowStatePayload) => void) => () => void;
 }
 
+export type TerminalSignal = "break" | "ayt" | "interrupt" | "abort-output" | "erase-line";
+
 export interface DesktopBridgeTerminalApi {
   createTelnetSession: (options: TerminalCreateOptions) => Promise<TerminalCreateResult>;
   write: (id: string, data: string) => void;
   resize: (id: string, dimensions: TerminalDimensions) => void;
   dispose: (id: string) => Promise<boolean>;
-  sendSignal: (id: string, signal: string) => void;
+  /** 发送 Telnet 特殊命令（IAC BRK / AYT / IP / AO / EL），返回是否已发送 */
+  sendSignal: (id: string, signal: TerminalSignal) => Promise<boolean>;
+  /** 切换会话字符编码，已接收的残留字节按旧编码输出 */
+  setEncoding: (id: string, encoding: TerminalEncoding) => Promise<boolean>;
   attach: (options: TerminalAttachOptions) => Promise<boolean>;
   describe: (id: string) => Promise<TerminalDescribeResult | null>;
+  /** 仍在运行的会话 */
+  list: () => Promise<TerminalDescribeResult[]>;
   readBuffer: (id: string) => Promise<string>;
+  /** 终端解析跟不上时暂停/恢复从设备读取（流控），不支持的会话忽略 */
+  setReadPaused: (id: string, paused: boolean) => Promise<void>;
   onData: (callback: (payload: TerminalDataPayload) => void) => () => void;
+  onRawData: (callback: (payload: TerminalRawDataPayload) => void) => () => void;
   onExit: (callback: (payload: TerminalExitPayload) => void) => () => void;
   onError: (callback: (payload: TerminalErrorPayload) => void) => () => void;
   onLabel: (callback: (payload: TerminalLabelPayload) => void) => () => void;
+  onPrompt: (callback: (payload: TerminalPromptPayload) => void) => () => void;
 }
 
 export interface DesktopBridge {
@@ -90,6 +263,8 @@ export interface DesktopBridge {
   restart: () => Promise<boolean>;
   terminal: DesktopBridgeTerminalApi;
   window?: DesktopBridgeWindowApi;
+  transcripts?: DesktopBridgeTranscriptApi;
+  recordings?: DesktopBridgeRecordingApi;
   telnet?: {
     ready: () => Promise<TelnetAction[]>;
     onRequests: (callback: (payload: TelnetAction[]) => void) => () => void;
@@ -101,8 +276,16 @@ export interface DesktopBridge {
     get: () => Promise<AppSettings>;
     setPreferredLocale: (locale: string) => Promise<SettingsUpdateResult>;
     setTerminalPreferences: (settings: Partial<TerminalPreferences>) => Promise<TerminalSettingsUpdateResult>;
+    setTerminalProfiles: (profiles: Record<string, TerminalAppearanceOverridesRecord>) => Promise<TerminalProfilesUpdateResult>;
     addRecentConnection: (connection: { host: string; port?: number; label?: string }) => Promise<RecentConnectionsUpdateResult>;
     clearRecentConnections: () => Promise<RecentConnectionsUpdateResult>;
+    setSnippets: (snippets: SnippetRecord[]) => Promise<SnippetsUpdateResult>;
+    setAutomationScripts: (scripts: AutomationScriptRecord[]) => Promise<AutomationScriptsUpdateResult>;
+    setHighlightRules: (rules: HighlightRuleRecord[]) => Promise<HighlightRulesUpdateResult>;
+    setTriggerRules: (rules: TriggerRuleRecord[]) => Promise<TriggerRulesUpdateResult>;
+    setCommandHistory: (entries: CommandHistoryRecord[]) => Promise<CommandHistoryUpdateResult>;
+    setColorSchemes: (colorSchemes: ColorSchemeSettings) => Promise<ColorSchemesUpdateResult>;
+    setShortcuts: (shortcuts: ShortcutBindingsRecord) => Promise<ShortcutsUpdateResult>;
   };
 }
 